@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async rewrites() {
+    return [
+      // Certificate signing keys at the conventional discovery path
+      { source: "/.well-known/jwks.json", destination: "/api/certificates/jwks" },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,57 @@
+/**
+ * Deep-Check · Feature fixture check
+ *
+ * Runs extractFeatureVector (src/lib/biometricFeatures.ts, on top of
+ * biometricStats.ts) over every case in public/models/feature_fixtures.json
+ * and compares each raw feature with its golden value.
+ *
+ *   npm run features:verify
+ *
+ * Exits 1 on any mismatch. The TypeScript is transpiled with the project's
+ * own `typescript` package, so nothing beyond devDependencies is needed.
+ */
+
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import ts from 'typescript'
+
+const ROOT     = path.resolve(import.meta.dirname, '..')
+const FIXTURES = path.join(ROOT, 'public', 'models', 'feature_fixtures.json')
+const MODULES  = ['biometricStats', 'biometricFeatures']
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dc-features-'))
+try {
+    for (const name of MODULES) {
+        const source = fs.readFileSync(path.join(ROOT, 'src', 'lib', `${name}.ts`), 'utf8')
+        const { outputText } = ts.transpileModule(source, {
+            compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+        })
+        // Relative imports need an extension once they are plain ES modules
+        const js = outputText.replace(/from '\.\/(\w+)'/g, "from './$1.mjs'")
+        fs.writeFileSync(path.join(outDir, `${name}.mjs`), js)
+    }
+
+    const { extractFeatureVector, FEATURE_NAMES } = await import(pathToFileURL(path.join(outDir, 'biometricFeatures.mjs')).href)
+    const { tolerance, cases } = JSON.parse(fs.readFileSync(FIXTURES, 'utf8'))
+
+    let failures = 0
+    for (const c of cases) {
+        const { raw } = extractFeatureVector(c.input)
+        const wrong = FEATURE_NAMES.filter(f => {
+            const want = c.expected[f]
+            return Math.abs(raw[f] - want) > tolerance * Math.max(1, Math.abs(want))
+        })
+        failures += wrong.length
+        console.log(`${wrong.length ? '✗' : '✓'} ${c.name}`)
+        for (const f of wrong) console.log(`    ${f}: got ${raw[f]}, expected ${c.expected[f]}`)
+    }
+
+    console.log(failures
+        ? `\n${failures} feature value(s) differ from the training definitions`
+        : `\nAll ${cases.length} fixtures match (${FEATURE_NAMES.length} features, tolerance ${tolerance})`)
+    process.exitCode = failures ? 1 : 0
+} finally {
+    fs.rmSync(outDir, { recursive: true, force: true })
+}
@@ -0,0 +1,53 @@
+/**
+ * Deep-Check · Local webhook receiver
+ *
+ * Prints every delivery and checks its X-DeepCheck-Signature, which signs
+ * `${X-DeepCheck-Timestamp}.${raw body}`; timestamps over 5 minutes off are refused.
+ *
+ *   DEEPCHECK_WEBHOOK_SECRET=whsec_... npm run webhooks:listen
+ *   PORT=4000 (default) — point the API key's webhookUrl at http://localhost:4000/webhook
+ *   FAIL_RATE=0.5       — answer 500 to a fraction of requests to exercise retries
+ */
+
+import crypto from 'node:crypto'
+import http from 'node:http'
+
+const PORT      = Number(process.env.PORT) || 4000
+const SECRET    = process.env.DEEPCHECK_WEBHOOK_SECRET
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0
+const TOLERANCE_S = 5 * 60
+
+function verify(body, header, timestamp) {
+    if (!SECRET) return null
+    if (!/^\d+$/.test(timestamp ?? '') || Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_S) return false
+    const expected = Buffer.from('sha256=' + crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex'))
+    const given = Buffer.from(header ?? '')
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+http.createServer((req, res) => {
+    const chunks = []
+    req.on('data', c => chunks.push(c))
+    req.on('end', () => {
+        const body = Buffer.concat(chunks)
+        const valid = verify(body, req.headers['x-deepcheck-signature'], req.headers['x-deepcheck-timestamp'])
+        let event = null
+        try { event = JSON.parse(body.toString('utf8')) } catch { /* not JSON */ }
+
+        const fail = Math.random() < FAIL_RATE
+        console.log(
+            `${new Date().toISOString()}  ${req.method} ${req.url}`,
+            `\n  event:     ${req.headers['x-deepcheck-event'] ?? '-'} (${event?.id ?? 'no id'})`,
+            `\n  delivery:  ${req.headers['x-deepcheck-delivery'] ?? '-'}`,
+            `\n  signature: ${valid === null ? 'not checked (no DEEPCHECK_WEBHOOK_SECRET)' : valid ? 'valid' : 'INVALID'}`,
+            `\n  data.id:   ${event?.data?.id ?? '-'}  status: ${event?.data?.status ?? '-'}`,
+            fail ? '\n  → answering 500 (FAIL_RATE)' : '',
+        )
+
+        res.writeHead(valid === false ? 401 : fail ? 500 : 200, { 'Content-Type': 'text/plain' })
+        res.end(valid === false ? 'invalid signature' : fail ? 'simulated failure' : 'ok')
+    })
+}).listen(PORT, () => {
+    console.log(`Deep-Check webhook receiver on http://localhost:${PORT}/webhook`)
+    if (!SECRET) console.log('DEEPCHECK_WEBHOOK_SECRET not set — signatures will not be checked')
+})
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAssessmentById, saveAssessment } from '@/lib/db';
+import { issueCertificate } from '@/lib/certificates';
+import { appendIncidents, getIncidentLog, reviewDrafts } from '@/lib/incidents';
+import { dispatchSessionReviewed } from '@/lib/webhooks';
 
 export async function GET(
     request: NextRequest,
@@ -12,7 +15,8 @@ export async function GET(
         return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
     }
 
-    return NextResponse.json(assessment);
+    const { entries, check } = await getIncidentLog(assessment);
+    return NextResponse.json({ ...assessment, incidents: entries, incidentChain: check });
 }
 
 // PATCH /api/assessments/:id — update status (approve / flag)
@@ -23,23 +27,37 @@ export async function PATCH(
     const { id } = await params;
     const body = await request.json();
 
-    const assessment = await getAssessmentById(id);
+    let assessment = await getAssessmentById(id);
 
     if (!assessment) {
         return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
     }
 
+    const previousStatus = assessment.status;
+
     // Only allow updating status and a review note
     if (body.status && ['passed', 'review', 'flagged'].includes(body.status)) {
         assessment.status = body.status;
     }
-    if (body.reviewNote) {
-        assessment.alerts = [
-            `[Manual Review] ${body.reviewNote}`,
-            ...assessment.alerts
-        ];
-    }
+
+    // Review history goes to the append-only incident log, never into alerts
+    assessment = await appendIncidents(assessment, reviewDrafts({
+        previousStatus,
+        status: assessment.status,
+        reviewNote: body.reviewNote,
+    }, 'dashboard'));
+
+    // Status and incident root are certified — re-sign so /verify stays valid
+    if (assessment.certificateIssued) assessment = issueCertificate(assessment);
 
     await saveAssessment(assessment);
-    return NextResponse.json({ success: true, assessment });
+    if (body.status || body.reviewNote) {
+        await dispatchSessionReviewed(assessment, {
+            previousStatus,
+            reviewNote: body.reviewNote,
+            source: 'dashboard',
+        });
+    }
+    const { entries, check } = await getIncidentLog(assessment);
+    return NextResponse.json({ success: true, assessment: { ...assessment, incidents: entries, incidentChain: check } });
 }
@@ -1,17 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getAssessments, saveAssessment, Assessment } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { getAssessments } from '@/lib/db';
+import { sweepIdleSessions } from '@/lib/liveSessions';
+
+// Sessions are submitted only through the authenticated live event stream
+// (/api/v1/sessions/:id/events), which scores them on finalization.
 
 export async function GET() {
+    // Close out abandoned live sessions so they show up on the dashboard
+    await sweepIdleSessions().catch(err => console.error('[live] sweep:', err));
     const assessments = await getAssessments();
     return NextResponse.json(assessments);
 }
-
-export async function POST(req: NextRequest) {
-    try {
-        const assessment: Assessment = await req.json();
-        await saveAssessment(assessment);
-        return NextResponse.json({ success: true });
-    } catch (error) {
-        return NextResponse.json({ success: false, error: 'Invalid data' }, { status: 400 });
-    }
-}
@@ -0,0 +1,28 @@
+/**
+ * Deep-Check — Certificate signing keys (JWKS)
+ *
+ * GET /api/certificates/jwks   (also served at /.well-known/jwks.json)
+ *
+ * Public endpoint — no API key required. Pin this document to verify
+ * certificates offline with verifyCertificate().
+ */
+
+import { NextResponse } from 'next/server'
+import { getPublicJwks } from '@/lib/certificates'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET() {
+    const res = NextResponse.json(getPublicJwks())
+    res.headers.set('Cache-Control', 'public, max-age=3600')
+    return cors(res)
+}
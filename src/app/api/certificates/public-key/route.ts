@@ -0,0 +1,22 @@
+/**
+ * Deep-Check — Current certificate signing key (PEM)
+ *
+ * GET /api/certificates/public-key
+ *
+ * Public endpoint. Returns the Ed25519 public key as SPKI PEM, with its key
+ * id in the X-Key-Id header — handy for `openssl pkeyutl -verify`.
+ */
+
+import { NextResponse } from 'next/server'
+import { getPublicKeyPem, getSigningKey } from '@/lib/certificates'
+
+export async function GET() {
+    return new NextResponse(getPublicKeyPem(), {
+        headers: {
+            'Content-Type':                'application/x-pem-file',
+            'Cache-Control':               'public, max-age=3600',
+            'Access-Control-Allow-Origin': '*',
+            'X-Key-Id':                    getSigningKey().kid,
+        },
+    })
+}
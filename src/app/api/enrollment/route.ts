@@ -1,19 +1,25 @@
 /**
- * Internal enrollment endpoint — saves biometric profile from /enroll page
+ * Internal enrollment endpoint — saves biometric profile from /enroll page.
+ * A repeat enrollment merges into the candidate's active template (see enrollment.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { saveEnrollmentProfile, EnrollmentProfile, KeystrokeProfile } from '@/lib/db'
-import crypto from 'crypto'
+import { EnrollmentProfile, KeystrokeProfile } from '@/lib/db'
+import { enrollCandidate } from '@/lib/enrollment'
+import { parseFaceDescriptors } from '@/lib/faceMatch'
+import { parseFeatureStats } from '@/lib/identityMatch'
+import { dispatchWebhookEvent, enrollmentPayload } from '@/lib/webhooks'
 
 export async function POST(req: NextRequest) {
     try {
         const body = await req.json()
-        const { candidateName, candidateEmail, context = 'prose_es', profile }: {
+        const { candidateName, candidateEmail, context = 'prose_es', profile, faceDescriptors, merge }: {
             candidateName: string
             candidateEmail: string
             context: EnrollmentProfile['context']
             profile: KeystrokeProfile
+            faceDescriptors?: unknown
+            merge?: unknown
         } = body
 
         if (!candidateName || !candidateEmail || !profile) {
@@ -27,30 +33,33 @@ export async function POST(req: NextRequest) {
             )
         }
 
-        const now = new Date()
-        const expires = new Date(now)
-        expires.setDate(expires.getDate() + 90)
-
-        const enrollmentHash = crypto.createHash('sha256').update(JSON.stringify(profile)).digest('hex')
-
-        const ep: EnrollmentProfile = {
-            id: `ep_${crypto.randomBytes(12).toString('hex')}`,
-            candidateName,
-            candidateEmail,
-            context,
-            createdAt: now.toISOString(),
-            expiresAt: expires.toISOString(),
-            profile,
-            enrollmentHash,
+        const stats = parseFeatureStats(profile.featureStats)
+        if (!stats.ok) {
+            return NextResponse.json({ success: false, error: stats.errors.join('; ') }, { status: 400 })
         }
 
-        await saveEnrollmentProfile(ep)
+        const faces = parseFaceDescriptors(faceDescriptors)
+        if (!faces.ok) {
+            return NextResponse.json({ success: false, error: faces.errors.join('; ') }, { status: 400 })
+        }
+
+        if (merge !== undefined && typeof merge !== 'boolean') {
+            return NextResponse.json({ success: false, error: 'merge must be a boolean' }, { status: 400 })
+        }
+
+        const ep = await enrollCandidate({
+            candidateName, candidateEmail, context, profile, faceDescriptors: faces.descriptors, merge,
+        })
+        await dispatchWebhookEvent('enrollment.created', enrollmentPayload(ep))
 
         return NextResponse.json({
             success: true,
             profileId: ep.id,
             expiresAt: ep.expiresAt,
-            enrollmentHash,
+            enrollmentHash: ep.enrollmentHash,
+            faceSamples: ep.faceDescriptors?.length ?? 0,
+            version: ep.version,
+            enrollmentSessions: ep.enrollmentSessions,
         })
     } catch (e: any) {
         console.error('[/api/enrollment] Error:', e?.message ?? e)
@@ -3,208 +3,135 @@
  * ==========================
  * POST /api/ml-score
  *
- * Receives session feature values + optional enrollmentProfileId.
+ * Body (featureSet must be FEATURE_SET_VERSION from biometricFeatures.ts):
+ *   { featureSet, session: RawSessionData }        — preferred: the server runs
+ *       extractFeatureVector itself and summarises the n-grams
+ *   { featureSet, features: Record<FeatureName, number>, digrams?, trigrams? }
+ *       — a precomputed vector, every feature in FEATURE_NAMES and nothing else
+ * plus optional enrollmentProfileId / enrollmentEmail, sessionId, and the live
+ * typing's context: `context` (an EnrollmentContext) or `editorLanguage`
+ * (Monaco language id, mapped by enrollmentContext.ts).
+ * Off-schema input or another feature set is a 400; nothing is approximated.
+ *
  * Returns:
- *   - identityMatchScore (0-100) via Mahalanobis distance vs enrolled profile
- *   - mlAiRisk (0-100) from the ONNX model (server-side via onnxruntime-node)
+ *   - identityMatchScore (0-100) against the enrolled profile, over the whole
+ *     session (identityMatch.ts; finalizeSession also scores it window by window),
+ *     with identityConfidence (0-1, grows with the keystrokes observed) and
+ *     identityMethod: covariance needs `session` timings and a profile with
+ *     featureStats, anything else gets the diagonal estimate. With an email the
+ *     candidate's template in the live context is compared; without one, the
+ *     template of another context is rescaled by a learned cross-context
+ *     adjustment, and identityContext says which context was compared and how
+ *     reliable that is (identityConfidence is scaled by it)
+ *   - identityOperatingPoint: the threshold identity_mismatch fires below and
+ *     its measured false-accept / false-reject rates (identityCalibration.ts);
+ *     null without an enrollment profile
+ *   - mlAiRisk (0-100) from the ONNX model (server-side via onnxruntime-node);
+ *     a preview only — the verdict's aiRisk is scored again from the session's
+ *     event log when it is finalized (sessionAiRisk.ts)
+ *   - modelVersion: model_metadata.json version that produced mlAiRisk
+ *     (null when the heuristic was used), and modelRole: primary | candidate
+ *   - explanation: per-feature reasons for mlAiRisk, most influential first
+ *     (featureExplanation.ts; null with the heuristic)
+ *   - features: the feature vector that was scored
  *   - flags: summary of which signals were suspicious
  *
+ * With `sessionId` and the session's X-Session-Token, the A/B split is stable
+ * per session and every other deployed model (shadow, or the side of the
+ * split not serving) scores the same features; those scores are stored for
+ * GET /api/v1/admin/models/report and never affect the response.
+ *
  * Server-side inference uses onnxruntime-node for environments where WASM
  * is not available (Vercel Edge / server components).
  * If the model can't be loaded, falls back to heuristic scoring.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getProfileById, getProfileByEmail, KeystrokeProfile } from '@/lib/db'
-import path from 'path'
-
-// ─── Mahalanobis identity match ───────────────────────────────────────────────
-// Uses 4 core features: [flightMean, flightStd, holdMean, entropy]
-// The covariance matrix is estimated from the enrolled profile's stored stats.
-
-interface SessionFeatures {
-    // Core biometric stats
-    flightMean:        number
-    flightStd:         number
-    holdMean:          number
-    holdStd:           number
-    entropy:           number
-    // Advanced stats
-    skewness:          number
-    kurtosis:          number
-    periodicityScore:  number
-    velocityGradient:  number
-    fatigueRate:       number
-    rhythmConsistency: number
-    impossibleFastRatio: number
-    digramCvMean:      number
-    backspaceLatencyStd: number
-    backspaceCountRatio: number
-    burstCountPer100k: number
-    sessionWpm:        number
-    digrams?:          Record<string, { mean: number; std: number; count: number }>
-}
-
-interface MlScoreRequest {
-    features:            SessionFeatures
-    enrollmentProfileId?: string
-    enrollmentEmail?:    string
-    totalKeystrokes:     number
+import { getProfileById } from '@/lib/db'
+import { compareInContext, ContextComparison, profileForContext } from '@/lib/enrollment'
+import { contextForLanguage, IdentityContext, isEnrollmentContext } from '@/lib/enrollmentContext'
+import { currentIdentityOperatingPoint, IdentityOperatingPoint } from '@/lib/identityCalibration'
+import { matchKeystrokeIdentity } from '@/lib/identityMatch'
+import { NgramStat, summariseNgrams } from '@/lib/keystrokeNgrams'
+import {
+    extractFeatureVector, FEATURE_NAMES, FEATURE_SET_VERSION, FeatureName, parseFeatureRecord, parseRawSessionData,
+} from '@/lib/biometricFeatures'
+import { verifyIngestToken } from '@/lib/liveSessions'
+import { scoreSession, ServedScore } from '@/lib/modelEvaluation'
+import { heuristicAiScore } from '@/lib/sessionAiRisk'
+
+// ─── Request ──────────────────────────────────────────────────────────────────
+
+type Features = Record<FeatureName, number>
+
+/** Scored input, after validation */
+interface ScoringInput {
+    features: Features
+    /** Per key pair / triple, keyed like the enrolled profile (keystrokeNgrams.ts) */
+    digrams?: Record<string, NgramStat>
+    trigrams?: Record<string, NgramStat>
+    /** Filtered timings, only when the session data was sent */
+    flightTimes?: number[]
+    holdTimes?: number[]
+    totalKeystrokes: number | null
 }
 
-function mahalanobisDistance(
-    live: number[],    // [flightMean, flightStd, holdMean, entropy]
-    baseline: KeystrokeProfile
-): number {
-    // Build mean vector from baseline
-    const mu = [
-        baseline.flightMean,
-        baseline.flightStd,
-        baseline.holdMean,
-        baseline.entropy,
-    ]
+type ParsedInput = { ok: true; input: ScoringInput } | { ok: false; errors: string[] }
 
-    // Approximate diagonal covariance (no off-diagonal available at enrollment)
-    // Using flightStd as proxy for variance in each dimension
-    // Variance heuristics: σ² ≈ (feature * 0.30)² for each feature
-    const variances = [
-        Math.pow(baseline.flightStd * 0.60, 2) || 1,
-        Math.pow(baseline.flightStd * 0.50, 2) || 1,
-        Math.pow(baseline.holdStd   * 0.60, 2) || 1,
-        Math.pow(0.5, 2),  // entropy variance in bits²
-    ]
-
-    // D² = Σ (xi - μi)² / σi²
-    let d2 = 0
-    for (let i = 0; i < 4; i++) {
-        d2 += Math.pow(live[i] - mu[i], 2) / variances[i]
-    }
-
-    // Add digram similarity if available
-    // (increases confidence when there are matching digram pairs)
-    return Math.sqrt(d2)
+function isNgramStats(v: unknown): v is Record<string, NgramStat> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
+        && Object.values(v).every(s => typeof s === 'object' && s !== null
+            && ['mean', 'std', 'count'].every(k => Number.isFinite((s as Record<string, unknown>)[k])))
 }
 
-function mahalanobisToScore(distance: number): number {
-    // Convert Mahalanobis distance to 0-100 identity match score
-    // D=0: perfect match = 100
-    // D=2: good match ≈ 85 (within 2 std devs on each feature)
-    // D=4: marginal ≈ 50
-    // D=8+: mismatch < 10
-    return Math.max(0, Math.round(100 * Math.exp(-0.12 * distance)))
-}
-
-// ─── Heuristic fallback AI score ──────────────────────────────────────────────
-
-function heuristicAiScore(f: SessionFeatures): number {
-    let score = 0
-
-    // Periodicity (FFT)
-    if (f.periodicityScore > 65) score += 25
-    else if (f.periodicityScore > 45) score += 12
-
-    // Velocity gradient (bots are flat)
-    if (Math.abs(f.velocityGradient) < 0.01) score += 15
-    else if (Math.abs(f.velocityGradient) < 0.05) score += 6
-
-    // Fatigue rate (bots show no fatigue)
-    if (Math.abs(f.fatigueRate) < 0.02) score += 15
-    else if (Math.abs(f.fatigueRate) < 0.08) score += 5
-
-    // Backspace uniformity (bots don't self-correct naturally)
-    if (f.backspaceLatencyStd < 8) score += 15
-    if (f.backspaceCountRatio < 0.01) score += 8
-
-    // Kurtosis (leptokurtic = bot)
-    if (f.kurtosis > 7) score += 12
-    else if (f.kurtosis > 4) score += 5
-
-    // Entropy
-    if (f.entropy < 1.0) score += 15
-    else if (f.entropy < 1.8) score += 7
-
-    // Skewness (symmetric = bot)
-    if (Math.abs(f.skewness) < 0.1) score += 8
-
-    // Rhythm
-    if (f.rhythmConsistency < 5) score += 10
-
-    return Math.min(100, score)
+function parseInput(body: Record<string, unknown>): ParsedInput {
+    if (body.featureSet !== FEATURE_SET_VERSION) {
+        return { ok: false, errors: [`featureSet must be "${FEATURE_SET_VERSION}"`] }
+    }
+    if (body.session !== undefined) {
+        const parsed = parseRawSessionData(body.session)
+        if (!parsed.ok) return parsed
+        return {
+            ok: true,
+            input: {
+                features:        extractFeatureVector(parsed.data).raw,
+                digrams:         summariseNgrams(parsed.data.digrams),
+                trigrams:        summariseNgrams(parsed.data.trigrams),
+                flightTimes:     parsed.data.flightTimes,
+                holdTimes:       parsed.data.holdTimes,
+                totalKeystrokes: parsed.data.totalKeystrokes,
+            },
+        }
+    }
+    if (body.features === undefined) return { ok: false, errors: ['session or features required'] }
+    const parsed = parseFeatureRecord(body.features)
+    if (!parsed.ok) return parsed
+    for (const key of ['digrams', 'trigrams'] as const) {
+        if (body[key] !== undefined && !isNgramStats(body[key])) {
+            return { ok: false, errors: [`${key} must map keys to { mean, std, count }`] }
+        }
+    }
+    return {
+        ok: true,
+        input: {
+            features:        parsed.raw,
+            digrams:         body.digrams as Record<string, NgramStat> | undefined,
+            trigrams:        body.trigrams as Record<string, NgramStat> | undefined,
+            totalKeystrokes: Number.isFinite(body.totalKeystrokes) ? body.totalKeystrokes as number : null,
+        },
+    }
 }
 
 // ─── ONNX Runtime Node inference (optional) ──────────────────────────────────
+// Models are loaded once and routed by the model registry (modelRegistry.ts)
 
-async function runOnnxInference(features: SessionFeatures): Promise<number | null> {
+async function runOnnxInference(
+    features: Features,
+    sessionId: string | undefined,
+    record: boolean
+): Promise<ServedScore | null> {
     try {
-        const ort = await import('onnxruntime-node').catch(() => null)
-        if (!ort) return null
-
-        const modelPath = path.join(process.cwd(), 'public', 'models', 'biometric-fraud-detector.onnx')
-        const scalerPath = path.join(process.cwd(), 'public', 'models', 'feature_scaler.json')
-
-        const { readFile } = await import('fs/promises')
-        const scalerJson = JSON.parse(await readFile(scalerPath, 'utf-8'))
-
-        const session = await ort.InferenceSession.create(modelPath, {
-            executionProviders: ['cpu'],
-        })
-
-        // Build feature vector in training order
-        const featureOrder = scalerJson.features as string[]
-        const rawVec = featureOrder.map((name: string) => {
-            const map: Record<string, number> = {
-                flight_mean:            features.flightMean,
-                flight_std:             features.flightStd,
-                hold_mean:              features.holdMean,
-                hold_std:               features.holdStd,
-                flight_skewness:        features.skewness,
-                flight_kurtosis:        features.kurtosis,
-                flight_entropy:         features.entropy,
-                hold_entropy:           features.entropy * 0.85,  // approximation
-                periodicity_score:      features.periodicityScore,
-                velocity_gradient:      features.velocityGradient,
-                fatigue_rate:           features.fatigueRate,
-                rhythm_consistency:     features.rhythmConsistency,
-                impossible_fast_ratio:  features.impossibleFastRatio,
-                digram_cv_mean:         features.digramCvMean,
-                backspace_latency_std:  features.backspaceLatencyStd,
-                backspace_count_ratio:  features.backspaceCountRatio,
-                burst_count_per_100k:   features.burstCountPer100k,
-                session_wpm:            features.sessionWpm,
-            }
-            return map[name] ?? 0
-        })
-
-        // Normalise
-        const mu  = scalerJson.mean  as number[]
-        const sig = scalerJson.std   as number[]
-        const normalised = new Float32Array(rawVec.map((v: number, i: number) => (v - mu[i]) / (sig[i] || 1)))
-
-        const inputTensor  = new ort.Tensor('float32', normalised, [1, featureOrder.length])
-        const inputName    = session.inputNames[0]
-        const results      = await session.run({ [inputName]: inputTensor })
-
-        // Extract bot probability from whichever output format is used
-        let botProb = 0.5
-        for (const outName of session.outputNames) {
-            const out = results[outName]
-            if (!out) continue
-
-            // Dense tensor [1, 2]
-            if (out.dims && out.dims.length === 2 && Number(out.dims[1]) === 2) {
-                const d = out.data as Float32Array
-                botProb = d[1]; break
-            }
-            // Single probability
-            if (out.dims && Number(out.dims[0]) === 1) {
-                const d = out.data as Float32Array
-                botProb = d[0]; break
-            }
-        }
-
-        await session.release()
-        return Math.round(Math.max(0, Math.min(1, botProb)) * 100)
-
+        return await scoreSession(FEATURE_NAMES.map(name => features[name]), { sessionId, record, explain: true })
     } catch (e) {
         console.warn('[ml-score] ONNX inference failed, using heuristic:', (e as Error).message)
         return null
@@ -215,79 +142,98 @@ async function runOnnxInference(features: SessionFeatures): Promise<number | nul
 
 export async function POST(req: NextRequest) {
     try {
-        const body: MlScoreRequest = await req.json()
-        const { features, enrollmentProfileId, enrollmentEmail, totalKeystrokes } = body
-
-        if (!features) {
-            return NextResponse.json({ success: false, error: 'features required' }, { status: 400 })
+        const body = await req.json().catch(() => null)
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return NextResponse.json({ success: false, error: 'JSON object body required' }, { status: 400 })
         }
+        const parsed = parseInput(body)
+        if (!parsed.ok) {
+            return NextResponse.json({ success: false, error: parsed.errors.join('; ') }, { status: 400 })
+        }
+        const { features, digrams, trigrams, flightTimes, holdTimes, totalKeystrokes } = parsed.input
+        const { sessionId, enrollmentProfileId, enrollmentEmail, context, editorLanguage } = body
+        if (context !== undefined && !isEnrollmentContext(context)) {
+            return NextResponse.json({ success: false, error: 'context must be an enrollment context' }, { status: 400 })
+        }
+        if (editorLanguage !== undefined && typeof editorLanguage !== 'string') {
+            return NextResponse.json({ success: false, error: 'editorLanguage must be a string' }, { status: 400 })
+        }
+        const liveContext = context ?? (editorLanguage !== undefined ? contextForLanguage(editorLanguage) : null)
 
-        // 1. Try ONNX inference first, fall back to heuristic
-        const onnxScore = await runOnnxInference(features)
-        const mlAiRisk  = onnxScore ?? heuristicAiScore(features)
-        const inferenceMethod = onnxScore !== null ? 'onnx' : 'heuristic'
+        // 1. Try ONNX inference first, fall back to heuristic. Only the
+        //    browser holding the session's ingest token gets scores recorded.
+        const sid       = typeof sessionId === 'string' ? sessionId : undefined
+        const record    = !!sid && verifyIngestToken(sid, req.headers.get('x-session-token'))
+        const onnx      = await runOnnxInference(features, sid, record)
+        const mlAiRisk  = onnx?.risk ?? heuristicAiScore(features)
+        const inferenceMethod = onnx ? 'onnx' : 'heuristic'
 
-        // 2. Identity match (Mahalanobis) if enrollment profile provided
+        // 2. Identity match if enrollment profile provided
         let identityMatchScore: number | null = null
+        let identityConfidence: number | null = null
+        let identityMethod: string | null = null
+        let identityOperatingPoint: IdentityOperatingPoint | null = null
+        let identityContext: IdentityContext | null = null
         let enrollmentContext: string | null = null
 
-        const profile = enrollmentProfileId
-            ? await getProfileById(enrollmentProfileId)
-            : enrollmentEmail
-                ? await getProfileByEmail(enrollmentEmail)
+        // A pinned template is compared as is (adjusted if its context differs);
+        // by email, the candidate's template for the live context is chosen
+        const comparison: ContextComparison | null = typeof enrollmentProfileId === 'string'
+            ? await getProfileById(enrollmentProfileId).then(ep => ep && compareInContext(ep, liveContext))
+            : typeof enrollmentEmail === 'string'
+                ? await profileForContext(enrollmentEmail, liveContext)
                 : null
 
-        if (profile) {
-            const liveVec = [
-                features.flightMean,
-                features.flightStd,
-                features.holdMean,
-                features.entropy,
-            ]
-            const dist = mahalanobisDistance(liveVec, profile.profile)
-            identityMatchScore = mahalanobisToScore(dist)
-            enrollmentContext = profile.context
-
-            // Bonus: check digram overlap if available
-            if (features.digrams && profile.profile.digrams) {
-                const commonKeys = Object.keys(profile.profile.digrams)
-                    .filter(k => features.digrams![k])
-                if (commonKeys.length >= 3) {
-                    const digramScores = commonKeys.map(k => {
-                        const base = profile.profile.digrams[k].mean
-                        const live = features.digrams![k].mean
-                        if (base === 0) return 50
-                        const delta = Math.abs(live - base) / base
-                        return Math.max(0, 1 - delta / 0.35) * 100
-                    })
-                    const digramMatch = Math.round(
-                        digramScores.reduce((a, b) => a + b, 0) / digramScores.length
-                    )
-                    // Weighted average: 70% Mahalanobis, 30% digram
-                    identityMatchScore = Math.round(
-                        0.70 * identityMatchScore + 0.30 * digramMatch
-                    )
-                }
-            }
+        if (comparison) {
+            const match = matchKeystrokeIdentity({
+                flightMean: features.flight_mean,
+                flightStd:  features.flight_std,
+                holdMean:   features.hold_mean,
+                entropy:    features.flight_entropy,
+                flightTimes,
+                holdTimes,
+                digrams,
+                trigrams,
+                // totalKeystrokes counts flight and hold samples — about two per key
+                keystrokes: holdTimes?.length ?? Math.round((totalKeystrokes ?? 0) / 2),
+            }, comparison.profile)
+            const reliability = comparison.context.reliability ?? 1
+            identityMatchScore = match.score
+            identityConfidence = Math.round(match.confidence * reliability * 100) / 100
+            identityMethod = match.method
+            identityOperatingPoint = await currentIdentityOperatingPoint()
+            identityContext = comparison.context
+            enrollmentContext = comparison.enrollment.context
         }
 
         // 3. Generate flags
         const flags: string[] = []
-        if (features.periodicityScore > 65)       flags.push('high_periodicity')
-        if (Math.abs(features.fatigueRate) < 0.02) flags.push('no_fatigue')
-        if (features.backspaceLatencyStd < 8)      flags.push('uniform_backspace')
-        if (features.kurtosis > 7)                 flags.push('leptokurtic')
-        if (features.entropy < 1.2)                flags.push('low_entropy')
-        if (features.burstCountPer100k > 10)       flags.push('high_burst_rate')
-        if (mlAiRisk > 70)                         flags.push('ai_bot_detected')
-        if (identityMatchScore !== null && identityMatchScore < 40) flags.push('identity_mismatch')
+        if (features.periodicity_score > 65)        flags.push('high_periodicity')
+        if (Math.abs(features.fatigue_rate) < 0.02) flags.push('no_fatigue')
+        if (features.backspace_latency_std < 8)     flags.push('uniform_backspace')
+        if (features.flight_kurtosis > 7)           flags.push('leptokurtic')
+        if (features.flight_entropy < 1.2)          flags.push('low_entropy')
+        if (features.burst_count_per_100k > 10)     flags.push('high_burst_rate')
+        if (mlAiRisk > 70)                          flags.push('ai_bot_detected')
+        if (identityMatchScore !== null && identityOperatingPoint && identityMatchScore < identityOperatingPoint.threshold) {
+            flags.push('identity_mismatch')
+        }
 
         return NextResponse.json({
             success: true,
             mlAiRisk,
             identityMatchScore,
+            identityConfidence,
+            identityMethod,
+            identityOperatingPoint,
+            identityContext,
             inferenceMethod,
+            modelVersion: onnx?.modelVersion ?? null,
+            modelRole: onnx?.role ?? null,
+            explanation: onnx?.explanation ?? null,
             enrollmentContext,
+            featureSet: FEATURE_SET_VERSION,
+            features,
             flags,
             keystrokes: totalKeystrokes,
         })
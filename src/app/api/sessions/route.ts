@@ -0,0 +1,110 @@
+/**
+ * Deep-Check — Live session start (used by /interview)
+ *
+ * POST /api/sessions   — Open a live session; returns its id, ingest token,
+ *                        the scoring policy and the candidate details
+ *
+ * Events are then streamed to POST /api/v1/sessions/:id/events with
+ * header X-Session-Token: <token>.
+ *
+ * Body { editorLanguage } (a Monaco language id) sets the typing context the
+ * enrollment template is chosen and adjusted for (enrollmentContext.ts).
+ *
+ * Body { invite: "<token>" } redeems a candidate invitation (see
+ * POST /api/v1/sessions/:id/invites): the live session takes the pre-created
+ * session's id and the invite's candidate, role, policy and enrollment.
+ * Invites are single-use — 401 invalid, 410 expired, 409 already used.
+ *
+ * Integrators opening a session on a candidate's behalf may instead pass
+ * Authorization: Bearer dc_live_... — the key's policy then takes precedence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, LiveSession, validateApiKey } from '@/lib/db'
+import { contextForLanguage } from '@/lib/enrollmentContext'
+import { redeemInvite } from '@/lib/invites'
+import { startLiveSession, sweepIdleSessions } from '@/lib/liveSessions'
+import { resolvePolicy } from '@/lib/policies'
+
+const INVITE_ERRORS = {
+    invalid: { status: 401, error: 'Invalid invitation link' },
+    expired: { status: 410, error: 'This invitation has expired' },
+    used:    { status: 409, error: 'This invitation has already been used' },
+} as const
+
+function started(session: LiveSession, token: string) {
+    return NextResponse.json({
+        success: true,
+        data: {
+            id:        session.id,
+            token,
+            startedAt: session.startedAt,
+            policy:    session.policy,
+            candidate: {
+                name:                session.candidateName,
+                email:               session.candidateEmail,
+                role:                session.role,
+                enrollmentProfileId: session.enrollmentProfileId,
+            },
+        },
+    }, { status: 201 })
+}
+
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => ({}))
+    const timeZone = typeof body.timeZone === 'string' ? body.timeZone : undefined
+    // The editor's Monaco language decides which enrollment template the typing is matched against
+    const context = (typeof body.editorLanguage === 'string' ? contextForLanguage(body.editorLanguage) : null) ?? undefined
+
+    // Opportunistic: every new session start also closes out abandoned ones
+    sweepIdleSessions().catch(err => console.error('[live] sweep:', err))
+
+    if (typeof body.invite === 'string') {
+        try {
+            const redeemed = await redeemInvite(body.invite, context ?? null)
+            if (!redeemed.ok) {
+                const { status, error } = INVITE_ERRORS[redeemed.reason]
+                return NextResponse.json({ success: false, error, data: { reason: redeemed.reason } }, { status })
+            }
+            const { invite, policy, enrollmentProfileId } = redeemed
+            const { session, token } = await startLiveSession({
+                id:             invite.sessionId,
+                candidateName:  invite.candidateName,
+                candidateEmail: invite.candidateEmail,
+                role:           invite.role,
+                timeZone,
+                policy,
+                enrollmentProfileId,
+                context,
+                apiKeyId:       invite.apiKeyId,
+                inviteId:       invite.id,
+            })
+            return started(session, token)
+        } catch (error) {
+            console.error('[sessions] invite redemption failed:', error)
+            return NextResponse.json({ success: false, error: 'Failed to start session' }, { status: 500 })
+        }
+    }
+
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    const keyRecord = apiKey ? await validateApiKey(apiKey) : null
+    if (apiKey && (!keyRecord || !keyRecord.permissions.includes('write'))) {
+        return NextResponse.json({ success: false, error: 'Invalid API key' }, { status: 401 })
+    }
+    const role = typeof body.role === 'string' ? body.role : undefined
+
+    try {
+        const { session, token } = await startLiveSession({
+            candidateName: typeof body.candidateName === 'string' ? body.candidateName : undefined,
+            role,
+            timeZone,
+            context,
+            policy:        keyRecord ? await resolvePolicy({ apiKey: keyRecord, role }) : undefined,
+            apiKeyId:      keyRecord ? apiKeyId(keyRecord.key) : undefined,
+        })
+        return started(session, token)
+    } catch (error) {
+        console.error('[sessions] start failed:', error)
+        return NextResponse.json({ success: false, error: 'Failed to start session' }, { status: 500 })
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * Deep-Check Public API v1 — Identity match calibration (admin only)
+ *
+ * GET  /api/v1/admin/identity-calibration   — Operating point in force and the latest calibration
+ * POST /api/v1/admin/identity-calibration   — Recalibrate from stored sessions
+ *
+ * POST body: { targetFar?: number }  — false-accept rate to hold (0-1, default 0.01)
+ *
+ * Every stored session with a candidate email is scored against every
+ * enrollment profile (same email = genuine pair, otherwise impostor); the
+ * DET curve over those scores picks the identity_mismatch threshold that
+ * /api/ml-score applies (see src/lib/identityCalibration.ts).
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getLatestIdentityCalibration } from '@/lib/db'
+import { calibrateIdentityThreshold, currentIdentityOperatingPoint, DEFAULT_TARGET_FAR } from '@/lib/identityCalibration'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    const [operatingPoint, calibration] = await Promise.all([
+        currentIdentityOperatingPoint(),
+        getLatestIdentityCalibration(),
+    ])
+    return cors(NextResponse.json({ success: true, data: { operatingPoint, calibration } }))
+}
+
+export async function POST(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const targetFar = body?.targetFar ?? DEFAULT_TARGET_FAR
+    if (typeof targetFar !== 'number') {
+        return cors(NextResponse.json({ success: false, error: 'targetFar must be a number' }, { status: 400 }))
+    }
+
+    const result = await calibrateIdentityThreshold(targetFar)
+    if (!result.ok) {
+        return cors(NextResponse.json({ success: false, error: `Cannot calibrate: ${result.errors.join('; ')}` }, { status: 400 }))
+    }
+    return cors(NextResponse.json({ success: true, data: result.calibration }, { status: 201 }))
+}
@@ -0,0 +1,68 @@
+/**
+ * Deep-Check Public API v1 — Legacy alert migration (admin only)
+ *
+ * GET  /api/v1/admin/incidents   — Dry run: which rows still store legacy alerts
+ * POST /api/v1/admin/incidents   — Rewrite them as typed Incidents
+ *
+ * Reads already convert legacy alerts on the fly (toIncidents); this makes
+ * the stored JSON match. Order and count are kept, so session hashes and
+ * certificates (which cover alertCount only) stay valid. Idempotent.
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getStoredAssessments, initDb, saveAssessment } from '@/lib/db'
+import { IncidentCode, isIncident, toIncidents } from '@/lib/incidentModel'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+async function migrate(apply: boolean) {
+    await initDb()
+    let rows = 0
+    let alerts = 0
+    const codes: Partial<Record<IncidentCode, number>> = {}
+    const unclassified: { id: string; message: string }[] = []
+
+    for (const stored of await getStoredAssessments()) {
+        const raw: unknown[] = Array.isArray(stored.alerts) ? stored.alerts : []
+        if (raw.every(isIncident)) continue
+
+        const incidents = toIncidents(raw, stored.date)
+        incidents.forEach((incident, i) => {
+            if (isIncident(raw[i])) return
+            alerts++
+            codes[incident.code] = (codes[incident.code] ?? 0) + 1
+            if (incident.code === 'UNCLASSIFIED') unclassified.push({ id: stored.id, message: incident.message })
+        })
+        rows++
+        if (apply) await saveAssessment({ ...stored, alerts: incidents })
+    }
+
+    return { applied: apply, rows, alerts, codes, unclassified }
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await migrate(false) }))
+}
+
+export async function POST(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await migrate(true) }))
+}
@@ -0,0 +1,47 @@
+/**
+ * Deep-Check Public API v1 — Model evaluation report (admin only)
+ *
+ * GET /api/v1/admin/models/report?since=2026-01-01T00:00:00Z&flag_at=70
+ *
+ * Every deployed model scores each session that reaches /api/ml-score with a
+ * session token; this compares them: per model the score distribution
+ * (mean, p50, p90, 10-point histogram) and flag rate, and per pair of models
+ * how often they agree on flagging the same sessions.
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_FLAG_RISK, evaluationReport } from '@/lib/modelEvaluation'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    const url = new URL(req.url)
+    const since = url.searchParams.get('since') ?? undefined
+    if (since !== undefined && Number.isNaN(Date.parse(since))) {
+        return cors(NextResponse.json({ success: false, error: 'since must be an ISO date' }, { status: 400 }))
+    }
+    const flagAt = Number(url.searchParams.get('flag_at') ?? DEFAULT_FLAG_RISK)
+    if (!Number.isFinite(flagAt) || flagAt < 0 || flagAt > 100) {
+        return cors(NextResponse.json({ success: false, error: 'flag_at must be between 0 and 100' }, { status: 400 }))
+    }
+
+    const report = await evaluationReport({ since: since && new Date(since).toISOString(), flagAt })
+    return cors(NextResponse.json({ success: true, data: report }))
+}
@@ -0,0 +1,91 @@
+/**
+ * Deep-Check Public API v1 — ONNX model deployment (admin only)
+ *
+ * GET    /api/v1/admin/models   — Primary, candidate (with traffic %) and shadow models
+ * POST   /api/v1/admin/models   — Hot-load a model directory into a role
+ * DELETE /api/v1/admin/models   — ?role=candidate, or ?role=shadow&version=X
+ *
+ * POST body: { "dir": "models/v1.1.0", "role": "primary" | "candidate" | "shadow", "percent": 10 }
+ *   dir      relative to the app root; defaults to DEEPCHECK_MODEL_DIR (primary only)
+ *   role     default "primary" — the model every session is scored with
+ *            "candidate" — serves `percent`% of sessions (A/B split)
+ *            "shadow" — scores every session, never the verdict
+ * The directory needs biometric-fraud-detector.onnx, model_metadata.json and
+ * feature_scaler.json with the FEATURE_NAMES layout; otherwise 400 and the
+ * deployment is left as it was. Scores from all models are compared at
+ * GET /api/v1/admin/models/report.
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    addShadowModel, clearCandidateModel, deploymentInfo, reloadModel, removeShadowModel, setCandidateModel,
+} from '@/lib/modelRegistry'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+const ROLES = ['primary', 'candidate', 'shadow'] as const
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+function badRequest(error: string) {
+    return cors(NextResponse.json({ success: false, error }, { status: 400 }))
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await deploymentInfo() }))
+}
+
+export async function POST(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { dir, role = 'primary', percent } = body ?? {}
+    if (!ROLES.includes(role)) return badRequest(`role must be one of ${ROLES.join(', ')}`)
+    if (dir !== undefined && (typeof dir !== 'string' || !dir.trim())) {
+        return badRequest('dir must be a non-empty string')
+    }
+    if (role !== 'primary' && dir === undefined) return badRequest(`dir is required for a ${role} model`)
+    if (role === 'candidate' && (typeof percent !== 'number' || percent < 0 || percent > 100)) {
+        return badRequest('percent must be a number between 0 and 100')
+    }
+
+    const result = role === 'shadow' ? await addShadowModel(dir)
+        : role === 'candidate' ? await setCandidateModel(dir, percent)
+        : await reloadModel(dir)
+    if (!result.ok) return badRequest(`Invalid model: ${result.errors.join('; ')}`)
+    return cors(NextResponse.json({ success: true, data: await deploymentInfo() }))
+}
+
+export async function DELETE(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    const url = new URL(req.url)
+    const role = url.searchParams.get('role')
+    const version = url.searchParams.get('version')
+    let removed: boolean
+    if (role === 'candidate') removed = await clearCandidateModel()
+    else if (role === 'shadow' && version) removed = await removeShadowModel(version)
+    else return badRequest('Use ?role=candidate or ?role=shadow&version=X')
+
+    if (!removed) {
+        return cors(NextResponse.json({ success: false, error: 'No such model deployed' }, { status: 404 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await deploymentInfo() }))
+}
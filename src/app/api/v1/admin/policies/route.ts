@@ -0,0 +1,62 @@
+/**
+ * Deep-Check Public API v1 — Scoring policies (admin only)
+ *
+ * GET  /api/v1/admin/policies          — Latest version of every policy
+ * GET  /api/v1/admin/policies?id=x     — Every version of policy x
+ * POST /api/v1/admin/policies          — Publish a policy (next version of its id)
+ *
+ * POST body is a ScoringPolicy without version/createdAt (see src/lib/policy.ts).
+ * Incident codes it leaves out keep the default rule. Published versions are
+ * never edited; sessions keep a snapshot of the version they were scored with.
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listPolicies, listPolicyVersions, publishPolicy } from '@/lib/policies'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    const id = new URL(req.url).searchParams.get('id')
+    const data = id
+        ? (await listPolicyVersions()).filter(p => p.id === id)
+        : await listPolicies()
+    if (id && data.length === 0) {
+        return cors(NextResponse.json({ success: false, error: 'Policy not found' }, { status: 404 }))
+    }
+    return cors(NextResponse.json({ success: true, data }))
+}
+
+export async function POST(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    let body
+    try {
+        body = await req.json()
+    } catch {
+        return cors(NextResponse.json({ success: false, error: 'Invalid request body' }, { status: 400 }))
+    }
+
+    const result = await publishPolicy(body)
+    if (!result.ok) {
+        return cors(NextResponse.json({ success: false, error: `Invalid policy: ${result.errors.join('; ')}` }, { status: 400 }))
+    }
+    return cors(NextResponse.json({ success: true, data: result.policy }, { status: 201 }))
+}
@@ -0,0 +1,74 @@
+/**
+ * Deep-Check Public API v1 — Session hash migration (admin only)
+ *
+ * GET  /api/v1/admin/session-hashes   — Dry run: what a migration would do
+ * POST /api/v1/admin/session-hashes   — Move every row to the current hash version
+ *
+ * Rows whose legacy hash is reproduced from their data are rehashed and, if
+ * they were certified, re-signed. Rows whose legacy hash matches no known
+ * layout are rehashed but keep their old hash (verified: false) and are not
+ * re-signed. Idempotent — already-current rows are skipped.
+ *
+ * Protected by DEEPCHECK_ADMIN_SECRET env var
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Assessment, getAssessments, initDb, saveAssessment } from '@/lib/db'
+import { issueCertificate } from '@/lib/certificates'
+import { CURRENT_SESSION_HASH_VERSION, SessionHashMigration, migrateSessionHash } from '@/lib/sessionHash'
+
+const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Secret')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+async function migrate(apply: boolean) {
+    await initDb()
+    const counts: Record<SessionHashMigration, number> = { current: 0, migrated: 0, unverified: 0, unhashed: 0 }
+    const unverified: { id: string; storedHash: string }[] = []
+    let resigned = 0
+
+    for (const original of await getAssessments()) {
+        const { assessment, outcome } = migrateSessionHash(original)
+        counts[outcome]++
+        if (outcome === 'current') continue
+        if (outcome === 'unverified') unverified.push({ id: original.id, storedHash: original.sessionHash! })
+
+        let next: Assessment = assessment
+        if (outcome === 'migrated' && original.certificateIssued) {
+            next = issueCertificate(assessment)
+            resigned++
+        }
+        if (apply) await saveAssessment(next)
+    }
+
+    return {
+        applied: apply,
+        targetVersion: CURRENT_SESSION_HASH_VERSION,
+        counts,
+        resigned,
+        unverified,
+    }
+}
+
+export async function GET(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await migrate(false) }))
+}
+
+export async function POST(req: NextRequest) {
+    if (req.headers.get('x-admin-secret') !== ADMIN_SECRET) {
+        return cors(NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }))
+    }
+    return cors(NextResponse.json({ success: true, data: await migrate(true) }))
+}
@@ -0,0 +1,47 @@
+/**
+ * Deep-Check Public API v1 — Enrollment history
+ *
+ * GET /api/v1/enroll/history?email=   — Every template version for a candidate
+ *
+ * Newest first, expired versions included. Each version carries
+ * previousProfileId and `update` (source enrollment | interview, the session
+ * it came from, its weight and how far it moved the template), so the list is
+ * the audit trail of merges and adaptive updates (see src/lib/enrollment.ts).
+ * Raw biometric data is never returned.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getProfileHistory, validateApiKey } from '@/lib/db'
+import { enrollmentPayload } from '@/lib/webhooks'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    return res
+}
+function unauthorized() {
+    return cors(NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 }))
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return unauthorized()
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes('read')) return unauthorized()
+
+    const email = new URL(req.url).searchParams.get('email')
+    if (!email) {
+        return cors(NextResponse.json({ success: false, error: 'email query param required' }, { status: 400 }))
+    }
+
+    const history = await getProfileHistory(email)
+    if (history.length === 0) {
+        return cors(NextResponse.json({ success: false, error: 'No enrollment profiles found' }, { status: 404 }))
+    }
+    return cors(NextResponse.json({ success: true, data: history.map(enrollmentPayload) }))
+}
@@ -1,19 +1,24 @@
 /**
  * Deep-Check Public API v1 — Enrollment
  *
- * POST /api/v1/enroll   — Save a biometric profile from enrollment session
- * GET  /api/v1/enroll   — Get profile by email (query: ?email=)
+ * POST /api/v1/enroll   — Save a biometric profile from enrollment session;
+ *                         merged into the active template of the same context
+ *                         unless the body sets merge: false (see enrollment.ts)
+ * GET  /api/v1/enroll   — Get the active profile by email (query: ?email=)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import {
+    apiKeyId,
     validateApiKey,
-    saveEnrollmentProfile,
     getProfileByEmail,
     EnrollmentProfile,
     KeystrokeProfile,
 } from '@/lib/db'
-import crypto from 'crypto'
+import { enrollCandidate } from '@/lib/enrollment'
+import { parseFaceDescriptors } from '@/lib/faceMatch'
+import { parseFeatureStats } from '@/lib/identityMatch'
+import { dispatchWebhookEvent, enrollmentPayload } from '@/lib/webhooks'
 
 function cors(res: NextResponse) {
     res.headers.set('Access-Control-Allow-Origin', '*')
@@ -46,12 +51,13 @@ export async function GET(req: NextRequest) {
     }
 
     // Return profile without raw biometric data (just metadata)
-    const { profile: rawProfile, ...meta } = profile
+    const { profile: rawProfile, faceDescriptors, ...meta } = profile
     return cors(NextResponse.json({
         success: true,
         data: {
             ...meta,
             sampleSize: rawProfile.sampleSize,
+            faceSamples: faceDescriptors?.length ?? 0,
             context: profile.context,
             expiresAt: profile.expiresAt,
         }
@@ -71,11 +77,15 @@ export async function POST(req: NextRequest) {
             candidateEmail,
             context = 'prose_es',
             profile,
+            faceDescriptors,
+            merge,
         }: {
             candidateName: string
             candidateEmail: string
             context: EnrollmentProfile['context']
             profile: KeystrokeProfile
+            faceDescriptors?: unknown
+            merge?: unknown
         } = body
 
         if (!candidateName || !candidateEmail || !profile) {
@@ -92,36 +102,38 @@ export async function POST(req: NextRequest) {
             ))
         }
 
-        const now = new Date()
-        const expires = new Date(now)
-        expires.setDate(expires.getDate() + 90)
+        const stats = parseFeatureStats(profile.featureStats)
+        if (!stats.ok) {
+            return cors(NextResponse.json({ success: false, error: stats.errors.join('; ') }, { status: 400 }))
+        }
 
-        const enrollmentHash = crypto
-            .createHash('sha256')
-            .update(JSON.stringify(profile))
-            .digest('hex')
+        const faces = parseFaceDescriptors(faceDescriptors)
+        if (!faces.ok) {
+            return cors(NextResponse.json({ success: false, error: faces.errors.join('; ') }, { status: 400 }))
+        }
 
-        const enrollmentProfile: EnrollmentProfile = {
-            id: `ep_${crypto.randomBytes(12).toString('hex')}`,
-            candidateName,
-            candidateEmail,
-            context,
-            createdAt: now.toISOString(),
-            expiresAt: expires.toISOString(),
-            profile,
-            enrollmentHash,
+        if (merge !== undefined && typeof merge !== 'boolean') {
+            return cors(NextResponse.json({ success: false, error: 'merge must be a boolean' }, { status: 400 }))
         }
 
-        await saveEnrollmentProfile(enrollmentProfile)
+        const enrollmentProfile = await enrollCandidate({
+            candidateName, candidateEmail, context, profile, faceDescriptors: faces.descriptors, merge,
+        })
+        await dispatchWebhookEvent('enrollment.created', enrollmentPayload(enrollmentProfile), {
+            ownerKeyId: apiKeyId(keyRecord.key),
+        })
 
         return cors(NextResponse.json({
             success: true,
             data: {
                 id: enrollmentProfile.id,
                 expiresAt: enrollmentProfile.expiresAt,
-                enrollmentHash,
-                sampleSize: profile.sampleSize,
+                enrollmentHash: enrollmentProfile.enrollmentHash,
+                sampleSize: enrollmentProfile.profile.sampleSize,
+                faceSamples: enrollmentProfile.faceDescriptors?.length ?? 0,
                 context,
+                version: enrollmentProfile.version,
+                enrollmentSessions: enrollmentProfile.enrollmentSessions,
             }
         }, { status: 201 }))
 
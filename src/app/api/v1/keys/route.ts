@@ -4,11 +4,16 @@
  * POST /api/v1/keys   — Create a new API key (admin only)
  * GET  /api/v1/keys   — List all API keys
  *
+ * Keys created with a webhookUrl get the 'webhook' permission and a
+ * whsec_ signing secret, returned in full only on creation. `policyId`
+ * assigns a scoring policy (see /api/v1/admin/policies) to the key's sessions.
+ *
  * Protected by DEEPCHECK_ADMIN_SECRET env var
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createApiKey, getApiKeysList } from '@/lib/db'
+import { getPolicy } from '@/lib/policies'
 
 const ADMIN_SECRET = process.env.DEEPCHECK_ADMIN_SECRET ?? 'dev-admin-secret'
 
@@ -34,6 +39,7 @@ export async function GET(req: NextRequest) {
     const masked = keys.map(k => ({
         ...k,
         key: k.key.slice(0, 12) + '...' + k.key.slice(-4),
+        webhookSecret: k.webhookSecret ? k.webhookSecret.slice(0, 10) + '...' : undefined,
     }))
 
     return cors(NextResponse.json({ success: true, data: masked }))
@@ -46,16 +52,29 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { name, permissions = ['read', 'write'], webhookUrl } = await req.json()
+        const { name, permissions = ['read', 'write'], webhookUrl, policyId } = await req.json()
         if (!name) {
             return cors(NextResponse.json({ success: false, error: 'name is required' }, { status: 400 }))
         }
 
-        const apiKey = await createApiKey(name, permissions, webhookUrl)
+        if (webhookUrl) {
+            try {
+                const { protocol } = new URL(webhookUrl)
+                if (protocol !== 'https:' && protocol !== 'http:') throw new Error()
+            } catch {
+                return cors(NextResponse.json({ success: false, error: 'webhookUrl must be an http(s) URL' }, { status: 400 }))
+            }
+        }
+        if (policyId !== undefined && (typeof policyId !== 'string' || !(await getPolicy(policyId)))) {
+            return cors(NextResponse.json({ success: false, error: `Unknown policyId: ${policyId}` }, { status: 400 }))
+        }
+        const granted = webhookUrl && !permissions.includes('webhook') ? [...permissions, 'webhook'] : permissions
+
+        const apiKey = await createApiKey(name, granted, webhookUrl, policyId)
         return cors(NextResponse.json({
             success: true,
             data: apiKey,
-            note: 'Save this key — it will not be shown again in full',
+            note: 'Save this key and its webhookSecret — they will not be shown again in full',
         }, { status: 201 }))
     } catch {
         return cors(NextResponse.json({ success: false, error: 'Invalid request body' }, { status: 400 }))
@@ -0,0 +1,138 @@
+/**
+ * Deep-Check Public API v1 — Session Event Stream
+ *
+ * GET  /api/v1/sessions/:id/events   — Live session state + event log (resume)
+ * POST /api/v1/sessions/:id/events   — Append a numbered batch of raw events
+ *
+ * Authentication: either
+ *   X-Session-Token: <ingest token from POST /api/sessions>   (candidate browser)
+ *   Authorization: Bearer dc_live_xxxx                         (read / write key)
+ * An API key only reaches sessions it created; any other id is a 404.
+ *
+ * POST body:
+ *   { seq: number, events: SessionEvent[], final?: boolean, evidence?, hints? }
+ *   Batches must arrive in order (seq = lastSeq + 1). Re-sent batches are
+ *   acknowledged with duplicate: true. `final: true` closes the session and
+ *   returns the server-scored assessment.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, getAssessmentById, getLiveSession, getSessionEvents, LiveSession, validateApiKey } from '@/lib/db'
+import { sanitizeSessionEvents } from '@/lib/scoring'
+import {
+    MAX_BATCH_EVENTS,
+    finalizeLiveSession,
+    ingestBatch,
+    sweepIdleSessions,
+    verifyIngestToken,
+} from '@/lib/liveSessions'
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Invalid or missing credentials. Pass X-Session-Token or Authorization: Bearer dc_live_...' },
+        { status: 401 }
+    )
+}
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Session-Token')
+    return res
+}
+
+/** The session's ingest token, or an API key — which only reaches the sessions it created (keyId) */
+type Access = { ok: false } | { ok: true; keyId?: string }
+
+async function authorize(req: NextRequest, id: string, permission: 'read' | 'write', bodyToken?: unknown): Promise<Access> {
+    // sendBeacon cannot set headers, so the token may also travel in the body
+    const token = req.headers.get('x-session-token') ?? (typeof bodyToken === 'string' ? bodyToken : null)
+    if (token) return { ok: verifyIngestToken(id, token) }
+
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return { ok: false }
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes(permission)) return { ok: false }
+    return { ok: true, keyId: apiKeyId(keyRecord.key) }
+}
+
+function visibleTo(session: LiveSession | null, access: Access): session is LiveSession {
+    return !!session && access.ok && (access.keyId === undefined || session.apiKeyId === access.keyId)
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const access = await authorize(req, id, 'read')
+    if (!access.ok) return cors(unauthorized())
+
+    const session = await getLiveSession(id)
+    if (!visibleTo(session, access)) {
+        return cors(NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }))
+    }
+    const events = await getSessionEvents(id)
+    return cors(NextResponse.json({ success: true, data: { session, events } }))
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+
+    let body
+    try {
+        body = await req.json()
+    } catch {
+        return cors(NextResponse.json({ success: false, error: 'Invalid request body' }, { status: 400 }))
+    }
+
+    const access = await authorize(req, id, 'write', body?.token)
+    if (!access.ok) return cors(unauthorized())
+
+    const seq = body?.seq
+    if (!Number.isInteger(seq) || seq < 1) {
+        return cors(NextResponse.json({ success: false, error: 'seq must be a positive integer' }, { status: 400 }))
+    }
+    if (!Array.isArray(body.events) || body.events.length > MAX_BATCH_EVENTS) {
+        return cors(NextResponse.json({ success: false, error: `events must be an array of at most ${MAX_BATCH_EVENTS}` }, { status: 400 }))
+    }
+
+    const session = await getLiveSession(id)
+    if (!visibleTo(session, access)) {
+        return cors(NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }))
+    }
+
+    const result = await ingestBatch(session, seq, sanitizeSessionEvents(body.events, MAX_BATCH_EVENTS))
+
+    // A retried final batch after the session closed: hand back the verdict
+    if (!result.ok && result.reason === 'finalized' && body.final === true) {
+        const assessment = await getAssessmentById(id)
+        if (assessment) {
+            return cors(NextResponse.json({ success: true, data: { seq, duplicate: true, assessment, summary: null } }))
+        }
+    }
+    if (!result.ok) {
+        return cors(NextResponse.json({
+            success: false,
+            error: result.reason === 'finalized' ? 'Session already finalized' : 'Batch out of order',
+            data: { status: result.session.status, expectedSeq: result.session.lastSeq + 1 },
+        }, { status: 409 }))
+    }
+
+    // Opportunistic sweep of abandoned sessions — never blocks ingestion
+    sweepIdleSessions().catch(err => console.error('[live] sweep:', err))
+
+    if (body.final === true) {
+        const { assessment, summary } = await finalizeLiveSession(result.session, {
+            by:       'client',
+            evidence: body.evidence ?? [],
+            hints:    body.hints,
+        })
+        return cors(NextResponse.json({ success: true, data: { seq, duplicate: result.duplicate, assessment, summary } }))
+    }
+
+    return cors(NextResponse.json({
+        success: true,
+        data: { seq, duplicate: result.duplicate, lastSeq: result.session.lastSeq, eventCount: result.session.eventCount },
+    }))
+}
@@ -0,0 +1,70 @@
+/**
+ * Deep-Check Public API v1 — Live face match
+ *
+ * POST /api/v1/sessions/:id/face-match   — Compare the candidate's face with their enrollment
+ *
+ * Authentication: X-Session-Token (candidate browser only)
+ *
+ * Body:    { descriptor: number[128] }   — face-api recognition descriptor
+ * Returns: { enrolled: false } when the session's enrollment profile has no
+ *          face descriptors, else { enrolled: true, distance, score, match, event }
+ *          (see faceMatch.ts). The result is appended to the session's event
+ *          log here as `event`, a face_match the browser cannot send itself;
+ *          the enrolled descriptors never leave the server.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { appendSessionEvents, getLiveSession, getProfileByEmail, getProfileById } from '@/lib/db'
+import { FACE_DESCRIPTOR_LENGTH, isFaceDescriptor, matchFace } from '@/lib/faceMatch'
+import { verifyIngestToken } from '@/lib/liveSessions'
+import type { SessionEvent } from '@/lib/scoring'
+
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Session-Token')
+    return res
+}
+function unauthorized() {
+    return cors(NextResponse.json({ success: false, error: 'Invalid or missing X-Session-Token' }, { status: 401 }))
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    if (!verifyIngestToken(id, req.headers.get('x-session-token'))) return unauthorized()
+
+    const body = await req.json().catch(() => null)
+    if (!isFaceDescriptor(body?.descriptor)) {
+        return cors(NextResponse.json(
+            { success: false, error: `descriptor must be ${FACE_DESCRIPTOR_LENGTH} finite numbers` },
+            { status: 400 }
+        ))
+    }
+
+    const session = await getLiveSession(id)
+    if (!session) {
+        return cors(NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }))
+    }
+    if (session.status !== 'live') {
+        return cors(NextResponse.json({ success: false, error: 'Session already finalized' }, { status: 409 }))
+    }
+
+    const profile = session.enrollmentProfileId
+        ? await getProfileById(session.enrollmentProfileId)
+        : session.candidateEmail
+            ? await getProfileByEmail(session.candidateEmail)
+            : null
+    if (!profile?.faceDescriptors?.length) {
+        return cors(NextResponse.json({ success: true, data: { enrolled: false } }))
+    }
+
+    const result = matchFace(body.descriptor, profile.faceDescriptors)
+    const event: SessionEvent = { kind: 'face_match', at: Date.now(), distance: result.distance, score: result.score }
+    await appendSessionEvents(id, [event])
+
+    return cors(NextResponse.json({ success: true, data: { enrolled: true, ...result, event } }))
+}
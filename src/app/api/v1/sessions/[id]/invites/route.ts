@@ -0,0 +1,86 @@
+/**
+ * Deep-Check Public API v1 — Candidate Invitations
+ *
+ * POST /api/v1/sessions/:id/invites   — Issue a single-use link to a pre-created session
+ *
+ * Body (all optional — defaults come from the session and the API key):
+ *   { candidateName, candidateEmail, role, policyId, enrollmentProfileId, expiresIn }
+ *   expiresIn is in seconds (default 7 days, max 30 days).
+ *
+ * Returns { inviteId, token, url, expiresAt }. Hand `url` to the candidate:
+ * /interview?invite=<token> opens the live session on this id, and the
+ * result replaces the pre-created record (externalRef is kept).
+ * Only the API key that created the session can invite to it; any other id is a 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, getAssessmentById, getLiveSession, getProfileById, validateApiKey } from '@/lib/db'
+import { createInvite } from '@/lib/invites'
+import { getPolicy } from '@/lib/policies'
+
+const PUBLIC_URL = process.env.DEEPCHECK_PUBLIC_URL
+
+function unauthorized() {
+    return NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 })
+}
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    return res
+}
+function badRequest(error: string) {
+    return cors(NextResponse.json({ success: false, error }, { status: 400 }))
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return cors(unauthorized())
+
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes('write')) return cors(unauthorized())
+
+    const { id } = await params
+    const keyId = apiKeyId(keyRecord.key)
+    const session = await getAssessmentById(id)
+    // A key only invites to the sessions it created
+    if (!session || session.apiKeyId !== keyId) {
+        return cors(NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }))
+    }
+    if (session.sessionHash || await getLiveSession(id)) {
+        return cors(NextResponse.json({ success: false, error: 'Session already started — create a new session to invite again' }, { status: 409 }))
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { candidateName, candidateEmail, role, policyId, enrollmentProfileId, expiresIn } = body ?? {}
+
+    if (candidateName !== undefined && typeof candidateName !== 'string') return badRequest('candidateName must be a string')
+    if (role !== undefined && typeof role !== 'string') return badRequest('role must be a string')
+    if (candidateEmail !== undefined && (typeof candidateEmail !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(candidateEmail))) {
+        return badRequest('candidateEmail must be an email address')
+    }
+    if (expiresIn !== undefined && (typeof expiresIn !== 'number' || !Number.isFinite(expiresIn) || expiresIn <= 0)) {
+        return badRequest('expiresIn must be a positive number of seconds')
+    }
+    const assignedPolicy = policyId ?? keyRecord.policyId
+    if (assignedPolicy !== undefined && (typeof assignedPolicy !== 'string' || !(await getPolicy(assignedPolicy)))) {
+        return badRequest(`Unknown policyId: ${assignedPolicy}`)
+    }
+    if (enrollmentProfileId !== undefined && (typeof enrollmentProfileId !== 'string' || !(await getProfileById(enrollmentProfileId)))) {
+        return badRequest(`Unknown enrollmentProfileId: ${enrollmentProfileId}`)
+    }
+
+    const { invite, token } = await createInvite(session, keyId, {
+        candidateName, candidateEmail, role, policyId: assignedPolicy, enrollmentProfileId, expiresIn,
+    })
+    const url = `${PUBLIC_URL ?? req.nextUrl.origin}/interview?invite=${encodeURIComponent(token)}`
+
+    return cors(NextResponse.json({
+        success: true,
+        data: { inviteId: invite.id, sessionId: invite.sessionId, token, url, expiresAt: invite.expiresAt },
+    }, { status: 201 }))
+}
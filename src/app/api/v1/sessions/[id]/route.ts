@@ -7,6 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getAssessmentById, saveAssessment, validateApiKey } from '@/lib/db'
+import { issueCertificate } from '@/lib/certificates'
+import { appendIncidents, getIncidentLog, reviewDrafts } from '@/lib/incidents'
+import { dispatchSessionReviewed } from '@/lib/webhooks'
 
 function unauthorized() {
     return NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 })
@@ -43,7 +46,9 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
         return { ...rest, evidenceCount: evidence?.length ?? 0 }
     })()
 
-    return cors(NextResponse.json({ success: true, data }))
+    // Full entries so integrators can re-check the chain against the certificate
+    const { entries, check } = await getIncidentLog(assessment)
+    return cors(NextResponse.json({ success: true, data: { ...data, incidents: entries, incidentChain: check } }))
 }
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -54,7 +59,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
     if (!keyRecord || !keyRecord.permissions.includes('write')) return unauthorized()
 
     const { id } = await params
-    const assessment = await getAssessmentById(id)
+    let assessment = await getAssessmentById(id)
     if (!assessment) {
         return cors(NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }))
     }
@@ -65,13 +70,17 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
         return cors(NextResponse.json({ success: false, error: 'Invalid status' }, { status: 400 }))
     }
 
+    const previousStatus = assessment.status
     if (status) assessment.status = status
     if (externalRef) assessment.externalRef = externalRef
-    if (reviewNote) {
-        const note = `[API Review ${new Date().toLocaleTimeString()}] ${reviewNote}`
-        assessment.alerts = [note, ...(Array.isArray(assessment.alerts) ? assessment.alerts : [])]
-    }
+    assessment = await appendIncidents(assessment, reviewDrafts({ previousStatus, status: assessment.status, reviewNote }, 'api'))
+
+    // Status and incident root are certified — re-sign so /verify stays valid
+    if (assessment.certificateIssued) assessment = issueCertificate(assessment)
 
     await saveAssessment(assessment)
+    if (status || reviewNote) {
+        await dispatchSessionReviewed(assessment, { previousStatus, reviewNote, source: 'api' })
+    }
     return cors(NextResponse.json({ success: true, data: assessment }))
 }
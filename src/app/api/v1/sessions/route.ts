@@ -4,6 +4,12 @@
  * GET  /api/v1/sessions          — List all sessions (paginated)
  * POST /api/v1/sessions          — Create a new session (from external platform)
  *
+ * POST body (all optional):
+ *   { candidateName, candidateEmail, role, externalRef, enrollmentProfileId }
+ * The id is assigned here; score, status, incidents and the certificate are
+ * only ever set by finalizing the candidate's session. A session created here
+ * can be handed to the candidate with POST /api/v1/sessions/:id/invites.
+ *
  * Authentication: Bearer token via Authorization header
  *   Authorization: Bearer dc_live_xxxx
  *
@@ -11,7 +17,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getAssessments, saveAssessment, validateApiKey, initDb } from '@/lib/db'
+import { apiKeyId, Assessment, getAssessments, getProfileById, saveAssessment, validateApiKey, initDb } from '@/lib/db'
+import { newSessionId } from '@/lib/sessions'
 
 function unauthorized() {
     return NextResponse.json(
@@ -26,6 +33,9 @@ function cors(res: NextResponse) {
     res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
     return res
 }
+function badRequest(error: string) {
+    return cors(NextResponse.json({ success: false, error }, { status: 400 }))
+}
 
 export async function OPTIONS() {
     return cors(new NextResponse(null, { status: 204 }))
@@ -78,19 +88,51 @@ export async function POST(req: NextRequest) {
 
     await initDb()
 
+    let body
     try {
-        const body = await req.json()
-        const assessment = {
-            ...body,
-            id: body.id ?? Math.random().toString(36).substr(2, 9),
-            date: body.date ?? new Date().toISOString().split('T')[0],
-            alerts: body.alerts ?? [],
-            evidence: body.evidence ?? [],
-            lastEvent: body.lastEvent ?? 'Created via API',
+        body = await req.json()
+    } catch {
+        return badRequest('Invalid request body')
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return badRequest('Invalid request body')
+
+    // Only the session's description is taken from the body: the id is the
+    // server's, and scores, verdict, incidents and certificate come from
+    // finalizing the candidate's session
+    const { id, candidateName, candidateEmail, role, externalRef, enrollmentProfileId } = body
+    if (id !== undefined) return badRequest('id is assigned by the server — use externalRef for your own reference')
+    if (candidateName !== undefined && typeof candidateName !== 'string') return badRequest('candidateName must be a string')
+    if (role !== undefined && typeof role !== 'string') return badRequest('role must be a string')
+    if (externalRef !== undefined && typeof externalRef !== 'string') return badRequest('externalRef must be a string')
+    if (candidateEmail !== undefined && (typeof candidateEmail !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(candidateEmail.trim()))) {
+        return badRequest('candidateEmail must be an email address')
+    }
+    if (enrollmentProfileId !== undefined && (typeof enrollmentProfileId !== 'string' || !(await getProfileById(enrollmentProfileId)))) {
+        return badRequest(`Unknown enrollmentProfileId: ${enrollmentProfileId}`)
+    }
+
+    try {
+        const assessment: Assessment = {
+            id:             newSessionId(),
+            candidateName:  candidateName?.trim() || 'Remote Candidate',
+            candidateEmail: candidateEmail?.trim().toLowerCase(),
+            role:           role?.trim() || 'Software Engineer',
+            date:           new Date().toISOString().split('T')[0],
+            // No verdict until the candidate's session is finalized
+            score:          0,
+            status:         'review',
+            alerts:         [],
+            evidence:       [],
+            lastEvent:      'Created via API',
+            enrollmentProfileId,
+            externalRef,
+            // Webhooks for this session only go to the key that created it
+            apiKeyId:       apiKeyId(keyRecord.key),
         }
         await saveAssessment(assessment)
         return cors(NextResponse.json({ success: true, data: { id: assessment.id } }, { status: 201 }))
-    } catch {
-        return cors(NextResponse.json({ success: false, error: 'Invalid request body' }, { status: 400 }))
+    } catch (error) {
+        console.error('[v1/sessions] create failed:', error)
+        return cors(NextResponse.json({ success: false, error: 'Failed to create session' }, { status: 500 }))
     }
 }
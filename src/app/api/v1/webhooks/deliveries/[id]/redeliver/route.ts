@@ -0,0 +1,48 @@
+/**
+ * Deep-Check Public API v1 — Redeliver Webhook
+ *
+ * POST /api/v1/webhooks/deliveries/:id/redeliver
+ *   Sends the same event (same payload and event id) again as a new delivery
+ *   with its own attempt log and retry schedule. Works on any delivery status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, getWebhookDelivery, validateApiKey } from '@/lib/db'
+import { redeliver } from '@/lib/webhooks'
+
+function unauthorized() {
+    return NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 })
+}
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return unauthorized()
+
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes('webhook')) return unauthorized()
+
+    const { id } = await params
+    const original = await getWebhookDelivery(id)
+    if (!original || original.apiKeyId !== apiKeyId(keyRecord.key)) {
+        return cors(NextResponse.json({ success: false, error: 'Delivery not found' }, { status: 404 }))
+    }
+
+    // Send to the key's current URL in case it was the reason for the failure
+    const delivery = await redeliver({ ...original, url: keyRecord.webhookUrl ?? original.url })
+    if (!delivery) {
+        return cors(NextResponse.json({ success: false, error: 'Redelivery could not be attempted' }, { status: 500 }))
+    }
+
+    const { payload, ...rest } = delivery
+    return cors(NextResponse.json({ success: true, data: { ...rest, payloadBytes: payload.length } }, { status: 201 }))
+}
@@ -0,0 +1,39 @@
+/**
+ * Deep-Check Public API v1 — Single Webhook Delivery
+ *
+ * GET /api/v1/webhooks/deliveries/:id   — Delivery with payload and attempt log
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, getWebhookDelivery, validateApiKey } from '@/lib/db'
+
+function unauthorized() {
+    return NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 })
+}
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return unauthorized()
+
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes('webhook')) return unauthorized()
+
+    const { id } = await params
+    const delivery = await getWebhookDelivery(id)
+    // Other keys' deliveries are reported as missing, not forbidden
+    if (!delivery || delivery.apiKeyId !== apiKeyId(keyRecord.key)) {
+        return cors(NextResponse.json({ success: false, error: 'Delivery not found' }, { status: 404 }))
+    }
+
+    return cors(NextResponse.json({ success: true, data: { ...delivery, payload: JSON.parse(delivery.payload) } }))
+}
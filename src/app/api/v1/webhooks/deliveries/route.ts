@@ -0,0 +1,56 @@
+/**
+ * Deep-Check Public API v1 — Webhook Deliveries
+ *
+ * GET /api/v1/webhooks/deliveries   — Delivery log for the calling API key
+ *   ?session_id=   only deliveries for one session
+ *   ?status=       pending | succeeded | failed
+ *   ?limit=        max 200 (default 50)
+ *
+ * Payload bodies are omitted here; fetch a single delivery to see one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyId, getWebhookDeliveries, validateApiKey, WebhookDelivery } from '@/lib/db'
+import { processDueDeliveries } from '@/lib/webhooks'
+
+function unauthorized() {
+    return NextResponse.json({ success: false, error: 'Invalid or missing API key' }, { status: 401 })
+}
+function cors(res: NextResponse) {
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+    res.headers.set('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    return res
+}
+
+export async function OPTIONS() {
+    return cors(new NextResponse(null, { status: 204 }))
+}
+
+export async function GET(req: NextRequest) {
+    const apiKey = req.headers.get('authorization')?.replace('Bearer ', '').trim()
+    if (!apiKey) return unauthorized()
+
+    const keyRecord = await validateApiKey(apiKey)
+    if (!keyRecord || !keyRecord.permissions.includes('webhook')) return unauthorized()
+
+    // Retries whose backoff elapsed while the server was idle
+    await processDueDeliveries()
+
+    const url = new URL(req.url)
+    const status = url.searchParams.get('status')
+    if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+        return cors(NextResponse.json({ success: false, error: 'Invalid status' }, { status: 400 }))
+    }
+    const limit = Math.min(200, Math.max(1, parseInt(url.searchParams.get('limit') ?? '50') || 50))
+
+    const deliveries = await getWebhookDeliveries({
+        apiKeyId:  apiKeyId(keyRecord.key),
+        sessionId: url.searchParams.get('session_id') ?? undefined,
+        status:    (status as WebhookDelivery['status'] | null) ?? undefined,
+        limit,
+    })
+
+    const data = deliveries.map(({ payload, ...rest }) => ({ ...rest, payloadBytes: payload.length }))
+    return cors(NextResponse.json({ success: true, data, meta: { count: data.length, limit } }))
+}
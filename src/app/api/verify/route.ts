@@ -9,12 +9,18 @@
  * Returns:
  *   valid: true/false
  *   match: whether the provided hash matches the stored session hash
+ *   signature: Ed25519 certificate status (valid | invalid | unsigned | unknown_key | stale)
+ *   certificate: the signed certificate, verifiable offline against /.well-known/jwks.json
+ *   incidentChain: whether the append-only incident log still hashes to the
+ *                  root signed into the certificate (entry contents omitted)
  *   session: sanitized session metadata (no evidence images)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getAssessmentById, initDb } from '@/lib/db'
-import crypto from 'crypto'
+import { checkCertificate } from '@/lib/certificates'
+import { getIncidentLog } from '@/lib/incidents'
+import { verifySessionHash } from '@/lib/sessionHash'
 
 function cors(res: NextResponse) {
     res.headers.set('Access-Control-Allow-Origin', '*')
@@ -51,31 +57,12 @@ export async function GET(req: NextRequest) {
     }
 
     // Recompute expected hash from stored data
-    const expectedPayload = JSON.stringify({
-        id: assessment.id,
-        candidateName: assessment.candidateName,
-        role: assessment.role,
-        date: assessment.date,
-        score: assessment.score,
-        status: assessment.status,
-        alertCount: assessment.alerts?.length ?? 0,
-        keystrokeCount: assessment.keystrokeCount,
-        aiRisk: assessment.aiRisk,
-        tabSwitchCount: assessment.tabSwitchCount,
-        gazeEventCount: assessment.gazeEventCount,
-        livenessScore: assessment.livenessScore,
-        identityMatchScore: assessment.identityMatchScore,
-    })
-    const expectedHash = crypto.createHash('sha256').update(expectedPayload).digest('hex')
+    const hashCheck = verifySessionHash(assessment, hash)
+    const check = await checkCertificate(assessment)
+    const incidents = await getIncidentLog(assessment)
 
-    // Hash verification
-    let hashMatch: boolean | null = null
-    if (hash) {
-        hashMatch = hash.toLowerCase() === expectedHash.toLowerCase()
-    } else if (assessment.sessionHash) {
-        // If no hash provided, compare stored hash against recomputed
-        hashMatch = assessment.sessionHash.toLowerCase() === expectedHash.toLowerCase()
-    }
+    // A provided hash (from a PDF) takes precedence over the stored one
+    const hashMatch = hashCheck.providedMatch ?? hashCheck.storedMatch
 
     const isValid = assessment.status !== undefined
     const isPassed = assessment.status === 'passed'
@@ -88,8 +75,27 @@ export async function GET(req: NextRequest) {
         hashMatch,
         integrity: {
             storedHash: assessment.sessionHash ?? null,
-            expectedHash,
-            tampered: hashMatch === false,
+            expectedHash: hashCheck.expectedHash,
+            acceptedHashes: hashCheck.acceptedHashes,
+            hashVersion: hashCheck.version,
+            legacyHash: assessment.legacySessionHash ?? null,
+            tampered: hashMatch === false || check.status === 'invalid' || !incidents.check.valid,
+        },
+        signature: {
+            status: check.status,
+            alg: assessment.certificate?.alg ?? null,
+            kid: check.kid,
+            issuedAt: check.issuedAt,
+            developmentKey: check.developmentKey,
+            jwksUrl: '/.well-known/jwks.json',
+        },
+        certificate: assessment.certificate ?? null,
+        incidentChain: {
+            ...incidents.check,
+            certifiedRoot: incidents.anchor?.root ?? null,
+            certifiedCount: incidents.anchor?.count ?? null,
+            anchoredBy: incidents.anchor?.source ?? null,
+            entries: incidents.entries.map(({ seq, at, kind, source, hash }) => ({ seq, at, kind, source, hash })),
         },
         session: {
             id: assessment.id,
@@ -104,6 +110,7 @@ export async function GET(req: NextRequest) {
             tabSwitchCount: assessment.tabSwitchCount ?? null,
             gazeEventCount: assessment.gazeEventCount ?? null,
             identityMatchScore: assessment.identityMatchScore ?? null,
+            faceMatchScore: assessment.faceMatchScore ?? null,
             alertCount: assessment.alerts?.length ?? 0,
             evidenceCount: assessment.evidence?.length ?? 0,
             certificateIssued: assessment.certificateIssued ?? false,
@@ -4,9 +4,28 @@ import React, { useEffect, useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import styles from '../../../page.module.css'
+import { FEATURE_LABELS, FeatureContribution, MlExplanation } from '@/lib/featureExplanation'
+import { IDENTITY_GENUINE_MEAN, IDENTITY_IMPOSTOR_MEAN } from '@/lib/identityMatch'
+import type { IncidentEntry } from '@/lib/incidentChain'
+import { Incident, incidentLabel } from '@/lib/incidentModel'
+import { DEFAULT_POLICY, policyLabel, ScoringPolicy } from '@/lib/policy'
+import type { AiRiskPoint, IdentityPoint } from '@/lib/scoring'
 
 type AssessmentStatus = 'passed' | 'review' | 'flagged'
 
+/** Features shown in the "why" panel */
+const EXPLAINED_FEATURES = 8
+/** Model risk above which a window counts as bot-like (as ML_BOT_DETECTION) */
+const BOT_LIKE_RISK = 70
+/** Window score that is as likely the enrolled typist as someone else */
+const IDENTITY_NEUTRAL = (IDENTITY_GENUINE_MEAN + IDENTITY_IMPOSTOR_MEAN) / 2
+
+/** Session-relative offset as m:ss */
+function formatOffset(ms: number): string {
+    const total = Math.round(ms / 1000)
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
 export default function ReportDetailPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = React.use(params)
     const [assessment, setAssessment] = useState<any>(null)
@@ -70,9 +89,23 @@ export default function ReportDetailPage({ params }: { params: Promise<{ id: str
     )
     if (!assessment) return null
 
-    const scoreColor = assessment.score > 85 ? 'var(--color-primary)' : assessment.score > 60 ? '#ffd700' : '#ff4d4d'
+    const policy: ScoringPolicy | undefined = assessment.scoringPolicy
+    const { pass, review } = (policy ?? DEFAULT_POLICY).thresholds
+    const scoreColor = assessment.score > pass ? 'var(--color-primary)' : assessment.score > review ? '#ffd700' : '#ff4d4d'
     const focusLabel = assessment.score > 80 ? 'HIGH' : assessment.score > 60 ? 'MEDIUM' : 'LOW'
     const focusColor = assessment.score > 80 ? 'var(--color-primary)' : assessment.score > 60 ? '#ffd700' : '#ff4d4d'
+    const explanation: MlExplanation | undefined = assessment.mlExplanation
+    const explained = explanation?.features.slice(0, EXPLAINED_FEATURES) ?? []
+    // Bars scale to measured impact when the model was re-run, else to deviation weight
+    const byImpact = explained.some(c => c.impact !== undefined)
+    const barOf = (c: FeatureContribution) => byImpact ? Math.abs(c.impact ?? 0) : c.weight
+    const maxBar = Math.max(...explained.map(barOf), 1e-9)
+    const timeline: AiRiskPoint[] = assessment.aiRiskTimeline ?? []
+    const timelineEnd = Math.max(...timeline.map(p => p.offsetMs), 1)
+    const firstBotLike = timeline.find(p => p.aiRisk > BOT_LIKE_RISK)
+    const identity: IdentityPoint[] = assessment.identityTimeline ?? []
+    const identityEnd = Math.max(...identity.map(p => p.offsetMs), 1)
+    const drifts: Incident[] = (assessment.alerts ?? []).filter((a: Incident) => a.code === 'IDENTITY_DRIFT' && a.offsetMs !== null)
 
     return (
         <div className={styles.content}>
@@ -128,6 +161,96 @@ export default function ReportDetailPage({ params }: { params: Promise<{ id: str
                         </div>
                     </section>
 
+                    {/* Why the ML model scored this risk */}
+                    {explained.length > 0 && (
+                        <section className={styles.tableSection} style={{ padding: '32px' }}>
+                            <h3 style={{ marginBottom: '8px' }}>Why {explanation!.aiRisk}% AI Risk</h3>
+                            <p style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)', marginBottom: '20px' }}>
+                                Most influential typing features{explanation!.modelVersion ? ` · model v${explanation!.modelVersion}` : ''}.
+                                {byImpact
+                                    ? ' Points show how much each feature moved the risk compared with a typical training value.'
+                                    : ' Ranked by distance from the training data, weighted by feature importance.'}
+                            </p>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                                {explained.map((c, i) => {
+                                    const toward = byImpact ? (c.impact ?? 0) > 0 : false
+                                    const barColor = !byImpact ? '#ffd700' : toward ? '#ff4d4d' : 'var(--color-primary)'
+                                    return (
+                                        <div key={c.feature} style={{ fontSize: '0.85rem' }}>
+                                            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', marginBottom: '4px' }}>
+                                                <span><span style={{ color: 'var(--color-text-muted)' }}>{i + 1}.</span> {FEATURE_LABELS[c.feature] ?? c.feature}</span>
+                                                <span style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', whiteSpace: 'nowrap' }} title={`${c.feature} = ${c.value}`}>
+                                                    {c.z > 0 ? '+' : ''}{c.z.toFixed(1)}σ · {Math.round(c.importance * 100)}% importance
+                                                    {c.impact !== undefined && (
+                                                        <strong style={{ color: barColor, marginLeft: '8px' }}>
+                                                            {c.impact > 0 ? '+' : ''}{c.impact} pts
+                                                        </strong>
+                                                    )}
+                                                </span>
+                                            </div>
+                                            <div style={{ height: '6px', background: 'rgba(255,255,255,0.06)', borderRadius: '3px', overflow: 'hidden' }}>
+                                                <div style={{ width: `${(barOf(c) / maxBar) * 100}%`, height: '100%', background: barColor }} />
+                                            </div>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Windowed model scores during the session */}
+                    {timeline.length > 0 && (
+                        <section className={styles.tableSection} style={{ padding: '32px' }}>
+                            <h3 style={{ marginBottom: '8px' }}>AI Risk Timeline</h3>
+                            <p style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)', marginBottom: '20px' }}>
+                                {timeline.length} keystroke windows scored live by the model.{' '}
+                                {firstBotLike
+                                    ? <span style={{ color: '#ff4d4d' }}>
+                                        First bot-like window at +{formatOffset(firstBotLike.offsetMs)}
+                                        {firstBotLike.keystrokes !== undefined ? ` (keystroke ${firstBotLike.keystrokes})` : ''}.
+                                    </span>
+                                    : `No window above ${BOT_LIKE_RISK}%.`}
+                            </p>
+                            <svg viewBox="0 0 100 40" preserveAspectRatio="none" style={{ width: '100%', height: '140px', background: 'rgba(255,255,255,0.02)', borderRadius: '6px' }}>
+                                <line x1="0" x2="100" y1={40 - BOT_LIKE_RISK * 0.4} y2={40 - BOT_LIKE_RISK * 0.4}
+                                    stroke="#ff4d4d" strokeWidth="0.3" strokeDasharray="1.5 1" vectorEffect="non-scaling-stroke" />
+                                <polyline fill="none" stroke="var(--color-primary)" strokeWidth="1.5" vectorEffect="non-scaling-stroke"
+                                    points={timeline.map(p => `${(p.offsetMs / timelineEnd) * 100},${40 - p.aiRisk * 0.4}`).join(' ')} />
+                            </svg>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.7rem', color: 'var(--color-text-muted)', marginTop: '6px' }}>
+                                <span>+0:00</span><span>+{formatOffset(timelineEnd)}</span>
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Keystroke windows matched against the enrollment profile */}
+                    {identity.length > 0 && (
+                        <section className={styles.tableSection} style={{ padding: '32px' }}>
+                            <h3 style={{ marginBottom: '8px' }}>Identity Match Timeline</h3>
+                            <p style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)', marginBottom: '20px' }}>
+                                {identity.length} keystroke windows compared with the enrolled typing profile.{' '}
+                                {drifts.length > 0
+                                    ? <span style={{ color: '#ff4d4d' }}>
+                                        Typist changed at {drifts.map(d => `+${formatOffset(d.offsetMs ?? 0)}`).reverse().join(', ')}.
+                                    </span>
+                                    : 'The typist matched the enrollment throughout.'}
+                            </p>
+                            <svg viewBox="0 0 100 40" preserveAspectRatio="none" style={{ width: '100%', height: '140px', background: 'rgba(255,255,255,0.02)', borderRadius: '6px' }}>
+                                <line x1="0" x2="100" y1={40 - IDENTITY_NEUTRAL * 0.4} y2={40 - IDENTITY_NEUTRAL * 0.4}
+                                    stroke="#ffd700" strokeWidth="0.3" strokeDasharray="1.5 1" vectorEffect="non-scaling-stroke" />
+                                {drifts.map(d => (
+                                    <line key={d.id} x1={((d.offsetMs ?? 0) / identityEnd) * 100} x2={((d.offsetMs ?? 0) / identityEnd) * 100} y1="0" y2="40"
+                                        stroke="#ff4d4d" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                                ))}
+                                <polyline fill="none" stroke="var(--color-primary)" strokeWidth="1.5" vectorEffect="non-scaling-stroke"
+                                    points={identity.map(p => `${(p.offsetMs / identityEnd) * 100},${40 - p.score * 0.4}`).join(' ')} />
+                            </svg>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.7rem', color: 'var(--color-text-muted)', marginTop: '6px' }}>
+                                <span>+0:00</span><span>+{formatOffset(identityEnd)}</span>
+                            </div>
+                        </section>
+                    )}
+
                     {/* Incident timeline */}
                     <section className={styles.tableSection} style={{ padding: '32px' }}>
                         <h3 style={{ marginBottom: '24px' }}>Incident Timeline ({assessment.alerts?.length ?? 0} events)</h3>
@@ -135,13 +258,22 @@ export default function ReportDetailPage({ params }: { params: Promise<{ id: str
                             <p style={{ opacity: 0.5, fontSize: '0.9rem' }}>No suspicious incidents recorded.</p>
                         ) : (
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', maxHeight: '320px', overflowY: 'auto' }}>
-                                {assessment.alerts.map((alert: any, i: number) => {
-                                    const msg = typeof alert === 'string' ? alert : alert.message || JSON.stringify(alert)
-                                    const sev = typeof alert === 'object' ? alert.severity : 'medium'
-                                    const sevColor = sev === 'high' ? '#ff4d4d' : sev === 'medium' ? '#ffd700' : '#888'
+                                {assessment.alerts.map((incident: Incident) => {
+                                    const sevColor = incident.severity === 'high' ? '#ff4d4d' : incident.severity === 'medium' ? '#ffd700' : '#888'
+                                    const evidence = incident.evidenceRef !== undefined ? assessment.evidence?.[incident.evidenceRef] : undefined
                                     return (
-                                        <div key={i} style={{ padding: '14px 16px', background: 'rgba(255,77,77,0.04)', borderLeft: `4px solid ${sevColor}`, borderRadius: '4px', fontSize: '0.875rem' }}>
-                                            {msg}
+                                        <div key={incident.id} style={{ padding: '14px 16px', background: 'rgba(255,77,77,0.04)', borderLeft: `4px solid ${sevColor}`, borderRadius: '4px', fontSize: '0.875rem' }}>
+                                            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', marginBottom: '4px' }}>
+                                                <strong>{incidentLabel(incident.code)}</strong>
+                                                <span style={{ fontSize: '0.7rem', color: 'var(--color-text-muted)', whiteSpace: 'nowrap' }}>
+                                                    {incident.modality} · {incident.offsetMs !== null ? `+${formatOffset(incident.offsetMs)}` : incident.timestamp}
+                                                    {incident.penalty > 0 ? ` · −${incident.penalty}%` : ''}
+                                                </span>
+                                            </div>
+                                            <div style={{ color: 'var(--color-text-muted)' }}>{incident.message}</div>
+                                            {evidence && (
+                                                <div style={{ fontSize: '0.72rem', color: '#ff4d4d', marginTop: '4px' }}>📷 Evidence: {evidence.reason}</div>
+                                            )}
                                         </div>
                                     )
                                 })}
@@ -149,6 +281,27 @@ export default function ReportDetailPage({ params }: { params: Promise<{ id: str
                         )}
                     </section>
 
+                    {/* Review history — from the append-only incident log */}
+                    {assessment.incidents?.some((e: IncidentEntry) => e.kind === 'review_note' || e.kind === 'status_change') && (
+                        <section className={styles.tableSection} style={{ padding: '32px' }}>
+                            <h3 style={{ marginBottom: '24px' }}>Review History</h3>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                                {assessment.incidents
+                                    .filter((e: IncidentEntry) => e.kind === 'review_note' || e.kind === 'status_change')
+                                    .map((e: IncidentEntry) => (
+                                        <div key={e.seq} style={{ padding: '12px 16px', background: 'rgba(255,255,255,0.03)', borderLeft: '4px solid var(--color-primary)', borderRadius: '4px', fontSize: '0.85rem' }}>
+                                            <div style={{ fontSize: '0.7rem', color: 'var(--color-text-muted)', marginBottom: '4px' }}>
+                                                #{e.seq} · {new Date(e.at).toLocaleString()} · {e.source === 'api' ? 'API' : 'Dashboard'}
+                                            </div>
+                                            {e.kind === 'status_change'
+                                                ? <>Status changed: <strong>{String(e.data.from)}</strong> → <strong>{String(e.data.to)}</strong></>
+                                                : String(e.data.note)}
+                                        </div>
+                                    ))}
+                            </div>
+                        </section>
+                    )}
+
                     {/* Forensic evidence gallery */}
                     {assessment.evidence?.length > 0 && (
                         <section className={styles.tableSection} style={{ padding: '32px' }}>
@@ -249,6 +402,22 @@ export default function ReportDetailPage({ params }: { params: Promise<{ id: str
                                     {assessment.alerts?.length ?? 0}
                                 </span>
                             </div>
+                            {assessment.incidentChain && (
+                                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                    <span>Incident Log</span>
+                                    <span style={{ color: !assessment.incidentChain.valid ? '#ff4d4d' : assessment.incidentChain.count > 0 ? 'var(--color-primary)' : 'white' }}>
+                                        {!assessment.incidentChain.valid
+                                            ? `⚠ Broken at #${assessment.incidentChain.brokenAt ?? '?'}`
+                                            : assessment.incidentChain.count > 0 ? `⛓ Intact (${assessment.incidentChain.count})` : 'Not recorded'}
+                                    </span>
+                                </div>
+                            )}
+                            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                <span>Scoring Policy</span>
+                                <span style={{ color: 'white' }} title={policy ? `${policyLabel(policy)} · pass > ${pass}, review > ${review}` : 'Scored before policies were recorded'}>
+                                    {policy ? `${policy.name} (v${policy.version})` : 'Standard (legacy)'}
+                                </span>
+                            </div>
                             <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                                 <span>Evidence</span><span style={{ color: 'white' }}>{assessment.evidence?.length ?? 0} captures</span>
                             </div>
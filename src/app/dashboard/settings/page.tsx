@@ -14,16 +14,39 @@ interface ApiKey {
     active: boolean
     permissions: string[]
     webhookUrl?: string
+    webhookSecret?: string
 }
 
+interface DetPoint { threshold: number; far: number; frr: number }
+
+interface IdentityCalibration {
+    createdAt: string
+    threshold: number
+    targetFar: number
+    far: number
+    frr: number
+    eer: number
+    eerThreshold: number
+    genuinePairs: number
+    impostorPairs: number
+    det: DetPoint[]
+}
+
+const pct = (rate: number) => `${(rate * 100).toFixed(rate < 0.1 ? 2 : 1)}%`
+
 export default function SettingsPage() {
     const [apiKeys, setApiKeys]         = useState<ApiKey[]>([])
     const [loadingKeys, setLoadingKeys] = useState(false)
     const [newKeyName, setNewKeyName]   = useState('')
     const [newKeyWebhook, setNewKeyWebhook] = useState('')
     const [createdKey, setCreatedKey]   = useState<string | null>(null)
+    const [createdSecret, setCreatedSecret] = useState<string | null>(null)
     const [creating, setCreating]       = useState(false)
     const [error, setError]             = useState('')
+    const [calibration, setCalibration] = useState<IdentityCalibration | null>(null)
+    const [targetFar, setTargetFar]     = useState('1')
+    const [calibrating, setCalibrating] = useState(false)
+    const [calibrationError, setCalibrationError] = useState('')
 
     async function loadKeys() {
         setLoadingKeys(true)
@@ -36,26 +59,53 @@ export default function SettingsPage() {
         }
     }
 
-    useEffect(() => { loadKeys() }, [])
+    async function loadCalibration() {
+        const res = await fetch('/api/v1/admin/identity-calibration', { headers: { 'X-Admin-Secret': ADMIN_SECRET } })
+        const json = await res.json()
+        if (json.success) setCalibration(json.data.calibration)
+    }
+
+    useEffect(() => { loadKeys(); loadCalibration() }, [])
+
+    async function handleCalibrate() {
+        setCalibrating(true)
+        setCalibrationError('')
+        try {
+            const res = await fetch('/api/v1/admin/identity-calibration', {
+                method: 'POST',
+                headers: { 'X-Admin-Secret': ADMIN_SECRET, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ targetFar: Number(targetFar) / 100 }),
+            })
+            const json = await res.json()
+            if (json.success) setCalibration(json.data)
+            else setCalibrationError(json.error)
+        } catch {
+            setCalibrationError('Network error')
+        } finally {
+            setCalibrating(false)
+        }
+    }
 
     async function handleCreateKey() {
         if (!newKeyName.trim()) return
         setCreating(true)
         setError('')
         setCreatedKey(null)
+        setCreatedSecret(null)
         try {
             const res = await fetch('/api/v1/keys', {
                 method: 'POST',
                 headers: { 'X-Admin-Secret': ADMIN_SECRET, 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     name: newKeyName,
-                    permissions: ['read', 'write'],
+                    permissions: newKeyWebhook ? ['read', 'write', 'webhook'] : ['read', 'write'],
                     webhookUrl: newKeyWebhook || undefined,
                 }),
             })
             const json = await res.json()
             if (json.success) {
                 setCreatedKey(json.data.key)
+                setCreatedSecret(json.data.webhookUrl ? json.data.webhookSecret : null)
                 setNewKeyName('')
                 setNewKeyWebhook('')
                 loadKeys()
@@ -136,6 +186,22 @@ export default function SettingsPage() {
                         >
                             Copiar
                         </button>
+                        {createdSecret && (
+                            <>
+                                <div style={{ fontSize: '0.8rem', color: 'var(--color-primary)', fontWeight: 700, margin: '16px 0 8px' }}>
+                                    Webhook signing secret — verifica X-DeepCheck-Signature con él
+                                </div>
+                                <code style={{ fontFamily: 'monospace', fontSize: '0.82rem', wordBreak: 'break-all', color: 'var(--color-text)', background: 'rgba(255,255,255,0.06)', padding: '10px 14px', borderRadius: '8px', display: 'block' }}>
+                                    {createdSecret}
+                                </code>
+                                <button
+                                    onClick={() => { navigator.clipboard.writeText(createdSecret) }}
+                                    style={{ marginTop: '10px', background: 'rgba(255,255,255,0.08)', border: 'none', borderRadius: '6px', padding: '5px 12px', fontSize: '0.78rem', color: 'var(--color-text-muted)', cursor: 'pointer' }}
+                                >
+                                    Copiar secret
+                                </button>
+                            </>
+                        )}
                     </div>
                 )}
 
@@ -171,6 +237,73 @@ export default function SettingsPage() {
                 )}
             </section>
 
+            {/* Identity match calibration */}
+            <section className={styles.tableSection} style={{ padding: '32px', marginBottom: '24px' }}>
+                <div style={{ marginBottom: '24px' }}>
+                    <h3 style={{ marginBottom: '4px' }}>Identity Calibration</h3>
+                    <p style={{ fontSize: '0.82rem', color: 'var(--color-text-muted)', margin: 0 }}>
+                        Umbral de identity_mismatch elegido con sesiones reales: mismo email = par genuino, distinto email = impostor.
+                    </p>
+                </div>
+
+                {calibration ? (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '24px', marginBottom: '24px' }}>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '14px', alignContent: 'start' }}>
+                            {[
+                                ['Umbral', `< ${calibration.threshold}`],
+                                ['FAR objetivo', pct(calibration.targetFar)],
+                                ['FAR medido', pct(calibration.far)],
+                                ['FRR medido', pct(calibration.frr)],
+                                ['EER', `${pct(calibration.eer)} @ ${calibration.eerThreshold}`],
+                                ['Pares', `${calibration.genuinePairs} gen. / ${calibration.impostorPairs} imp.`],
+                            ].map(([label, value]) => (
+                                <div key={label} style={{ padding: '12px 14px', background: 'rgba(255,255,255,0.03)', borderRadius: '10px', border: '1px solid var(--color-border)' }}>
+                                    <div style={{ fontSize: '0.72rem', color: 'var(--color-text-muted)', marginBottom: '4px' }}>{label}</div>
+                                    <div style={{ fontWeight: 600, fontSize: '0.95rem' }}>{value}</div>
+                                </div>
+                            ))}
+                            <div style={{ gridColumn: '1 / -1', fontSize: '0.72rem', color: 'var(--color-text-muted)' }}>
+                                Calibrado {new Date(calibration.createdAt).toLocaleString()}
+                            </div>
+                        </div>
+                        <div>
+                            <div style={{ fontSize: '0.72rem', color: 'var(--color-text-muted)', marginBottom: '6px' }}>Curva DET (FAR → FRR)</div>
+                            <svg viewBox="0 0 100 100" style={{ width: '100%', height: '180px', background: 'rgba(255,255,255,0.02)', borderRadius: '8px' }}>
+                                <line x1="0" y1="100" x2="100" y2="0" stroke="var(--color-border)" strokeDasharray="2 2" strokeWidth="0.5" />
+                                <polyline
+                                    fill="none" stroke="var(--color-primary)" strokeWidth="1.5"
+                                    points={calibration.det.map(p => `${p.far * 100},${100 - p.frr * 100}`).join(' ')}
+                                />
+                                <circle cx={calibration.far * 100} cy={100 - calibration.frr * 100} r="2.5" fill="#ff4d4d" />
+                            </svg>
+                        </div>
+                    </div>
+                ) : (
+                    <div style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', marginBottom: '24px' }}>
+                        Sin calibrar: identity_mismatch usa el umbral por defecto (&lt; 40), sin tasa de falsos aceptados conocida.
+                    </div>
+                )}
+
+                <div style={{ display: 'flex', alignItems: 'flex-end', gap: '14px' }}>
+                    <div>
+                        <label style={{ display: 'block', fontSize: '0.78rem', color: 'var(--color-text-muted)', marginBottom: '6px' }}>FAR objetivo (%)</label>
+                        <input
+                            type="number" min={0.1} max={50} step={0.1}
+                            value={targetFar} onChange={e => setTargetFar(e.target.value)}
+                            style={{ width: '120px', padding: '10px', background: 'var(--color-bg)', border: '1px solid var(--color-border)', borderRadius: '8px', color: 'white', fontSize: '0.88rem' }}
+                        />
+                    </div>
+                    <button
+                        className="btn btn-primary" onClick={handleCalibrate}
+                        disabled={calibrating || !(Number(targetFar) > 0)}
+                        style={{ fontSize: '0.85rem', padding: '8px 20px' }}
+                    >
+                        {calibrating ? 'Calibrando...' : 'Recalibrar'}
+                    </button>
+                </div>
+                {calibrationError && <p style={{ color: '#ff4d4d', fontSize: '0.82rem', marginTop: '8px' }}>{calibrationError}</p>}
+            </section>
+
             {/* Existing settings */}
             <section className={styles.tableSection} style={{ padding: '32px' }}>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '32px' }}>
@@ -97,7 +97,7 @@ export default function DocsPage() {
                             <p style={{ margin: '0 0 10px 0', color: 'var(--color-text)' }}>🖥️ <strong>Dónde corre Deep-Check</strong></p>
                             <p style={{ margin: '0 0 8px 0' }}>• <strong style={{ color: 'var(--color-text)' }}>Frontend:</strong> React 19 en el navegador del candidato. Toda la biometría (keystroke dynamics, face-api, gaze tracking) se procesa <em>100% en el cliente</em> — ningún audio ni vídeo sale del navegador.</p>
                             <p style={{ margin: '0 0 8px 0' }}>• <strong style={{ color: 'var(--color-text)' }}>API:</strong> Next.js serverless functions en Vercel (edge network global). Latencia &lt;50ms desde Europa/US.</p>
-                            <p style={{ margin: '0 0 8px 0' }}>• <strong style={{ color: 'var(--color-text)' }}>Storage:</strong> JSON file-based (MVP). Migratable a PostgreSQL/Supabase para producción.</p>
+                            <p style={{ margin: '0 0 8px 0' }}>• <strong style={{ color: 'var(--color-text)' }}>Storage:</strong> Supabase (PostgreSQL) o store JSON local, seleccionable con <code>DEEPCHECK_STORAGE=supabase|local</code>.</p>
                             <p style={{ margin: 0 }}>• <strong style={{ color: 'var(--color-text)' }}>Modelos ML:</strong> TinyFaceDetector + FaceLandmark68Net — descargados en el navegador del candidato, nunca en el servidor.</p>
                         </div>
 
@@ -145,10 +145,20 @@ export default function DocsPage() {
                         <Endpoint method="POST"  path="/api/v1/sessions"        desc="Crear sesión desde plataforma externa" />
                         <Endpoint method="GET"   path="/api/v1/sessions/:id"    desc="Obtener sesión por ID" />
                         <Endpoint method="PATCH" path="/api/v1/sessions/:id"    desc="Actualizar status o añadir nota de revisión" />
+                        <Endpoint method="POST"  path="/api/v1/sessions/:id/invites" desc="Generar enlace de invitación de un solo uso para el candidato" />
+                        <Endpoint method="GET"   path="/api/v1/sessions/:id/events" desc="Estado de la sesión en vivo y log de eventos (reanudar)" />
+                        <Endpoint method="POST"  path="/api/v1/sessions/:id/events" desc="Ingesta de eventos por lotes numerados (seq); final: true cierra la sesión" />
+                        <Endpoint method="POST"  path="/api/v1/sessions/:id/face-match" desc="Comparar el rostro en vivo con el del enrollment (solo X-Session-Token)" />
                         <Endpoint method="GET"   path="/api/v1/enroll"          desc="Consultar perfil de enrollment por email" />
-                        <Endpoint method="POST"  path="/api/v1/enroll"          desc="Guardar perfil biométrico de enrollment" />
+                        <Endpoint method="POST"  path="/api/v1/enroll"          desc="Guardar perfil biométrico de enrollment (se combina con el perfil activo)" />
+                        <Endpoint method="GET"   path="/api/v1/enroll/history"  desc="Historial de versiones de la plantilla por email (auditoría)" />
                         <Endpoint method="GET"   path="/api/v1/keys"            desc="Listar API keys (requiere X-Admin-Secret)" />
                         <Endpoint method="POST"  path="/api/v1/keys"            desc="Crear nueva API key (requiere X-Admin-Secret)" />
+                        <Endpoint method="GET"   path="/api/v1/admin/policies"  desc="Listar políticas de puntuación (requiere X-Admin-Secret)" />
+                        <Endpoint method="POST"  path="/api/v1/admin/policies"  desc="Publicar una nueva versión de una política (requiere X-Admin-Secret)" />
+                        <Endpoint method="GET"   path="/api/verify?id="         desc="Verificación pública: hash, estado de la firma y certificado firmado" />
+                        <Endpoint method="GET"   path="/.well-known/jwks.json"  desc="Claves públicas Ed25519 para verificar certificados offline" />
+                        <Endpoint method="GET"   path="/api/certificates/public-key" desc="Clave de firma actual en PEM (SPKI)" />
                     </>
                 )}
 
@@ -198,6 +208,141 @@ external_ref=xxx  // Filtrar por ID de tu plataforma`}</Code>
     "externalRef": "lms-exam-2045"
   }'`}</Code>
 
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>POST /api/v1/sessions/:id/invites</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.88rem', marginBottom: '12px' }}>
+                            Crea la sesión con <code>POST /api/v1/sessions</code> y genera un enlace firmado, con caducidad y de un solo uso para el candidato.
+                            Al abrir <code>/interview?invite=…</code> la sesión en vivo toma el mismo <code>id</code>: el resultado sustituye al registro creado y conserva su <code>externalRef</code>.
+                            El nombre, email, rol, política y perfil de enrollment salen de la invitación (o, si no se indican, de la sesión y de la API key).
+                            Solo la API key que creó la sesión puede invitar a ella; con cualquier otra la respuesta es <code>404</code>.
+                        </p>
+                        <Code lang="bash">{`curl -X POST "${BASE_URL}/api/v1/sessions" \
+  -H "Authorization: Bearer dc_live_..." -H "Content-Type: application/json" \
+  -d '{ "candidateName": "María García", "candidateEmail": "maria@example.com", "role": "Backend Engineer", "externalRef": "lms-exam-2045" }'
+# → { "success": true, "data": { "id": "9f2c4e1ab07d3c55" } }
+
+curl -X POST "${BASE_URL}/api/v1/sessions/9f2c4e1ab07d3c55/invites" \
+  -H "Authorization: Bearer dc_live_..." -H "Content-Type: application/json" \
+  -d '{ "policyId": "university_exam", "expiresIn": 172800 }'`}</Code>
+                        <Code>{`{
+  "success": true,
+  "data": {
+    "inviteId": "inv_5d0f...",
+    "sessionId": "9f2c4e1ab07d3c55",
+    "token": "eyJpaWQiOi...Xk2w",
+    "url": "${BASE_URL}/interview?invite=eyJpaWQiOi...Xk2w",
+    "expiresAt": "2026-02-22T10:00:00.000Z"
+  }
+}
+// Al canjearlo: 401 enlace no válido · 410 caducado · 409 ya usado`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>POST /api/v1/sessions/:id/events</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.88rem', marginBottom: '12px' }}>
+                            Ingesta en streaming del log de eventos crudos. Los lotes deben llegar en orden (<code>seq = lastSeq + 1</code>);
+                            un lote repetido se confirma con <code>duplicate: true</code>. Las sesiones sin actividad durante 10 min se finalizan en el servidor.
+                            Autenticación: <code>X-Session-Token</code> (navegador del candidato) o API key con permiso <code>write</code>, solo sobre las sesiones que creó (otra sesión responde 404).
+                        </p>
+                        <Code lang="bash">{`curl -X POST "${BASE_URL}/api/v1/sessions/abc123/events" \\
+  -H "Authorization: Bearer dc_live_..." \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "seq": 3,
+    "events": [
+      { "kind": "visibility", "at": 1760000000000, "hidden": true },
+      { "kind": "biometric", "at": 1760000004200, "event": { "type": "paste", "length": 320 } }
+    ]
+  }'`}</Code>
+                        <Code>{`// 409 — lote fuera de orden o sesión ya cerrada
+{ "success": false, "error": "Batch out of order", "data": { "status": "live", "expectedSeq": 2 } }`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>Certificados firmados</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '16px' }}>
+                            Cada sesión finalizada incluye <code>certificate</code>: un resumen firmado con Ed25519 por el servidor (se vuelve a firmar tras una revisión).
+                            La firma cubre el JSON canónico de <code>payload</code> — claves ordenadas, sin espacios. <code>GET /api/verify?id=</code> devuelve el certificado y <code>signature.status</code>: <code>valid</code>, <code>stale</code>, <code>invalid</code>, <code>unknown_key</code> o <code>unsigned</code>.
+                        </p>
+                        <Code>{`{
+  "alg": "EdDSA",
+  "kid": "Jd3k...",
+  "payload": {
+    "v": 2, "issuer": "deep-check", "sessionId": "abc123",
+    "issuedAt": "2026-02-20T14:32:00.000Z",
+    "candidateName": "María García", "role": "Backend Engineer", "date": "2026-02-20",
+    "score": 91, "status": "passed", "autoFlagged": false, "alertCount": 1,
+    "livenessScore": 88, "aiRisk": 12, "keystrokeCount": 1432,
+    "tabSwitchCount": 0, "gazeEventCount": 2, "identityMatchScore": null,
+    "sessionHash": "a3f2c1...",
+    "incidentRoot": "9be04d...", "incidentCount": 3
+  },
+  "signature": "base64url..."
+}`}</Code>
+                        <Code lang="javascript">{`// Verificación offline — copia src/lib/verifyCertificate.ts (sin dependencias)
+import { verifyCertificate } from './verifyCertificate';
+
+const jwks = JSON.parse(fs.readFileSync('deepcheck-jwks.json', 'utf8'));  // guardado de /.well-known/jwks.json
+const result = await verifyCertificate(certificate, jwks);
+
+if (!result.valid) throw new Error('Certificado no válido: ' + result.reason);
+console.log(result.payload.status, result.payload.score);`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>Incidentes</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '16px' }}>
+                            <code>alerts</code> es una lista (más reciente primero) de incidentes tipados. Decide siempre por <code>code</code> — estable entre versiones —
+                            y usa <code>message</code> solo para mostrar. Los códigos están en <code>src/lib/incidentModel.ts</code>
+                            (<code>TAB_SWITCH</code>, <code>CLIPBOARD_PASTE</code>, <code>LIGHTING_FAIL</code>, <code>MULTIPLE_FACES</code>, …).
+                            Los incidentes solo los registra el servidor al finalizar la sesión: <code>POST /api/v1/sessions</code> acepta únicamente
+                            <code>candidateName</code>, <code>candidateEmail</code>, <code>role</code>, <code>externalRef</code> y <code>enrollmentProfileId</code>, y asigna él mismo el <code>id</code>.
+                        </p>
+                        <Code>{`{
+  "id": 3, "code": "CLIPBOARD_PASTE", "severity": "high", "penalty": 20,
+  "at": "2026-02-20T14:35:12.000Z", "offsetMs": 754000, "modality": "clipboard",
+  "timestamp": "14:35:12", "message": "[14:35:12] Clipboard paste — 320 chars",
+  "detector": { "event": "biometric", "type": "paste", "values": { "length": 320 } },
+  "evidenceRef": 0
+}`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>Políticas de puntuación</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '16px' }}>
+                            Penalizaciones por código, escalados, límites de frecuencia, topes, reglas de auto-flag y umbrales de estado se definen en una política
+                            versionada (<code>src/lib/policy.ts</code>). Incluidas: <code>default</code>, <code>university_exam</code> y <code>live_coding</code>, en su versión 3;
+                            la versión 1 conserva las reglas de siempre y la 2 y la 3 añaden la verificación facial y el cambio de mecanógrafo.
+                            Una sesión usa la política de su API key (<code>policyId</code>), si no la que declare su <code>role</code> en <code>roles</code>, y si no <code>default</code>.
+                            Cada sesión guarda una copia completa en <code>scoringPolicy</code>, y el navegador y el servidor la evalúan con el mismo código.
+                        </p>
+                        <Code lang="bash">{`curl -X POST "${BASE_URL}/api/v1/admin/policies" \\
+  -H "X-Admin-Secret: tu-admin-secret" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "id": "bootcamp_final",
+    "name": "Bootcamp — examen final",
+    "roles": ["Bootcamp Student"],
+    "thresholds": { "pass": 88, "review": 65 },
+    "penalties": {
+      "CLIPBOARD_PASTE": { "penalty": 8, "escalate": { "by": "length", "steps": [{ "over": 100, "penalty": 25, "severity": "high" }] } },
+      "GAZE_OFF_SCREEN": { "penalty": 3, "cap": 15, "rateLimit": { "intervalMs": 6000, "per": "direction" } }
+    },
+    "autoFlag": [{ "code": "TAB_SWITCH", "atLeast": 3 }, { "modality": "liveness", "atLeast": 2 }]
+  }'
+# → 201 { "success": true, "data": { "id": "bootcamp_final", "version": 1, ... } }
+# Los códigos no indicados conservan la regla por defecto; publicar el mismo id crea la versión 2.`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>Registro de incidentes encadenado</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '16px' }}>
+                            Las alertas de la sesión, el sellado al finalizar y cada revisión posterior (cambio de estado o nota) se añaden a un registro solo-anexar.
+                            Cada entrada incluye el hash de la anterior y el certificado firma la última (<code>incidentRoot</code>) junto con <code>incidentCount</code>,
+                            así que eliminar o editar una entrada es detectable. <code>GET /api/v1/sessions/:id</code> devuelve las entradas completas en <code>incidents</code>;
+                            <code>src/lib/incidentChain.ts</code> recalcula la cadena sin dependencias.
+                        </p>
+                        <Code>{`// hash = SHA-256(JSON canónico de { seq, at, kind, source, data, prevHash })
+// prevHash de la entrada 1 = SHA-256("deepcheck:incidents:" + sessionId)
+{ "seq": 4, "at": "2026-02-20T15:02:11.000Z", "kind": "review_note", "source": "api",
+  "data": { "note": "Confirmed cheating via external proctoring footage" },
+  "prevHash": "51c0aa...", "hash": "9be04d..." }`}</Code>
+                        <Code lang="javascript">{`import { verifyIncidentChain } from './incidentChain';
+
+const check = await verifyIncidentChain(sessionId, data.incidents, {
+  root: result.payload.incidentRoot, count: result.payload.incidentCount,
+});
+if (!check.valid) throw new Error('Registro alterado en la entrada ' + check.brokenAt);`}</Code>
+
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '32px' }}>Integración con Moodle / Canvas</h2>
                         <Code lang="javascript">{`// Ejemplo: verificar resultado al entregar examen
 async function onExamSubmit(examId, studentEmail) {
@@ -224,8 +369,23 @@ async function onExamSubmit(examId, studentEmail) {
                         <h1 style={{ fontSize: '2rem', marginBottom: '24px' }}>Enrollment API</h1>
                         <p style={{ color: 'var(--color-text-muted)', marginBottom: '28px', lineHeight: 1.7, fontSize: '0.88rem' }}>
                             El enrollment crea una <strong>firma biométrica de referencia</strong> para un candidato. En sesiones posteriores, el sistema compara la escritura en vivo contra ese baseline y genera un <code>identityMatchScore</code> (0-100%).
+                            Además, al finalizar la sesión se compara cada ventana de 150 pulsaciones con el perfil; si el test secuencial detecta que otra persona ha tomado el teclado se registra un incidente <code>IDENTITY_DRIFT</code> en el momento del cambio, y la evolución queda en <code>identityTimeline</code>.
                             El perfil caduca a los 90 días y es específico por contexto de escritura.
                         </p>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '28px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            Un candidato puede hacer el enrollment en varias sesiones: cada una se combina con su plantilla activa del mismo contexto, ponderada por número de pulsaciones, y se guarda como una nueva versión
+                            (<code>version</code>, <code>enrollmentSessions</code>, <code>previousProfileId</code>). Envía <code>{'"merge": false'}</code> para empezar una plantilla nueva.
+                            Si la política de la sesión tiene <code>{'"adaptEnrollment": true'}</code>, las entrevistas abiertas desde una invitación con ese <code>enrollmentProfileId</code>, aprobadas, sin auto-flag, con <code>aiRisk</code> ≤ 30, sin <code>IDENTITY_DRIFT</code> y con la identidad por encima del umbral calibrado también actualizan la plantilla:
+                            cada una pesa como máximo un 20%, y se rechaza si movería una estadística más de un 5% (o más de un 20% desde el último enrollment). La sesión guarda el resultado en <code>enrollmentUpdate</code>
+                            y <code>GET /api/v1/enroll/history?email=</code> lista todas las versiones con su origen.
+                        </p>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '28px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            Cada candidato tiene una plantilla activa por contexto. <code>/api/ml-score</code> acepta el contexto de la escritura en vivo como <code>context</code> o como <code>editorLanguage</code> (id de lenguaje de Monaco: <code>python</code> → <code>code_python</code>, <code>typescript</code>/<code>javascript</code> → <code>code_js</code>, otros lenguajes → <code>code_general</code>)
+                            y, con <code>enrollmentEmail</code>, compara con la plantilla de ese contexto. Si el candidato solo tiene otro contexto, la plantilla se reescala con un ajuste aprendido de los candidatos inscritos en ambos (mínimo 3).
+                            La respuesta incluye <code>identityContext</code>: contexto en vivo y comparado, <code>adjustment</code> (<code>none</code>, <code>learned</code> o <code>unavailable</code>) y <code>reliability</code> (0-1, 1 en el mismo contexto), que también escala <code>identityConfidence</code>.
+                            El veredicto guardado sigue las mismas reglas: la entrevista abre la sesión en vivo con <code>editorLanguage</code>, una invitación solo con email vincula la plantilla elegida para ese contexto,
+                            y al finalizar <code>identityMatchScore</code> y la línea temporal por ventanas se comparan con ella (ajustada si el contexto difiere). La evaluación guarda la comparación en <code>identityContext</code>.
+                        </p>
 
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px' }}>Contextos disponibles</h2>
                         <Code>{`prose_es      // Texto en español (ensayos, contratos, exámenes ES)
@@ -249,13 +409,33 @@ code_general  // Language-agnostic (mixed environments)`}</Code>
       "holdStd": 22,
       "entropy": 2.74,
       "digrams": {
-        "def ": { "mean": 118, "std": 15, "count": 12 },
-        "self": { "mean": 98,  "std": 11, "count": 18 }
+        "d→e": { "mean": 118, "std": 15, "count": 12 },
+        "s→e": { "mean": 98,  "std": 11, "count": 18 }
+      },
+      "trigrams": {
+        "d→e→f": { "mean": 241, "std": 28, "count": 9 }
       },
       "wpmMin": 0, "wpmMax": 0,
       "sampleSize": 187
     }
   }'`}</Code>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '16px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            Las claves de n-gramas son las teclas unidas con <code>→</code>, en minúsculas (<code>&quot;t→h&quot;</code>, <code>&quot;t→h→e&quot;</code>). <code>digrams</code> mide el vuelo (soltar → pulsar) de cada par; <code>digramDownDown</code> y <code>digramUpUp</code> (opcionales) los intervalos pulsar → pulsar y soltar → soltar; <code>trigrams</code> el tiempo desde la primera a la tercera pulsación. Solo se incluyen claves con 3 o más muestras.
+                        </p>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '16px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            <code>featureStats</code> (opcional, lo calcula <code>/enroll</code> con <code>estimateFeatureStats</code> de <code>src/lib/identityMatch.ts</code>): media y covarianza de 8 rasgos de ritmo medidos en bloques de 40 pulsaciones, con <code>samples</code> (bloques usados) y <code>shrinkage</code> (regularización para muestras pequeñas).
+                            Con ellos la comparación usa la distancia de Mahalanobis completa; sin ellos, una estimación diagonal de 4 rasgos. <code>/api/ml-score</code> devuelve además <code>identityConfidence</code> (0-1, 0,5 con 200 pulsaciones observadas) e <code>identityMethod</code>.
+                        </p>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '16px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            <code>faceDescriptors</code> (opcional): de 3 a 10 descriptores de 128 números de la red de reconocimiento de face-api, que <code>/enroll</code> captura mientras el candidato escribe.
+                            Con ellos, durante la sesión se compara el rostro en vivo cada 20 s; si aparece otra persona se registra un incidente <code>FACE_IDENTITY_MISMATCH</code> con captura de evidencia,
+                            y la sesión guarda <code>faceMatchScore</code> (0-100%, 50 en el umbral) junto a <code>identityMatchScore</code>. Los descriptores nunca se devuelven por la API; la respuesta solo indica <code>faceSamples</code>.
+                        </p>
+                        <p style={{ color: 'var(--color-text-muted)', marginBottom: '16px', lineHeight: 1.7, fontSize: '0.88rem' }}>
+                            El umbral de <code>identity_mismatch</code> se calibra con <code>POST /api/v1/admin/identity-calibration</code> (<code>X-Admin-Secret</code>, cuerpo <code>{'{ "targetFar": 0.01 }'}</code>) o desde Settings:
+                            cada sesión guardada se puntúa contra cada perfil (mismo email = par genuino, distinto = impostor), se traza la curva DET y se elige el umbral más bajo cuya tasa de falsos aceptados (FAR) no supera el objetivo.
+                            <code>/api/ml-score</code> devuelve el punto de operación vigente en <code>identityOperatingPoint</code> (<code>threshold</code>, <code>far</code>, <code>frr</code>, <code>eer</code>); sin calibrar el umbral es 40.
+                        </p>
                         <Code>{`{
   "success": true,
   "data": {
@@ -263,6 +443,7 @@ code_general  // Language-agnostic (mixed environments)`}</Code>
     "expiresAt": "2026-05-21T10:30:00.000Z",
     "enrollmentHash": "sha256:3a7f...",
     "sampleSize": 187,
+    "faceSamples": 0,
     "context": "code_python"
   }
 }`}</Code>
@@ -290,7 +471,8 @@ const sessionRes = await fetch(
   { headers: { Authorization: 'Bearer ' + DEEPCHECK_API_KEY } }
 );
 const { data: session } = await sessionRes.json();
-if (session.identityMatchScore < 65) {
+// Umbral calibrado: identityOperatingPoint.threshold de /api/ml-score (40 sin calibrar)
+if (session.identityMatchScore < identityThreshold) {
   // Identidad no coincide con el perfil registrado
   flagForReview(session.id, 'Identity mismatch vs enrollment');
 }`}</Code>
@@ -306,14 +488,27 @@ if (session.identityMatchScore < 65) {
                         </p>
 
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px' }}>Eventos disponibles</h2>
-                        <Code>{`session.completed   // Sesión finalizada (candidato pulsó "End Session")
-session.flagged     // Sesión marcada como sospechosa (auto o manual)
-session.approved    // Sesión aprobada manualmente por el revisor`}</Code>
+                        <Code>{`session.completed    // Sesión finalizada y puntuada en el servidor
+session.flagged      // Sesión marcada como sospechosa (auto o manual)
+session.reviewed     // Un revisor cambió el estado o añadió una nota
+enrollment.created   // Nuevo perfil biométrico registrado`}</Code>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '20px' }}>
+                            Las sesiones creadas con una API key solo notifican a esa key. Las sesiones iniciadas desde <code>/interview</code> notifican a todas las keys con webhook.
+                        </p>
 
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Payload del webhook</h2>
-                        <Code>{`{
-  "event": "session.completed",
-  "timestamp": "2026-02-20T14:32:00.000Z",
+                        <Code>{`POST https://tu-plataforma.com/webhook
+Content-Type: application/json
+User-Agent: DeepCheck-Webhooks/1.0
+X-DeepCheck-Event: session.completed
+X-DeepCheck-Delivery: whd_4f1c0a...
+X-DeepCheck-Timestamp: 1771597920
+X-DeepCheck-Signature: sha256=9b2e71...
+
+{
+  "id": "evt_8c3d2a...",
+  "type": "session.completed",
+  "createdAt": "2026-02-20T14:32:00.000Z",
   "data": {
     "id": "abc123",
     "candidateName": "María García",
@@ -323,45 +518,78 @@ session.approved    // Sesión aprobada manualmente por el revisor`}</Code>
     "aiRisk": 45,
     "tabSwitchCount": 2,
     "identityMatchScore": 71,
-    "externalRef": "lms-exam-2045"
+    "externalRef": "lms-exam-2045",
+    "evidenceCount": 3
   }
 }`}</Code>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '20px' }}>
+                            <code>session.reviewed</code> añade <code>data.review = {'{ previousStatus, reviewNote, source }'}</code>. <code>enrollment.created</code> envía los metadatos del perfil sin la plantilla biométrica.
+                            Un mismo evento reenviado conserva su <code>id</code> — úsalo para deduplicar.
+                        </p>
 
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Verificar autenticidad del webhook</h2>
-                        <Code lang="javascript">{`// El payload incluye una firma HMAC-SHA256
-// (próximamente — v1.1)
-const signature = req.headers['x-deepcheck-signature'];
-const expected = crypto
-  .createHmac('sha256', WEBHOOK_SECRET)
-  .update(JSON.stringify(req.body))
-  .digest('hex');
-
-if (signature !== \`sha256=\${expected}\`) {
-  return res.status(401).send('Invalid signature');
-}`}</Code>
-
-                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Ejemplo: handler en Express</h2>
-                        <Code lang="javascript">{`app.post('/webhooks/deepcheck', express.json(), (req, res) => {
-  const { event, data } = req.body;
-
-  if (event === 'session.flagged') {
-    // Bloquear acceso del candidato en tu LMS
-    await lms.blockSubmission(data.externalRef);
-    await notify.sendAlert(\`Candidate \${data.candidateName} flagged\`);
+                        <Code lang="javascript">{`// Firma HMAC-SHA256 de \`\${timestamp}.\${cuerpo crudo}\` con el webhookSecret
+// (whsec_...) que recibiste al crear la API key. El timestamp va firmado:
+// rechaza los que se alejen más de 5 min para que no se puedan repetir.
+app.post('/webhooks/deepcheck', express.raw({ type: 'application/json' }), (req, res) => {
+  const timestamp = req.get('x-deepcheck-timestamp') ?? '';
+  if (!/^\\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > 300) {
+    return res.status(401).send('Stale timestamp');
   }
-
-  if (event === 'session.completed') {
-    // Registrar resultado en tu base de datos
-    await db.saveResult({
-      examId: data.externalRef,
-      trustScore: data.score,
-      passed: data.status === 'passed',
-      hash: data.sessionHash,
-    });
+  const expected = 'sha256=' + crypto
+    .createHmac('sha256', process.env.DEEPCHECK_WEBHOOK_SECRET)
+    .update(\`\${timestamp}.\${req.body}\`)   // Buffer crudo — no re-serialices el JSON
+    .digest('hex');
+  const given = req.get('x-deepcheck-signature') ?? '';
+
+  if (given.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected))) {
+    return res.status(401).send('Invalid signature');
   }
-
+  const event = JSON.parse(req.body);
+  // ...
   res.status(200).send('ok');
 });`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Reintentos</h2>
+                        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', lineHeight: 1.6, marginBottom: '16px' }}>
+                            Cualquier respuesta 2xx cuenta como entregada. Errores de red, timeouts (10 s) y respuestas no-2xx se reintentan con backoff exponencial — 30 s, 1 min, 2 min, 4 min, 8 min — hasta 6 intentos.
+                            Después la entrega queda como <code>failed</code> y puedes reenviarla manualmente.
+                        </p>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Log de entregas</h2>
+                        <Endpoint method="GET"  path="/api/v1/webhooks/deliveries" desc="Entregas de tu key. Filtros: ?session_id=, ?status=pending|succeeded|failed, ?limit=" />
+                        <Endpoint method="GET"  path="/api/v1/webhooks/deliveries/:id" desc="Payload completo y log de intentos (statusCode, error, durationMs)" />
+                        <Endpoint method="POST" path="/api/v1/webhooks/deliveries/:id/redeliver" desc="Reenvía el mismo evento como una nueva entrega" />
+                        <Code lang="bash">{`curl "${BASE_URL}/api/v1/webhooks/deliveries?status=failed" \\
+  -H "Authorization: Bearer dc_live_..."
+
+curl -X POST "${BASE_URL}/api/v1/webhooks/deliveries/whd_4f1c0a.../redeliver" \\
+  -H "Authorization: Bearer dc_live_..."`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Probar en local</h2>
+                        <Code lang="bash">{`# Receptor que imprime y verifica cada entrega
+DEEPCHECK_WEBHOOK_SECRET=whsec_... npm run webhooks:listen   # http://localhost:4000/webhook`}</Code>
+
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Ejemplo: handler en Express</h2>
+                        <Code lang="javascript">{`// (tras verificar la firma como arriba)
+const { type, data } = event;
+
+if (type === 'session.flagged') {
+  // Bloquear acceso del candidato en tu LMS
+  await lms.blockSubmission(data.externalRef);
+  await notify.sendAlert(\`Candidate \${data.candidateName} flagged\`);
+}
+
+if (type === 'session.completed') {
+  // Registrar resultado en tu base de datos
+  await db.saveResult({
+    examId: data.externalRef,
+    trustScore: data.score,
+    passed: data.status === 'passed',
+    hash: data.sessionHash,
+  });
+}`}</Code>
                     </>
                 )}
 
@@ -380,29 +608,32 @@ if (signature !== \`sha256=\${expected}\`) {
   -d '{
     "name": "Moodle LMS — Universidad XYZ",
     "permissions": ["read", "write"],
-    "webhookUrl": "https://moodle.universidad.edu/deepcheck/webhook"
+    "webhookUrl": "https://moodle.universidad.edu/deepcheck/webhook",
+    "policyId": "university_exam"
   }'`}</Code>
                         <Code>{`{
   "success": true,
   "data": {
     "key": "dc_live_a1b2c3d4e5f6...",
     "name": "Moodle LMS — Universidad XYZ",
-    "permissions": ["read", "write"],
+    "permissions": ["read", "write", "webhook"],
     "webhookUrl": "https://moodle.universidad.edu/deepcheck/webhook",
+    "webhookSecret": "whsec_9f8e7d6c...",
+    "policyId": "university_exam",
     "createdAt": "2026-02-20T10:00:00.000Z",
     "active": true
   },
-  "note": "Save this key — it will not be shown again in full"
+  "note": "Save this key and its webhookSecret — they will not be shown again in full"
 }`}</Code>
 
                         <div style={{ background: 'rgba(255,215,0,0.08)', border: '1px solid rgba(255,215,0,0.25)', borderRadius: '10px', padding: '16px', fontSize: '0.85rem', color: 'var(--color-text-muted)', lineHeight: 1.6 }}>
-                            ⚠️ <strong style={{ color: '#ffd700' }}>Seguridad:</strong> Guarda el valor completo de la key al crearla — no se mostrará de nuevo. El endpoint <code>/api/v1/keys GET</code> solo devuelve versiones enmascaradas (<code>dc_live_a1b2c3d4...</code>).
+                            ⚠️ <strong style={{ color: '#ffd700' }}>Seguridad:</strong> Guarda el valor completo de la key y su <code>webhookSecret</code> al crearla — no se mostrarán de nuevo. El endpoint <code>/api/v1/keys GET</code> solo devuelve versiones enmascaradas (<code>dc_live_a1b2c3d4...</code>).
                         </div>
 
                         <h2 style={{ fontSize: '1.2rem', marginBottom: '12px', marginTop: '28px' }}>Permisos</h2>
                         <Code>{`read     // Listar y leer sesiones y perfiles
 write    // Crear y actualizar sesiones y perfiles
-webhook  // Registrar URL de webhook (incluido en create key)`}</Code>
+webhook  // Recibir webhooks y leer el log de entregas (se añade al indicar webhookUrl)`}</Code>
 
                         <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', marginTop: '12px' }}>
                             También puedes gestionar keys desde la UI en{' '}
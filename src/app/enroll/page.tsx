@@ -4,7 +4,12 @@ import React, { useState, useRef, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 import dynamic from 'next/dynamic'
 import { BiometricEvent } from '@/components/CodeEditor'
+import type { VerificationCameraHandle } from '@/components/VerificationCamera'
 import type { KeystrokeProfile, EnrollmentContext } from '@/lib/db'
+import { mean, shannonEntropy, std } from '@/lib/biometricStats'
+import { MAX_ENROLLMENT_FACES, MIN_ENROLLMENT_FACES } from '@/lib/faceMatch'
+import { estimateFeatureStats } from '@/lib/identityMatch'
+import { createNgramCapture, recordKeystroke, summariseNgrams } from '@/lib/keystrokeNgrams'
 
 const CodeEditorDynamic = dynamic(() => import('@/components/CodeEditor'), {
     ssr: false,
@@ -15,6 +20,18 @@ const CodeEditorDynamic = dynamic(() => import('@/components/CodeEditor'), {
     )
 })
 
+const VerificationCameraDynamic = dynamic(() => import('@/components/VerificationCamera'), {
+    ssr: false,
+    loading: () => (
+        <div style={{ height: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#000', borderRadius: '12px', color: 'var(--color-text-muted)', fontSize: '0.8rem' }}>
+            Cargando cámara...
+        </div>
+    )
+})
+
+/** Time between face samples — spread out so they cover several head poses */
+const FACE_SAMPLE_INTERVAL_MS = 3000
+
 // ─── Enrollment Contexts ──────────────────────────────────────────────────────
 
 const CONTEXTS: Record<EnrollmentContext, {
@@ -223,16 +240,21 @@ export default function EnrollPage() {
     const [email, setEmail]           = useState('')
     const [context, setContext]       = useState<EnrollmentContext>('prose_es')
     const [keystrokeCount, setKeystrokeCount] = useState(0)
+    const [faceSamples, setFaceSamples] = useState(0)
     const [saving, setSaving]         = useState(false)
     const [profileId, setProfileId]   = useState('')
     const [enrollmentHash, setEnrollmentHash] = useState('')
+    const [enrollmentSessions, setEnrollmentSessions] = useState(1)
     const [expiresAt, setExpiresAt]   = useState('')
     const [error, setError]           = useState('')
 
     // Live biometric accumulator
     const flightTimesRef   = useRef<number[]>([])
     const holdTimesRef     = useRef<number[]>([])
-    const digramAccRef     = useRef<Record<string, number[]>>({})
+    const ngramCaptureRef  = useRef(createNgramCapture())
+    // Face descriptors sampled while typing (optional — needs the camera)
+    const cameraRef        = useRef<VerificationCameraHandle>(null)
+    const faceDescriptorsRef = useRef<number[][]>([])
 
     const ctx = CONTEXTS[context]
     const minKeys = ctx.minKeys
@@ -249,65 +271,63 @@ export default function EnrollPage() {
             if (event.holdTime && event.holdTime > 10 && event.holdTime < 500) {
                 holdTimesRef.current.push(event.holdTime)
             }
-            // Accumulate digrams
-            if (event.key) {
-                const dk = event.key
-                if (!digramAccRef.current[dk]) digramAccRef.current[dk] = []
-                if (event.flightTime && event.flightTime > 10 && event.flightTime < 2000) {
-                    digramAccRef.current[dk].push(event.flightTime)
-                }
+            // Digram / trigram timings — the event is stamped at key release
+            if (event.key && event.timestamp !== undefined && event.holdTime !== undefined) {
+                recordKeystroke(ngramCaptureRef.current, {
+                    key:  event.key,
+                    down: event.timestamp - event.holdTime,
+                    up:   event.timestamp,
+                })
             }
         }
     }, [])
 
+    // ── Sample face descriptors while the candidate types ─────────────────────
+    useEffect(() => {
+        if (step !== 'typing') return
+        let stopped = false
+        let sampling = false
+        const interval = setInterval(async () => {
+            if (stopped || sampling || faceDescriptorsRef.current.length >= MAX_ENROLLMENT_FACES) return
+            sampling = true
+            const descriptor = await cameraRef.current?.describeFace()
+            sampling = false
+            if (!descriptor || stopped || faceDescriptorsRef.current.length >= MAX_ENROLLMENT_FACES) return
+            faceDescriptorsRef.current.push(descriptor)
+            setFaceSamples(faceDescriptorsRef.current.length)
+        }, FACE_SAMPLE_INTERVAL_MS)
+        return () => { stopped = true; clearInterval(interval) }
+    }, [step])
+
     // ── Build keystroke profile from accumulated data ─────────────────────────
     function buildProfile(): KeystrokeProfile {
         const flights = flightTimesRef.current
         const holds   = holdTimesRef.current
 
+        // Same definitions as the live editor and the ONNX features, so the
+        // template compares like with like at scoring time
         function stats(arr: number[]) {
-            if (arr.length === 0) return { mean: 0, std: 0 }
-            const mean = arr.reduce((a, b) => a + b, 0) / arr.length
-            const std  = Math.sqrt(arr.reduce((a, b) => a + (b - mean) ** 2, 0) / arr.length)
-            return { mean, std }
-        }
-
-        function entropy(arr: number[]): number {
-            if (arr.length === 0) return 0
-            const min = Math.min(...arr), max = Math.max(...arr)
-            const buckets = 10
-            const bucketSize = (max - min) / buckets || 1
-            const counts = new Array(buckets).fill(0)
-            arr.forEach(v => {
-                const idx = Math.min(buckets - 1, Math.floor((v - min) / bucketSize))
-                counts[idx]++
-            })
-            return counts.reduce((e, c) => {
-                if (c === 0) return e
-                const p = c / arr.length
-                return e - p * Math.log2(p)
-            }, 0)
+            const m = mean(arr)
+            return { mean: m, std: std(arr, m) }
         }
 
         const fStats = stats(flights)
         const hStats = stats(holds)
 
-        // Build digram map (only pairs with ≥3 samples)
-        const digrams: KeystrokeProfile['digrams'] = {}
-        Object.entries(digramAccRef.current).forEach(([key, vals]) => {
-            if (vals.length >= 3) {
-                const s = stats(vals)
-                digrams[key] = { mean: s.mean, std: s.std, count: vals.length }
-            }
-        })
+        // N-gram maps (only keys with ≥3 samples), keyed like the live session's
+        const ngrams = ngramCaptureRef.current
 
         return {
             flightMean: Math.round(fStats.mean),
             flightStd:  Math.round(fStats.std),
             holdMean:   Math.round(hStats.mean),
             holdStd:    Math.round(hStats.std),
-            entropy:    parseFloat(entropy(flights).toFixed(2)),
-            digrams,
+            entropy:    parseFloat(shannonEntropy(flights).toFixed(2)),
+            digrams:        summariseNgrams(ngrams.digrams),
+            digramDownDown: summariseNgrams(ngrams.digramDownDown),
+            digramUpUp:     summariseNgrams(ngrams.digramUpUp),
+            trigrams:       summariseNgrams(ngrams.trigrams),
+            featureStats:   estimateFeatureStats(flights, holds),
             wpmMin: 0,
             wpmMax: 0,
             sampleSize: keystrokeCount,
@@ -321,12 +341,16 @@ export default function EnrollPage() {
         setError('')
 
         const profile = buildProfile()
+        // Too few samples to match against reliably — enroll the keystrokes only
+        const faceDescriptors = faceDescriptorsRef.current.length >= MIN_ENROLLMENT_FACES
+            ? faceDescriptorsRef.current
+            : undefined
 
         try {
             const res = await fetch('/api/enrollment', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ candidateName: name, candidateEmail: email, context, profile }),
+                body: JSON.stringify({ candidateName: name, candidateEmail: email, context, profile, faceDescriptors }),
             })
             const json = await res.json()
             if (!json.success) {
@@ -336,6 +360,7 @@ export default function EnrollPage() {
             }
             setProfileId(json.profileId)
             setEnrollmentHash(json.enrollmentHash)
+            setEnrollmentSessions(json.enrollmentSessions ?? 1)
             setExpiresAt(json.expiresAt)
             setStep('done')
         } catch {
@@ -452,7 +477,7 @@ export default function EnrollPage() {
                 </div>
 
                 <div style={{ background: 'rgba(255,255,255,0.03)', border: '1px solid var(--color-border)', borderRadius: '12px', padding: '16px', marginBottom: '28px', fontSize: '0.82rem', color: 'var(--color-text-muted)', lineHeight: 1.6 }}>
-                    🔒 <strong style={{ color: 'var(--color-text)' }}>Privacidad:</strong> Tu perfil biométrico se almacena encriptado. Solo se guardan estadísticas de tiempo (milisegundos entre pulsaciones), nunca el contenido de lo que escribas. El perfil caduca a los 90 días.
+                    🔒 <strong style={{ color: 'var(--color-text)' }}>Privacidad:</strong> Tu perfil biométrico se almacena encriptado. Solo se guardan estadísticas de tiempo (milisegundos entre pulsaciones), nunca el contenido de lo que escribas. Si permites la cámara, se guarda además una firma numérica de tu rostro, nunca imágenes. El perfil caduca a los 90 días.
                 </div>
 
                 <button
@@ -543,6 +568,15 @@ export default function EnrollPage() {
             <div style={{ display: 'flex', flex: 1, gap: '0', overflow: 'hidden' }}>
                 {/* Prompt panel */}
                 <div style={{ width: '320px', flexShrink: 0, padding: '24px 20px', borderRight: '1px solid var(--color-border)', background: 'rgba(255,255,255,0.01)', overflowY: 'auto' }}>
+                    {/* Face enrollment */}
+                    <div style={{ marginBottom: '24px' }}>
+                        <VerificationCameraDynamic ref={cameraRef} />
+                        <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginTop: '8px', lineHeight: 1.5 }}>
+                            Rostro: <span style={{ color: faceSamples >= MIN_ENROLLMENT_FACES ? 'var(--color-primary)' : 'var(--color-text)' }}>{faceSamples} / {MIN_ENROLLMENT_FACES} muestras</span>
+                            {faceSamples < MIN_ENROLLMENT_FACES && ' · opcional — mira a la cámara mientras escribes'}
+                        </div>
+                    </div>
+
                     <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.12em', color: 'var(--color-primary)', marginBottom: '12px' }}>Instrucciones</div>
                     <div style={{ fontSize: '0.83rem', color: 'var(--color-text-muted)', lineHeight: 1.7, whiteSpace: 'pre-wrap' }}>
                         {ctx.prompt}
@@ -561,7 +595,10 @@ export default function EnrollPage() {
                                 · Tiempos de vuelo: <span style={{ color: 'var(--color-primary)' }}>{flightTimesRef.current.length}</span>
                             </div>
                             <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)' }}>
-                                · Pares de digrama: <span style={{ color: 'var(--color-primary)' }}>{Object.keys(digramAccRef.current).length}</span>
+                                · Pares de digrama: <span style={{ color: 'var(--color-primary)' }}>{Object.keys(ngramCaptureRef.current.digrams).length}</span>
+                            </div>
+                            <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)' }}>
+                                · Trigramas: <span style={{ color: 'var(--color-primary)' }}>{Object.keys(ngramCaptureRef.current.trigrams).length}</span>
                             </div>
                             <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)' }}>
                                 · Tiempos de pulsación: <span style={{ color: 'var(--color-primary)' }}>{holdTimesRef.current.length}</span>
@@ -602,6 +639,8 @@ export default function EnrollPage() {
                     <InfoRow label="Candidato" value={name} />
                     <InfoRow label="Email" value={email} />
                     <InfoRow label="Contexto" value={ctx.label} />
+                    <InfoRow label="Rostro" value={faceSamples >= MIN_ENROLLMENT_FACES ? `${faceSamples} muestras` : 'No registrado'} />
+                    <InfoRow label="Sesiones de enrollment" value={enrollmentSessions > 1 ? `${enrollmentSessions} (combinadas)` : '1'} />
                     <InfoRow label="Profile ID" value={profileId} mono />
                     <InfoRow label="Válido hasta" value={new Date(expiresAt).toLocaleDateString('es-ES', { year: 'numeric', month: 'long', day: 'numeric' })} />
                 </div>
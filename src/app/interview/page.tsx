@@ -6,8 +6,12 @@ import dynamic from 'next/dynamic'
 import styles from './page.module.css'
 import { VerificationCameraHandle, VerificationFailureReason, GazeDirection, BlinkEvent, FaceMetrics, AntiCheatEvent } from '@/components/VerificationCamera'
 import { BiometricEvent, CodeEditorHandle } from '@/components/CodeEditor'
-import { extractFeatureVector } from '@/lib/biometricFeatures'
+import { FEATURE_SET_VERSION } from '@/lib/biometricFeatures'
 import { generateCertificatePDF } from '@/lib/generateCertificate'
+import { applySessionEvent, createScoringState, deriveOutcome, faceMatchScore, replaySessionEvents, ScoringState, SessionEvent } from '@/lib/scoring'
+import { hasIncident, Incident, IncidentCode, INCIDENT_GROUPS, incidentLabel } from '@/lib/incidentModel'
+import { autoFlagThreshold, DEFAULT_POLICY, ScoringPolicy } from '@/lib/policy'
+import { clearSavedSession, createEventStream, EventStream, LiveSessionCredentials, openLiveSession, SessionCandidate, StreamStatus } from '@/lib/eventBuffer'
 
 // ─── Dynamic imports (client-only) ────────────────────────────────────────────
 
@@ -29,28 +33,35 @@ const CodeEditorDynamic = dynamic(() => import('@/components/CodeEditor'), {
     )
 })
 
-// ─── Types ────────────────────────────────────────────────────────────────────
+/** Monaco language of the interview editor — ml-score matches the enrollment template of its context */
+const EDITOR_LANGUAGE = 'typescript'
 
-interface AlertEntry {
-    id: number
-    timestamp: string
-    message: string
-    severity: 'low' | 'medium' | 'high'
-    penalty: number
-}
+// ─── Types ────────────────────────────────────────────────────────────────────
 
 interface EvidenceEntry {
     timestamp: string
     image: string
     reason: string
+    /** Code and time of the incident the snapshot was taken for */
+    incidentCode?: IncidentCode
+    incidentAt?: string
 }
 
 // ─── Session Report ───────────────────────────────────────────────────────────
 
 function SessionReport({ assessment, onRestart }: { assessment: any; onRestart: () => void }) {
-    const scoreColor = assessment.score > 85 ? 'var(--color-primary)' : assessment.score > 60 ? '#ffd700' : '#ff4d4d'
+    const policy = assessment.scoringPolicy as ScoringPolicy | undefined ?? DEFAULT_POLICY
+    const { pass, review } = policy.thresholds
+    // The verdict's own flag; tab switches are named only when they reached the policy's limit
+    const tabFlagAt = autoFlagThreshold(policy, 'TAB_SWITCH') ?? Infinity
+    const tabSwitchFlagged = assessment.tabSwitchCount >= tabFlagAt
+    const scoreColor = assessment.score > pass ? 'var(--color-primary)' : assessment.score > review ? '#ffd700' : '#ff4d4d'
     const statusLabel = assessment.status === 'passed' ? 'PASSED' : assessment.status === 'review' ? 'UNDER REVIEW' : 'FLAGGED'
     const [exportingPDF, setExportingPDF] = React.useState(false)
+    const incidents: Incident[] = assessment.alerts
+    const keystrokeAnomalies = hasIncident(incidents, INCIDENT_GROUPS.keystrokeDna)
+    const clipboardFlagged = hasIncident(incidents, INCIDENT_GROUPS.clipboard)
+    const faceMismatch = hasIncident(incidents, ['FACE_IDENTITY_MISMATCH'])
 
     async function handleExportPDF() {
         setExportingPDF(true)
@@ -69,9 +80,13 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                 tabSwitchCount: assessment.tabSwitchCount,
                 gazeEventCount: assessment.gazeEventCount,
                 identityMatchScore: assessment.identityMatchScore,
+                faceMatchScore: assessment.faceMatchScore,
                 alertCount: assessment.alerts?.length ?? 0,
                 evidenceCount: assessment.evidence?.length ?? 0,
                 enrollmentProfileId: assessment.enrollmentProfileId,
+                signature: assessment.certificate
+                    ? { kid: assessment.certificate.kid, value: assessment.certificate.signature }
+                    : undefined,
             })
         } finally {
             setExportingPDF(false)
@@ -117,8 +132,8 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                     <div style={{ height: '100%', width: `${assessment.score}%`, background: scoreColor, borderRadius: '4px', transition: 'width 1s ease' }} />
                 </div>
 
-                {/* Tab-switch warning banner */}
-                {assessment.tabSwitchCount >= 2 && (
+                {/* Auto-flag banner */}
+                {assessment.autoFlagged && (
                     <div style={{
                         background: 'rgba(255,77,77,0.12)', border: '1px solid rgba(255,77,77,0.4)',
                         borderRadius: '12px', padding: '16px 20px', marginBottom: '32px',
@@ -126,9 +141,13 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                     }}>
                         <span style={{ fontSize: '1.2rem' }}>⚑</span>
                         <div>
-                            <div style={{ color: '#ff4d4d', fontWeight: 700, fontSize: '0.9rem' }}>AUTO-FLAGGED — Excessive Tab Switching</div>
+                            <div style={{ color: '#ff4d4d', fontWeight: 700, fontSize: '0.9rem' }}>
+                                AUTO-FLAGGED{tabSwitchFlagged ? ' — Excessive Tab Switching' : ''}
+                            </div>
                             <div style={{ color: 'var(--color-text-muted)', fontSize: '0.8rem', marginTop: '2px' }}>
-                                Candidate switched tabs {assessment.tabSwitchCount} times during the session. This assessment has been automatically flagged for review.
+                                {tabSwitchFlagged
+                                    ? `Candidate switched tabs ${assessment.tabSwitchCount} times during the session (policy limit ${tabFlagAt}).`
+                                    : 'An auto-flag rule of the session\'s scoring policy was met.'} This assessment has been automatically flagged for review.
                             </div>
                         </div>
                     </div>
@@ -143,7 +162,7 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                             <div><strong>Role:</strong> {assessment.role}</div>
                             <div><strong>Session Date:</strong> {assessment.date}</div>
                             <div><strong>Session ID:</strong> <span style={{ fontFamily: 'monospace', fontSize: '0.78rem' }}>{assessment.id}</span></div>
-                            <div><strong>Tab Switches:</strong> <span style={{ color: assessment.tabSwitchCount >= 2 ? '#ff4d4d' : 'inherit' }}>{assessment.tabSwitchCount}</span></div>
+                            <div><strong>Tab Switches:</strong> <span style={{ color: tabSwitchFlagged ? '#ff4d4d' : 'inherit' }}>{assessment.tabSwitchCount}</span></div>
                             <div><strong>Gaze Events:</strong> <span style={{ color: assessment.gazeEventCount > 3 ? '#ffd700' : 'inherit' }}>{assessment.gazeEventCount}</span></div>
                         </div>
                     </div>
@@ -154,11 +173,16 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                             <div>• Eye Gaze: <span style={{ color: assessment.gazeEventCount > 5 ? '#ff4d4d' : assessment.gazeEventCount > 2 ? '#ffd700' : 'var(--color-primary)' }}>
                                 {assessment.gazeEventCount > 5 ? 'HIGH DIVERSION' : assessment.gazeEventCount > 2 ? 'MODERATE' : 'CLEAN'}
                             </span></div>
-                            <div>• Keystroke DNA: <span style={{ color: assessment.alerts.some((a: AlertEntry) => (a.message || a).toString().includes('Inconsistency') || (a.message || a).toString().includes('Rhythm')) ? '#ffd700' : 'var(--color-primary)' }}>
-                                {assessment.alerts.some((a: AlertEntry) => (a.message || a).toString().includes('Inconsistency') || (a.message || a).toString().includes('Rhythm')) ? 'ANOMALIES DETECTED' : 'CONSISTENT'}
+                            {assessment.faceMatchScore !== undefined && (
+                                <div>• Face Match: <span style={{ color: faceMismatch ? '#ff4d4d' : 'var(--color-primary)' }}>
+                                    {faceMismatch ? `DIFFERENT PERSON (${assessment.faceMatchScore}%)` : `ENROLLED FACE (${assessment.faceMatchScore}%)`}
+                                </span></div>
+                            )}
+                            <div>• Keystroke DNA: <span style={{ color: keystrokeAnomalies ? '#ffd700' : 'var(--color-primary)' }}>
+                                {keystrokeAnomalies ? 'ANOMALIES DETECTED' : 'CONSISTENT'}
                             </span></div>
-                            <div>• Clipboard: <span style={{ color: assessment.alerts.some((a: AlertEntry) => (a.message || a).toString().includes('Paste')) ? '#ff4d4d' : 'var(--color-primary)' }}>
-                                {assessment.alerts.some((a: AlertEntry) => (a.message || a).toString().includes('Paste')) ? 'FLAGGED' : 'CLEAN'}
+                            <div>• Clipboard: <span style={{ color: clipboardFlagged ? '#ff4d4d' : 'var(--color-primary)' }}>
+                                {clipboardFlagged ? 'FLAGGED' : 'CLEAN'}
                             </span></div>
                             <div>• AI-Assist Risk: <span style={{ color: (assessment.aiRisk ?? 0) > 50 ? '#ff4d4d' : 'var(--color-primary)' }}>
                                 {(assessment.aiRisk ?? 0) > 50 ? `ELEVATED (${assessment.aiRisk}%)` : 'LOW'}
@@ -173,7 +197,7 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
                                     {assessment.gazeStabilityScore}%
                                 </span></div>
                             )}
-                            {assessment.alerts.some((a: AlertEntry) => (a.message || a).toString().includes('Cross-modal')) && (
+                            {hasIncident(incidents, INCIDENT_GROUPS.crossModal) && (
                                 <div>• Cross-modal: <span style={{ color: '#ffd700' }}>TYPING WHILE LOOKING AWAY</span></div>
                             )}
                             {(assessment.lightingChallengesPassed + assessment.lightingChallengesFailed) > 0 && (
@@ -205,19 +229,18 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
 
                 {/* Incident Timeline — no maxHeight, fully expanded */}
                 <div style={{ marginBottom: '36px' }}>
-                    <h3 style={{ marginBottom: '14px' }}>Incident Timeline ({assessment.alerts.length} events)</h3>
-                    {assessment.alerts.length === 0 ? (
+                    <h3 style={{ marginBottom: '14px' }}>Incident Timeline ({incidents.length} events)</h3>
+                    {incidents.length === 0 ? (
                         <p style={{ color: 'var(--color-primary)', opacity: 0.7, fontSize: '0.9rem' }}>No security incidents recorded.</p>
                     ) : (
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                            {assessment.alerts.map((alert: AlertEntry | string, idx: number) => {
-                                const msg = typeof alert === 'string' ? alert : alert.message
-                                const sev = typeof alert === 'object' ? alert.severity : 'medium'
-                                const sevColor = sev === 'high' ? '#ff4d4d' : sev === 'medium' ? '#ffd700' : '#aaa'
+                            {incidents.map(incident => {
+                                const sevColor = incident.severity === 'high' ? '#ff4d4d' : incident.severity === 'medium' ? '#ffd700' : '#aaa'
                                 return (
-                                    <div key={idx} style={{ padding: '10px 16px', background: 'rgba(255,77,77,0.05)', borderLeft: `3px solid ${sevColor}`, borderRadius: '4px', fontSize: '0.85rem', display: 'flex', gap: '12px' }}>
-                                        <span style={{ color: sevColor, fontWeight: 700, textTransform: 'uppercase', fontSize: '0.7rem', whiteSpace: 'nowrap', minWidth: '52px' }}>{sev}</span>
-                                        <span style={{ color: 'var(--color-text-muted)' }}>{msg}</span>
+                                    <div key={incident.id} style={{ padding: '10px 16px', background: 'rgba(255,77,77,0.05)', borderLeft: `3px solid ${sevColor}`, borderRadius: '4px', fontSize: '0.85rem', display: 'flex', gap: '12px' }}>
+                                        <span style={{ color: sevColor, fontWeight: 700, textTransform: 'uppercase', fontSize: '0.7rem', whiteSpace: 'nowrap', minWidth: '52px' }}>{incident.severity}</span>
+                                        <span style={{ fontWeight: 600, whiteSpace: 'nowrap' }}>{incidentLabel(incident.code)}</span>
+                                        <span style={{ color: 'var(--color-text-muted)' }}>{incident.message}</span>
                                     </div>
                                 )
                             })}
@@ -274,16 +297,22 @@ function SessionReport({ assessment, onRestart }: { assessment: any; onRestart:
 // ─── Main Interview Page ──────────────────────────────────────────────────────
 
 const PROMPT_ID = `#${Math.floor(1000 + Math.random() * 9000)}`
+const FACE_CHECK_INTERVAL_MS = 20000
 
 export default function InterviewPage() {
     const [isVerified, setIsVerified]             = useState(false)
     const [livenessScore, setLivenessScore]       = useState(0)
     const [trustScore, setTrustScore]             = useState(100)
-    const [alerts, setAlerts]                     = useState<AlertEntry[]>([])
+    const [alerts, setAlerts]                     = useState<Incident[]>([])
     const [isSaving, setIsSaving]                 = useState(false)
     const [sessionEnded, setSessionEnded]         = useState(false)
     const [lastAssessment, setLastAssessment]     = useState<any>(null)
     const [evidence, setEvidence]                 = useState<EvidenceEntry[]>([])
+    const [streamStatus, setStreamStatus]         = useState<StreamStatus>('connecting')
+    const [resumed, setResumed]                   = useState(false)
+    // Filled in by the server — from the invite link when there is one
+    const [candidate, setCandidate]               = useState<SessionCandidate | null>(null)
+    const [inviteError, setInviteError]           = useState<string | null>(null)
     // Lighting Challenge state (controls the screen flash overlay and camera prop)
     const [lightingChallenge, setLightingChallenge] = useState(false)
 
@@ -295,153 +324,196 @@ export default function InterviewPage() {
         typingActive: false,
     })
 
-    const alertIdRef       = useRef(0)
-    const trustScoreRef    = useRef(100)
-    const tabSwitchCount   = useRef(0)   // ← persists across renders without re-render cost
-    const gazeEventCount   = useRef(0)
     const cameraRef        = useRef<VerificationCameraHandle>(null)
     const codeEditorRef    = useRef<CodeEditorHandle>(null)
 
+    // ── Raw event log + local replay of the server scoring rules ─────────────
+    // Every signal is appended to the log and fed through the shared reducer
+    // for the live preview. The server replays the same log to score the session,
+    // under the policy it hands back when the session opens.
+    const eventLogRef      = useRef<SessionEvent[]>([])
+    const scoringRef       = useRef<ScoringState>(createScoringState())
+    // Streams the same log to the server every 5s (IndexedDB-buffered)
+    const streamRef        = useRef<EventStream | null>(null)
+    const liveSessionRef   = useRef<LiveSessionCredentials | null>(null)
+
     // ── Cross-modal / Anti-cheat correlation state ────────────────────────────
     const currentGazeRef          = useRef<GazeDirection>('center')
     const lastTypingTimeRef       = useRef<number>(0)
-    const lastCrossModalAlertRef  = useRef<number>(0)
     const faceMetricsRef          = useRef<FaceMetrics | null>(null)
-    const blinkAnomalyCountRef    = useRef<number>(0)
+    const lastFaceMetricsLogRef   = useRef<number>(0)
     // Oculo-manual synchrony — track cursor movement in editor
-    const cursorActivityRef       = useRef<number>(0)  // last timestamp of cursor move
-    const ocoloDesyncCountRef     = useRef<number>(0)
     const lastOculoAlertRef       = useRef<number>(0)
-    // Anti-cheat challenge counters
-    const lcPassedRef             = useRef<number>(0)
-    const lcFailedRef             = useRef<number>(0)
-    const acFailedTotalRef        = useRef<number>(0)
-
-    useEffect(() => { trustScoreRef.current = trustScore }, [trustScore])
 
     // ── Evidence capture ──────────────────────────────────────────────────────
-    const captureEvidence = useCallback((reason: string) => {
+    const captureEvidence = useCallback((reason: string, incident: Incident) => {
         const snapshot = cameraRef.current?.takeSnapshot()
         if (snapshot) {
             setEvidence(prev => [...prev, {
                 timestamp: new Date().toLocaleTimeString(),
                 image: snapshot,
                 reason,
+                incidentCode: incident.code,
+                incidentAt:   incident.at,
             }].slice(-8))
         }
     }, [])
 
-    // ── Add alert helper ──────────────────────────────────────────────────────
-    const addAlert = useCallback((message: string, severity: AlertEntry['severity'], penalty: number, captureReason?: string) => {
-        const timestamp = new Date().toLocaleTimeString()
-        const id = ++alertIdRef.current
-        setAlerts(prev => [{ id, timestamp, message: `[${timestamp}] ${message}`, severity, penalty }, ...prev].slice(0, 30))
-        setTrustScore(prev => Math.max(0, prev - penalty))
-        if (captureReason) captureEvidence(captureReason)
-    }, [captureEvidence])
+    // ── Record event helper ───────────────────────────────────────────────────
+    const getStream = useCallback(() => {
+        streamRef.current ??= createEventStream({ onStatus: setStreamStatus })
+        return streamRef.current
+    }, [])
+
+    const syncLiveMetrics = useCallback((state: ScoringState) => {
+        setLiveMetrics({
+            keystrokeCount: state.keystrokeCount,
+            aiRisk: state.aiRisk,
+            pasteCount: state.pasteCount,
+            anomalyCount: state.anomalyCount,
+            typingActive: state.keystrokeCount > 0,
+        })
+    }, [])
+
+    // Server-scored results (ml) only update the local preview; the server
+    // derives its own when the session is finalized and never accepts them
+    const previewEvent = useCallback((event: SessionEvent) => {
+        const state = scoringRef.current
+        const raised = applySessionEvent(state, event)
+        if (raised.length > 0) {
+            setAlerts(state.alerts.slice(0, 30))
+            setTrustScore(state.score)
+            for (const alert of raised) {
+                if (alert.captureReason) captureEvidence(alert.captureReason, alert)
+            }
+        }
+        if (event.kind === 'biometric' || event.kind === 'ml') syncLiveMetrics(state)
+    }, [captureEvidence, syncLiveMetrics])
+
+    const recordEvent = useCallback((event: SessionEvent) => {
+        eventLogRef.current.push(event)
+        getStream().record(event)
+        previewEvent(event)
+    }, [getStream, previewEvent])
+
+    // ── Live session: open or resume, then stream ────────────────────────────
+    useEffect(() => {
+        const stream = getStream()
+        let cancelled = false
+        const invite = new URLSearchParams(window.location.search).get('invite') ?? undefined
+        openLiveSession({
+            candidateName: 'Remote Candidate',
+            role: 'Software Engineer',
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            editorLanguage: EDITOR_LANGUAGE,
+            invite,
+        })
+            .then(({ credentials, nextSeq, replay, resumed, policy, candidate }) => {
+                if (cancelled) return
+                setCandidate(candidate ?? null)
+                // Rebuild local state under the session's policy, including
+                // anything recorded before a reload or before the session opened
+                if (resumed) eventLogRef.current = [...replay, ...eventLogRef.current]
+                const state = replaySessionEvents(eventLogRef.current, { policy })
+                scoringRef.current = state
+                setAlerts(state.alerts.slice(0, 30))
+                setTrustScore(state.score)
+                syncLiveMetrics(state)
+                if (resumed && replay.length > 0) setResumed(true)
+                liveSessionRef.current = credentials
+                stream.attach(credentials, nextSeq)
+            })
+            .catch(err => {
+                console.error('[interview] could not open live session:', err)
+                // Without the invite the result cannot reach the integrator — stop here
+                if (invite) setInviteError(err instanceof Error ? err.message : String(err))
+                setStreamStatus('offline')
+            })
+
+        const handlePageHide = () => stream.flushOnExit()
+        window.addEventListener('pagehide', handlePageHide)
+        return () => {
+            cancelled = true
+            stream.stop()
+            window.removeEventListener('pagehide', handlePageHide)
+        }
+    }, [getStream, syncLiveMetrics])
 
     // ── Camera: head pose / verification ─────────────────────────────────────
     const handleVerificationChange = useCallback((verified: boolean, type?: VerificationFailureReason) => {
         setIsVerified(verified)
-        if (!verified && type) {
-            if (type === 'Gaze Divergence') {
-                addAlert('Head turned away from screen', 'medium', 5, 'Head Turn')
-            } else if (type === 'Eye Gaze Detected') {
-                // Eye gaze events are rate-limited inside handleGazeEvent
-            } else if (type === 'Head Tilted') {
-                addAlert('Head pose anomaly detected', 'low', 2)
-            } else if (type === 'Multiple faces detected') {
-                addAlert('Multiple faces in frame — possible proxy attempt', 'high', 15, 'Multiple Faces')
-            } else if (type === 'No face detected') {
-                addAlert('Candidate left camera view', 'medium', 5, 'Face Lost')
-            }
+        // Eye gaze is scored through (rate-limited) gaze events
+        if (!verified && type && type !== 'Eye Gaze Detected' && type !== 'Low confidence') {
+            recordEvent({ kind: 'verification', at: Date.now(), reason: type })
         }
-    }, [addAlert])
+    }, [recordEvent])
 
     const handleLivenessScore = useCallback((score: number) => {
         setLivenessScore(score)
     }, [])
 
-    // ── Gaze events — rate-limited (max 1 alert per 4s per direction) ─────────
-    const lastGazeAlertRef = useRef<Record<string, number>>({})
-
+    // ── Gaze events — rate-limited in the scoring rules ──────────────────────
     const handleGazeEvent = useCallback((direction: GazeDirection) => {
         currentGazeRef.current = direction
-        if (direction === 'center' || direction === 'unknown') return
-
-        const now = Date.now()
-        const lastTime = lastGazeAlertRef.current[direction] ?? 0
-        if (now - lastTime < 4000) return
-
-        lastGazeAlertRef.current[direction] = now
-        gazeEventCount.current += 1
-
-        const dirLabel = direction === 'left' ? 'left (possible second screen)' : direction === 'right' ? 'right (possible second screen)' : direction
-        addAlert(`Eye gaze detected — looking ${dirLabel}`, 'medium', 4, `Eye Gaze ${direction}`)
-    }, [addAlert])
+        recordEvent({ kind: 'gaze', at: Date.now(), direction })
+    }, [recordEvent])
 
     // ── Blink events ───────────────────────────────────────────────────────────
     const handleBlinkEvent = useCallback((event: BlinkEvent) => {
-        if (event.type === 'blink_rate_anomaly') {
-            blinkAnomalyCountRef.current += 1
-            // Only alert on repeated anomalies or very extreme values (< 2/min)
-            if (blinkAnomalyCountRef.current >= 2 || (event.blinkRate !== undefined && event.blinkRate < 2)) {
-                addAlert(
-                    `Blink rate anomaly: ${event.blinkRate}/min — ${event.detail ?? 'unusual blink pattern'}`,
-                    'medium', 8
-                )
-                blinkAnomalyCountRef.current = 0
-            }
-        } else if (event.type === 'prolonged_closure') {
-            addAlert(`Eyes closed ${Math.round((event.blinkDurationMs ?? 0) / 1000 * 10) / 10}s — attention check`,
-                'low', 3)
-        }
-    }, [addAlert])
+        recordEvent({ kind: 'blink', at: Date.now(), event })
+    }, [recordEvent])
 
     // ── Face metrics stream ────────────────────────────────────────────────────
+    // Arrives every detection tick; the log keeps one sample per 5s.
     const handleFaceMetrics = useCallback((metrics: FaceMetrics) => {
         faceMetricsRef.current = metrics
-    }, [])
+        const now = Date.now()
+        if (now - lastFaceMetricsLogRef.current >= 5000) {
+            lastFaceMetricsLogRef.current = now
+            recordEvent({ kind: 'face_metrics', at: now, metrics })
+        }
+    }, [recordEvent])
+
+    // ── Face identity checks ──────────────────────────────────────────────────
+    // The camera describes the candidate's face and the server compares it with
+    // the enrolled descriptors. Stops for sessions without a face enrollment.
+    useEffect(() => {
+        let stopped = false
+        let checking = false
+        const interval = setInterval(async () => {
+            const live = liveSessionRef.current
+            if (stopped || checking || !live) return
+            checking = true
+            try {
+                const descriptor = await cameraRef.current?.describeFace()
+                if (!descriptor || stopped) return
+                const res = await fetch(`/api/v1/sessions/${live.id}/face-match`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json', 'X-Session-Token': live.token },
+                    body: JSON.stringify({ descriptor }),
+                })
+                const json = await res.json()
+                if (!json.success || stopped) return
+                if (!json.data.enrolled) {
+                    stopped = true
+                    clearInterval(interval)
+                    return
+                }
+                // The server logged the check; mirror it in the local preview
+                previewEvent(json.data.event)
+            } catch (err) {
+                console.warn('[interview] face check failed:', err)
+            } finally {
+                checking = false
+            }
+        }, FACE_CHECK_INTERVAL_MS)
+        return () => { stopped = true; clearInterval(interval) }
+    }, [previewEvent])
 
     // ── Anti-cheat event handler ──────────────────────────────────────────────
     const handleAntiCheatEvent = useCallback((event: AntiCheatEvent) => {
-        switch (event.type) {
-            case 'lighting_challenge_fail':
-                lcFailedRef.current++
-                acFailedTotalRef.current++
-                addAlert(
-                    `Lighting challenge FAILED — no pupil/lid reflex detected (ΔEAR ${event.detail?.match(/[\d.]+/)?.[0] ?? '?'}) — possible deepfake`,
-                    'high', 20, 'Lighting Fail'
-                )
-                break
-            case 'lighting_challenge_pass':
-                lcPassedRef.current++
-                // Pass is a positive liveness signal — no alert, just log
-                break
-            case 'saccade_too_smooth':
-                acFailedTotalRef.current++
-                addAlert(
-                    `Gaze too smooth — no micro-saccades detected. AI renderer signature.`,
-                    'high', 15
-                )
-                break
-            case 'blink_edge_artifact':
-                acFailedTotalRef.current++
-                addAlert(
-                    `Blink eyelid artifact — snap-close or unnatural symmetry. ${event.detail ?? ''}`,
-                    'medium', 10
-                )
-                break
-            case 'oculo_manual_desynced':
-                acFailedTotalRef.current++
-                ocoloDesyncCountRef.current++
-                addAlert(
-                    `Oculo-manual desync — cursor moving but gaze frozen. Possible virtual camera or screen-share cheat.`,
-                    'high', 12
-                )
-                break
-        }
-    }, [addAlert])
+        recordEvent({ kind: 'anti_cheat', at: Date.now(), event })
+    }, [recordEvent])
 
     // ── Lighting Challenge scheduler ──────────────────────────────────────────
     // Fires a random bright flash every 45–90 seconds after session start.
@@ -476,7 +548,6 @@ export default function InterviewPage() {
         const interval = setInterval(() => {
             const now = Date.now()
             const typingRecently = now - lastTypingTimeRef.current < 5000
-            const gazeOff = currentGazeRef.current !== 'center' && currentGazeRef.current !== 'unknown'
             const faceMetrics = faceMetricsRef.current
 
             if (!typingRecently || !faceMetrics) return
@@ -497,122 +568,22 @@ export default function InterviewPage() {
 
     // ── Keyboard biometric events ─────────────────────────────────────────────
     const handleBiometricEvent = useCallback((event: BiometricEvent) => {
-        switch (event.type) {
-            case 'keystroke': {
-                setLiveMetrics(prev => ({ ...prev, typingActive: true, keystrokeCount: prev.keystrokeCount + 1 }))
-                lastTypingTimeRef.current = Date.now()
-                // ── Cross-modal: typing while gaze is off-screen ───────────
-                // A human looks at what they type. If gaze is consistently off-screen
-                // during active typing, it may indicate reading from another source.
-                const gaze = currentGazeRef.current
-                if (gaze !== 'center' && gaze !== 'unknown') {
-                    const now = Date.now()
-                    if (now - lastCrossModalAlertRef.current > 8000) {
-                        lastCrossModalAlertRef.current = now
-                        addAlert(
-                            `Cross-modal anomaly — typing while looking ${gaze} (possible external source)`,
-                            'medium', 6
-                        )
-                    }
-                }
-                break
-            }
-            case 'paste': {
-                const penalty = event.length! > 200 ? 20 : event.length! > 50 ? 12 : 5
-                const sev: AlertEntry['severity'] = event.length! > 200 ? 'high' : event.length! > 50 ? 'medium' : 'low'
-                addAlert(`Clipboard paste — ${event.length} chars`, sev, penalty, event.length! > 50 ? 'Large Paste' : undefined)
-                setLiveMetrics(prev => ({ ...prev, pasteCount: prev.pasteCount + 1 }))
-                break
-            }
-            case 'burst':
-                addAlert('AI-assisted input — inhuman keystroke burst', 'high', 20, 'AI Burst')
-                setLiveMetrics(prev => ({ ...prev, aiRisk: Math.min(100, prev.aiRisk + 20) }))
-                break
-            case 'inconsistency':
-                addAlert(`Typing anomaly — Z-score ${event.zScore?.toFixed(1)}σ (key: ${event.key})`, 'medium', 8)
-                setLiveMetrics(prev => ({ ...prev, anomalyCount: prev.anomalyCount + 1 }))
-                break
-            case 'rhythm_shift':
-                addAlert('Sustained typing rhythm shift — possible user substitution', 'high', 12, 'Rhythm Shift')
-                setLiveMetrics(prev => ({ ...prev, anomalyCount: prev.anomalyCount + 1 }))
-                break
-            case 'long_pause':
-                addAlert(`Extended pause (${((event.flightTime || 0) / 1000).toFixed(1)}s) — attention drift`, 'low', 2)
-                break
-            case 'ai_score_update':
-                setLiveMetrics(prev => ({ ...prev, aiRisk: event.aiScore ?? prev.aiRisk }))
-                if ((event.aiScore ?? 0) > 70 && liveMetrics.aiRisk <= 70) {
-                    addAlert(`AI probability elevated to ${event.aiScore}%`, 'high', 5)
-                }
-                break
-            case 'content_injection': {
-                const isDragDrop = event.detail?.toLowerCase().includes('drag')
-                const label = isDragDrop
-                    ? `Drag & drop detected — ${event.length ?? 0} chars inserted`
-                    : `Programmatic content injection — ${event.detail ?? `+${event.length} chars without typing`}`
-                const captureLabel = isDragDrop ? 'Drag & Drop' : 'Code Injection'
-                addAlert(label, 'high', isDragDrop ? 20 : 25, captureLabel)
-                setLiveMetrics(prev => ({ ...prev, pasteCount: prev.pasteCount + 1 }))
-                break
-            }
-            case 'drag_drop':
-                addAlert(
-                    `Drag & drop detected — ${event.length ?? 0} chars inserted`,
-                    'high', 20, 'Drag & Drop'
-                )
-                setLiveMetrics(prev => ({ ...prev, pasteCount: prev.pasteCount + 1 }))
-                break
-            case 'backspace_anomaly':
-                addAlert(
-                    `Backspace pattern anomaly — ${event.detail ?? 'inhuman correction uniformity'}`,
-                    'medium', 8
-                )
-                break
-            case 'fft_periodicity':
-                addAlert(
-                    `Periodic keystroke rhythm detected — ${event.periodicityScore}% spectral dominance (bot signature)`,
-                    'high', 15
-                )
-                setLiveMetrics(prev => ({ ...prev, aiRisk: Math.min(100, prev.aiRisk + 15) }))
-                break
-            case 'fatigue_detected':
-                // No fatigue over 80+ keystrokes = suspicious (bots don't tire)
-                addAlert(
-                    `No typing fatigue detected after ${event.detail?.match(/\d+/)?.[0] ?? '80'}+ keystrokes — bot-like consistency`,
-                    'medium', 8
-                )
-                break
-        }
-    }, [addAlert, liveMetrics.aiRisk])
+        if (event.type === 'keystroke') lastTypingTimeRef.current = Date.now()
+        recordEvent({ kind: 'biometric', at: Date.now(), event })
+    }, [recordEvent])
 
     // ── Visibility / focus + tab switch counter ───────────────────────────────
     useEffect(() => {
         const handleVisibilityChange = () => {
-            if (document.hidden) {
-                tabSwitchCount.current += 1
-                const count = tabSwitchCount.current
-                const penalty = count >= 3 ? 15 : 10
-
-                if (count === 2) {
-                    // Trigger automatic flag
-                    addAlert(
-                        `Tab switch #${count} — session will be AUTO-FLAGGED (threshold reached)`,
-                        'high', penalty, 'Tab Switch'
-                    )
-                } else if (count > 2) {
-                    addAlert(`Tab switch #${count} — session FLAGGED`, 'high', penalty, 'Tab Switch')
-                } else {
-                    addAlert(`Tab switched — candidate left assessment window (${count}/2)`, 'high', penalty, 'Tab Switch')
-                }
-            }
+            recordEvent({ kind: 'visibility', at: Date.now(), hidden: document.hidden })
         }
         const handleBlur = () => {
-            addAlert('Window focus lost — candidate switched application', 'medium', 3, 'Focus Lost')
+            recordEvent({ kind: 'blur', at: Date.now() })
         }
 
         const isExtended = (window.screen as any).isExtended || (window.screen.availWidth > window.screen.width * 1.5)
         if (isExtended) {
-            addAlert('Extended display detected — dual monitor environment', 'low', 0)
+            recordEvent({ kind: 'display', at: Date.now(), extended: true })
         }
 
         document.addEventListener('visibilitychange', handleVisibilityChange)
@@ -621,91 +592,53 @@ export default function InterviewPage() {
             document.removeEventListener('visibilitychange', handleVisibilityChange)
             window.removeEventListener('blur', handleBlur)
         }
-    }, [addAlert])
+    }, [recordEvent])
 
     // ── End session ───────────────────────────────────────────────────────────
     const handleEndSession = async () => {
         setIsSaving(true)
-        const finalScore    = trustScoreRef.current
-        const tabSwitches   = tabSwitchCount.current
-        const gazeEvents    = gazeEventCount.current
-        // Auto-flag if tab switches >= 2, regardless of trust score
-        const autoFlagged   = tabSwitches >= 2
-        const status        = autoFlagged ? 'flagged' : finalScore > 85 ? 'passed' : finalScore > 60 ? 'review' : 'flagged'
-
-        const sessionId = Math.random().toString(36).substr(2, 9)
-        const sessionDate = new Date().toISOString().split('T')[0]
-
-        // Compute SHA-256 hash client-side using Web Crypto API
-        const hashPayload = JSON.stringify({
-            id: sessionId, candidateName: 'Remote Candidate', role: 'Software Engineer',
-            date: sessionDate, score: finalScore, status,
-            alertCount: alerts.length, keystrokeCount: liveMetrics.keystrokeCount,
-            aiRisk: liveMetrics.aiRisk, tabSwitchCount: tabSwitches,
-            gazeEventCount: gazeEvents, livenessScore,
-        })
-        let sessionHash = ''
-        try {
-            const msgBuffer = new TextEncoder().encode(hashPayload)
-            const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer)
-            sessionHash = Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('')
-        } catch { /* fallback: no hash */ }
 
-        const fm = faceMetricsRef.current
+        // Final face metrics sample so the report reflects the end of the session
+        if (faceMetricsRef.current) {
+            recordEvent({ kind: 'face_metrics', at: Date.now(), metrics: faceMetricsRef.current })
+        }
 
         // ── ML scoring: get session data from editor and run ONNX inference ───
-        let mlAiRisk = liveMetrics.aiRisk
         let mlIdentityMatchScore: number | undefined
         let mlFlags: string[] = []
 
         try {
-            const rawSessionData = codeEditorRef.current?.getSessionData()
+            const rawSessionData = await codeEditorRef.current?.getSessionData()
             if (rawSessionData && rawSessionData.flightTimes.length >= 20) {
-                const { raw } = extractFeatureVector(rawSessionData)
-
+                const live = liveSessionRef.current
                 const mlRes = await fetch('/api/ml-score', {
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(live ? { 'X-Session-Token': live.token } : {}),
+                    },
                     body: JSON.stringify({
-                        features: {
-                            flightMean:          raw.flight_mean,
-                            flightStd:           raw.flight_std,
-                            holdMean:            raw.hold_mean,
-                            holdStd:             raw.hold_std,
-                            entropy:             raw.flight_entropy,
-                            skewness:            raw.flight_skewness,
-                            kurtosis:            raw.flight_kurtosis,
-                            periodicityScore:    raw.periodicity_score,
-                            velocityGradient:    raw.velocity_gradient,
-                            fatigueRate:         raw.fatigue_rate,
-                            rhythmConsistency:   raw.rhythm_consistency,
-                            impossibleFastRatio: raw.impossible_fast_ratio,
-                            digramCvMean:        raw.digram_cv_mean,
-                            backspaceLatencyStd: raw.backspace_latency_std,
-                            backspaceCountRatio: raw.backspace_count_ratio,
-                            burstCountPer100k:   raw.burst_count_per_100k,
-                            sessionWpm:          raw.session_wpm,
-                        },
-                        totalKeystrokes: rawSessionData.totalKeystrokes,
+                        sessionId: live?.id,
+                        // Raw timings — the server derives the model's features itself
+                        featureSet: FEATURE_SET_VERSION,
+                        session: rawSessionData,
+                        enrollmentProfileId: candidate?.enrollmentProfileId,
+                        enrollmentEmail: candidate?.email,
+                        editorLanguage: EDITOR_LANGUAGE,
                     }),
                 })
 
                 if (mlRes.ok) {
                     const mlJson = await mlRes.json()
                     if (mlJson.success) {
-                        mlAiRisk = mlJson.mlAiRisk ?? mlAiRisk
                         mlIdentityMatchScore = mlJson.identityMatchScore ?? undefined
                         mlFlags = mlJson.flags ?? []
-                        // Add ML flags as alerts if significant
-                        if (mlJson.mlAiRisk > 70) {
-                            const ts = new Date().toLocaleTimeString()
-                            setAlerts(prev => [{
-                                id: Date.now(),
-                                timestamp: ts,
-                                message: `[${ts}] 🤖 ML Bot Detection: ${mlJson.mlAiRisk}% risk (${mlJson.inferenceMethod})`,
-                                severity: 'high' as const,
-                                penalty: 0,
-                            }, ...prev].slice(0, 10))
+                        if (typeof mlJson.mlAiRisk === 'number') {
+                            previewEvent({
+                                kind: 'ml', at: Date.now(), aiRisk: mlJson.mlAiRisk, method: mlJson.inferenceMethod,
+                                modelVersion: mlJson.modelVersion ?? undefined,
+                                explanation: mlJson.explanation ?? undefined,
+                            })
                         }
                     }
                 }
@@ -714,54 +647,59 @@ export default function InterviewPage() {
             console.warn('[interview] ML scoring failed (non-fatal):', mlErr)
         }
 
-        const assessment = {
-            id: sessionId,
-            candidateName: 'Remote Candidate',
-            role: 'Software Engineer',
-            date: sessionDate,
-            score: finalScore,
-            status,
-            alerts,
+        // Local preview — the server recomputes all of this from the event log
+        const scoring = scoringRef.current
+        const preview = deriveOutcome(scoring)
+        const fm = faceMetricsRef.current
+        const localAssessment = {
+            id: '—',
+            candidateName: candidate?.name ?? 'Remote Candidate',
+            candidateEmail: candidate?.email,
+            role: candidate?.role ?? 'Software Engineer',
+            enrollmentProfileId: candidate?.enrollmentProfileId,
+            date: new Date().toISOString().split('T')[0],
+            score: preview.score,
+            status: preview.status,
+            alerts: scoring.alerts,
             evidence,
-            lastEvent: alerts[0]?.message || 'Session ended cleanly',
+            lastEvent: scoring.alerts[0]?.message || 'Session ended cleanly',
             livenessScore,
-            aiRisk: mlAiRisk,
-            keystrokeCount: liveMetrics.keystrokeCount,
-            tabSwitchCount: tabSwitches,
-            gazeEventCount: gazeEvents,
-            autoFlagged,
-            sessionHash,
-            certificateIssued: true,
+            aiRisk: scoring.aiRisk,
+            keystrokeCount: scoring.keystrokeCount,
+            tabSwitchCount: scoring.tabSwitchCount,
+            gazeEventCount: scoring.gazeEventCount,
+            autoFlagged: preview.autoFlagged,
+            scoringPolicy: scoring.policy,
             identityMatchScore: mlIdentityMatchScore,
+            faceMatchScore: faceMatchScore(scoring),
             // Enhanced biometric fields
             blinkRate: fm?.blinkRate ?? 0,
             blinkCount: fm?.blinkCount ?? 0,
-            avgBlinkDuration: fm?.avgBlinkDuration ?? 0,
-            headSymmetryScore: fm?.headSymmetryScore ?? 0,
-            microMovementScore: fm?.microMovementScore ?? 0,
             gazeStabilityScore: fm?.gazeStabilityScore ?? 0,
-            faceBrightnessDelta: fm?.faceBrightnessDelta ?? 0,
-            // Anti-cheat challenge results
-            lightingChallengesPassed: lcPassedRef.current,
-            lightingChallengesFailed: lcFailedRef.current,
+            lightingChallengesPassed: scoring.lightingChallengesPassed,
+            lightingChallengesFailed: scoring.lightingChallengesFailed,
             saccadeScore: fm?.saccadeScore ?? 0,
             blinkEdgeScore: fm?.blinkEdgeScore ?? 0,
-            ocoloManualScore: fm?.ocoloManualScore ?? 0,
-            antiCheatFailures: acFailedTotalRef.current,
-            // ML flags
+            antiCheatFailures: scoring.antiCheatFailures,
             mlFlags,
         }
 
         try {
-            await fetch('/api/assessments', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(assessment),
+            const result = await getStream().finalize({
+                evidence,
+                hints: {
+                    score: preview.score,
+                    status: preview.status,
+                    identityMatchScore: mlIdentityMatchScore,
+                    mlFlags,
+                },
             })
+            setLastAssessment({ ...localAssessment, ...result.summary, ...result.assessment })
         } catch (e) {
+            // Events stay buffered; the server finalizes the session once they arrive
             console.error('Failed to save:', e)
+            setLastAssessment(localAssessment)
         } finally {
-            setLastAssessment(assessment)
             setSessionEnded(true)
             setIsSaving(false)
         }
@@ -771,13 +709,28 @@ export default function InterviewPage() {
     if (sessionEnded && lastAssessment) {
         return (
             <div style={{ minHeight: '100vh', background: 'var(--color-bg)', overflowY: 'auto' }}>
-                <SessionReport assessment={lastAssessment} onRestart={() => window.location.reload()} />
+                <SessionReport assessment={lastAssessment} onRestart={() => { clearSavedSession(); window.location.reload() }} />
+            </div>
+        )
+    }
+
+    // ── Render: invite rejected ───────────────────────────────────────────────
+    if (inviteError) {
+        return (
+            <div style={{ minHeight: '100vh', background: 'var(--color-bg)', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '24px' }}>
+                <div style={{ maxWidth: '420px', textAlign: 'center' }}>
+                    <h1 style={{ fontSize: '1.4rem', marginBottom: '12px' }}>Invitation unavailable</h1>
+                    <p style={{ color: 'var(--color-text-muted)', marginBottom: '24px' }}>{inviteError}</p>
+                    <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem' }}>Ask the organisation that invited you for a new link.</p>
+                </div>
             </div>
         )
     }
 
     // ── Render: live session ──────────────────────────────────────────────────
-    const trustColor   = trustScore > 80 ? 'var(--color-primary)' : trustScore > 60 ? '#ffd700' : '#ff4d4d'
+    const { policy }   = scoringRef.current
+    const tabFlagAt    = autoFlagThreshold(policy, 'TAB_SWITCH') ?? Infinity
+    const trustColor   = trustScore > policy.thresholds.pass ? 'var(--color-primary)' : trustScore > policy.thresholds.review ? '#ffd700' : '#ff4d4d'
     const aiRiskColor  = liveMetrics.aiRisk > 60 ? '#ff4d4d' : liveMetrics.aiRisk > 30 ? '#ffd700' : 'var(--color-primary)'
 
     return (
@@ -800,7 +753,9 @@ export default function InterviewPage() {
             <header className={styles.header}>
                 <div className={styles.logo}>Deep-Check<span style={{ color: 'var(--color-primary)' }}>.</span></div>
                 <div className={styles.sessionInfo}>
-                    <span className={styles.sessionBadge}>LIVE SESSION {PROMPT_ID}</span>
+                    <span className={styles.sessionBadge}>
+                        LIVE SESSION {PROMPT_ID}{resumed ? ' · RESUMED' : ''}{streamStatus === 'offline' ? ' · OFFLINE (buffering)' : ''}
+                    </span>
                     <div className={styles.trustIndicator}>
                         <span className={styles.trustLabel}>Trust</span>
                         <span className={styles.trustValue} style={{ color: trustColor, transition: 'color 0.4s' }}>{trustScore}%</span>
@@ -811,9 +766,9 @@ export default function InterviewPage() {
                     </div>
                     <div className={styles.trustIndicator} style={{ marginLeft: '12px' }}>
                         <span className={styles.trustLabel}>Tabs</span>
-                        <span className={styles.trustValue} style={{ color: tabSwitchCount.current >= 2 ? '#ff4d4d' : tabSwitchCount.current > 0 ? '#ffd700' : 'var(--color-primary)', transition: 'color 0.4s' }}>
-                            {/* This doesn't reactively update from the ref — we track via alerts */}
-                            {alerts.filter(a => a.message.includes('Tab switch')).length}
+                        <span className={styles.trustValue} style={{ color: scoringRef.current.tabSwitchCount >= tabFlagAt ? '#ff4d4d' : scoringRef.current.tabSwitchCount > 0 ? '#ffd700' : 'var(--color-primary)', transition: 'color 0.4s' }}>
+                            {/* Tab switches always raise an alert, so the ref is fresh on re-render */}
+                            {scoringRef.current.tabSwitchCount}
                         </span>
                     </div>
                 </div>
@@ -830,7 +785,7 @@ export default function InterviewPage() {
             <div className={styles.content}>
                 {/* Editor */}
                 <div className={styles.editorArea}>
-                    <CodeEditorDynamic ref={codeEditorRef} onBiometricEvent={handleBiometricEvent} />
+                    <CodeEditorDynamic ref={codeEditorRef} onBiometricEvent={handleBiometricEvent} language={EDITOR_LANGUAGE} />
                 </div>
 
                 {/* Sidebar */}
@@ -900,7 +855,7 @@ export default function InterviewPage() {
                                     return (
                                         <div key={alert.id} className={styles.alertItem} style={{ borderLeftColor: borderColor }}>
                                             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '2px' }}>
-                                                <span style={{ fontSize: '0.7rem', color: borderColor, fontWeight: 700, textTransform: 'uppercase' }}>{alert.severity}</span>
+                                                <span style={{ fontSize: '0.7rem', color: borderColor, fontWeight: 700, textTransform: 'uppercase' }}>{alert.severity} · {incidentLabel(alert.code)}</span>
                                                 {alert.penalty > 0 && <span style={{ fontSize: '0.7rem', color: '#ff4d4d' }}>−{alert.penalty}%</span>}
                                             </div>
                                             <div style={{ fontSize: '0.8rem' }}>{alert.message}</div>
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
+import { verifyCertificate, SignedCertificate, CertificateVerification } from '@/lib/verifyCertificate'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -12,8 +13,33 @@ interface VerifyResult {
     integrity: {
         storedHash: string | null
         expectedHash: string
+        /** Current-layout hash plus any legacy hash still valid for this record */
+        acceptedHashes?: string[]
+        hashVersion?: number | null
+        legacyHash?: { version: number | null; hash: string; verified: boolean; migratedAt: string } | null
         tampered: boolean
     }
+    signature?: {
+        status: 'valid' | 'invalid' | 'unsigned' | 'unknown_key' | 'stale'
+        alg: string | null
+        kid: string | null
+        issuedAt: string | null
+        developmentKey: boolean
+        jwksUrl: string
+    }
+    certificate?: SignedCertificate | null
+    incidentChain?: {
+        valid: boolean
+        count: number
+        root: string | null
+        sealedAt: number | null
+        brokenAt?: number
+        reason?: 'bad_seq' | 'bad_link' | 'bad_hash' | 'root_mismatch' | 'count_mismatch'
+        certifiedRoot: string | null
+        certifiedCount: number | null
+        anchoredBy: 'certificate' | 'record' | null
+        entries: { seq: number; at: string; kind: 'alert' | 'seal' | 'review_note' | 'status_change'; source: string; hash: string }[]
+    }
     session: {
         id: string
         candidateName: string
@@ -27,6 +53,7 @@ interface VerifyResult {
         tabSwitchCount: number | null
         gazeEventCount: number | null
         identityMatchScore: number | null
+        faceMatchScore: number | null
         alertCount: number
         evidenceCount: number
         certificateIssued: boolean
@@ -50,14 +77,14 @@ function MetricCell({ label, value, ok }: { label: string; value: string; ok?: b
 
 // ─── Manual hash verifier ─────────────────────────────────────────────────────
 
-function HashVerifier({ storedHash, expectedHash }: { storedHash: string | null; expectedHash: string }) {
+function HashVerifier({ storedHash, acceptedHashes }: { storedHash: string | null; acceptedHashes: string[] }) {
     const [inputHash, setInputHash] = useState('')
     const [result, setResult]       = useState<'idle' | 'match' | 'mismatch'>('idle')
 
     function verify() {
         if (!inputHash.trim()) return
         const clean = inputHash.trim().toLowerCase()
-        setResult(clean === expectedHash.toLowerCase() ? 'match' : 'mismatch')
+        setResult(acceptedHashes.includes(clean) ? 'match' : 'mismatch')
     }
 
     return (
@@ -109,6 +136,148 @@ function HashVerifier({ storedHash, expectedHash }: { storedHash: string | null;
     )
 }
 
+// ─── Digital signature ────────────────────────────────────────────────────────
+
+const SIGNATURE_LABELS: Record<NonNullable<VerifyResult['signature']>['status'], { title: string; body: string; ok: boolean | null }> = {
+    valid:       { title: 'Firma digital válida', body: 'El certificado está firmado con la clave Ed25519 de Deep-Check y coincide con los datos almacenados.', ok: true },
+    stale:       { title: 'Firma válida, datos modificados', body: 'La firma es auténtica, pero la sesión ha cambiado desde que se emitió el certificado.', ok: false },
+    invalid:     { title: 'Firma NO válida', body: 'La firma no corresponde al contenido del certificado. Puede haber sido alterado.', ok: false },
+    unknown_key: { title: 'Clave de firma desconocida', body: 'El certificado se firmó con una clave que no figura en el JWKS publicado.', ok: false },
+    unsigned:    { title: 'Certificado sin firma', body: 'Sesión emitida antes de la firma digital — solo puede comprobarse el hash.', ok: null },
+}
+
+function SignaturePanel({ signature, certificate }: { signature: NonNullable<VerifyResult['signature']>; certificate: SignedCertificate | null }) {
+    const [local, setLocal] = useState<CertificateVerification | 'error' | null>(null)
+    const [checking, setChecking] = useState(false)
+    const label = SIGNATURE_LABELS[signature.status]
+    const color = label.ok === true ? 'var(--color-primary)' : label.ok === false ? '#ff4d4d' : 'var(--color-text-muted)'
+
+    // Fetch only the public keys and check the signature here, in the browser
+    async function verifyLocally() {
+        if (!certificate) return
+        setChecking(true)
+        try {
+            const jwks = await (await fetch(signature.jwksUrl)).json()
+            setLocal(await verifyCertificate(certificate, jwks))
+        } catch {
+            setLocal('error')
+        } finally {
+            setChecking(false)
+        }
+    }
+
+    function download() {
+        if (!certificate) return
+        const blob = new Blob([JSON.stringify(certificate, null, 2)], { type: 'application/json' })
+        const a = document.createElement('a')
+        a.href = URL.createObjectURL(blob)
+        a.download = `deepcheck-certificate-${certificate.payload.sessionId}.json`
+        a.click()
+        URL.revokeObjectURL(a.href)
+    }
+
+    return (
+        <div style={{ padding: '16px 20px', borderRadius: '12px', marginBottom: '28px', background: 'rgba(255,255,255,0.03)', border: `1px solid ${label.ok === true ? 'rgba(0,212,127,0.25)' : label.ok === false ? 'rgba(255,77,77,0.25)' : 'var(--color-border)'}` }}>
+            <div style={{ fontWeight: 700, fontSize: '0.88rem', color, marginBottom: '4px' }}>
+                {label.ok === true ? '✍ ' : label.ok === false ? '✗ ' : ''}{label.title}
+            </div>
+            <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)', lineHeight: 1.5 }}>{label.body}</div>
+            {signature.kid && (
+                <div style={{ fontSize: '0.72rem', color: 'var(--color-text-muted)', marginTop: '8px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {signature.alg} · kid {signature.kid}{signature.issuedAt ? ` · ${new Date(signature.issuedAt).toLocaleString()}` : ''}
+                </div>
+            )}
+            {signature.developmentKey && (
+                <div style={{ fontSize: '0.72rem', color: '#ffd700', marginTop: '6px' }}>⚠ Firmado con la clave de desarrollo del servidor.</div>
+            )}
+            {certificate && (
+                <div style={{ display: 'flex', gap: '10px', marginTop: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <button className="btn btn-outline" onClick={verifyLocally} disabled={checking} style={{ padding: '6px 14px', fontSize: '0.78rem' }}>
+                        {checking ? 'Verificando...' : 'Verificar firma en este navegador'}
+                    </button>
+                    <button className="btn btn-outline" onClick={download} style={{ padding: '6px 14px', fontSize: '0.78rem' }}>
+                        Descargar certificado (.json)
+                    </button>
+                    {local && (
+                        <span style={{ fontSize: '0.78rem', fontWeight: 600, color: local !== 'error' && local.valid ? 'var(--color-primary)' : '#ff4d4d' }}>
+                            {local === 'error' ? 'No se pudo obtener el JWKS' : local.valid ? '✓ Firma Ed25519 correcta' : `✗ ${local.reason}`}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// ─── Incident log ─────────────────────────────────────────────────────────────
+
+const CHAIN_REASONS: Record<NonNullable<NonNullable<VerifyResult['incidentChain']>['reason']>, string> = {
+    bad_seq:        'falta una entrada o está fuera de orden',
+    bad_link:       'una entrada no enlaza con la anterior',
+    bad_hash:       'el contenido de una entrada fue modificado',
+    root_mismatch:  'la raíz no coincide con la certificada',
+    count_mismatch: 'faltan entradas respecto al certificado',
+}
+
+const ENTRY_LABELS: Record<NonNullable<VerifyResult['incidentChain']>['entries'][number]['kind'], string> = {
+    alert:         'Alerta',
+    seal:          'Sesión sellada',
+    review_note:   'Nota de revisión',
+    status_change: 'Cambio de estado',
+}
+
+function IncidentChainPanel({ chain }: { chain: NonNullable<VerifyResult['incidentChain']> }) {
+    const [open, setOpen] = useState(false)
+    const empty = chain.count === 0
+    const color = !chain.valid ? '#ff4d4d' : empty ? 'var(--color-text-muted)' : 'var(--color-primary)'
+    const afterCertificate = chain.certifiedCount !== null ? chain.count - chain.certifiedCount : 0
+
+    return (
+        <div style={{ padding: '16px 20px', borderRadius: '12px', marginBottom: '28px', background: 'rgba(255,255,255,0.03)', border: `1px solid ${!chain.valid ? 'rgba(255,77,77,0.25)' : empty ? 'var(--color-border)' : 'rgba(0,212,127,0.25)'}` }}>
+            <div style={{ fontWeight: 700, fontSize: '0.88rem', color, marginBottom: '4px' }}>
+                {!chain.valid
+                    ? `✗ Registro de incidentes alterado${chain.brokenAt ? ` (entrada #${chain.brokenAt})` : ''}`
+                    : empty
+                        ? 'Sin registro de incidentes'
+                        : `⛓ Registro de incidentes íntegro — ${chain.count} entradas`}
+            </div>
+            <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)', lineHeight: 1.5 }}>
+                {!chain.valid
+                    ? `La cadena de hashes no se puede reconstruir: ${chain.reason ? CHAIN_REASONS[chain.reason] : 'error desconocido'}.`
+                    : empty
+                        ? 'Sesión registrada antes del registro encadenado de incidentes.'
+                        : chain.anchoredBy === 'certificate'
+                            ? `Cada entrada incluye el hash de la anterior y la raíz está firmada en el certificado: ninguna incidencia se ha eliminado ni editado.${afterCertificate > 0 ? ` ${afterCertificate} entrada(s) posterior(es) al certificado.` : ''}`
+                            : 'Cada entrada incluye el hash de la anterior. La raíz no figura en un certificado firmado.'}
+            </div>
+            {chain.root && (
+                <div style={{ fontSize: '0.72rem', color: 'var(--color-text-muted)', marginTop: '8px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    raíz {chain.root}
+                </div>
+            )}
+            {chain.entries.length > 0 && (
+                <>
+                    <button className="btn btn-outline" onClick={() => setOpen(o => !o)} style={{ padding: '6px 14px', fontSize: '0.78rem', marginTop: '12px' }}>
+                        {open ? 'Ocultar entradas' : 'Ver entradas'}
+                    </button>
+                    {open && (
+                        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                            {chain.entries.map(e => (
+                                <div key={e.seq} style={{ display: 'flex', gap: '10px', fontSize: '0.72rem', color: chain.brokenAt !== undefined && e.seq >= chain.brokenAt ? '#ff4d4d' : 'var(--color-text-muted)' }}>
+                                    <span style={{ width: '28px', textAlign: 'right' }}>#{e.seq}</span>
+                                    <span style={{ width: '120px' }}>{ENTRY_LABELS[e.kind]}</span>
+                                    <span style={{ width: '150px' }}>{new Date(e.at).toLocaleString()}</span>
+                                    <code style={{ fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis' }}>{e.hash.slice(0, 16)}…</code>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
+
 // ─── Main page ────────────────────────────────────────────────────────────────
 
 export default function VerifyPage({ params }: { params: Promise<{ id: string }> }) {
@@ -174,6 +343,8 @@ export default function VerifyPage({ params }: { params: Promise<{ id: string }>
     const statusIcon  = session.status === 'passed' ? '✓' : session.status === 'flagged' ? '✗' : '⚠'
     const statusLabel = session.status === 'passed' ? 'APROBADO' : session.status === 'flagged' ? 'RECHAZADO' : 'EN REVISIÓN'
     const integrityOk = integrity.tampered === false && result.hashMatch !== false
+    const acceptedHashes = integrity.acceptedHashes ?? [integrity.expectedHash]
+    const storedHashOk = !!integrity.storedHash && acceptedHashes.includes(integrity.storedHash.toLowerCase())
 
     return (
         <div style={{ minHeight: '100vh', background: 'var(--color-bg)', padding: '40px 20px' }}>
@@ -244,6 +415,12 @@ export default function VerifyPage({ params }: { params: Promise<{ id: string }>
                         </div>
                     </div>
 
+                    {result.signature && (
+                        <SignaturePanel signature={result.signature} certificate={result.certificate ?? null} />
+                    )}
+
+                    {result.incidentChain && <IncidentChainPanel chain={result.incidentChain} />}
+
                     {/* Metrics grid */}
                     <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '12px', marginBottom: '28px' }}>
                         <MetricCell label="Liveness" value={session.livenessScore !== null ? `${session.livenessScore}%` : '—'} ok={(session.livenessScore ?? 0) > 70} />
@@ -255,6 +432,9 @@ export default function VerifyPage({ params }: { params: Promise<{ id: string }>
                         {session.identityMatchScore !== null && (
                             <MetricCell label="Identity Match" value={`${session.identityMatchScore}%`} ok={(session.identityMatchScore ?? 0) > 70} />
                         )}
+                        {session.faceMatchScore !== null && (
+                            <MetricCell label="Face Match" value={`${session.faceMatchScore}%`} ok={(session.faceMatchScore ?? 0) > 50} />
+                        )}
                         <MetricCell label="Certificado" value={session.certificateIssued ? 'Emitido' : 'No emitido'} ok={session.certificateIssued} />
                         <MetricCell label="Auto-Flagged" value={session.autoFlagged ? 'Sí' : 'No'} ok={!session.autoFlagged} />
                     </div>
@@ -262,7 +442,7 @@ export default function VerifyPage({ params }: { params: Promise<{ id: string }>
                     {/* Hash verifier */}
                     <HashVerifier
                         storedHash={integrity.storedHash}
-                        expectedHash={integrity.expectedHash}
+                        acceptedHashes={acceptedHashes}
                     />
                 </div>
 
@@ -283,20 +463,38 @@ export default function VerifyPage({ params }: { params: Promise<{ id: string }>
                         {integrity.storedHash && (
                             <div>
                                 <div style={{ fontSize: '0.72rem', textTransform: 'uppercase', letterSpacing: '0.1em', color: 'var(--color-text-muted)', marginBottom: '6px' }}>Hash almacenado en el sistema</div>
-                                <code style={{ fontFamily: 'monospace', fontSize: '0.72rem', wordBreak: 'break-all', color: integrity.storedHash === integrity.expectedHash ? 'var(--color-primary)' : '#ff4d4d', lineHeight: 1.6, display: 'block', background: 'rgba(255,255,255,0.04)', padding: '10px 14px', borderRadius: '8px' }}>
+                                <code style={{ fontFamily: 'monospace', fontSize: '0.72rem', wordBreak: 'break-all', color: storedHashOk ? 'var(--color-primary)' : '#ff4d4d', lineHeight: 1.6, display: 'block', background: 'rgba(255,255,255,0.04)', padding: '10px 14px', borderRadius: '8px' }}>
                                     {integrity.storedHash}
                                 </code>
                                 <div style={{ fontSize: '0.72rem', color: 'var(--color-text-muted)', marginTop: '6px' }}>
-                                    {integrity.storedHash === integrity.expectedHash
-                                        ? '✓ Los hashes coinciden — datos íntegros'
+                                    {storedHashOk
+                                        ? `✓ Los hashes coinciden — datos íntegros${integrity.hashVersion !== undefined && integrity.hashVersion !== null ? ` (formato v${integrity.hashVersion})` : ''}`
                                         : '✗ Los hashes no coinciden — datos pueden haber sido alterados'}
                                 </div>
                             </div>
                         )}
 
+                        {integrity.legacyHash && (
+                            <div>
+                                <div style={{ fontSize: '0.72rem', textTransform: 'uppercase', letterSpacing: '0.1em', color: 'var(--color-text-muted)', marginBottom: '6px' }}>
+                                    Hash anterior (formato v{integrity.legacyHash.version ?? '?'}, migrado {integrity.legacyHash.migratedAt.split('T')[0]})
+                                </div>
+                                <code style={{ fontFamily: 'monospace', fontSize: '0.72rem', wordBreak: 'break-all', color: 'var(--color-text-muted)', lineHeight: 1.6, display: 'block', background: 'rgba(255,255,255,0.04)', padding: '10px 14px', borderRadius: '8px' }}>
+                                    {integrity.legacyHash.hash}
+                                </code>
+                                <div style={{ fontSize: '0.72rem', color: integrity.legacyHash.verified ? 'var(--color-text-muted)' : '#ffd700', marginTop: '6px' }}>
+                                    {integrity.legacyHash.verified
+                                        ? 'Comprobado contra los datos al migrar — los certificados PDF anteriores siguen siendo válidos.'
+                                        : '⚠ No pudo reproducirse a partir de los datos al migrar.'}
+                                </div>
+                            </div>
+                        )}
+
                         <div style={{ fontSize: '0.78rem', color: 'var(--color-text-muted)', lineHeight: 1.6, padding: '12px 14px', background: 'rgba(255,255,255,0.03)', borderRadius: '8px' }}>
                             <strong style={{ color: 'var(--color-text)' }}>¿Cómo funciona la verificación?</strong><br />
                             El hash SHA-256 se calcula sobre los metadatos clave de la sesión (ID, nombre, puntuación, estado, métricas biométricas). Si cualquier dato es modificado, el hash cambia completamente. Esta página recalcula el hash en tiempo real y lo compara con el almacenado para detectar cualquier alteración.
+                            Además, el servidor firma esos datos con una clave Ed25519 privada: cualquiera puede comprobar la firma sin conectarse a Deep-Check usando las claves públicas de <code>/.well-known/jwks.json</code>.
+                            Las incidencias y revisiones se guardan en un registro encadenado por hashes cuya raíz también va firmada, de modo que eliminar o editar una entrada rompe la cadena.
                         </div>
                     </div>
                 </div>
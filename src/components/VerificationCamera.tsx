@@ -2,7 +2,10 @@
 
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react'
 import Webcam from 'react-webcam'
-import * as faceapi from '@vladmandic/face-api'
+import {
+    FaceWorkerRequest, FaceWorkerResponse, MAX_FRAME_INTERVAL_MS, MIN_FRAME_INTERVAL_MS, Point2D,
+    frameInterval, jawPoints, leftEyePoints, nosePoints, rightEyePoints, smoothInferenceMs,
+} from '@/lib/faceDetection'
 import styles from './VerificationCamera.module.css'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -32,6 +35,8 @@ export interface VerificationCameraHandle {
     getLivenessScore: () => number
     getBlinkRate: () => number
     getFaceMetrics: () => FaceMetrics | null
+    /** Recognition descriptor of the next analysed frame; null unless exactly one face is in it */
+    describeFace: () => Promise<number[] | null>
 }
 
 export type GazeDirection = 'center' | 'left' | 'right' | 'up' | 'down' | 'unknown'
@@ -84,17 +89,16 @@ export interface FaceMetrics {
 }
 
 // ─── Geometry helpers ─────────────────────────────────────────────────────────
+// Landmarks are face-api's 68 points, sent back by faceDetection.worker.ts
 
-interface Point2D { x: number; y: number }
-
-function centroid(pts: readonly faceapi.Point[]): Point2D {
+function centroid(pts: readonly Point2D[]): Point2D {
     return {
         x: pts.reduce((s, p) => s + p.x, 0) / pts.length,
         y: pts.reduce((s, p) => s + p.y, 0) / pts.length,
     }
 }
 
-function dist2D(a: faceapi.Point, b: faceapi.Point): number {
+function dist2D(a: Point2D, b: Point2D): number {
     return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2)
 }
 
@@ -108,11 +112,11 @@ interface HeadPoseResult {
     symmetryScore: number   // 0–100 — facial bilateral symmetry
 }
 
-function estimateHeadPose(landmarks: faceapi.FaceLandmarks68): HeadPoseResult {
-    const leftEye  = centroid(landmarks.getLeftEye())
-    const rightEye = centroid(landmarks.getRightEye())
-    const nose     = landmarks.getNose()
-    const jaw      = landmarks.getJawOutline()
+function estimateHeadPose(landmarks: Point2D[]): HeadPoseResult {
+    const leftEye  = centroid(leftEyePoints(landmarks))
+    const rightEye = centroid(rightEyePoints(landmarks))
+    const nose     = nosePoints(landmarks)
+    const jaw      = jawPoints(landmarks)
 
     const noseTip = nose[6]
 
@@ -168,7 +172,7 @@ function estimateHeadPose(landmarks: faceapi.FaceLandmarks68): HeadPoseResult {
 // Used for: blink detection (EAR drops < 0.2), gaze vertical estimation.
 // Reference: Soukupová & Čech 2016 "Real-Time Eye Blink Detection using Facial Landmarks"
 
-function computeEAR(eye: faceapi.Point[]): number {
+function computeEAR(eye: Point2D[]): number {
     const a = dist2D(eye[1], eye[5])
     const b = dist2D(eye[2], eye[4])
     const c = dist2D(eye[0], eye[3]) || 1
@@ -187,11 +191,11 @@ interface GazeEstimate {
     avgEAR: number
 }
 
-function estimateGaze(landmarks: faceapi.FaceLandmarks68): GazeEstimate {
-    const le = landmarks.getLeftEye()
-    const re = landmarks.getRightEye()
+function estimateGaze(landmarks: Point2D[]): GazeEstimate {
+    const le = leftEyePoints(landmarks)
+    const re = rightEyePoints(landmarks)
 
-    const eyeRatio = (eye: faceapi.Point[]): number => {
+    const eyeRatio = (eye: Point2D[]): number => {
         const outerCorner = eye[0]
         const innerCorner = eye[3]
         const eyeWidth    = Math.abs(innerCorner.x - outerCorner.x) || 1
@@ -232,12 +236,13 @@ function estimateGaze(landmarks: faceapi.FaceLandmarks68): GazeEstimate {
 // ─── Blink detection state machine ───────────────────────────────────────────
 // Threshold: EAR < BLINK_THRESHOLD for MIN_BLINK_FRAMES frames = blink
 // EAR > BLINK_OPEN_THRESHOLD = eye has reopened
-// PROLONGED: eye stays closed for > PROLONGED_MS = probably not a blink
+// PROLONGED: eye stays closed for > MAX_BLINK_MS = probably not a blink
+// Durations use frame capture times, so they hold at any detection frame rate.
 
 const BLINK_THRESHOLD   = 0.20   // EAR below this = eyes closing/closed
 const BLINK_OPEN        = 0.25   // EAR above this = eyes open
 const MIN_BLINK_FRAMES  = 2      // Min consecutive frames below threshold
-const MAX_BLINK_FRAMES  = 12     // Max frames = ~540ms at 45ms interval
+const MAX_BLINK_MS      = 540    // Max closure that still counts as a blink
 
 interface BlinkState {
     closedFrames: number
@@ -420,6 +425,8 @@ function evaluateLightingResponse(
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
+type FaceFrame = Extract<FaceWorkerResponse, { type: 'faces' }>
+
 const VerificationCamera = forwardRef<VerificationCameraHandle, VerificationCameraProps>(
     ({ onStatusChange, onLivenessScore, onGazeEvent, onBlinkEvent, onFaceMetrics, onAntiCheatEvent, lightingChallengeActive }, ref) => {
         const webcamRef        = useRef<Webcam>(null)
@@ -458,6 +465,13 @@ const VerificationCamera = forwardRef<VerificationCameraHandle, VerificationCame
         const faceMetricsRef   = useRef<FaceMetrics | null>(null)
         const blinkRateRef     = useRef<number>(0)
 
+        // Detection worker — one frame in flight, paced by inference time
+        const workerRef        = useRef<Worker | null>(null)
+        const pacingRef        = useRef({ inFlight: false, nextAt: 0, inferenceMs: null as number | null })
+        const analyseFrameRef  = useRef<((frame: FaceFrame) => void) | null>(null)
+        // describeFace() callers waiting for the next described frame
+        const describeWaitersRef = useRef<((descriptor: number[] | null) => void)[]>([])
+
         const [isModelLoaded,      setIsModelLoaded]      = useState(false)
         const [modelLoadError,     setModelLoadError]     = useState<string | null>(null)
         const [verificationStatus, setVerificationStatus] = useState<'idle' | 'scanning' | 'verified' | 'failed'>('idle')
@@ -473,360 +487,420 @@ const VerificationCamera = forwardRef<VerificationCameraHandle, VerificationCame
             getLivenessScore: () => livenessScoreRef.current,
             getBlinkRate:     () => blinkRateRef.current,
             getFaceMetrics:   () => faceMetricsRef.current,
+            describeFace:     () => workerRef.current
+                ? new Promise(resolve => { describeWaitersRef.current.push(resolve) })
+                : Promise.resolve(null),
         }))
 
-        // ── Load models ───────────────────────────────────────────────────────
+        // ── Detection worker (loads the models) ───────────────────────────────
         useEffect(() => {
-            let cancelled = false
-            const load = async () => {
-                try {
-                    await Promise.all([
-                        faceapi.nets.tinyFaceDetector.loadFromUri('/models'),
-                        faceapi.nets.faceLandmark68Net.loadFromUri('/models'),
-                    ])
-                    if (!cancelled) { setIsModelLoaded(true); setVerificationStatus('scanning') }
-                } catch (e) {
-                    console.error('Model load error:', e)
-                    if (!cancelled) setModelLoadError('AI models failed to load. Please refresh.')
+            if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+                setModelLoadError('Face detection is not supported in this browser.')
+                return
+            }
+            const worker = new Worker(new URL('../lib/faceDetection.worker.ts', import.meta.url))
+            workerRef.current = worker
+            const resolveDescribe = (descriptor: number[] | null) => {
+                const waiters = describeWaitersRef.current
+                describeWaitersRef.current = []
+                waiters.forEach(resolve => resolve(descriptor))
+            }
+            worker.onmessage = (e: MessageEvent<FaceWorkerResponse>) => {
+                const msg    = e.data
+                const pacing = pacingRef.current
+                if (msg.type === 'ready') {
+                    setIsModelLoaded(true)
+                    setVerificationStatus('scanning')
+                } else if (msg.type === 'error') {
+                    console.error('Model load error:', msg.error)
+                    setModelLoadError('AI models failed to load. Please refresh.')
+                    resolveDescribe(null)
+                } else if (msg.type === 'dropped') {
+                    console.warn('[VerificationCamera] frame dropped:', msg.error)
+                    pacing.inFlight = false
+                    pacing.nextAt   = msg.capturedAt + MAX_FRAME_INTERVAL_MS
+                    resolveDescribe(null)
+                } else {
+                    pacing.inFlight    = false
+                    pacing.inferenceMs = smoothInferenceMs(pacing.inferenceMs, msg.inferenceMs)
+                    pacing.nextAt      = msg.capturedAt + frameInterval(pacing.inferenceMs)
+                    analyseFrameRef.current?.(msg)
+                    if (msg.described) resolveDescribe(msg.faces.length === 1 ? msg.faces[0].descriptor ?? null : null)
                 }
             }
-            load()
-            return () => { cancelled = true }
+            return () => {
+                worker.terminate()
+                workerRef.current = null
+                resolveDescribe(null)
+            }
         }, [])
 
-        // ── Detection loop ────────────────────────────────────────────────────
+        // ── Frame pump ────────────────────────────────────────────────────────
+        // Frames are grabbed on requestVideoFrameCallback, stamped with the
+        // camera's capture time where the browser reports it, and sent when the
+        // previous one is done and the paced interval has passed.
         useEffect(() => {
             if (!isModelLoaded) return
+            let stopped = false
+            let timer: ReturnType<typeof setTimeout> | undefined
+            const pacing = pacingRef.current
+
+            const grab = (video: HTMLVideoElement, capturedAt: number) => {
+                const worker = workerRef.current
+                if (!worker || pacing.inFlight || capturedAt < pacing.nextAt || video.readyState < 4) return
+                pacing.inFlight = true
+                const describe = describeWaitersRef.current.length > 0
+                createImageBitmap(video).then(
+                    bitmap => worker.postMessage({ type: 'frame', bitmap, capturedAt, describe } satisfies FaceWorkerRequest, [bitmap]),
+                    () => { pacing.inFlight = false },
+                )
+            }
 
-            const interval = setInterval(async () => {
+            const schedule = () => {
+                if (stopped) return
                 const video = webcamRef.current?.video
-                if (!video || video.readyState < 4) return
-
-                const detections = await faceapi
-                    .detectAllFaces(video, new faceapi.TinyFaceDetectorOptions({ scoreThreshold: 0.4 }))
-                    .withFaceLandmarks()
-
-                // ── Draw ──────────────────────────────────────────────────────
-                if (canvasRef.current) {
-                    const displaySize = { width: video.videoWidth, height: video.videoHeight }
-                    faceapi.matchDimensions(canvasRef.current, displaySize)
-                    const resized = faceapi.resizeResults(detections, displaySize)
-                    const ctx     = canvasRef.current.getContext('2d')
-                    if (ctx) {
-                        ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
-                        resized.forEach(det => {
-                            const box = det.detection.box
-                            ctx.strokeStyle = det.detection.score > 0.6 ? '#00ff9d' : '#ffd700'
-                            ctx.lineWidth   = 2
-                            ctx.strokeRect(box.x, box.y, box.width, box.height)
-
-                            const le = det.landmarks.getLeftEye()
-                            const re = det.landmarks.getRightEye()
-                            ;[le, re].forEach(eye => {
-                                ctx.beginPath()
-                                ctx.moveTo(eye[0].x, eye[0].y)
-                                eye.forEach(p => ctx.lineTo(p.x, p.y))
-                                ctx.closePath()
-                                ctx.strokeStyle = 'rgba(0,255,157,0.7)'
-                                ctx.lineWidth   = 1.5
-                                ctx.stroke()
-                            })
+                if (video && typeof video.requestVideoFrameCallback === 'function') {
+                    video.requestVideoFrameCallback((now, meta) => {
+                        if (stopped) return
+                        grab(video, meta.captureTime ?? now)
+                        schedule()
+                    })
+                } else {
+                    timer = setTimeout(() => {
+                        if (video) grab(video, performance.now())
+                        schedule()
+                    }, MIN_FRAME_INTERVAL_MS)
+                }
+            }
 
-                            const nose = det.landmarks.getNose()
+            schedule()
+            return () => { stopped = true; clearTimeout(timer) }
+        }, [isModelLoaded])
+
+        // ── Frame analysis ────────────────────────────────────────────────────
+        // `now` is the frame's capture time, not the time its result arrived
+        const analyseFrame = useCallback((frame: FaceFrame) => {
+            const detections = frame.faces
+
+            // ── Draw ──────────────────────────────────────────────────────────
+            if (canvasRef.current) {
+                canvasRef.current.width  = frame.width
+                canvasRef.current.height = frame.height
+                const ctx = canvasRef.current.getContext('2d')
+                if (ctx) {
+                    ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
+                    detections.forEach(det => {
+                        const box = det.box
+                        ctx.strokeStyle = det.score > 0.6 ? '#00ff9d' : '#ffd700'
+                        ctx.lineWidth   = 2
+                        ctx.strokeRect(box.x, box.y, box.width, box.height)
+
+                        const le = leftEyePoints(det.landmarks)
+                        const re = rightEyePoints(det.landmarks)
+                        ;[le, re].forEach(eye => {
                             ctx.beginPath()
-                            ctx.moveTo(nose[0].x, nose[0].y)
-                            nose.slice(1).forEach(p => ctx.lineTo(p.x, p.y))
-                            ctx.strokeStyle = 'rgba(0,255,157,0.3)'
-                            ctx.lineWidth   = 1
+                            ctx.moveTo(eye[0].x, eye[0].y)
+                            eye.forEach(p => ctx.lineTo(p.x, p.y))
+                            ctx.closePath()
+                            ctx.strokeStyle = 'rgba(0,255,157,0.7)'
+                            ctx.lineWidth   = 1.5
                             ctx.stroke()
                         })
-                    }
-                }
 
-                // ── Analysis ──────────────────────────────────────────────────
-                if (detections.length === 1) {
-                    const det  = detections[0]
-                    if (det.detection.score < 0.4) { setVerificationStatus('scanning'); return }
-
-                    const now  = performance.now()
-                    const pose = estimateHeadPose(det.landmarks)
-                    const gaze = estimateGaze(det.landmarks)
-
-                    // Track detection score history (spoof proxy — a photo has unnaturally stable score)
-                    detectionScoreHistRef.current.push(det.detection.score)
-                    if (detectionScoreHistRef.current.length > 20) detectionScoreHistRef.current.shift()
-
-                    // ── Blink detection ────────────────────────────────────────
-                    // Uses EAR averaged between both eyes
-                    const avgEAR     = gaze.avgEAR
-                    const blinkState = blinkStateRef.current
-
-                    if (avgEAR < BLINK_THRESHOLD) {
-                        // Eyes are closing/closed
-                        if (!blinkState.isInBlink) {
-                            blinkState.isInBlink  = true
-                            blinkState.blinkStart = now
-                            blinkState.closedFrames = 1
-                        } else {
-                            blinkState.closedFrames++
-                            // Prolonged closure (> MAX_BLINK_FRAMES * 45ms ≈ 540ms)
-                            if (blinkState.closedFrames > MAX_BLINK_FRAMES) {
-                                onBlinkEvent?.({
-                                    type: 'prolonged_closure',
-                                    blinkDurationMs: now - blinkState.blinkStart,
-                                    detail: `Eyes closed for ${Math.round(now - blinkState.blinkStart)}ms`,
-                                    timestamp: now
-                                })
-                                // Reset to avoid repeated events
-                                blinkState.closedFrames = 0
-                                blinkState.isInBlink    = false
-                            }
-                        }
-                    } else if (avgEAR > BLINK_OPEN && blinkState.isInBlink) {
-                        // Eyes have reopened — blink complete
-                        if (blinkState.closedFrames >= MIN_BLINK_FRAMES) {
-                            const blinkDur = now - blinkState.blinkStart
-                            blinkCountRef.current++
-                            blinkTimesRef.current.push(now)
-                            blinkDurationsRef.current.push(blinkDur)
-
-                            // Keep only last 60 blinks for statistics
-                            if (blinkTimesRef.current.length > 60)    blinkTimesRef.current.shift()
-                            if (blinkDurationsRef.current.length > 60) blinkDurationsRef.current.shift()
+                        const nose = nosePoints(det.landmarks)
+                        ctx.beginPath()
+                        ctx.moveTo(nose[0].x, nose[0].y)
+                        nose.slice(1).forEach(p => ctx.lineTo(p.x, p.y))
+                        ctx.strokeStyle = 'rgba(0,255,157,0.3)'
+                        ctx.lineWidth   = 1
+                        ctx.stroke()
+                    })
+                }
+            }
 
+            // ── Analysis ──────────────────────────────────────────────────────
+            if (detections.length === 1) {
+                const det  = detections[0]
+                if (det.score < 0.4) { setVerificationStatus('scanning'); return }
+
+                const now  = frame.capturedAt
+                const pose = estimateHeadPose(det.landmarks)
+                const gaze = estimateGaze(det.landmarks)
+
+                // Track detection score history (spoof proxy — a photo has unnaturally stable score)
+                detectionScoreHistRef.current.push(det.score)
+                if (detectionScoreHistRef.current.length > 20) detectionScoreHistRef.current.shift()
+
+                // ── Blink detection ────────────────────────────────────────────
+                // Uses EAR averaged between both eyes
+                const avgEAR     = gaze.avgEAR
+                const blinkState = blinkStateRef.current
+
+                if (avgEAR < BLINK_THRESHOLD) {
+                    // Eyes are closing/closed
+                    if (!blinkState.isInBlink) {
+                        blinkState.isInBlink  = true
+                        blinkState.blinkStart = now
+                        blinkState.closedFrames = 1
+                    } else {
+                        blinkState.closedFrames++
+                        // Prolonged closure
+                        if (now - blinkState.blinkStart > MAX_BLINK_MS) {
                             onBlinkEvent?.({
-                                type: 'blink',
-                                blinkDurationMs: blinkDur,
-                                blinkRate: blinkRateRef.current,
+                                type: 'prolonged_closure',
+                                blinkDurationMs: now - blinkState.blinkStart,
+                                detail: `Eyes closed for ${Math.round(now - blinkState.blinkStart)}ms`,
                                 timestamp: now
                             })
+                            // Reset to avoid repeated events
+                            blinkState.closedFrames = 0
+                            blinkState.isInBlink    = false
                         }
-                        blinkState.isInBlink    = false
-                        blinkState.closedFrames = 0
                     }
+                } else if (avgEAR > BLINK_OPEN && blinkState.isInBlink) {
+                    // Eyes have reopened — blink complete
+                    if (blinkState.closedFrames >= MIN_BLINK_FRAMES) {
+                        const blinkDur = now - blinkState.blinkStart
+                        blinkCountRef.current++
+                        blinkTimesRef.current.push(now)
+                        blinkDurationsRef.current.push(blinkDur)
+
+                        // Keep only last 60 blinks for statistics
+                        if (blinkTimesRef.current.length > 60)    blinkTimesRef.current.shift()
+                        if (blinkDurationsRef.current.length > 60) blinkDurationsRef.current.shift()
 
-                    // Compute blink rate (blinks/min over last 60 seconds)
-                    const oneMinAgo    = now - 60000
-                    const recentBlinks = blinkTimesRef.current.filter(t => t > oneMinAgo)
-                    const elapsedMin   = (now - sessionStartRef.current) / 60000
-                    blinkRateRef.current = elapsedMin > 0
-                        ? Math.round(blinkCountRef.current / elapsedMin)
-                        : recentBlinks.length
-
-                    // Blink rate anomaly detection
-                    // Human range: 8–30 blinks/min. Below 5 = staring (video?). Above 40 = anxiety or artifact.
-                    if (elapsedMin > 0.5 && blinkRateRef.current < 5 && blinkCountRef.current < 2) {
                         onBlinkEvent?.({
-                            type: 'blink_rate_anomaly',
+                            type: 'blink',
+                            blinkDurationMs: blinkDur,
                             blinkRate: blinkRateRef.current,
-                            detail: `Low blink rate: ${blinkRateRef.current}/min (expected 8–30)`,
-                            timestamp: now
-                        })
-                    } else if (elapsedMin > 0.5 && blinkRateRef.current > 40) {
-                        onBlinkEvent?.({
-                            type: 'blink_rate_anomaly',
-                            blinkRate: blinkRateRef.current,
-                            detail: `High blink rate: ${blinkRateRef.current}/min`,
                             timestamp: now
                         })
                     }
+                    blinkState.isInBlink    = false
+                    blinkState.closedFrames = 0
+                }
 
-                    setBlinkDisplay({ count: blinkCountRef.current, rate: blinkRateRef.current, ear: Math.round(avgEAR * 100) / 100 })
+                // Compute blink rate (blinks/min over last 60 seconds)
+                const oneMinAgo    = now - 60000
+                const recentBlinks = blinkTimesRef.current.filter(t => t > oneMinAgo)
+                const elapsedMin   = (now - sessionStartRef.current) / 60000
+                blinkRateRef.current = elapsedMin > 0
+                    ? Math.round(blinkCountRef.current / elapsedMin)
+                    : recentBlinks.length
+
+                // Blink rate anomaly detection
+                // Human range: 8–30 blinks/min. Below 5 = staring (video?). Above 40 = anxiety or artifact.
+                if (elapsedMin > 0.5 && blinkRateRef.current < 5 && blinkCountRef.current < 2) {
+                    onBlinkEvent?.({
+                        type: 'blink_rate_anomaly',
+                        blinkRate: blinkRateRef.current,
+                        detail: `Low blink rate: ${blinkRateRef.current}/min (expected 8–30)`,
+                        timestamp: now
+                    })
+                } else if (elapsedMin > 0.5 && blinkRateRef.current > 40) {
+                    onBlinkEvent?.({
+                        type: 'blink_rate_anomaly',
+                        blinkRate: blinkRateRef.current,
+                        detail: `High blink rate: ${blinkRateRef.current}/min`,
+                        timestamp: now
+                    })
+                }
 
-                    // ── EAR history (for blink-edge analysis) ─────────────────
-                    const frameIdx = frameCounterRef.current++
-                    earHistoryRef.current.push({ leftEAR: gaze.leftEAR, rightEAR: gaze.rightEAR, ts: now })
-                    if (earHistoryRef.current.length > 60) earHistoryRef.current.shift()
+                setBlinkDisplay({ count: blinkCountRef.current, rate: blinkRateRef.current, ear: Math.round(avgEAR * 100) / 100 })
 
-                    // Record frame index when a blink closes (for edge analysis)
-                    if (avgEAR < BLINK_THRESHOLD && blinkStateRef.current.isInBlink) {
-                        blinkFrameIdxRef.current.push(earHistoryRef.current.length - 1)
-                    }
-                    if (blinkFrameIdxRef.current.length > 20) blinkFrameIdxRef.current.shift()
-
-                    // ── Lighting challenge response measurement ────────────────
-                    // When parent signals a flash started (lightingChallengeActive goes true→false),
-                    // we record EAR before and collect the 3 frames after the flash peak.
-                    if (lightingChallengeActive && !lcActiveRef.current) {
-                        // Flash just started — record baseline EAR
-                        lcActiveRef.current  = true
-                        lcEARBeforeRef.current = avgEAR
-                        lcAfterEARsRef.current = []
-                    } else if (!lightingChallengeActive && lcActiveRef.current) {
-                        // Flash ended — analyse collected frames
-                        lcActiveRef.current = false
-                        if (lcAfterEARsRef.current.length >= 2) {
-                            const result = evaluateLightingResponse(lcEARBeforeRef.current, lcAfterEARsRef.current)
-                            if (result.passed) {
-                                lcPassedRef.current++
-                                onAntiCheatEvent?.({
-                                    type: 'lighting_challenge_pass',
-                                    confidence: result.confidence,
-                                    detail: `ΔEAR=${result.deltaEAR.toFixed(3)} — pupil/lid reflex detected`,
-                                    timestamp: now
-                                })
-                            } else {
-                                lcFailedRef.current++
-                                onAntiCheatEvent?.({
-                                    type: 'lighting_challenge_fail',
-                                    confidence: 1 - result.confidence,
-                                    detail: `ΔEAR=${result.deltaEAR.toFixed(3)} — no reflex to screen flash`,
-                                    timestamp: now
-                                })
-                            }
-                        }
-                    } else if (lightingChallengeActive && lcActiveRef.current) {
-                        // During flash — collect EAR readings
-                        lcAfterEARsRef.current.push(avgEAR)
-                    }
+                // ── EAR history (for blink-edge analysis) ─────────────────────
+                const frameIdx = frameCounterRef.current++
+                earHistoryRef.current.push({ leftEAR: gaze.leftEAR, rightEAR: gaze.rightEAR, ts: now })
+                if (earHistoryRef.current.length > 60) earHistoryRef.current.shift()
 
-                    // ── Micro-saccade score (every 10 frames) ─────────────────
-                    if (frameIdx % 10 === 0 && gazeRatioHistRef.current.length >= 8) {
-                        const sScore = computeSaccadeScore(gazeRatioHistRef.current)
-                        saccadeScoreRef.current = sScore
-                        if (sScore < 20) {
+                // Record frame index when a blink closes (for edge analysis)
+                if (avgEAR < BLINK_THRESHOLD && blinkStateRef.current.isInBlink) {
+                    blinkFrameIdxRef.current.push(earHistoryRef.current.length - 1)
+                }
+                if (blinkFrameIdxRef.current.length > 20) blinkFrameIdxRef.current.shift()
+
+                // ── Lighting challenge response measurement ────────────────────
+                // When parent signals a flash started (lightingChallengeActive goes true→false),
+                // we record EAR before and collect the 3 frames after the flash peak.
+                if (lightingChallengeActive && !lcActiveRef.current) {
+                    // Flash just started — record baseline EAR
+                    lcActiveRef.current  = true
+                    lcEARBeforeRef.current = avgEAR
+                    lcAfterEARsRef.current = []
+                } else if (!lightingChallengeActive && lcActiveRef.current) {
+                    // Flash ended — analyse collected frames
+                    lcActiveRef.current = false
+                    if (lcAfterEARsRef.current.length >= 2) {
+                        const result = evaluateLightingResponse(lcEARBeforeRef.current, lcAfterEARsRef.current)
+                        if (result.passed) {
+                            lcPassedRef.current++
                             onAntiCheatEvent?.({
-                                type: 'saccade_too_smooth',
-                                confidence: 1 - sScore / 20,
-                                detail: `Gaze acceleration variance too low (${sScore}/100) — AI renderer signature`,
+                                type: 'lighting_challenge_pass',
+                                confidence: result.confidence,
+                                detail: `ΔEAR=${result.deltaEAR.toFixed(3)} — pupil/lid reflex detected`,
                                 timestamp: now
                             })
-                        } else if (sScore > 60 && frameIdx % 50 === 0) {
-                            onAntiCheatEvent?.({ type: 'saccade_detected', confidence: sScore / 100, timestamp: now })
-                        }
-                    }
-
-                    // ── Blink-edge score (on each completed blink) ────────────
-                    if (blinkFrameIdxRef.current.length > 0 && frameIdx % 5 === 0) {
-                        const beScore = computeBlinkEdgeScore(earHistoryRef.current, blinkFrameIdxRef.current)
-                        blinkEdgeScoreRef.current = beScore
-                        if (beScore < 40) {
+                        } else {
+                            lcFailedRef.current++
                             onAntiCheatEvent?.({
-                                type: 'blink_edge_artifact',
-                                confidence: 1 - beScore / 40,
-                                detail: `Eyelid trajectory anomaly (score ${beScore}/100) — snap-close or unnatural symmetry`,
+                                type: 'lighting_challenge_fail',
+                                confidence: 1 - result.confidence,
+                                detail: `ΔEAR=${result.deltaEAR.toFixed(3)} — no reflex to screen flash`,
                                 timestamp: now
                             })
-                        } else if (beScore > 70 && frameIdx % 30 === 0) {
-                            onAntiCheatEvent?.({ type: 'blink_edge_clean', confidence: beScore / 100, timestamp: now })
                         }
                     }
+                } else if (lightingChallengeActive && lcActiveRef.current) {
+                    // During flash — collect EAR readings
+                    lcAfterEARsRef.current.push(avgEAR)
+                }
 
-                    // ── Gaze smoothing ─────────────────────────────────────────
-                    gazeHistoryRef.current.push(gaze.direction)
-                    if (gazeHistoryRef.current.length > 4) gazeHistoryRef.current.shift()
-                    const gazeCounts = gazeHistoryRef.current.reduce((acc, d) => {
-                        acc[d] = (acc[d] || 0) + 1; return acc
-                    }, {} as Record<string, number>)
-                    const smoothGaze = Object.entries(gazeCounts).sort((a, b) => b[1] - a[1])[0][0] as GazeDirection
-
-                    // Gaze ratio history for stability
-                    const avgRatio = (gaze.leftRatio + gaze.rightRatio) / 2
-                    gazeRatioHistRef.current.push(avgRatio)
-                    if (gazeRatioHistRef.current.length > 20) gazeRatioHistRef.current.shift()
-                    const gazeStability = computeGazeStability(gazeRatioHistRef.current)
-
-                    setGazeRatioDebug(Math.round(avgRatio * 100) / 100)
-
-                    // ── Nose micro-movement ────────────────────────────────────
-                    const noseTip = det.landmarks.getNose()[6]
-                    noseHistoryRef.current.push({ x: noseTip.x, y: noseTip.y })
-                    if (noseHistoryRef.current.length > 20) noseHistoryRef.current.shift()
-                    const microMovement = computeMicroMovementScore(noseHistoryRef.current)
-
-                    // ── Liveness score (enhanced) ──────────────────────────────
-                    const lScore = computeLivenessScore(
-                        det.detection.score,
-                        pose.confidence,
-                        microMovement,
-                        blinkCountRef.current,
-                        elapsedMin,
-                        gazeStability
-                    )
-                    livenessScoreRef.current = lScore
-                    setLivenessScore(lScore)
-                    onLivenessScore?.(lScore)
-
-                    // ── Build rich FaceMetrics ─────────────────────────────────
-                    const avgBlinkDur = blinkDurationsRef.current.length > 0
-                        ? blinkDurationsRef.current.reduce((s, v) => s + v, 0) / blinkDurationsRef.current.length
-                        : 0
-                    const detScoreStd = detectionScoreHistRef.current.length > 3
-                        ? Math.sqrt(detectionScoreHistRef.current.reduce((s, v) => {
-                            const m = detectionScoreHistRef.current.reduce((a, b) => a + b, 0) / detectionScoreHistRef.current.length
-                            return s + (v - m) ** 2
-                          }, 0) / detectionScoreHistRef.current.length)
-                        : 0
-
-                    const metrics: FaceMetrics = {
-                        livenessScore: lScore,
-                        blinkRate: blinkRateRef.current,
-                        blinkCount: blinkCountRef.current,
-                        avgBlinkDuration: Math.round(avgBlinkDur),
-                        headSymmetryScore: pose.symmetryScore,
-                        microMovementScore: microMovement,
-                        eyeOpenness: Math.round(avgEAR * 100) / 100,
-                        gazeStabilityScore: gazeStability,
-                        faceBrightnessDelta: Math.round(detScoreStd * 1000) / 1000,
-                        // Anti-cheat
-                        lightingChallengesPassed: lcPassedRef.current,
-                        lightingChallengesFailed: lcFailedRef.current,
-                        saccadeScore: saccadeScoreRef.current,
-                        blinkEdgeScore: blinkEdgeScoreRef.current,
-                        ocoloManualScore: 50, // computed in interview/page.tsx via cursor tracking
+                // ── Micro-saccade score (every 10 frames) ─────────────────────
+                if (frameIdx % 10 === 0 && gazeRatioHistRef.current.length >= 8) {
+                    const sScore = computeSaccadeScore(gazeRatioHistRef.current)
+                    saccadeScoreRef.current = sScore
+                    if (sScore < 20) {
+                        onAntiCheatEvent?.({
+                            type: 'saccade_too_smooth',
+                            confidence: 1 - sScore / 20,
+                            detail: `Gaze acceleration variance too low (${sScore}/100) — AI renderer signature`,
+                            timestamp: now
+                        })
+                    } else if (sScore > 60 && frameIdx % 50 === 0) {
+                        onAntiCheatEvent?.({ type: 'saccade_detected', confidence: sScore / 100, timestamp: now })
                     }
-                    faceMetricsRef.current = metrics
-                    onFaceMetrics?.(metrics)
+                }
 
-                    // ── Gaze event ─────────────────────────────────────────────
-                    if (smoothGaze !== lastGazeEventRef.current) {
-                        lastGazeEventRef.current = smoothGaze
-                        onGazeEvent?.(smoothGaze)
+                // ── Blink-edge score (on each completed blink) ────────────────
+                if (blinkFrameIdxRef.current.length > 0 && frameIdx % 5 === 0) {
+                    const beScore = computeBlinkEdgeScore(earHistoryRef.current, blinkFrameIdxRef.current)
+                    blinkEdgeScoreRef.current = beScore
+                    if (beScore < 40) {
+                        onAntiCheatEvent?.({
+                            type: 'blink_edge_artifact',
+                            confidence: 1 - beScore / 40,
+                            detail: `Eyelid trajectory anomaly (score ${beScore}/100) — snap-close or unnatural symmetry`,
+                            timestamp: now
+                        })
+                    } else if (beScore > 70 && frameIdx % 30 === 0) {
+                        onAntiCheatEvent?.({ type: 'blink_edge_clean', confidence: beScore / 100, timestamp: now })
                     }
+                }
 
-                    // ── Status logic ───────────────────────────────────────────
-                    const headOff = !pose.isFacing
-                    const gazeOff = smoothGaze !== 'center' && smoothGaze !== 'unknown'
-
-                    if (headOff) {
-                        const reason: VerificationFailureReason = pose.yaw !== 'center' ? 'Gaze Divergence' : 'Head Tilted'
-                        setPoseLabel(pose.yaw !== 'center' ? `Head ${pose.yaw}` : 'Head tilted')
-                        setGazeLabel('')
-                        setVerificationStatus('failed')
-                        setFailureReason(reason)
-                        onStatusChange?.(false, reason)
-                    } else if (gazeOff) {
-                        const gazeDirectionLabel = `Looking ${smoothGaze}`
-                        setPoseLabel('Facing camera')
-                        setGazeLabel(gazeDirectionLabel)
-                        setVerificationStatus('failed')
-                        setFailureReason('Eye Gaze Detected')
-                        onStatusChange?.(false, 'Eye Gaze Detected')
-                    } else {
-                        setPoseLabel('Facing camera')
-                        setGazeLabel('Eyes: center')
-                        setVerificationStatus('verified')
-                        setFailureReason(null)
-                        onStatusChange?.(true)
-                    }
+                // ── Gaze smoothing ─────────────────────────────────────────────
+                gazeHistoryRef.current.push(gaze.direction)
+                if (gazeHistoryRef.current.length > 4) gazeHistoryRef.current.shift()
+                const gazeCounts = gazeHistoryRef.current.reduce((acc, d) => {
+                    acc[d] = (acc[d] || 0) + 1; return acc
+                }, {} as Record<string, number>)
+                const smoothGaze = Object.entries(gazeCounts).sort((a, b) => b[1] - a[1])[0][0] as GazeDirection
+
+                // Gaze ratio history for stability
+                const avgRatio = (gaze.leftRatio + gaze.rightRatio) / 2
+                gazeRatioHistRef.current.push(avgRatio)
+                if (gazeRatioHistRef.current.length > 20) gazeRatioHistRef.current.shift()
+                const gazeStability = computeGazeStability(gazeRatioHistRef.current)
+
+                setGazeRatioDebug(Math.round(avgRatio * 100) / 100)
+
+                // ── Nose micro-movement ────────────────────────────────────────
+                const noseTip = nosePoints(det.landmarks)[6]
+                noseHistoryRef.current.push({ x: noseTip.x, y: noseTip.y })
+                if (noseHistoryRef.current.length > 20) noseHistoryRef.current.shift()
+                const microMovement = computeMicroMovementScore(noseHistoryRef.current)
+
+                // ── Liveness score (enhanced) ──────────────────────────────────
+                const lScore = computeLivenessScore(
+                    det.score,
+                    pose.confidence,
+                    microMovement,
+                    blinkCountRef.current,
+                    elapsedMin,
+                    gazeStability
+                )
+                livenessScoreRef.current = lScore
+                setLivenessScore(lScore)
+                onLivenessScore?.(lScore)
+
+                // ── Build rich FaceMetrics ─────────────────────────────────────
+                const avgBlinkDur = blinkDurationsRef.current.length > 0
+                    ? blinkDurationsRef.current.reduce((s, v) => s + v, 0) / blinkDurationsRef.current.length
+                    : 0
+                const detScoreStd = detectionScoreHistRef.current.length > 3
+                    ? Math.sqrt(detectionScoreHistRef.current.reduce((s, v) => {
+                        const m = detectionScoreHistRef.current.reduce((a, b) => a + b, 0) / detectionScoreHistRef.current.length
+                        return s + (v - m) ** 2
+                      }, 0) / detectionScoreHistRef.current.length)
+                    : 0
+
+                const metrics: FaceMetrics = {
+                    livenessScore: lScore,
+                    blinkRate: blinkRateRef.current,
+                    blinkCount: blinkCountRef.current,
+                    avgBlinkDuration: Math.round(avgBlinkDur),
+                    headSymmetryScore: pose.symmetryScore,
+                    microMovementScore: microMovement,
+                    eyeOpenness: Math.round(avgEAR * 100) / 100,
+                    gazeStabilityScore: gazeStability,
+                    faceBrightnessDelta: Math.round(detScoreStd * 1000) / 1000,
+                    // Anti-cheat
+                    lightingChallengesPassed: lcPassedRef.current,
+                    lightingChallengesFailed: lcFailedRef.current,
+                    saccadeScore: saccadeScoreRef.current,
+                    blinkEdgeScore: blinkEdgeScoreRef.current,
+                    ocoloManualScore: 50, // computed in interview/page.tsx via cursor tracking
+                }
+                faceMetricsRef.current = metrics
+                onFaceMetrics?.(metrics)
 
-                } else if (detections.length === 0) {
-                    noseHistoryRef.current = []
-                    gazeHistoryRef.current = []
-                    gazeRatioHistRef.current = []
+                // ── Gaze event ─────────────────────────────────────────────────
+                if (smoothGaze !== lastGazeEventRef.current) {
+                    lastGazeEventRef.current = smoothGaze
+                    onGazeEvent?.(smoothGaze)
+                }
+
+                // ── Status logic ───────────────────────────────────────────────
+                const headOff = !pose.isFacing
+                const gazeOff = smoothGaze !== 'center' && smoothGaze !== 'unknown'
+
+                if (headOff) {
+                    const reason: VerificationFailureReason = pose.yaw !== 'center' ? 'Gaze Divergence' : 'Head Tilted'
+                    setPoseLabel(pose.yaw !== 'center' ? `Head ${pose.yaw}` : 'Head tilted')
+                    setGazeLabel('')
                     setVerificationStatus('failed')
-                    setFailureReason('No face detected')
-                    onStatusChange?.(false, 'No face detected')
-                    setPoseLabel('–'); setGazeLabel('')
-                } else {
+                    setFailureReason(reason)
+                    onStatusChange?.(false, reason)
+                } else if (gazeOff) {
+                    const gazeDirectionLabel = `Looking ${smoothGaze}`
+                    setPoseLabel('Facing camera')
+                    setGazeLabel(gazeDirectionLabel)
                     setVerificationStatus('failed')
-                    setFailureReason('Multiple faces detected')
-                    onStatusChange?.(false, 'Multiple faces detected')
+                    setFailureReason('Eye Gaze Detected')
+                    onStatusChange?.(false, 'Eye Gaze Detected')
+                } else {
+                    setPoseLabel('Facing camera')
+                    setGazeLabel('Eyes: center')
+                    setVerificationStatus('verified')
+                    setFailureReason(null)
+                    onStatusChange?.(true)
                 }
-            }, 450)
 
-            return () => clearInterval(interval)
-        }, [isModelLoaded, onStatusChange, onLivenessScore, onGazeEvent, onBlinkEvent, onFaceMetrics])
+            } else if (detections.length === 0) {
+                noseHistoryRef.current = []
+                gazeHistoryRef.current = []
+                gazeRatioHistRef.current = []
+                setVerificationStatus('failed')
+                setFailureReason('No face detected')
+                onStatusChange?.(false, 'No face detected')
+                setPoseLabel('–'); setGazeLabel('')
+            } else {
+                setVerificationStatus('failed')
+                setFailureReason('Multiple faces detected')
+                onStatusChange?.(false, 'Multiple faces detected')
+            }
+        }, [lightingChallengeActive, onStatusChange, onLivenessScore, onGazeEvent, onBlinkEvent, onFaceMetrics, onAntiCheatEvent])
+
+        useEffect(() => { analyseFrameRef.current = analyseFrame }, [analyseFrame])
 
         const livenessColor  = livenessScore > 70 ? '#00ff9d' : livenessScore > 40 ? '#ffd700' : '#ff4d4d'
         const blinkRateColor = blinkDisplay.rate > 5 && blinkDisplay.rate < 40 ? '#00ff9d' : '#ffd700'
@@ -7,6 +7,12 @@
  * Feature order MUST match the training script (generate_and_train.py).
  */
 
+import {
+    excessKurtosis, fatigueRate, mean, periodicityScore, shannonEntropy,
+    skewness, std, velocityGradient,
+} from './biometricStats'
+import type { NgramSamples } from './keystrokeNgrams'
+
 // ─── Feature names (must match training script order) ─────────────────────────
 
 export const FEATURE_NAMES = [
@@ -21,16 +27,24 @@ export const FEATURE_NAMES = [
 export type FeatureName = typeof FEATURE_NAMES[number]
 export const N_FEATURES = FEATURE_NAMES.length  // 18
 
+/**
+ * Names the feature set: FEATURE_NAMES in this order, computed as
+ * extractFeatureVector does. Declared by /api/ml-score callers and by
+ * model_metadata.json (`feature_set`); bump it whenever either changes.
+ */
+export const FEATURE_SET_VERSION = 'keystroke-18/1'
+
 // ─── Raw session data (collected in CodeEditor.tsx) ──────────────────────────
+// N-gram timings (digrams = up-down flight per key pair, plus down-down,
+// up-up and trigram latencies) come from keystrokeNgrams.ts.
 
-export interface RawSessionData {
+export interface RawSessionData extends NgramSamples {
     flightTimes:        number[]   // ms — inter-key flight times (filtered 10-2000ms)
     holdTimes:          number[]   // ms — key hold durations (filtered 10-500ms)
     backspaceTimes:     number[]   // ms — latency from prev char to backspace
     totalKeystrokes:    number     // all key events
     totalBackspaces:    number
     burstCount:         number     // number of burst windows detected
-    digrams:            Record<string, number[]>  // digram pair → flight time array
     sessionDurationMs:  number
 }
 
@@ -39,97 +53,7 @@ export interface FeatureVector {
     normalised: Float32Array
 }
 
-// ─── Stats helpers ─────────────────────────────────────────────────────────────
-
-function mean(arr: number[]): number {
-    if (arr.length === 0) return 0
-    return arr.reduce((a, b) => a + b, 0) / arr.length
-}
-
-function std(arr: number[], m?: number): number {
-    if (arr.length < 2) return 0
-    const mu = m ?? mean(arr)
-    return Math.sqrt(arr.reduce((a, b) => a + (b - mu) ** 2, 0) / arr.length)
-}
-
-function skewness(arr: number[]): number {
-    if (arr.length < 3) return 0
-    const mu = mean(arr)
-    const s  = std(arr, mu)
-    if (s === 0) return 0
-    const n = arr.length
-    return arr.reduce((a, b) => a + ((b - mu) / s) ** 3, 0) / n
-}
-
-function kurtosisExcess(arr: number[]): number {
-    if (arr.length < 4) return 0
-    const mu = mean(arr)
-    const s  = std(arr, mu)
-    if (s === 0) return 0
-    const n = arr.length
-    return arr.reduce((a, b) => a + ((b - mu) / s) ** 4, 0) / n - 3
-}
-
-function shannonEntropy(arr: number[]): number {
-    if (arr.length === 0) return 0
-    const min = Math.min(...arr), max = Math.max(...arr)
-    const B = 10
-    const bw = (max - min) / B || 1
-    const counts = new Array(B).fill(0)
-    arr.forEach(v => { const i = Math.min(B - 1, Math.floor((v - min) / bw)); counts[i]++ })
-    return counts.reduce((e, c) => {
-        if (c === 0) return e
-        const p = c / arr.length
-        return e - p * Math.log2(p)
-    }, 0)
-}
-
-/** Dominant spectral power as % (0-100) — simplified DFT over flight windows */
-function periodicityScore(arr: number[]): number {
-    if (arr.length < 8) return 0
-    const N = Math.min(64, arr.length)
-    const slice = arr.slice(-N)
-    const mu = mean(slice)
-    const centred = slice.map(v => v - mu)
-    let maxPow = 0, totalPow = 0
-    for (let k = 1; k < N / 2; k++) {
-        let re = 0, im = 0
-        for (let n = 0; n < N; n++) {
-            const angle = -2 * Math.PI * k * n / N
-            re += centred[n] * Math.cos(angle)
-            im += centred[n] * Math.sin(angle)
-        }
-        const pow = re * re + im * im
-        totalPow += pow
-        if (pow > maxPow) maxPow = pow
-    }
-    return totalPow === 0 ? 0 : (maxPow / totalPow) * 100
-}
-
-/** Ratio of first-half mean vs second-half mean (acceleration / deceleration) */
-function velocityGradient(arr: number[]): number {
-    if (arr.length < 10) return 0
-    const mid  = Math.floor(arr.length / 2)
-    const mF   = mean(arr.slice(0, mid))
-    const mS   = mean(arr.slice(mid))
-    if (mF === 0) return 0
-    return (mS - mF) / mF   // positive = slowing down, negative = speeding up
-}
-
-/** Linear regression slope (ms per keystroke) */
-function fatigueRate(arr: number[]): number {
-    if (arr.length < 10) return 0
-    const n = arr.length
-    let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0
-    for (let i = 0; i < n; i++) {
-        sumX  += i
-        sumY  += arr[i]
-        sumXY += i * arr[i]
-        sumXX += i * i
-    }
-    const denom = n * sumXX - sumX * sumX
-    return denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom
-}
+// ─── Feature-specific helpers (shared stats live in biometricStats.ts) ─────────
 
 /** Std of per-window-of-20 means — measures rhythm variability */
 function rhythmConsistency(arr: number[]): number {
@@ -182,7 +106,7 @@ export function extractFeatureVector(data: RawSessionData): FeatureVector {
         hold_mean:             hMean,
         hold_std:              hStd,
         flight_skewness:       skewness(flightTimes),
-        flight_kurtosis:       kurtosisExcess(flightTimes),
+        flight_kurtosis:       excessKurtosis(flightTimes),
         flight_entropy:        shannonEntropy(flightTimes),
         hold_entropy:          shannonEntropy(holdTimes),
         periodicity_score:     periodicityScore(flightTimes),
@@ -221,3 +145,85 @@ export function normaliseFeatures(
     }
     return out
 }
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+// Session data and feature vectors arrive as JSON at /api/ml-score. Anything
+// off-schema is rejected — a silently patched value would still be scored.
+
+/** Upper bound on samples per timing array / per n-gram map */
+export const MAX_SESSION_SAMPLES = 50_000
+const MAX_NGRAM_KEYS = 5_000
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isFiniteNumber(v: unknown): v is number {
+    return typeof v === 'number' && Number.isFinite(v)
+}
+
+function isSamples(v: unknown): v is number[] {
+    return Array.isArray(v) && v.length <= MAX_SESSION_SAMPLES && v.every(isFiniteNumber)
+}
+
+export type ParsedRawSessionData =
+    | { ok: true; data: RawSessionData }
+    | { ok: false; errors: string[] }
+
+export function parseRawSessionData(input: unknown): ParsedRawSessionData {
+    if (!isObject(input)) return { ok: false, errors: ['session must be an object'] }
+    const errors: string[] = []
+
+    for (const key of ['flightTimes', 'holdTimes', 'backspaceTimes'] as const) {
+        if (!isSamples(input[key])) errors.push(`session.${key} must be an array of at most ${MAX_SESSION_SAMPLES} finite numbers`)
+    }
+    for (const key of ['totalKeystrokes', 'totalBackspaces', 'burstCount', 'sessionDurationMs'] as const) {
+        const v = input[key]
+        if (!isFiniteNumber(v) || v < 0) errors.push(`session.${key} must be a non-negative number`)
+    }
+    for (const key of ['digrams', 'digramDownDown', 'digramUpUp', 'trigrams'] as const) {
+        const map = input[key]
+        if (!isObject(map) || Object.keys(map).length > MAX_NGRAM_KEYS || !Object.values(map).every(isSamples)) {
+            errors.push(`session.${key} must map at most ${MAX_NGRAM_KEYS} keys to arrays of finite numbers`)
+        }
+    }
+
+    if (errors.length) return { ok: false, errors }
+    const data = input as unknown as RawSessionData
+    return {
+        ok: true,
+        data: {
+            flightTimes:       data.flightTimes,
+            holdTimes:         data.holdTimes,
+            backspaceTimes:    data.backspaceTimes,
+            totalKeystrokes:   data.totalKeystrokes,
+            totalBackspaces:   data.totalBackspaces,
+            burstCount:        data.burstCount,
+            sessionDurationMs: data.sessionDurationMs,
+            digrams:           data.digrams,
+            digramDownDown:    data.digramDownDown,
+            digramUpUp:        data.digramUpUp,
+            trigrams:          data.trigrams,
+        },
+    }
+}
+
+export type ParsedFeatureRecord =
+    | { ok: true; raw: Record<FeatureName, number> }
+    | { ok: false; errors: string[] }
+
+/** A complete Record<FeatureName, number> — every feature, nothing else */
+export function parseFeatureRecord(input: unknown): ParsedFeatureRecord {
+    if (!isObject(input)) return { ok: false, errors: ['features must be an object keyed by feature name'] }
+    const errors: string[] = []
+    for (const name of FEATURE_NAMES) {
+        if (!isFiniteNumber(input[name])) errors.push(`features.${name} must be a finite number`)
+    }
+    for (const key of Object.keys(input)) {
+        if (!FEATURE_NAMES.includes(key as FeatureName)) errors.push(`features.${key}: unknown feature`)
+    }
+    if (errors.length) return { ok: false, errors }
+    const raw = {} as Record<FeatureName, number>
+    for (const name of FEATURE_NAMES) raw[name] = input[name] as number
+    return { ok: true, raw }
+}
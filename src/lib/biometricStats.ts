@@ -0,0 +1,122 @@
+/**
+ * Deep-Check · Biometric statistics
+ * ==================================
+ * The one implementation of the keystroke statistics shared by the live
+ * editor (CodeEditor.tsx), enrollment (enroll/page.tsx) and the ONNX feature
+ * vector (biometricFeatures.ts). Isomorphic — no browser or Node APIs.
+ *
+ * Definitions follow the training script and are listed under
+ * `feature_definitions` in public/models/model_metadata.json:
+ *   - std, skewness, kurtosis are population moments (ddof = 0, no bias
+ *     correction); kurtosis is excess (normal = 0)
+ *   - entropy is Shannon entropy in bits over a 10-bin min–max histogram
+ *   - periodicity is the dominant DFT power bin as % of total power
+ *     (k = 1 … N/2-1, DC excluded) over the last 64 samples
+ *   - fatigue is the least-squares slope of the series against its index
+ *
+ * public/models/feature_fixtures.json holds golden values for these
+ * definitions; `npm run features:verify` checks them.
+ */
+
+export const ENTROPY_BINS       = 10
+export const PERIODICITY_WINDOW = 64
+
+// ─── Moments ──────────────────────────────────────────────────────────────────
+
+export function mean(arr: number[]): number {
+    if (arr.length === 0) return 0
+    return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+/** Population standard deviation */
+export function std(arr: number[], m?: number): number {
+    if (arr.length < 2) return 0
+    const mu = m ?? mean(arr)
+    return Math.sqrt(arr.reduce((a, b) => a + (b - mu) ** 2, 0) / arr.length)
+}
+
+/** Population (Fisher–Pearson, uncorrected) skewness. Human flights are right-skewed */
+export function skewness(arr: number[]): number {
+    if (arr.length < 3) return 0
+    const mu = mean(arr)
+    const s  = std(arr, mu)
+    if (s === 0) return 0
+    return arr.reduce((a, b) => a + ((b - mu) / s) ** 3, 0) / arr.length
+}
+
+/** Population excess kurtosis — leptokurtic (> 0) means a spike at one speed */
+export function excessKurtosis(arr: number[]): number {
+    if (arr.length < 4) return 0
+    const mu = mean(arr)
+    const s  = std(arr, mu)
+    if (s === 0) return 0
+    return arr.reduce((a, b) => a + ((b - mu) / s) ** 4, 0) / arr.length - 3
+}
+
+// ─── Distribution shape ───────────────────────────────────────────────────────
+
+/** Shannon entropy (bits) of a min–max histogram. Humans vary; macros keep one pace */
+export function shannonEntropy(arr: number[], bins = ENTROPY_BINS): number {
+    if (arr.length === 0) return 0
+    const min = Math.min(...arr), max = Math.max(...arr)
+    const bw = (max - min) / bins || 1
+    const counts = new Array(bins).fill(0)
+    arr.forEach(v => { counts[Math.min(bins - 1, Math.floor((v - min) / bw))]++ })
+    return counts.reduce((e, c) => {
+        if (c === 0) return e
+        const p = c / arr.length
+        return e - p * Math.log2(p)
+    }, 0)
+}
+
+// ─── Rhythm over time ─────────────────────────────────────────────────────────
+
+/**
+ * Dominant spectral power as % (0-100) over the last 64 samples — bots type
+ * periodically. Ref: Shen et al. 2013 "User authentication through typing biometrics"
+ */
+export function periodicityScore(arr: number[]): number {
+    if (arr.length < 8) return 0
+    const N = Math.min(PERIODICITY_WINDOW, arr.length)
+    const slice = arr.slice(-N)
+    const mu = mean(slice)
+    const centred = slice.map(v => v - mu)
+    let maxPow = 0, totalPow = 0
+    for (let k = 1; k < N / 2; k++) {
+        let re = 0, im = 0
+        for (let n = 0; n < N; n++) {
+            const angle = -2 * Math.PI * k * n / N
+            re += centred[n] * Math.cos(angle)
+            im += centred[n] * Math.sin(angle)
+        }
+        const pow = re * re + im * im
+        totalPow += pow
+        if (pow > maxPow) maxPow = pow
+    }
+    return totalPow === 0 ? 0 : (maxPow / totalPow) * 100
+}
+
+/** (second-half mean − first-half mean) / first-half mean: positive = slowing down */
+export function velocityGradient(arr: number[]): number {
+    if (arr.length < 10) return 0
+    const mid = Math.floor(arr.length / 2)
+    const mF  = mean(arr.slice(0, mid))
+    const mS  = mean(arr.slice(mid))
+    if (mF === 0) return 0
+    return (mS - mF) / mF
+}
+
+/** Linear regression slope (ms per keystroke). Humans tire; bots stay flat */
+export function fatigueRate(arr: number[]): number {
+    if (arr.length < 10) return 0
+    const n = arr.length
+    let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0
+    for (let i = 0; i < n; i++) {
+        sumX  += i
+        sumY  += arr[i]
+        sumXY += i * arr[i]
+        sumXX += i * i
+    }
+    const denom = n * sumXX - sumX * sumX
+    return denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom
+}
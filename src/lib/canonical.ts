@@ -0,0 +1,28 @@
+/**
+ * Deep-Check · Canonical JSON
+ * ============================
+ * One serialization for everything we hash or sign: object keys sorted by
+ * UTF-16 code unit, no whitespace, undefined members dropped, undefined
+ * array slots written as null. Non-finite numbers are rejected rather than
+ * silently becoming null.
+ *
+ * Isomorphic and dependency-free — verifyCertificate.ts relies on that.
+ */
+
+export function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        if (typeof value === 'number' && !Number.isFinite(value)) {
+            throw new Error('canonicalJson: non-finite number')
+        }
+        return JSON.stringify(value)
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(v => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`
+    }
+    const obj = value as Record<string, unknown>
+    const members = Object.keys(obj)
+        .filter(k => obj[k] !== undefined)
+        .sort()
+        .map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`)
+    return `{${members.join(',')}}`
+}
@@ -0,0 +1,211 @@
+/**
+ * Deep-Check · Certificate signing (server-side)
+ * ===============================================
+ * Every certified Assessment carries an Ed25519-signed CertificatePayload.
+ * The public half is published as a JWKS (/.well-known/jwks.json) so
+ * certificates can be checked offline with verifyCertificate.ts.
+ *
+ *   DEEPCHECK_SIGNING_PRIVATE_KEY   PKCS#8 PEM Ed25519 key (literal \n allowed)
+ *   DEEPCHECK_SIGNING_RETIRED_JWKS  JSON array of old public JWKs, kept in the
+ *                                   JWKS after a rotation so earlier
+ *                                   certificates still verify
+ *
+ * Production refuses to sign without a configured key. In development a key
+ * is derived from DEEPCHECK_ADMIN_SECRET when it is set (stable across
+ * restarts), else generated per process — never from a value in the source.
+ *
+ *   openssl genpkey -algorithm ed25519 -out signing.pem
+ */
+
+import crypto from 'crypto'
+import { canonicalJson } from './canonical'
+import { Assessment } from './db'
+import { CURRENT_SESSION_HASH_VERSION, computeSessionHash, recordedSessionHash } from './sessionHash'
+import {
+    CertificatePayload,
+    CertificatePublicJwk,
+    CertificateVerification,
+    SignedCertificate,
+    verifyCertificate,
+} from './verifyCertificate'
+
+const ISSUER = 'deep-check'
+const PAYLOAD_VERSION = 2
+
+// ─── Signing key ──────────────────────────────────────────────────────────────
+
+interface SigningKey {
+    privateKey: crypto.KeyObject
+    publicKey: crypto.KeyObject
+    kid: string
+    jwk: CertificatePublicJwk
+    /** true when derived or generated for development instead of configured */
+    development: boolean
+}
+
+// DER prefix of a PKCS#8 Ed25519 private key; the 32-byte seed follows
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+let signingKey: SigningKey | null = null
+
+/** RFC 7638 thumbprint — the key id printed on certificates */
+function jwkThumbprint(x: string): string {
+    const json = canonicalJson({ crv: 'Ed25519', kty: 'OKP', x })
+    return crypto.createHash('sha256').update(json).digest('base64url')
+}
+
+function loadPrivateKey(): { key: crypto.KeyObject; development: boolean } {
+    const pem = process.env.DEEPCHECK_SIGNING_PRIVATE_KEY?.replace(/\\n/g, '\n').trim()
+    if (pem) {
+        const key = crypto.createPrivateKey(pem)
+        if (key.asymmetricKeyType !== 'ed25519') {
+            throw new Error(`DEEPCHECK_SIGNING_PRIVATE_KEY must be an Ed25519 key (got ${key.asymmetricKeyType})`)
+        }
+        return { key, development: false }
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('DEEPCHECK_SIGNING_PRIVATE_KEY must be set in production — certificates are not signed without it')
+    }
+    const secret = process.env.DEEPCHECK_ADMIN_SECRET
+    if (!secret) {
+        console.warn('[certificates] no signing key or DEEPCHECK_ADMIN_SECRET — certificates signed now stop verifying after a restart')
+        return { key: crypto.generateKeyPairSync('ed25519').privateKey, development: true }
+    }
+    const seed = crypto.createHash('sha256').update(`deepcheck-dev-signing-key:${secret}`).digest()
+    return {
+        key: crypto.createPrivateKey({ key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]), format: 'der', type: 'pkcs8' }),
+        development: true,
+    }
+}
+
+export function getSigningKey(): SigningKey {
+    if (signingKey) return signingKey
+    const { key: privateKey, development } = loadPrivateKey()
+    const publicKey = crypto.createPublicKey(privateKey)
+    const { x } = publicKey.export({ format: 'jwk' }) as { x: string }
+    const kid = jwkThumbprint(x)
+    signingKey = {
+        privateKey,
+        publicKey,
+        kid,
+        jwk: { kty: 'OKP', crv: 'Ed25519', x, kid, alg: 'EdDSA', use: 'sig' },
+        development,
+    }
+    return signingKey
+}
+
+function retiredJwks(): CertificatePublicJwk[] {
+    const raw = process.env.DEEPCHECK_SIGNING_RETIRED_JWKS
+    if (!raw) return []
+    try {
+        const parsed = JSON.parse(raw)
+        return (Array.isArray(parsed) ? parsed : [])
+            .filter((k): k is CertificatePublicJwk => k?.kty === 'OKP' && k?.crv === 'Ed25519' && typeof k?.x === 'string')
+            .map(k => ({ kty: 'OKP', crv: 'Ed25519', x: k.x, kid: k.kid ?? jwkThumbprint(k.x), alg: 'EdDSA', use: 'sig' }))
+    } catch {
+        console.warn('[certificates] DEEPCHECK_SIGNING_RETIRED_JWKS is not valid JSON — ignored')
+        return []
+    }
+}
+
+/** Current signing key first, then retired keys */
+export function getPublicJwks(): { keys: CertificatePublicJwk[] } {
+    return { keys: [getSigningKey().jwk, ...retiredJwks()] }
+}
+
+export function getPublicKeyPem(): string {
+    return getSigningKey().publicKey.export({ format: 'pem', type: 'spki' }).toString()
+}
+
+// ─── Issue ────────────────────────────────────────────────────────────────────
+
+function certificatePayload(
+    a: Assessment,
+    sessionHash: string,
+    issuedAt: string,
+    v: CertificatePayload['v'] = PAYLOAD_VERSION
+): CertificatePayload {
+    const payload: CertificatePayload = {
+        v,
+        issuer:             ISSUER,
+        sessionId:          a.id,
+        issuedAt,
+        candidateName:      a.candidateName,
+        role:               a.role,
+        date:               a.date,
+        score:              a.score,
+        status:             a.status,
+        autoFlagged:        a.autoFlagged ?? false,
+        alertCount:         a.alerts.length,
+        livenessScore:      a.livenessScore ?? null,
+        aiRisk:             a.aiRisk ?? null,
+        keystrokeCount:     a.keystrokeCount ?? null,
+        tabSwitchCount:     a.tabSwitchCount ?? null,
+        gazeEventCount:     a.gazeEventCount ?? null,
+        identityMatchScore: a.identityMatchScore ?? null,
+        sessionHash,
+    }
+    if (v === 1) return payload
+    return { ...payload, incidentRoot: a.incidentRoot ?? null, incidentCount: a.incidentCount ?? 0 }
+}
+
+export function signCertificatePayload(payload: CertificatePayload): SignedCertificate {
+    const { privateKey, kid } = getSigningKey()
+    const signature = crypto.sign(null, Buffer.from(canonicalJson(payload)), privateKey).toString('base64url')
+    return { alg: 'EdDSA', kid, payload, signature }
+}
+
+/**
+ * Recompute the session hash and sign a fresh certificate for the
+ * assessment's current data and incident root. Call whenever a certified
+ * field changes or the incident log grows.
+ */
+export function issueCertificate(a: Omit<Assessment, 'sessionHash' | 'certificateIssued' | 'certificate'>): Assessment {
+    const sessionHash = computeSessionHash(a)
+    const withHash: Assessment = { ...a, sessionHash, sessionHashVersion: CURRENT_SESSION_HASH_VERSION }
+    return {
+        ...withHash,
+        certificate:       signCertificatePayload(certificatePayload(withHash, sessionHash, new Date().toISOString())),
+        certificateIssued: true,
+    }
+}
+
+// ─── Check ────────────────────────────────────────────────────────────────────
+
+export type CertificateStatus = 'valid' | 'invalid' | 'unsigned' | 'unknown_key' | 'stale'
+
+export interface CertificateCheck {
+    status: CertificateStatus
+    kid: string | null
+    issuedAt: string | null
+    /** Signed by a development key — not trustworthy in production */
+    developmentKey: boolean
+    detail?: CertificateVerification
+}
+
+/**
+ * Verify the stored certificate against our JWKS and against the record it
+ * describes. 'stale' means the signature is good but the assessment has been
+ * changed since without re-issuing.
+ */
+export async function checkCertificate(a: Assessment): Promise<CertificateCheck> {
+    const cert = a.certificate
+    if (!cert) return { status: 'unsigned', kid: null, issuedAt: null, developmentKey: false }
+
+    const key = getSigningKey()
+    const base = {
+        kid:            cert.kid,
+        issuedAt:       cert.payload?.issuedAt ?? null,
+        developmentKey: key.development && cert.kid === key.kid,
+    }
+    const detail = await verifyCertificate(cert, getPublicJwks())
+    if (!detail.valid) {
+        return { ...base, status: detail.reason === 'unknown_key' ? 'unknown_key' : 'invalid', detail }
+    }
+
+    const hash = recordedSessionHash(a).expected ?? computeSessionHash(a)
+    const expected = certificatePayload(a, hash, detail.payload.issuedAt, detail.payload.v)
+    const stale = canonicalJson(expected) !== canonicalJson(detail.payload)
+    return { ...base, status: stale ? 'stale' : 'valid', detail }
+}
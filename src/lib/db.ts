@@ -1,38 +1,39 @@
 /**
  * Deep-Check · Database layer
- * Backed by Supabase (schema: deepcheck)
- * All server-side — never import this from client components.
+ * Backed by a pluggable StorageAdapter (Supabase or local JSON store,
+ * see src/lib/storage). All server-side — never import this from client components.
  */
 
-import { createClient } from '@supabase/supabase-js'
 import crypto from 'crypto'
-
-// ─── Supabase client (server-side only) ───────────────────────────────────────
-
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
-    ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-function getClient() {
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-        throw new Error('Missing Supabase env vars: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
-    }
-    return createClient(SUPABASE_URL, SUPABASE_KEY, {
-        auth: { persistSession: false },
-    })
-}
+import { getStorage } from './storage'
+import type { IncidentEntry } from './incidentChain'
+import type { MlExplanation } from './featureExplanation'
+import type { EnrollmentUpdateRecord, TemplateUpdate } from './enrollmentTemplate'
+import type { IdentityContext } from './enrollmentContext'
+import type { DetPoint } from './identityCalibration'
+import type { IdentityFeatureStats } from './identityMatch'
+import { Incident, IncidentCode, toIncidents } from './incidentModel'
+import { compareNgrams, NgramStat } from './keystrokeNgrams'
+import type { ScoringPolicy } from './policy'
+import type { AiRiskPoint, IdentityPoint, SessionEvent } from './scoring'
+import type { ModelEvaluationFilter, WebhookDeliveryFilter } from './storage'
+import type { SessionHashVersion } from './sessionHash'
+import type { SignedCertificate } from './verifyCertificate'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 export interface Assessment {
     id: string
     candidateName: string
+    candidateEmail?: string
     role: string
     date: string
     score: number
     status: 'passed' | 'review' | 'flagged'
-    alerts: string[]
-    evidence: { timestamp: string; image: string; reason: string }[]
+    /** Newest first, as raised during the session. Legacy string alerts are
+     *  converted on read (see toIncidents) and persisted by the incidents migration */
+    alerts: Incident[]
+    evidence: { timestamp: string; image: string; reason: string; incidentCode?: IncidentCode; incidentAt?: string }[]
     lastEvent: string
     // Extended biometric
     livenessScore?: number
@@ -41,17 +42,93 @@ export interface Assessment {
     tabSwitchCount?: number
     gazeEventCount?: number
     autoFlagged?: boolean
+    /** Per-feature reasons for aiRisk (see featureExplanation.ts) */
+    mlExplanation?: MlExplanation
+    /** Live model scores per keystroke window, oldest first */
+    aiRiskTimeline?: AiRiskPoint[]
     // Enrollment comparison
     enrollmentProfileId?: string
     identityMatchScore?: number
+    /** Keystroke windows matched against the enrollment profile, oldest first (see identityMatch.ts) */
+    identityTimeline?: IdentityPoint[]
+    /** Live and enrolled contexts the identity was matched across (see enrollmentContext.ts) */
+    identityContext?: IdentityContext
+    /** Mean face-match score (0-100) over the session's face checks */
+    faceMatchScore?: number
+    /** Whether this session updated the enrollment template (policies with adaptEnrollment) */
+    enrollmentUpdate?: EnrollmentUpdateRecord
     // Certificate
     sessionHash?: string
+    /** Layout of sessionHash (see sessionHash.ts); absent on pre-versioning rows */
+    sessionHashVersion?: SessionHashVersion
+    /** Hash a row carried before migrateSessionHash() moved it to the current version */
+    legacySessionHash?: {
+        version: SessionHashVersion | null
+        hash: string
+        /** The old hash was reproduced from the data at migration time */
+        verified: boolean
+        migratedAt: string
+    }
+    /** Hash of the last incident log entry (see incidentChain.ts) */
+    incidentRoot?: string
+    incidentCount?: number
+    /** Snapshot of the policy the score was computed with (see policy.ts) */
+    scoringPolicy?: ScoringPolicy
     certificateIssued?: boolean
+    /** Ed25519-signed summary, re-issued whenever certified fields change */
+    certificate?: SignedCertificate
     // API integration
     externalRef?: string
+    /** Fingerprint of the API key that created the session (see apiKeyId) */
+    apiKeyId?: string
     webhookDelivered?: boolean
 }
 
+export interface LiveSession {
+    id: string
+    status: 'live' | 'finalized'
+    candidateName: string
+    candidateEmail?: string
+    role: string
+    /** Candidate's IANA zone, used to format alert clock times */
+    timeZone?: string
+    /** Policy resolved when the session opened — the browser previews with it */
+    policy?: ScoringPolicy
+    enrollmentProfileId?: string
+    /** Context of the candidate's typing, from the editor language; templates are chosen and adjusted for it */
+    context?: EnrollmentContext
+    /** Set when opened from an invite: the key that pre-created the session */
+    apiKeyId?: string
+    inviteId?: string
+    startedAt: string
+    /** Last time a batch was accepted — drives the idle sweep */
+    lastSeenAt: string
+    /** Sequence number of the last accepted batch (batches start at 1) */
+    lastSeq: number
+    eventCount: number
+    finalizedAt?: string
+    finalizedBy?: 'client' | 'idle_sweep'
+}
+
+/** What accepting a batch changes on a live session */
+export type LiveSessionProgress = Pick<LiveSession, 'lastSeq' | 'eventCount' | 'lastSeenAt'>
+
+/** Single-use link handed to a candidate for a session pre-created via the API */
+export interface Invite {
+    id: string
+    /** Assessment id the live session — and its result — attach to */
+    sessionId: string
+    apiKeyId: string
+    candidateName: string
+    candidateEmail?: string
+    role: string
+    policyId?: string
+    enrollmentProfileId?: string
+    createdAt: string
+    expiresAt: string
+    usedAt?: string
+}
+
 export type EnrollmentContext = 'prose_es' | 'prose_en' | 'code_python' | 'code_js' | 'code_general'
 
 export interface KeystrokeProfile {
@@ -59,11 +136,18 @@ export interface KeystrokeProfile {
     flightStd: number
     holdMean: number
     holdStd: number
-    digrams: Record<string, { mean: number; std: number; count: number }>
+    /** Up-down flight per key pair ("t→h"), as captured by keystrokeNgrams.ts */
+    digrams: Record<string, NgramStat>
+    digramDownDown?: Record<string, NgramStat>
+    digramUpUp?: Record<string, NgramStat>
+    /** First-to-third press latency per key triple ("t→h→e") */
+    trigrams?: Record<string, NgramStat>
     entropy: number
     wpmMin: number
     wpmMax: number
     sampleSize: number
+    /** Mean and shrunk covariance of the identity features over timing chunks (identityMatch.ts) */
+    featureStats?: IdentityFeatureStats
 }
 
 export interface EnrollmentProfile {
@@ -75,6 +159,15 @@ export interface EnrollmentProfile {
     expiresAt: string
     profile: KeystrokeProfile
     enrollmentHash: string
+    /** Face recognition descriptors captured at /enroll (see faceMatch.ts) */
+    faceDescriptors?: number[][]
+    /** Template version per email: 1 for a first enrollment, +1 per merge or adaptive update */
+    version?: number
+    previousProfileId?: string
+    /** Enrollment sessions merged into this template */
+    enrollmentSessions?: number
+    /** How this version was made from previousProfileId (see enrollmentTemplate.ts) */
+    update?: TemplateUpdate
 }
 
 export interface ApiKey {
@@ -85,164 +178,182 @@ export interface ApiKey {
     active: boolean
     permissions: ('read' | 'write' | 'webhook')[]
     webhookUrl?: string
+    /** HMAC-SHA256 key for X-DeepCheck-Signature (whsec_…) */
+    webhookSecret?: string
+    /** Scoring policy for this key's sessions — latest version of that id */
+    policyId?: string
 }
 
-// ─── Row ↔ Type mappers ───────────────────────────────────────────────────────
-
-function rowToAssessment(row: any): Assessment {
-    return {
-        id:                   row.id,
-        candidateName:        row.candidate_name,
-        role:                 row.role,
-        date:                 typeof row.date === 'string' ? row.date : new Date(row.date).toISOString().split('T')[0],
-        score:                row.score,
-        status:               row.status,
-        alerts:               Array.isArray(row.alerts) ? row.alerts : (row.alerts ?? []),
-        evidence:             Array.isArray(row.evidence) ? row.evidence : (row.evidence ?? []),
-        lastEvent:            row.last_event,
-        livenessScore:        row.liveness_score ?? undefined,
-        aiRisk:               row.ai_risk ?? undefined,
-        keystrokeCount:       row.keystroke_count ?? undefined,
-        tabSwitchCount:       row.tab_switch_count ?? undefined,
-        gazeEventCount:       row.gaze_event_count ?? undefined,
-        autoFlagged:          row.auto_flagged ?? undefined,
-        enrollmentProfileId:  row.enrollment_profile_id ?? undefined,
-        identityMatchScore:   row.identity_match_score ?? undefined,
-        sessionHash:          row.session_hash ?? undefined,
-        certificateIssued:    row.certificate_issued ?? undefined,
-        externalRef:          row.external_ref ?? undefined,
-        webhookDelivered:     row.webhook_delivered ?? undefined,
-    }
-}
-
-function assessmentToRow(a: Assessment) {
-    return {
-        id:                     a.id,
-        candidate_name:         a.candidateName,
-        role:                   a.role,
-        date:                   a.date,
-        score:                  a.score,
-        status:                 a.status,
-        alerts:                 a.alerts,
-        evidence:               a.evidence,
-        last_event:             a.lastEvent,
-        liveness_score:         a.livenessScore ?? null,
-        ai_risk:                a.aiRisk ?? null,
-        keystroke_count:        a.keystrokeCount ?? null,
-        tab_switch_count:       a.tabSwitchCount ?? null,
-        gaze_event_count:       a.gazeEventCount ?? null,
-        auto_flagged:           a.autoFlagged ?? null,
-        enrollment_profile_id:  a.enrollmentProfileId ?? null,
-        identity_match_score:   a.identityMatchScore ?? null,
-        session_hash:           a.sessionHash ?? null,
-        certificate_issued:     a.certificateIssued ?? null,
-        external_ref:           a.externalRef ?? null,
-        webhook_delivered:      a.webhookDelivered ?? null,
-    }
+export type WebhookEventType =
+    | 'session.completed'
+    | 'session.flagged'
+    | 'session.reviewed'
+    | 'enrollment.created'
+
+export interface WebhookAttempt {
+    at: string
+    statusCode?: number
+    error?: string
+    durationMs: number
 }
 
-function rowToProfile(row: any): EnrollmentProfile {
-    return {
-        id:               row.id,
-        candidateName:    row.candidate_name,
-        candidateEmail:   row.candidate_email,
-        context:          row.context as EnrollmentContext,
-        createdAt:        row.created_at,
-        expiresAt:        row.expires_at,
-        profile:          row.profile as KeystrokeProfile,
-        enrollmentHash:   row.enrollment_hash,
-    }
+export interface WebhookDelivery {
+    id: string
+    eventId: string
+    eventType: WebhookEventType
+    apiKeyId: string
+    url: string
+    /** Exact JSON body that was signed and sent */
+    payload: string
+    status: 'pending' | 'succeeded' | 'failed'
+    attempts: WebhookAttempt[]
+    nextAttemptAt?: string
+    createdAt: string
+    sessionId?: string
+    redeliveryOf?: string
 }
 
-function profileToRow(ep: EnrollmentProfile) {
-    return {
-        id:               ep.id,
-        candidate_name:   ep.candidateName,
-        candidate_email:  ep.candidateEmail,
-        context:          ep.context,
-        created_at:       ep.createdAt,
-        expires_at:       ep.expiresAt,
-        profile:          ep.profile,
-        enrollment_hash:  ep.enrollmentHash,
-    }
+/** One model's bot-risk score for a session (see modelEvaluation.ts) */
+export interface ModelEvaluation {
+    sessionId: string
+    /** model_metadata.json version */
+    modelVersion: string
+    role: 'primary' | 'candidate' | 'shadow'
+    /** True for the one score per session that went into the verdict */
+    served: boolean
+    /** 0-100 */
+    risk: number
+    createdAt: string
 }
 
-function rowToApiKey(row: any): ApiKey {
-    return {
-        key:         row.key,
-        name:        row.name,
-        createdAt:   row.created_at,
-        lastUsed:    row.last_used ?? undefined,
-        active:      row.active,
-        permissions: row.permissions ?? [],
-        webhookUrl:  row.webhook_url ?? undefined,
-    }
+/** Identity-match operating point chosen from stored sessions (see identityCalibration.ts) */
+export interface IdentityCalibration {
+    id: string
+    createdAt: string
+    /** identityMatchScore at or above which the typist is accepted as the enrolled candidate */
+    threshold: number
+    /** False-accept rate the threshold was chosen for (0-1) */
+    targetFar: number
+    /** Rates measured at `threshold` (0-1) */
+    far: number
+    frr: number
+    /** Equal error rate and the threshold it occurs at */
+    eer: number
+    eerThreshold: number
+    /** Same-email and different-email session / profile pairs scored */
+    genuinePairs: number
+    impostorPairs: number
+    /** FAR and FRR at every threshold 0-101 */
+    det: DetPoint[]
 }
 
 // ─── Assessments ──────────────────────────────────────────────────────────────
 
+/** Rows written before the Incident model may still hold string alerts */
+function withIncidents(a: Assessment): Assessment {
+    return { ...a, alerts: toIncidents(a.alerts, a.date) }
+}
+
 export async function getAssessments(): Promise<Assessment[]> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_assessments')
-        .select('*')
-        .order('created_at', { ascending: false })
-    if (error) { console.error('[db] getAssessments:', error.message); return [] }
-    return (data ?? []).map(rowToAssessment)
+    return (await getStorage().listAssessments()).map(withIncidents)
 }
 
 export async function getAssessmentById(id: string): Promise<Assessment | null> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_assessments')
-        .select('*')
-        .eq('id', id)
-        .single()
-    if (error) return null
-    return data ? rowToAssessment(data) : null
+    const a = await getStorage().getAssessment(id)
+    return a && withIncidents(a)
+}
+
+/** Rows exactly as stored, legacy alerts included — for migrations only */
+export async function getStoredAssessments(): Promise<Assessment[]> {
+    return getStorage().listAssessments()
 }
 
 export async function saveAssessment(assessment: Assessment): Promise<void> {
-    const sb = getClient()
-    const row = assessmentToRow(assessment)
-    const { error } = await sb
-        .from('dc_assessments')
-        .upsert(row, { onConflict: 'id' })
-    if (error) throw new Error(`[db] saveAssessment: ${error.message}`)
+    await getStorage().upsertAssessment(assessment)
+}
+
+/** Update webhookDelivered only — delivery attempts must not rewrite the rest of the row */
+export async function setWebhookDelivered(id: string, delivered: boolean): Promise<void> {
+    await getStorage().setWebhookDelivered(id, delivered)
+}
+
+// ─── Session Event Log ────────────────────────────────────────────────────────
+
+export async function appendSessionEvents(sessionId: string, events: SessionEvent[]): Promise<void> {
+    await getStorage().appendSessionEvents(sessionId, events)
+}
+
+export async function getSessionEvents(sessionId: string): Promise<SessionEvent[]> {
+    return getStorage().getSessionEvents(sessionId)
+}
+
+// ─── Incident Log ─────────────────────────────────────────────────────────────
+
+/** Append-only — entries must continue the stored chain (see incidents.ts) */
+export async function appendIncidentEntries(sessionId: string, entries: IncidentEntry[]): Promise<void> {
+    await getStorage().appendIncidents(sessionId, entries)
+}
+
+export async function getIncidentEntries(sessionId: string): Promise<IncidentEntry[]> {
+    return getStorage().listIncidents(sessionId)
+}
+
+// ─── Live Sessions ────────────────────────────────────────────────────────────
+
+export async function saveLiveSession(session: LiveSession): Promise<void> {
+    await getStorage().upsertLiveSession(session)
+}
+
+/** Advance a live session from lastSeq `fromSeq`. False if it moved on or closed meanwhile — only one caller ever wins */
+export async function advanceLiveSession(id: string, fromSeq: number, progress: LiveSessionProgress): Promise<boolean> {
+    return getStorage().advanceLiveSession(id, fromSeq, progress)
+}
+
+export async function getLiveSession(id: string): Promise<LiveSession | null> {
+    return getStorage().getLiveSession(id)
+}
+
+/** Sessions still marked live whose last batch arrived before `before` (ISO) */
+export async function getIdleLiveSessions(before: string): Promise<LiveSession[]> {
+    return getStorage().listIdleLiveSessions(before)
+}
+
+// ─── Invites ──────────────────────────────────────────────────────────────────
+
+export async function saveInvite(invite: Invite): Promise<void> {
+    await getStorage().insertInvite(invite)
+}
+
+export async function getInvite(id: string): Promise<Invite | null> {
+    return getStorage().getInvite(id)
+}
+
+/** Mark an invite used. False if it already was — only one caller ever wins */
+export async function claimInvite(id: string, usedAt: string): Promise<boolean> {
+    return getStorage().claimInvite(id, usedAt)
 }
 
 // ─── Enrollment Profiles ──────────────────────────────────────────────────────
 
 export async function saveEnrollmentProfile(ep: EnrollmentProfile): Promise<void> {
-    const sb = getClient()
-    const { error } = await sb
-        .from('dc_enrollment_profiles')
-        .upsert(profileToRow(ep), { onConflict: 'id' })
-    if (error) throw new Error(`[db] saveEnrollmentProfile: ${error.message}`)
+    await getStorage().upsertEnrollmentProfile(ep)
 }
 
 export async function getProfileById(id: string): Promise<EnrollmentProfile | null> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_enrollment_profiles')
-        .select('*')
-        .eq('id', id)
-        .single()
-    if (error) return null
-    return data ? rowToProfile(data) : null
+    return getStorage().getEnrollmentProfile(id)
 }
 
 export async function getProfileByEmail(email: string): Promise<EnrollmentProfile | null> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_enrollment_profiles')
-        .select('*')
-        .eq('candidate_email', email)
-        .gt('expires_at', new Date().toISOString())
-        .order('created_at', { ascending: false })
-        .limit(1)
-    if (error) return null
-    return data && data.length > 0 ? rowToProfile(data[0]) : null
+    return getStorage().getLatestProfileByEmail(email, new Date().toISOString())
+}
+
+/** Every template version for `email`, expired ones included, newest first */
+export async function getProfileHistory(email: string): Promise<EnrollmentProfile[]> {
+    return getStorage().listProfilesByEmail(email)
+}
+
+export async function getEnrollmentProfiles(): Promise<EnrollmentProfile[]> {
+    return getStorage().listEnrollmentProfiles()
 }
 
 // ─── Identity Match Score ─────────────────────────────────────────────────────
@@ -269,103 +380,113 @@ export function computeIdentityMatch(
         const delta = Math.abs(live.entropy - baseline.entropy)
         scores.push(Math.max(0, 1 - delta / 0.5) * 100)
     }
-    if (live.digrams && baseline.digrams) {
-        const commonKeys = Object.keys(baseline.digrams).filter(k => live.digrams![k])
-        if (commonKeys.length > 0) {
-            const digramScores = commonKeys.map(k => {
-                const baseVal = baseline.digrams[k].mean
-                const liveVal = live.digrams![k].mean
-                if (baseVal === 0) return 50
-                const delta = Math.abs(liveVal - baseVal) / baseVal
-                return Math.max(0, 1 - delta / 0.35) * 100
-            })
-            scores.push(digramScores.reduce((a, b) => a + b, 0) / digramScores.length)
-        }
+    for (const ngrams of ['digrams', 'trigrams'] as const) {
+        const match = compareNgrams(live[ngrams], baseline[ngrams])
+        if (match) scores.push(match.score)
     }
 
     if (scores.length === 0) return 50
     return Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
 }
 
-// ─── Session Hash ─────────────────────────────────────────────────────────────
-
-export function computeSessionHash(
-    assessment: Omit<Assessment, 'sessionHash' | 'certificateIssued'>
-): string {
-    const payload = JSON.stringify({
-        id:                 assessment.id,
-        candidateName:      assessment.candidateName,
-        role:               assessment.role,
-        date:               assessment.date,
-        score:              assessment.score,
-        status:             assessment.status,
-        alertCount:         assessment.alerts.length,
-        keystrokeCount:     assessment.keystrokeCount,
-        aiRisk:             assessment.aiRisk,
-        tabSwitchCount:     assessment.tabSwitchCount,
-        gazeEventCount:     assessment.gazeEventCount,
-        livenessScore:      assessment.livenessScore,
-        identityMatchScore: assessment.identityMatchScore,
-    })
-    return crypto.createHash('sha256').update(payload).digest('hex')
-}
-
 // ─── API Keys ─────────────────────────────────────────────────────────────────
 
 export async function validateApiKey(key: string): Promise<ApiKey | null> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_api_keys')
-        .select('*')
-        .eq('key', key)
-        .eq('active', true)
-        .single()
-    if (error || !data) return null
+    const storage = getStorage()
+    const apiKey = await storage.getActiveApiKey(key)
+    if (!apiKey) return null
 
     // Update last_used (fire and forget)
-    sb.from('dc_api_keys').update({ last_used: new Date().toISOString() }).eq('key', key)
+    storage.touchApiKey(key, new Date().toISOString())
+        .catch(err => console.error('[db] touchApiKey:', err))
 
-    return rowToApiKey(data)
+    return apiKey
+}
+
+/** Stable, non-secret identifier for a key — safe to store on sessions and logs */
+export function apiKeyId(key: string): string {
+    return `key_${crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)}`
 }
 
 export async function createApiKey(
     name: string,
     permissions: ApiKey['permissions'],
-    webhookUrl?: string
+    webhookUrl?: string,
+    policyId?: string
 ): Promise<ApiKey> {
-    const sb = getClient()
     const newKey: ApiKey = {
-        key:         `dc_live_${crypto.randomBytes(24).toString('hex')}`,
+        key:           `dc_live_${crypto.randomBytes(24).toString('hex')}`,
         name,
-        createdAt:   new Date().toISOString(),
-        active:      true,
+        createdAt:     new Date().toISOString(),
+        active:        true,
         permissions,
         webhookUrl,
+        webhookSecret: `whsec_${crypto.randomBytes(24).toString('hex')}`,
+        policyId,
     }
-    const { error } = await sb.from('dc_api_keys').insert({
-        key:         newKey.key,
-        name:        newKey.name,
-        created_at:  newKey.createdAt,
-        active:      newKey.active,
-        permissions: newKey.permissions,
-        webhook_url: newKey.webhookUrl ?? null,
-    })
-    if (error) throw new Error(`[db] createApiKey: ${error.message}`)
+    await getStorage().insertApiKey(newKey)
     return newKey
 }
 
 export async function getApiKeysList(): Promise<ApiKey[]> {
-    const sb = getClient()
-    const { data, error } = await sb
-        .from('dc_api_keys')
-        .select('*')
-        .order('created_at', { ascending: false })
-    if (error) return []
-    return (data ?? []).map(rowToApiKey)
+    return getStorage().listApiKeys()
+}
+
+// ─── Scoring Policies ─────────────────────────────────────────────────────────
+
+/** Published versions are immutable — a change is always a new version */
+export async function insertScoringPolicy(policy: ScoringPolicy): Promise<void> {
+    await getStorage().insertPolicy(policy)
+}
+
+/** Stored versions only (built-ins live in policy.ts), newest first */
+export async function getStoredPolicies(): Promise<ScoringPolicy[]> {
+    return getStorage().listPolicies()
+}
+
+// ─── Model Evaluations ────────────────────────────────────────────────────────
+
+export async function saveModelEvaluations(rows: ModelEvaluation[]): Promise<void> {
+    if (rows.length) await getStorage().insertModelEvaluations(rows)
+}
+
+export async function getModelEvaluations(filter: ModelEvaluationFilter = {}): Promise<ModelEvaluation[]> {
+    return getStorage().listModelEvaluations(filter)
+}
+
+// ─── Identity Calibrations ────────────────────────────────────────────────────
+
+export async function saveIdentityCalibration(calibration: IdentityCalibration): Promise<void> {
+    await getStorage().insertIdentityCalibration(calibration)
+}
+
+export async function getLatestIdentityCalibration(): Promise<IdentityCalibration | null> {
+    return getStorage().getLatestIdentityCalibration()
+}
+
+// ─── Webhook Deliveries ───────────────────────────────────────────────────────
+
+export async function saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    await getStorage().upsertWebhookDelivery(delivery)
+}
+
+export async function getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+    return getStorage().getWebhookDelivery(id)
+}
+
+export async function getWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    return getStorage().listWebhookDeliveries(filter)
+}
+
+/** Pending deliveries whose next attempt is due at or before `now` (ISO) */
+export async function getDueWebhookDeliveries(now: string): Promise<WebhookDelivery[]> {
+    return getStorage().listDueWebhookDeliveries(now)
 }
 
-// ─── initDb (no-op — schema managed via migrations) ──────────────────────────
+// ─── initDb ───────────────────────────────────────────────────────────────────
 
 export async function initDb(): Promise<void> {
-    // Tables are managed by Supabase migrations. Nothing to do here.
+    // Supabase tables are managed by migrations; the local store seeds itself
+    // on first access. Touching the adapter surfaces config errors early.
+    getStorage()
 }
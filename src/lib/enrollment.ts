@@ -0,0 +1,291 @@
+/**
+ * Deep-Check · Enrollment templates (server-side)
+ * ===============================================
+ * A candidate's keystroke template is versioned per email. Enrolling again
+ * merges the new session into the active template of the same context
+ * (enrollmentTemplate.ts) and stores the result as the next version, so one
+ * noisy session no longer replaces a good history. Versions are never
+ * edited: sessions keep pointing at the version they were matched against,
+ * and the chain (previousProfileId + update) is the audit trail.
+ *
+ * Live sessions opened from an invite bound to the template, and scored with
+ * a policy that sets adaptEnrollment, also update it once verified low-risk — passed, not auto-flagged, low AI risk,
+ * no typist change and a whole-session identity score above the calibrated
+ * threshold. Each update is capped in weight and in how far it, and all
+ * updates since the last enrollment, may move the template.
+ *
+ * A candidate keeps one active template per context. Live typing is matched
+ * against the template of its own context, else against the one a learned
+ * cross-context adjustment makes most reliable (enrollmentContext.ts).
+ */
+
+import crypto from 'crypto'
+import {
+    Assessment,
+    EnrollmentContext,
+    EnrollmentProfile,
+    getEnrollmentProfiles,
+    getProfileByEmail,
+    getProfileHistory,
+    KeystrokeProfile,
+    saveEnrollmentProfile,
+} from './db'
+import {
+    adjustProfile,
+    ContextAdjustment,
+    contextReliability,
+    IdentityContext,
+    learnContextAdjustments,
+} from './enrollmentContext'
+import { EnrollmentUpdateRecord, maxDrift, mergeKeystrokeProfiles, templateDrift, TemplateUpdate } from './enrollmentTemplate'
+import { MAX_ENROLLMENT_FACES } from './faceMatch'
+import { currentIdentityOperatingPoint } from './identityCalibration'
+import {
+    IDENTITY_WINDOW_KEYSTROKES,
+    matchKeystrokeIdentity,
+    sessionIdentitySample,
+    sessionKeystrokeProfile,
+} from './identityMatch'
+import type { SessionEvent } from './scoring'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+export const ENROLLMENT_TTL_DAYS = 90
+/** Most of the template one interview may make up */
+export const ADAPTIVE_MAX_SHARE = 0.2
+/** Largest relative change of a headline statistic per interview update… */
+export const ADAPTIVE_MAX_DRIFT = 0.05
+/** …and over all interview updates since the last enrollment */
+export const ADAPTIVE_MAX_TOTAL_DRIFT = 0.2
+/** Above this aiRisk a session is not trusted to update the template */
+export const ADAPTIVE_MAX_AI_RISK = 30
+/** Cross-context adjustments are relearned from the stored templates at most this often */
+const ADJUSTMENT_CACHE_MS = 10 * 60 * 1000
+
+let adjustmentCache: { at: number; adjustments: ContextAdjustment[] } | null = null
+
+// ─── Versions ─────────────────────────────────────────────────────────────────
+
+function enrollmentHash(profile: KeystrokeProfile): string {
+    return crypto.createHash('sha256').update(JSON.stringify(profile)).digest('hex')
+}
+
+function nextVersion(
+    base: EnrollmentProfile,
+    profile: KeystrokeProfile,
+    update: TemplateUpdate,
+    overrides: Partial<EnrollmentProfile> = {}
+): EnrollmentProfile {
+    return {
+        ...base,
+        id:                 `ep_${crypto.randomBytes(12).toString('hex')}`,
+        createdAt:          new Date().toISOString(),
+        profile,
+        enrollmentHash:     enrollmentHash(profile),
+        version:            (base.version ?? 1) + 1,
+        previousProfileId:  base.id,
+        update,
+        ...overrides,
+    }
+}
+
+/** The newest unexpired version of the candidate's template for `context` */
+async function activeTemplate(email: string, context: EnrollmentContext): Promise<EnrollmentProfile | null> {
+    const now = new Date().toISOString()
+    return (await getProfileHistory(email)).find(ep => ep.context === context && ep.expiresAt > now) ?? null
+}
+
+// ─── Enrollment ───────────────────────────────────────────────────────────────
+
+export interface EnrollInput {
+    candidateName: string
+    candidateEmail: string
+    context: EnrollmentProfile['context']
+    profile: KeystrokeProfile
+    faceDescriptors: number[][]
+    /** false starts a new template instead of merging into the active one */
+    merge?: boolean
+}
+
+/**
+ * Store an enrollment session. With an active template of the same context
+ * for the email (and `merge` not false) the session is merged into it as the
+ * next version; otherwise it starts a new template at version 1.
+ */
+export async function enrollCandidate(input: EnrollInput): Promise<EnrollmentProfile> {
+    const now = new Date()
+    const expires = new Date(now)
+    expires.setDate(expires.getDate() + ENROLLMENT_TTL_DAYS)
+
+    const base = input.merge === false ? null : await activeTemplate(input.candidateEmail, input.context)
+    let ep: EnrollmentProfile
+    if (base) {
+        const merged = mergeKeystrokeProfiles(base.profile, input.profile)
+        const faces = [...input.faceDescriptors, ...(base.faceDescriptors ?? [])].slice(0, MAX_ENROLLMENT_FACES)
+        ep = nextVersion(base, merged.profile, {
+            source:     'enrollment',
+            sampleSize: input.profile.sampleSize,
+            weight:     merged.weight,
+            drift:      merged.drift,
+        }, {
+            candidateName:      input.candidateName,
+            expiresAt:          expires.toISOString(),
+            enrollmentSessions: (base.enrollmentSessions ?? 1) + 1,
+            faceDescriptors:    faces.length ? faces : undefined,
+        })
+    } else {
+        ep = {
+            id:                 `ep_${crypto.randomBytes(12).toString('hex')}`,
+            candidateName:      input.candidateName,
+            candidateEmail:     input.candidateEmail,
+            context:            input.context,
+            createdAt:          now.toISOString(),
+            expiresAt:          expires.toISOString(),
+            profile:            input.profile,
+            enrollmentHash:     enrollmentHash(input.profile),
+            version:            1,
+            enrollmentSessions: 1,
+            ...(input.faceDescriptors.length ? { faceDescriptors: input.faceDescriptors } : {}),
+        }
+    }
+
+    await saveEnrollmentProfile(ep)
+    // A new template may add a context pair to learn from
+    adjustmentCache = null
+    return ep
+}
+
+// ─── Adaptive updates ─────────────────────────────────────────────────────────
+
+type VerifiedSession = Pick<Assessment, 'id' | 'status' | 'autoFlagged' | 'aiRisk' | 'alerts'>
+
+/** Why `session` cannot be trusted to update the template, or null when it can */
+function unverifiedReason(session: VerifiedSession): string | null {
+    if (session.status !== 'passed') return `session status is ${session.status}`
+    if (session.autoFlagged) return 'session was auto-flagged'
+    if ((session.aiRisk ?? 0) > ADAPTIVE_MAX_AI_RISK) return `aiRisk ${session.aiRisk} is above ${ADAPTIVE_MAX_AI_RISK}`
+    if (session.alerts.some(a => a.code === 'IDENTITY_DRIFT')) return 'typist changed during the session'
+    return null
+}
+
+/**
+ * Merge a finalized session's keystrokes into the candidate's active
+ * template when the session is verified low-risk and the update stays within
+ * the drift limits. Returns the audit record the assessment keeps.
+ */
+export async function adaptEnrollment(
+    session: VerifiedSession,
+    events: SessionEvent[],
+    matched: EnrollmentProfile
+): Promise<EnrollmentUpdateRecord> {
+    const at = new Date().toISOString()
+    const skip = (reason: string): EnrollmentUpdateRecord => ({ status: 'skipped', reason, at })
+
+    const unverified = unverifiedReason(session)
+    if (unverified) return skip(unverified)
+
+    const typed = sessionKeystrokeProfile(events)
+    const sample = sessionIdentitySample(events)
+    if (!typed || !sample || typed.sampleSize < IDENTITY_WINDOW_KEYSTROKES) {
+        return skip(`fewer than ${IDENTITY_WINDOW_KEYSTROKES} keystrokes`)
+    }
+    const { threshold } = await currentIdentityOperatingPoint()
+    const { score } = matchKeystrokeIdentity(sample, matched.profile)
+    if (score < threshold) return skip(`identity score ${score} is below ${threshold}`)
+
+    // Updates go on top of the newest version, which may be newer than the one matched
+    const base = await activeTemplate(matched.candidateEmail, matched.context)
+    if (!base) return skip('no active template for this context')
+
+    const merged = mergeKeystrokeProfiles(base.profile, typed, ADAPTIVE_MAX_SHARE)
+    const audit = { baseProfileId: base.id, weight: merged.weight, drift: merged.drift, at }
+    if (maxDrift(merged.drift) > ADAPTIVE_MAX_DRIFT) {
+        return { status: 'rejected', reason: `update would move the template more than ${ADAPTIVE_MAX_DRIFT * 100}%`, ...audit }
+    }
+    // Drift accumulated since the last version an enrollment (not an interview) produced
+    const versions = new Map((await getProfileHistory(base.candidateEmail)).map(p => [p.id, p]))
+    let anchor = base
+    while (anchor.update?.source === 'interview' && versions.has(anchor.previousProfileId ?? '')) {
+        anchor = versions.get(anchor.previousProfileId!)!
+    }
+    if (maxDrift(templateDrift(anchor.profile, merged.profile)) > ADAPTIVE_MAX_TOTAL_DRIFT) {
+        return {
+            status: 'rejected',
+            reason: `interview updates would move the template more than ${ADAPTIVE_MAX_TOTAL_DRIFT * 100}% from its last enrollment`,
+            ...audit,
+        }
+    }
+
+    const ep = nextVersion(base, merged.profile, {
+        source:     'interview',
+        sessionId:  session.id,
+        sampleSize: typed.sampleSize,
+        weight:     merged.weight,
+        drift:      merged.drift,
+    })
+    await saveEnrollmentProfile(ep)
+    return { status: 'applied', profileId: ep.id, ...audit }
+}
+
+// ─── Contexts ─────────────────────────────────────────────────────────────────
+
+export async function getContextAdjustments(): Promise<ContextAdjustment[]> {
+    if (!adjustmentCache || Date.now() - adjustmentCache.at > ADJUSTMENT_CACHE_MS) {
+        adjustmentCache = { at: Date.now(), adjustments: learnContextAdjustments(await getEnrollmentProfiles()) }
+    }
+    return adjustmentCache.adjustments
+}
+
+export interface ContextComparison {
+    /** Template version compared */
+    enrollment: EnrollmentProfile
+    /** Its keystroke profile, adjusted to the live context when an adjustment is learned */
+    profile: KeystrokeProfile
+    context: IdentityContext
+}
+
+/** Compare typing in `live` (null when unknown) with `ep` */
+export async function compareInContext(ep: EnrollmentProfile, live: EnrollmentContext | null): Promise<ContextComparison> {
+    if (!live || live === ep.context) {
+        return {
+            enrollment: ep,
+            profile: ep.profile,
+            context: { live, compared: ep.context, adjustment: 'none', adjustmentPairs: 0, reliability: live ? 1 : null },
+        }
+    }
+    const adjustment = (await getContextAdjustments()).find(a => a.from === ep.context && a.to === live)
+    return {
+        enrollment: ep,
+        profile: adjustment ? adjustProfile(ep.profile, adjustment) : ep.profile,
+        context: {
+            live,
+            compared:        ep.context,
+            adjustment:      adjustment ? 'learned' : 'unavailable',
+            adjustmentPairs: adjustment?.pairs ?? 0,
+            reliability:     contextReliability(live, ep.context, adjustment),
+        },
+    }
+}
+
+/**
+ * The candidate's active template to match typing in `live` against: the one
+ * enrolled in that context, else the most reliable one after adjustment
+ * (newest on ties). With the live context unknown, the newest template.
+ */
+export async function profileForContext(email: string, live: EnrollmentContext | null): Promise<ContextComparison | null> {
+    if (!live) {
+        const ep = await getProfileByEmail(email)
+        return ep && compareInContext(ep, null)
+    }
+    const now = new Date().toISOString()
+    const active = new Map<EnrollmentContext, EnrollmentProfile>()
+    for (const ep of await getProfileHistory(email)) {
+        if (ep.expiresAt > now && !active.has(ep.context)) active.set(ep.context, ep)
+    }
+    let best: ContextComparison | null = null
+    for (const ep of active.values()) {
+        const comparison = await compareInContext(ep, live)
+        if (!best || comparison.context.reliability! > best.context.reliability!) best = comparison
+    }
+    return best
+}
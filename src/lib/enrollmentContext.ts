@@ -0,0 +1,187 @@
+/**
+ * Deep-Check · Enrollment contexts
+ * ================================
+ * Typing rhythm depends on what is typed: code has more symbols and pauses
+ * than prose, and one language's prose differs from another's. Templates are
+ * enrolled per EnrollmentContext, and a live session is matched against the
+ * template of its own context when the candidate has one.
+ *
+ * Otherwise the template of another context is rescaled by an adjustment
+ * learned from candidates enrolled in both: the mean log-ratio of their
+ * flight and hold statistics between the two contexts. `reliability` says how
+ * much a cross-context comparison can be trusted — lower across families
+ * (prose vs code), higher the more candidates the adjustment was learned from
+ * and the more consistently they shifted.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import type { EnrollmentContext, EnrollmentProfile, KeystrokeProfile } from './db'
+import type { NgramStat } from './keystrokeNgrams'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+export const ENROLLMENT_CONTEXTS: readonly EnrollmentContext[] = ['prose_es', 'prose_en', 'code_python', 'code_js', 'code_general']
+
+/** Candidates with templates in both contexts before an adjustment is learned */
+export const MIN_ADJUSTMENT_PAIRS = 3
+/** Reliability of an unadjusted comparison within / across families */
+const SAME_FAMILY_RELIABILITY = 0.6
+const CROSS_FAMILY_RELIABILITY = 0.3
+/** Pairs at which an adjustment closes half the gap to full reliability */
+const ADJUSTMENT_HALF_PAIRS = 10
+/** Spread (std of log-ratios) at which an adjustment explains nothing */
+const MAX_ADJUSTMENT_SPREAD = 0.3
+
+const ADJUSTED_STATS = ['flightMean', 'flightStd', 'holdMean', 'holdStd'] as const
+type AdjustedStat = (typeof ADJUSTED_STATS)[number]
+
+/** featureStats features scaled with each headline statistic */
+const FEATURE_SCALES: Record<string, AdjustedStat> = {
+    flight_mean: 'flightMean',
+    flight_std:  'flightStd',
+    hold_mean:   'holdMean',
+    hold_std:    'holdStd',
+}
+
+// ─── Contexts ─────────────────────────────────────────────────────────────────
+
+export function isEnrollmentContext(v: unknown): v is EnrollmentContext {
+    return typeof v === 'string' && (ENROLLMENT_CONTEXTS as readonly string[]).includes(v)
+}
+
+export function contextFamily(context: EnrollmentContext): 'prose' | 'code' {
+    return context.startsWith('prose') ? 'prose' : 'code'
+}
+
+/** Context of a Monaco language id; null for plain text, which may be either prose */
+export function contextForLanguage(language: string): EnrollmentContext | null {
+    switch (language.toLowerCase()) {
+        case 'python':
+            return 'code_python'
+        case 'javascript':
+        case 'typescript':
+        case 'javascriptreact':
+        case 'typescriptreact':
+            return 'code_js'
+        case 'plaintext':
+        case 'markdown':
+            return null
+        default:
+            return 'code_general'
+    }
+}
+
+// ─── Learned adjustments ──────────────────────────────────────────────────────
+
+export interface ContextAdjustment {
+    from: EnrollmentContext
+    to: EnrollmentContext
+    /** Candidates enrolled in both contexts */
+    pairs: number
+    /** Multiplier per headline statistic from `from` to `to` */
+    ratios: Record<AdjustedStat, number>
+    /** Mean std of the per-candidate log-ratios — how consistently candidates shift */
+    spread: number
+}
+
+/** Learn adjustments between every pair of contexts from the newest template per candidate and context */
+export function learnContextAdjustments(profiles: EnrollmentProfile[]): ContextAdjustment[] {
+    const newest = new Map<string, Map<EnrollmentContext, KeystrokeProfile>>()
+    for (const p of [...profiles].sort((a, b) => b.createdAt.localeCompare(a.createdAt))) {
+        const email = p.candidateEmail.toLowerCase()
+        const byContext = newest.get(email) ?? new Map<EnrollmentContext, KeystrokeProfile>()
+        if (!byContext.has(p.context)) byContext.set(p.context, p.profile)
+        newest.set(email, byContext)
+    }
+
+    const logRatios = new Map<string, number[][]>()
+    for (const byContext of newest.values()) {
+        for (const [from, a] of byContext) {
+            for (const [to, b] of byContext) {
+                if (from === to || ADJUSTED_STATS.some(s => !(a[s] > 0) || !(b[s] > 0))) continue
+                const key = `${from}>${to}`
+                logRatios.set(key, [...(logRatios.get(key) ?? []), ADJUSTED_STATS.map(s => Math.log(b[s] / a[s]))])
+            }
+        }
+    }
+
+    const round3 = (n: number) => Math.round(n * 1000) / 1000
+    const adjustments: ContextAdjustment[] = []
+    for (const [key, rows] of logRatios) {
+        if (rows.length < MIN_ADJUSTMENT_PAIRS) continue
+        const [from, to] = key.split('>') as [EnrollmentContext, EnrollmentContext]
+        const ratios = {} as Record<AdjustedStat, number>
+        let spread = 0
+        ADJUSTED_STATS.forEach((s, i) => {
+            const values = rows.map(r => r[i])
+            const m = values.reduce((sum, v) => sum + v, 0) / values.length
+            ratios[s] = round3(Math.exp(m))
+            spread += Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1))
+        })
+        adjustments.push({ from, to, pairs: rows.length, ratios, spread: round3(spread / ADJUSTED_STATS.length) })
+    }
+    return adjustments
+}
+
+function scaleNgrams(stats: Record<string, NgramStat> | undefined, k: number): Record<string, NgramStat> | undefined {
+    if (!stats) return undefined
+    return Object.fromEntries(Object.entries(stats).map(([key, s]) => [key, { ...s, mean: s.mean * k, std: s.std * k }]))
+}
+
+/** `profile` rescaled as if it had been enrolled in `adjustment.to` */
+export function adjustProfile(profile: KeystrokeProfile, adjustment: ContextAdjustment): KeystrokeProfile {
+    const { ratios } = adjustment
+    const out: KeystrokeProfile = {
+        ...profile,
+        flightMean: profile.flightMean * ratios.flightMean,
+        flightStd:  profile.flightStd * ratios.flightStd,
+        holdMean:   profile.holdMean * ratios.holdMean,
+        holdStd:    profile.holdStd * ratios.holdStd,
+        // N-gram latencies are mostly flight time
+        digrams:    scaleNgrams(profile.digrams, ratios.flightMean) ?? {},
+    }
+    for (const key of ['digramDownDown', 'digramUpUp', 'trigrams'] as const) {
+        if (profile[key]) out[key] = scaleNgrams(profile[key], ratios.flightMean)
+    }
+    const fs = profile.featureStats
+    if (fs) {
+        const scale = fs.features.map(f => (FEATURE_SCALES[f] ? ratios[FEATURE_SCALES[f]] : 1))
+        out.featureStats = {
+            ...fs,
+            mean: fs.mean.map((m, i) => m * scale[i]),
+            covariance: fs.covariance.map((row, i) => row.map((c, j) => c * scale[i] * scale[j])),
+        }
+    }
+    return out
+}
+
+// ─── Reliability ──────────────────────────────────────────────────────────────
+
+/** How far a comparison of `live` typing with a `compared` template can be trusted (0-1) */
+export function contextReliability(
+    live: EnrollmentContext,
+    compared: EnrollmentContext,
+    adjustment?: ContextAdjustment
+): number {
+    if (live === compared) return 1
+    const base = contextFamily(live) === contextFamily(compared) ? SAME_FAMILY_RELIABILITY : CROSS_FAMILY_RELIABILITY
+    if (!adjustment) return base
+    const fit = adjustment.pairs / (adjustment.pairs + ADJUSTMENT_HALF_PAIRS)
+        * Math.max(0, 1 - adjustment.spread / MAX_ADJUSTMENT_SPREAD)
+    return Math.round((base + (1 - base) * fit) * 100) / 100
+}
+
+/** What an identity score was compared against — returned with it by /api/ml-score */
+export interface IdentityContext {
+    /** Context of the live typing; null when it could not be told */
+    live: EnrollmentContext | null
+    /** Context of the enrollment template compared */
+    compared: EnrollmentContext
+    /** learned: the template was rescaled; unavailable: contexts differ but no adjustment is learned yet */
+    adjustment: 'none' | 'learned' | 'unavailable'
+    /** Candidates the adjustment was learned from */
+    adjustmentPairs: number
+    /** 0-1, 1 when the contexts match; null when the live context is unknown */
+    reliability: number | null
+}
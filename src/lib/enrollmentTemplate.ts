@@ -0,0 +1,169 @@
+/**
+ * Deep-Check · Enrollment template merging
+ * ========================================
+ * A candidate's keystroke template is built up over several enrollment
+ * sessions instead of being replaced by the newest one. Two profiles merge
+ * as pooled samples: every mean is weighted by sample size and every spread
+ * (std, n-gram std, featureStats covariance) keeps both the within-profile
+ * variance and the gap between the two means.
+ *
+ * Adaptive updates from interviews (enrollment.ts) pass `maxShare`, so one
+ * session can only move the template so far however long it was.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import type { KeystrokeProfile } from './db'
+import type { IdentityFeatureStats } from './identityMatch'
+import type { NgramStat } from './keystrokeNgrams'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Headline statistics whose relative change is tracked and limited */
+export const TEMPLATE_DRIFT_STATS = ['flightMean', 'flightStd', 'holdMean', 'holdStd'] as const
+export type TemplateDrift = Record<(typeof TEMPLATE_DRIFT_STATS)[number], number>
+
+/** What produced a template version from the previous one */
+export interface TemplateUpdate {
+    source: 'enrollment' | 'interview'
+    /** Assessment whose keystrokes were merged (interview updates) */
+    sessionId?: string
+    /** Keystrokes in the merged profile, and their share (0-1) of the result */
+    sampleSize: number
+    weight: number
+    /** Relative change of each headline statistic */
+    drift: TemplateDrift
+}
+
+/** Audit entry a session keeps when its policy allows adaptive updates */
+export interface EnrollmentUpdateRecord {
+    status: 'applied' | 'rejected' | 'skipped'
+    /** Why the session did not update the template */
+    reason?: string
+    /** Version the session was merged into and, when applied, the one it produced */
+    baseProfileId?: string
+    profileId?: string
+    weight?: number
+    drift?: TemplateDrift
+    at: string
+}
+
+export interface TemplateMerge {
+    profile: KeystrokeProfile
+    /** Share (0-1) of the merged template that came from the addition */
+    weight: number
+    drift: TemplateDrift
+}
+
+// ─── Pooling ──────────────────────────────────────────────────────────────────
+
+/** Mean and std of two samples taken together */
+function pool(ma: number, sa: number, wa: number, mb: number, sb: number, wb: number): { mean: number; std: number } {
+    const w = wa + wb
+    if (w <= 0) return { mean: ma, std: sa }
+    const mean = (wa * ma + wb * mb) / w
+    const variance = (wa * (sa ** 2 + (ma - mean) ** 2) + wb * (sb ** 2 + (mb - mean) ** 2)) / w
+    return { mean, std: Math.sqrt(variance) }
+}
+
+function poolNgrams(
+    a: Record<string, NgramStat> | undefined,
+    b: Record<string, NgramStat> | undefined,
+    scale: number
+): Record<string, NgramStat> | undefined {
+    if (!a && !b) return undefined
+    const out: Record<string, NgramStat> = { ...a }
+    for (const [key, stat] of Object.entries(b ?? {})) {
+        const count = stat.count * scale
+        const base = out[key]
+        if (!base) {
+            out[key] = { ...stat, count: Math.max(1, Math.round(count)) }
+            continue
+        }
+        const { mean, std } = pool(base.mean, base.std, base.count, stat.mean, stat.std, count)
+        out[key] = { mean, std, count: Math.round(base.count + count) }
+    }
+    return out
+}
+
+/** Pooled featureStats; a side without them (or with another layout) is left out */
+function poolFeatureStats(
+    a: IdentityFeatureStats | undefined,
+    b: IdentityFeatureStats | undefined,
+    scale: number
+): IdentityFeatureStats | undefined {
+    if (!a || !b) return b ?? a
+    if (a.features.join() !== b.features.join() || a.chunkKeystrokes !== b.chunkKeystrokes) return b
+
+    const wa = a.samples
+    const wb = b.samples * scale
+    const w = wa + wb
+    const mean = a.mean.map((m, i) => (wa * m + wb * b.mean[i]) / w)
+    const da = a.mean.map((m, i) => m - mean[i])
+    const db = b.mean.map((m, i) => m - mean[i])
+    const round = (v: number) => Number(v.toPrecision(6))
+    return {
+        features: a.features,
+        chunkKeystrokes: a.chunkKeystrokes,
+        samples: Math.round(w),
+        shrinkage: round((wa * a.shrinkage + wb * b.shrinkage) / w),
+        mean: mean.map(round),
+        covariance: a.covariance.map((row, i) => row.map((cov, j) => round(
+            (wa * (cov + da[i] * da[j]) + wb * (b.covariance[i][j] + db[i] * db[j])) / w
+        ))),
+    }
+}
+
+// ─── Merge ────────────────────────────────────────────────────────────────────
+
+/** Relative change of the headline statistics from `from` to `to` */
+export function templateDrift(from: KeystrokeProfile, to: KeystrokeProfile): TemplateDrift {
+    const drift = {} as TemplateDrift
+    for (const stat of TEMPLATE_DRIFT_STATS) {
+        drift[stat] = from[stat] > 0 ? Math.round(Math.abs(to[stat] - from[stat]) / from[stat] * 1000) / 1000 : 0
+    }
+    return drift
+}
+
+export function maxDrift(drift: TemplateDrift): number {
+    return Math.max(...TEMPLATE_DRIFT_STATS.map(s => drift[s]))
+}
+
+/**
+ * Merge `addition` into `base`, weighting each by its sample size. With
+ * `maxShare` below 1 the addition is down-weighted so it makes up at most
+ * that share of the result.
+ */
+export function mergeKeystrokeProfiles(base: KeystrokeProfile, addition: KeystrokeProfile, maxShare = 1): TemplateMerge {
+    const wa = base.sampleSize
+    const cap = maxShare < 1 ? wa * maxShare / (1 - maxShare) : Infinity
+    const wb = Math.min(addition.sampleSize, cap)
+    const scale = addition.sampleSize > 0 ? wb / addition.sampleSize : 0
+
+    const flight = pool(base.flightMean, base.flightStd, wa, addition.flightMean, addition.flightStd, wb)
+    const hold = pool(base.holdMean, base.holdStd, wa, addition.holdMean, addition.holdStd, wb)
+    const profile: KeystrokeProfile = {
+        flightMean:     Math.round(flight.mean),
+        flightStd:      Math.round(flight.std),
+        holdMean:       Math.round(hold.mean),
+        holdStd:        Math.round(hold.std),
+        entropy:        parseFloat(((wa * base.entropy + wb * addition.entropy) / (wa + wb)).toFixed(2)),
+        digrams:        poolNgrams(base.digrams, addition.digrams, scale) ?? {},
+        digramDownDown: poolNgrams(base.digramDownDown, addition.digramDownDown, scale),
+        digramUpUp:     poolNgrams(base.digramUpUp, addition.digramUpUp, scale),
+        trigrams:       poolNgrams(base.trigrams, addition.trigrams, scale),
+        featureStats:   poolFeatureStats(base.featureStats, addition.featureStats, scale),
+        wpmMin:         Math.min(base.wpmMin, addition.wpmMin),
+        wpmMax:         Math.max(base.wpmMax, addition.wpmMax),
+        sampleSize:     Math.round(wa + wb),
+    }
+    for (const key of ['digramDownDown', 'digramUpUp', 'trigrams', 'featureStats'] as const) {
+        if (profile[key] === undefined) delete profile[key]
+    }
+
+    return {
+        profile,
+        weight: Math.round(wb / (wa + wb) * 1000) / 1000,
+        drift: templateDrift(base, profile),
+    }
+}
@@ -0,0 +1,368 @@
+/**
+ * Deep-Check · Client event stream
+ * =================================
+ * Streams the raw session event log to POST /api/v1/sessions/:id/events.
+ *
+ *   record() ──► memory ──(every 5s)──► IndexedDB batch (seq n) ──► server
+ *
+ * Batches are numbered and only removed from IndexedDB once the server has
+ * acknowledged them, so a dropped connection or a reload loses nothing that
+ * made it to disk. On pagehide the in-memory tail is sent with sendBeacon.
+ *
+ * Browser-only — import from client components.
+ */
+
+import type { Assessment } from './db'
+import type { ScoringPolicy } from './policy'
+import type { SessionEvent } from './scoring'
+import type { SessionBiometricSummary } from './sessions'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LiveSessionCredentials {
+    id: string
+    token: string
+}
+
+interface StoredBatch {
+    sessionId: string
+    seq: number
+    events: SessionEvent[]
+}
+
+export type StreamStatus = 'connecting' | 'online' | 'offline' | 'closed'
+
+/** Who the server has the session down as — from the invite, if there was one */
+export interface SessionCandidate {
+    name: string
+    email?: string
+    role: string
+    enrollmentProfileId?: string
+}
+
+export interface FinalizedSessionResponse {
+    seq: number
+    duplicate: boolean
+    assessment: Assessment
+    /** null when the session had already been closed by an earlier attempt */
+    summary: SessionBiometricSummary | null
+}
+
+// ─── IndexedDB (with in-memory fallback) ──────────────────────────────────────
+
+const DB_NAME    = 'deepcheck'
+const DB_VERSION = 1
+const STORE      = 'event_batches'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+const memoryBatches = new Map<string, StoredBatch>()
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null)
+        const req = indexedDB.open(DB_NAME, DB_VERSION)
+        req.onupgradeneeded = () => {
+            const store = req.result.createObjectStore(STORE, { keyPath: ['sessionId', 'seq'] })
+            store.createIndex('sessionId', 'sessionId')
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror   = () => resolve(null)   // private mode etc. — fall back to memory
+    })
+    return dbPromise
+}
+
+function memKey(sessionId: string, seq: number) {
+    return `${sessionId}:${seq}`
+}
+
+function tx<T>(db: IDBDatabase, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const req = fn(db.transaction(STORE, mode).objectStore(STORE))
+        req.onsuccess = () => resolve(req.result)
+        req.onerror   = () => reject(req.error)
+    })
+}
+
+async function putBatch(batch: StoredBatch): Promise<void> {
+    const db = await openDb()
+    if (!db) { memoryBatches.set(memKey(batch.sessionId, batch.seq), batch); return }
+    await tx(db, 'readwrite', s => s.put(batch))
+}
+
+async function deleteBatch(sessionId: string, seq: number): Promise<void> {
+    const db = await openDb()
+    if (!db) { memoryBatches.delete(memKey(sessionId, seq)); return }
+    await tx(db, 'readwrite', s => s.delete([sessionId, seq]))
+}
+
+/** Pending batches for a session, oldest first */
+export async function listPendingBatches(sessionId: string): Promise<StoredBatch[]> {
+    const db = await openDb()
+    const all = db
+        ? await tx<StoredBatch[]>(db, 'readonly', s => s.index('sessionId').getAll(sessionId))
+        : [...memoryBatches.values()].filter(b => b.sessionId === sessionId)
+    return all.sort((a, b) => a.seq - b.seq)
+}
+
+async function clearPendingBatches(sessionId: string): Promise<void> {
+    for (const b of await listPendingBatches(sessionId)) await deleteBatch(sessionId, b.seq)
+}
+
+// ─── Session resume (sessionStorage) ──────────────────────────────────────────
+
+const SESSION_KEY = 'deepcheck:live-session'
+
+function loadSavedSession(): LiveSessionCredentials | null {
+    try {
+        const raw = sessionStorage.getItem(SESSION_KEY)
+        return raw ? JSON.parse(raw) : null
+    } catch {
+        return null
+    }
+}
+
+function saveSession(creds: LiveSessionCredentials) {
+    try { sessionStorage.setItem(SESSION_KEY, JSON.stringify(creds)) } catch { /* storage disabled */ }
+}
+
+export function clearSavedSession() {
+    try { sessionStorage.removeItem(SESSION_KEY) } catch { /* storage disabled */ }
+}
+
+function eventsUrl(id: string) {
+    return `/api/v1/sessions/${encodeURIComponent(id)}/events`
+}
+
+export interface OpenedSession {
+    credentials: LiveSessionCredentials
+    /** First batch number this page should use */
+    nextSeq: number
+    /** Events already recorded for this session before a reload */
+    replay: SessionEvent[]
+    resumed: boolean
+    /** Policy the server scores this session with — use it for the live preview */
+    policy?: ScoringPolicy
+    candidate?: SessionCandidate
+}
+
+export interface OpenSessionInfo {
+    candidateName?: string
+    role?: string
+    timeZone?: string
+    /** Monaco language id of the editor — the typing context the server matches identity in */
+    editorLanguage?: string
+    /** Invite token from /interview?invite= — overrides name and role */
+    invite?: string
+}
+
+let opening: Promise<OpenedSession> | null = null
+
+/**
+ * Resume the session saved in this tab if the server still has it live,
+ * otherwise start a new one. Memoised per page load, so React's double
+ * effect invocation in development does not open two sessions. A rejected
+ * invite rejects with the server's message.
+ */
+export function openLiveSession(info: OpenSessionInfo): Promise<OpenedSession> {
+    if (!opening) {
+        opening = doOpen(info).catch(err => { opening = null; throw err })
+    }
+    return opening
+}
+
+/** Session id an invite token points at (unverified — the server checks the signature) */
+function invitedSessionId(token: string): string | null {
+    try {
+        const body = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/')
+        const sid = JSON.parse(atob(body)).sid
+        return typeof sid === 'string' ? sid : null
+    } catch {
+        return null
+    }
+}
+
+async function doOpen(info: OpenSessionInfo): Promise<OpenedSession> {
+    const saved = loadSavedSession()
+    // A tab that already holds another session must not resume it for a new invite
+    const invited = info.invite ? invitedSessionId(info.invite) : null
+    if (saved && (!info.invite || saved.id === invited)) {
+        try {
+            const res = await fetch(eventsUrl(saved.id), { headers: { 'X-Session-Token': saved.token } })
+            const json = await res.json()
+            if (json.success && json.data.session.status === 'live') {
+                const { lastSeq, candidateName, candidateEmail, role, enrollmentProfileId } = json.data.session
+                const pending = await listPendingBatches(saved.id)
+                const unsent = pending.filter(b => b.seq > lastSeq)
+                return {
+                    credentials: saved,
+                    nextSeq: Math.max(lastSeq, ...pending.map(b => b.seq)) + 1,
+                    replay: [...json.data.events, ...unsent.flatMap(b => b.events)],
+                    resumed: true,
+                    policy: json.data.session.policy,
+                    candidate: { name: candidateName, email: candidateEmail, role, enrollmentProfileId },
+                }
+            }
+        } catch {
+            // Offline or server gone — fall through and try a fresh session
+        }
+        await clearPendingBatches(saved.id)
+        clearSavedSession()
+    }
+
+    const res = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(info),
+    })
+    const json = await res.json()
+    if (!json.success) throw new Error(json.error ?? `HTTP ${res.status}`)
+    const credentials = { id: json.data.id, token: json.data.token }
+    saveSession(credentials)
+    return { credentials, nextSeq: 1, replay: [], resumed: false, policy: json.data.policy, candidate: json.data.candidate }
+}
+
+// ─── Stream ───────────────────────────────────────────────────────────────────
+
+export interface EventStream {
+    /** Start flushing to a session. Events recorded before this are kept. */
+    attach(credentials: LiveSessionCredentials, nextSeq: number): void
+    record(event: SessionEvent): void
+    /** Seal buffered events into a batch and send everything pending */
+    flush(): Promise<void>
+    /** Best-effort send of the in-memory tail while the page is unloading */
+    flushOnExit(): void
+    /** Flush, then close the session. Resolves with the server-scored result. */
+    finalize(payload: { evidence?: unknown; hints?: unknown }): Promise<FinalizedSessionResponse>
+    stop(): void
+}
+
+export function createEventStream(opts: {
+    intervalMs?: number
+    onStatus?: (status: StreamStatus) => void
+} = {}): EventStream {
+    const intervalMs = opts.intervalMs ?? 5000
+    let creds: LiveSessionCredentials | null = null
+    let nextSeq = 1
+    let finalSeq: number | null = null
+    let memory: SessionEvent[] = []
+    let chain: Promise<unknown> = Promise.resolve()
+    let timer: ReturnType<typeof setInterval> | null = null
+    let status: StreamStatus = 'connecting'
+
+    const setStatus = (s: StreamStatus) => {
+        if (s !== status) { status = s; opts.onStatus?.(s) }
+    }
+
+    async function seal() {
+        if (!creds || memory.length === 0) return
+        const batch: StoredBatch = { sessionId: creds.id, seq: nextSeq++, events: memory }
+        memory = []
+        await putBatch(batch)
+    }
+
+    async function post(body: object) {
+        const res = await fetch(eventsUrl(creds!.id), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Session-Token': creds!.token },
+            body: JSON.stringify(body),
+        })
+        return { res, json: await res.json().catch(() => ({})) }
+    }
+
+    async function sendPending() {
+        if (!creds || status === 'closed') return
+        const pending = await listPendingBatches(creds.id)
+        for (let i = 0; i < pending.length; i++) {
+            const batch = pending[i]
+            const { res, json } = await post({ seq: batch.seq, events: batch.events })
+            if (res.ok) {
+                await deleteBatch(creds.id, batch.seq)
+                continue
+            }
+            if (res.status === 409 && json.data?.status === 'finalized') {
+                await clearPendingBatches(creds.id)
+                setStatus('closed')
+                return
+            }
+            const expected: number | undefined = json.data?.expectedSeq
+            if (res.status === 409 && expected !== undefined) {
+                if (expected > batch.seq) {
+                    // Already on the server (e.g. delivered by beacon)
+                    await deleteBatch(creds.id, batch.seq)
+                    continue
+                }
+                // A batch in between never made it to disk — renumber the rest
+                const rest = pending.slice(i)
+                for (const b of rest) await deleteBatch(creds.id, b.seq)
+                let seq = expected
+                for (const b of rest) await putBatch({ ...b, seq: seq++ })
+                nextSeq = seq
+                return sendPending()
+            }
+            throw new Error(json.error ?? `HTTP ${res.status}`)
+        }
+    }
+
+    function enqueue<T>(job: () => Promise<T>): Promise<T> {
+        const run = chain.then(job)
+        chain = run.catch(() => undefined)
+        return run
+    }
+
+    const flush = () => enqueue(async () => {
+        await seal()
+        try {
+            await sendPending()
+            if (status !== 'closed') setStatus('online')
+        } catch (err) {
+            setStatus('offline')
+            throw err
+        }
+    })
+
+    return {
+        attach(credentials, seq) {
+            creds = credentials
+            nextSeq = seq
+            if (!timer) timer = setInterval(() => { flush().catch(() => undefined) }, intervalMs)
+            flush().catch(() => undefined)
+        },
+
+        record(event) {
+            if (status !== 'closed') memory.push(event)
+        },
+
+        flush,
+
+        flushOnExit() {
+            if (!creds || memory.length === 0 || typeof navigator.sendBeacon !== 'function') return
+            const batch: StoredBatch = { sessionId: creds.id, seq: nextSeq++, events: memory }
+            memory = []
+            navigator.sendBeacon(
+                eventsUrl(creds.id),
+                new Blob([JSON.stringify({ seq: batch.seq, events: batch.events, token: creds.token })], { type: 'application/json' })
+            )
+            // Also persist: if the beacon is lost the batch goes out on resume
+            putBatch(batch).catch(() => undefined)
+        },
+
+        async finalize(payload) {
+            await flush()
+            return enqueue(async () => {
+                if (!creds) throw new Error('Session not started')
+                finalSeq ??= nextSeq++
+                const { res, json } = await post({ seq: finalSeq, events: [], final: true, ...payload })
+                if (!res.ok || !json.success) throw new Error(json.error ?? `HTTP ${res.status}`)
+                setStatus('closed')
+                clearSavedSession()
+                return json.data as FinalizedSessionResponse
+            })
+        },
+
+        stop() {
+            if (timer) clearInterval(timer)
+            timer = null
+        },
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * Deep-Check · Face detection protocol
+ * ====================================
+ * Shared by VerificationCamera and faceDetection.worker.ts, which runs
+ * face-api (TinyFaceDetector + 68-point landmarks) off the main thread.
+ * Frames sent with `describe` also get each face's 128-d recognition
+ * descriptor (see faceMatch.ts); the recognition net is loaded on the first
+ * such frame, so sessions without face matching never download it.
+ *
+ * The camera sends one video frame at a time as a transferred ImageBitmap,
+ * stamped with the time the camera captured it. The worker answers with
+ * plain landmark points and how long inference took, and the camera paces
+ * the next frame from that (frameInterval): fast machines get more frames,
+ * slow ones are not saturated.
+ *
+ * No face-api import here, so the page does not bundle TensorFlow.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface Point2D { x: number; y: number }
+
+export interface DetectedFace {
+    /** Detector confidence 0-1 */
+    score: number
+    box: { x: number; y: number; width: number; height: number }
+    /** 68 points in frame pixels (iBUG 300-W order) */
+    landmarks: Point2D[]
+    /** Recognition descriptor — only on frames sent with `describe` */
+    descriptor?: number[]
+}
+
+export type FaceWorkerRequest =
+    /** `capturedAt` — performance.now() timebase of the page */
+    | { type: 'frame'; bitmap: ImageBitmap; capturedAt: number; describe?: boolean }
+
+export type FaceWorkerResponse =
+    | { type: 'ready' }
+    /** Models failed to load — detection is off */
+    | { type: 'error'; error: string }
+    | {
+        type: 'faces'
+        capturedAt: number
+        inferenceMs: number
+        /** Frame size the coordinates refer to */
+        width: number
+        height: number
+        faces: DetectedFace[]
+        /** The frame was sent with `describe` */
+        described: boolean
+    }
+    /** The frame could not be analysed; the camera may send the next one */
+    | { type: 'dropped'; capturedAt: number; error: string }
+
+// ─── 68-point landmark groups ─────────────────────────────────────────────────
+// Same slices as face-api's FaceLandmarks68 getters
+
+export const jawPoints      = (pts: Point2D[]) => pts.slice(0, 17)
+export const nosePoints     = (pts: Point2D[]) => pts.slice(27, 36)
+export const leftEyePoints  = (pts: Point2D[]) => pts.slice(36, 42)
+export const rightEyePoints = (pts: Point2D[]) => pts.slice(42, 48)
+
+// ─── Frame pacing ─────────────────────────────────────────────────────────────
+
+export const MIN_FRAME_INTERVAL_MS = 100
+export const MAX_FRAME_INTERVAL_MS = 1000
+/** Share of the time the worker may spend on inference */
+const DETECTION_DUTY = 0.5
+/** Weight of the newest inference time in the running average */
+const INFERENCE_SMOOTHING = 0.2
+
+/** Running average of inference time */
+export function smoothInferenceMs(avg: number | null, sampleMs: number): number {
+    return avg === null ? sampleMs : avg + INFERENCE_SMOOTHING * (sampleMs - avg)
+}
+
+/** Capture-to-capture interval for the next frame */
+export function frameInterval(avgInferenceMs: number): number {
+    return Math.min(MAX_FRAME_INTERVAL_MS, Math.max(MIN_FRAME_INTERVAL_MS, avgInferenceMs / DETECTION_DUTY))
+}
@@ -0,0 +1,105 @@
+/**
+ * Deep-Check · Face detection (Web Worker)
+ * ========================================
+ * Runs face-api's TinyFaceDetector and 68-point landmark net on frames sent
+ * by VerificationCamera (protocol in faceDetection.ts), plus the recognition
+ * net on frames that ask for descriptors. Frames arrive as ImageBitmaps and
+ * go straight into a tensor, so no DOM is needed here.
+ */
+
+import * as faceapi from '@vladmandic/face-api'
+import type { DetectedFace, FaceWorkerRequest, FaceWorkerResponse } from './faceDetection'
+
+// face-api only sets itself up for windows and Node. A worker has
+// OffscreenCanvas and fetch, which is all model loading and tensor input use.
+const unavailable = (): never => { throw new Error('not available in a worker') }
+faceapi.env.setEnv({
+    Canvas:                   OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+    Image:                    ImageBitmap as unknown as typeof HTMLImageElement,
+    ImageData,
+    Video:                    ImageBitmap as unknown as typeof HTMLVideoElement,
+    createCanvasElement:      () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+    createImageElement:       unavailable,
+    createVideoElement:       unavailable,
+    fetch:                    (url, init) => fetch(url, init),
+    readFile:                 unavailable,
+})
+
+const options = new faceapi.TinyFaceDetectorOptions({ scoreThreshold: 0.4 })
+let ready = false
+/** Loaded on the first `describe` frame; null again after a failed load */
+let recognition: Promise<void> | null = null
+
+function reply(msg: FaceWorkerResponse) {
+    postMessage(msg)
+}
+
+function loadRecognition(): Promise<void> {
+    recognition ??= faceapi.nets.faceRecognitionNet.loadFromUri('/models').catch((err: Error) => {
+        recognition = null
+        throw err
+    })
+    return recognition
+}
+
+type Detection = { detection: faceapi.FaceDetection; landmarks: faceapi.FaceLandmarks68; descriptor?: Float32Array }
+
+async function detect(bitmap: ImageBitmap, describe: boolean): Promise<DetectedFace[]> {
+    const input = faceapi.tf.browser.fromPixels(bitmap)
+    try {
+        const landmarked = faceapi.detectAllFaces(input, options).withFaceLandmarks()
+        let detections: Detection[]
+        if (describe) {
+            await loadRecognition()
+            detections = await landmarked.withFaceDescriptors()
+        } else {
+            detections = await landmarked
+        }
+        return detections.map(d => {
+            const { x, y, width, height } = d.detection.box
+            return {
+                score: d.detection.score,
+                box: { x, y, width, height },
+                landmarks: d.landmarks.positions.map(p => ({ x: p.x, y: p.y })),
+                ...(d.descriptor ? { descriptor: Array.from(d.descriptor) } : {}),
+            }
+        })
+    } finally {
+        input.dispose()
+    }
+}
+
+addEventListener('message', async (e: MessageEvent<FaceWorkerRequest>) => {
+    const { bitmap, capturedAt, describe = false } = e.data
+    if (!ready) {
+        bitmap.close()
+        reply({ type: 'dropped', capturedAt, error: 'models not loaded' })
+        return
+    }
+    const started = performance.now()
+    try {
+        const faces = await detect(bitmap, describe)
+        reply({
+            type: 'faces',
+            capturedAt,
+            inferenceMs: performance.now() - started,
+            width: bitmap.width,
+            height: bitmap.height,
+            faces,
+            described: describe,
+        })
+    } catch (err) {
+        reply({ type: 'dropped', capturedAt, error: (err as Error).message })
+    } finally {
+        bitmap.close()
+    }
+})
+
+Promise.all([
+    faceapi.nets.tinyFaceDetector.loadFromUri('/models'),
+    faceapi.nets.faceLandmark68Net.loadFromUri('/models'),
+]).then(
+    () => { ready = true; reply({ type: 'ready' }) },
+    (err: Error) => reply({ type: 'error', error: err.message }),
+)
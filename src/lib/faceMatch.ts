@@ -0,0 +1,72 @@
+/**
+ * Deep-Check · Face identity match
+ * ================================
+ * Compares 128-d face descriptors from face-api's recognition net
+ * (faceDetection.worker.ts). /enroll stores a few descriptors with the
+ * EnrollmentProfile; during /interview the camera describes the candidate's
+ * face periodically and the server compares it to those (face-match route).
+ *
+ * Distance is euclidean, like face-api's FaceMatcher: the same person is
+ * usually below 0.5, and 0.6 is face-api's default cut between people.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+export const FACE_DESCRIPTOR_LENGTH = 128
+/** Above this distance the face is not the enrolled candidate */
+export const FACE_MATCH_DISTANCE = 0.6
+/** Descriptors /enroll captures; fewer than the minimum stores none */
+export const MIN_ENROLLMENT_FACES = 3
+export const MAX_ENROLLMENT_FACES = 10
+/** Score slope around the cut: 0.1 either side of it scores ~88 / ~12 */
+const SCORE_SPREAD = 0.05
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+export function isFaceDescriptor(v: unknown): v is number[] {
+    return Array.isArray(v) && v.length === FACE_DESCRIPTOR_LENGTH && v.every(n => Number.isFinite(n))
+}
+
+export type ParsedFaceDescriptors = { ok: true; descriptors: number[][] } | { ok: false; errors: string[] }
+
+/** Enrollment descriptors as sent by a client; undefined means none were captured */
+export function parseFaceDescriptors(input: unknown): ParsedFaceDescriptors {
+    if (input === undefined) return { ok: true, descriptors: [] }
+    if (!Array.isArray(input)) return { ok: false, errors: ['faceDescriptors must be an array'] }
+    if (input.length < MIN_ENROLLMENT_FACES || input.length > MAX_ENROLLMENT_FACES) {
+        return { ok: false, errors: [`faceDescriptors must hold ${MIN_ENROLLMENT_FACES}-${MAX_ENROLLMENT_FACES} descriptors`] }
+    }
+    const errors = input.flatMap((d, i) => isFaceDescriptor(d)
+        ? []
+        : [`faceDescriptors[${i}] must be ${FACE_DESCRIPTOR_LENGTH} finite numbers`])
+    return errors.length ? { ok: false, errors } : { ok: true, descriptors: input as number[][] }
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+export interface FaceMatch {
+    /** Distance to the closest enrolled descriptor */
+    distance: number
+    /** 0-100; 50 at FACE_MATCH_DISTANCE */
+    score: number
+    match: boolean
+}
+
+export function faceDistance(a: number[], b: number[]): number {
+    let sum = 0
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2
+    return Math.sqrt(sum)
+}
+
+export function faceDistanceToScore(distance: number): number {
+    return Math.round(100 / (1 + Math.exp((distance - FACE_MATCH_DISTANCE) / SCORE_SPREAD)))
+}
+
+/** Match a live descriptor against the enrolled ones (nearest wins) */
+export function matchFace(live: number[], enrolled: number[][]): FaceMatch {
+    const distance = Math.min(...enrolled.map(d => faceDistance(live, d)))
+    const rounded = Math.round(distance * 1000) / 1000
+    return { distance: rounded, score: faceDistanceToScore(distance), match: distance <= FACE_MATCH_DISTANCE }
+}
@@ -0,0 +1,119 @@
+/**
+ * Deep-Check · Feature explanations
+ * =================================
+ * Why the bot detector scored a session the way it did, per feature of the
+ * FEATURE_NAMES vector. Each feature's deviation from the training data
+ * (z-score against the model's scaler) is weighted by its
+ * feature_importances entry in model_metadata.json. On the server the
+ * model registry adds each feature's measured impact: the risk change when
+ * that one feature is reset to its training mean.
+ *
+ * Isomorphic — explanations travel in `ml` session events and are stored on
+ * the assessment (mlExplanation).
+ */
+
+import { FEATURE_NAMES, FeatureName, N_FEATURES } from './biometricFeatures'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FeatureContribution {
+    feature: FeatureName
+    /** Raw (un-normalised) value */
+    value: number
+    /** (value − training mean) / training std */
+    z: number
+    /** Share of the model's feature importance, 0-1 */
+    importance: number
+    /** importance × |z| */
+    weight: number
+    /** Risk points this feature adds (+) or removes (−) against its training
+     *  mean; only when the model was re-run */
+    impact?: number
+}
+
+export interface MlExplanation {
+    aiRisk: number
+    modelVersion?: string
+    /** Ranked, most influential first */
+    features: FeatureContribution[]
+}
+
+export const FEATURE_LABELS: Record<FeatureName, string> = {
+    flight_mean:           'Mean flight time',
+    flight_std:            'Flight time variability',
+    hold_mean:             'Mean key hold',
+    hold_std:              'Key hold variability',
+    flight_skewness:       'Flight time skewness',
+    flight_kurtosis:       'Flight time kurtosis',
+    flight_entropy:        'Flight time entropy',
+    hold_entropy:          'Key hold entropy',
+    periodicity_score:     'Rhythm periodicity',
+    velocity_gradient:     'Typing speed drift',
+    fatigue_rate:          'Fatigue (slow-down)',
+    rhythm_consistency:    'Rhythm consistency',
+    impossible_fast_ratio: 'Impossibly fast keys',
+    digram_cv_mean:        'Key pair variability',
+    backspace_latency_std: 'Correction timing variability',
+    backspace_count_ratio: 'Correction rate',
+    burst_count_per_100k:  'Typing bursts',
+    session_wpm:           'Words per minute',
+}
+
+// ─── Deviation weighting ──────────────────────────────────────────────────────
+
+/**
+ * feature_importances (by name) → weights in FEATURE_NAMES order summing to 1.
+ * Missing or all-zero importances weigh every feature equally.
+ */
+export function importanceWeights(importances: Partial<Record<string, unknown>> | undefined): number[] {
+    const raw = FEATURE_NAMES.map(name => {
+        const v = importances?.[name]
+        return typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : 0
+    })
+    const total = raw.reduce((a, b) => a + b, 0)
+    return total > 0 ? raw.map(v => v / total) : raw.map(() => 1 / N_FEATURES)
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000
+
+/** Contributions by importance-weighted deviation, largest weight first */
+export function explainByDeviation(
+    raw: ArrayLike<number>,
+    scaler: { mean: number[]; std: number[] },
+    weights: number[]
+): FeatureContribution[] {
+    return FEATURE_NAMES.map((feature, i) => {
+        const z = (raw[i] - scaler.mean[i]) / (scaler.std[i] || 1)
+        return {
+            feature,
+            value:      round3(raw[i]),
+            z:          round3(z),
+            importance: round3(weights[i]),
+            weight:     round3(weights[i] * Math.abs(z)),
+        }
+    }).sort((a, b) => b.weight - a.weight)
+}
+
+/** Measured impact first (when present), deviation weight as the tie-break */
+export function rankContributions(list: FeatureContribution[]): FeatureContribution[] {
+    return [...list].sort((a, b) =>
+        Math.abs(b.impact ?? 0) - Math.abs(a.impact ?? 0) || b.weight - a.weight)
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+/** Contributions arriving over the wire (ml events); malformed entries are dropped */
+export function sanitizeContributions(input: unknown): FeatureContribution[] | undefined {
+    if (!Array.isArray(input)) return undefined
+    const out: FeatureContribution[] = []
+    for (const c of input.slice(0, N_FEATURES)) {
+        if (typeof c !== 'object' || c === null) continue
+        const { feature, value, z, importance, weight, impact } = c as Record<string, unknown>
+        if (!FEATURE_NAMES.includes(feature as FeatureName)) continue
+        if (!finite(value) || !finite(z) || !finite(importance) || !finite(weight)) continue
+        out.push({ feature: feature as FeatureName, value, z, importance, weight, ...(finite(impact) ? { impact } : {}) })
+    }
+    return out.length ? out : undefined
+}
@@ -4,6 +4,7 @@
  * Genera un PDF de certificado de autenticidad de sesión con:
  * - Score de integridad
  * - Hash SHA-256 de sesión (verificable externamente)
+ * - Firma Ed25519 del servidor (verificable offline con el JWKS público)
  * - Resumen de métricas biométricas
  * - Firma visual del sistema
  *
@@ -24,9 +25,12 @@ export interface CertificateData {
     tabSwitchCount?: number
     gazeEventCount?: number
     identityMatchScore?: number
+    faceMatchScore?: number
     alertCount: number
     evidenceCount: number
     enrollmentProfileId?: string
+    /** Server-issued Ed25519 signature — omitted for unsigned legacy sessions */
+    signature?: { kid: string; value: string }
 }
 
 export async function generateCertificatePDF(data: CertificateData): Promise<void> {
@@ -123,6 +127,11 @@ export async function generateCertificatePDF(data: CertificateData): Promise<voi
             value: `${data.identityMatchScore}%`,
             ok: data.identityMatchScore > 70,
         }] : []),
+        ...(data.faceMatchScore !== undefined ? [{
+            label: 'Face Match',
+            value: `${data.faceMatchScore}%`,
+            ok: data.faceMatchScore > 50,
+        }] : []),
     ]
 
     const cols = 4
@@ -188,6 +197,32 @@ export async function generateCertificatePDF(data: CertificateData): Promise<voi
         PL, y
     )
 
+    // ── Digital signature ─────────────────────────────────────────────────────
+    if (data.signature) {
+        y += 10
+        doc.setFontSize(8)
+        doc.setFont('helvetica', 'bold')
+        doc.setTextColor(0, 212, 127)
+        doc.text('DIGITAL SIGNATURE  (Ed25519)', PL, y)
+
+        y += 6
+        doc.setFontSize(7)
+        doc.setFont('courier', 'normal')
+        doc.setTextColor(180, 190, 210)
+        doc.text(`kid ${data.signature.kid}`, PL, y)
+        doc.text(data.signature.value.slice(0, 64), PL, y + 5)
+        doc.text(data.signature.value.slice(64), PL, y + 10)
+
+        y += 16
+        doc.setFont('helvetica', 'normal')
+        doc.setFontSize(7.5)
+        doc.setTextColor(80, 90, 110)
+        doc.text(
+            'Signed by the Deep-Check server. Verify offline against the public keys at /.well-known/jwks.json.',
+            PL, y
+        )
+    }
+
     // ── Behavioral summary ────────────────────────────────────────────────────
     y += 12
     doc.setFillColor(18, 22, 32)
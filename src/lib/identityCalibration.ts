@@ -0,0 +1,174 @@
+/**
+ * Deep-Check · Identity match calibration (server-side)
+ * =====================================================
+ * Chooses the identityMatchScore threshold below which /api/ml-score flags
+ * identity_mismatch. Every stored session with a candidate email is scored
+ * against every enrollment profile: same-email pairs are genuine, the rest
+ * impostors. Sweeping the threshold over those scores gives the DET curve
+ * (false-accept vs false-reject rate); the operating point is the lowest
+ * threshold whose false-accept rate stays within the target.
+ *
+ * Calibrations are stored insert-only; the newest one is in force.
+ */
+
+import crypto from 'crypto'
+import {
+    getAssessments,
+    getEnrollmentProfiles,
+    getLatestIdentityCalibration,
+    getSessionEvents,
+    IdentityCalibration,
+    saveIdentityCalibration,
+} from './db'
+import { IDENTITY_WINDOW_KEYSTROKES, matchKeystrokeIdentity, sessionIdentitySample } from './identityMatch'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** Accept at most 1 in 100 other typists as the enrolled candidate */
+export const DEFAULT_TARGET_FAR = 0.01
+/** identity_mismatch cut used before the first calibration */
+export const UNCALIBRATED_THRESHOLD = 40
+/** Newest sessions scored per calibration */
+const MAX_CALIBRATION_SESSIONS = 500
+/** Shorter sessions say too little about the typist to count */
+const MIN_CALIBRATION_KEYSTROKES = IDENTITY_WINDOW_KEYSTROKES
+/** Thresholds swept: 0-100, plus 101 which accepts nobody */
+const MAX_THRESHOLD = 101
+
+// ─── DET curve ────────────────────────────────────────────────────────────────
+
+export interface DetPoint {
+    /** Scores at or above this are accepted as the enrolled candidate */
+    threshold: number
+    /** Share of impostor pairs accepted (0-1) */
+    far: number
+    /** Share of genuine pairs rejected (0-1) */
+    frr: number
+}
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000
+
+/** FAR and FRR at every threshold 0-101; both score lists must be non-empty */
+export function detCurve(genuine: number[], impostor: number[]): DetPoint[] {
+    const points: DetPoint[] = []
+    for (let threshold = 0; threshold <= MAX_THRESHOLD; threshold++) {
+        points.push({
+            threshold,
+            far: round4(impostor.filter(s => s >= threshold).length / impostor.length),
+            frr: round4(genuine.filter(s => s < threshold).length / genuine.length),
+        })
+    }
+    return points
+}
+
+/** Point where FAR and FRR are closest; the rate is their mean there */
+export function equalErrorRate(det: DetPoint[]): { eer: number; threshold: number } {
+    const best = det.reduce((a, b) => (Math.abs(b.far - b.frr) < Math.abs(a.far - a.frr) ? b : a))
+    return { eer: round4((best.far + best.frr) / 2), threshold: best.threshold }
+}
+
+/** Lowest threshold whose FAR is within `targetFar` — the fewest genuine rejects for that FAR */
+export function thresholdForFar(det: DetPoint[], targetFar: number): DetPoint {
+    return det.find(p => p.far <= targetFar) ?? det[det.length - 1]
+}
+
+// ─── Pairs ────────────────────────────────────────────────────────────────────
+
+export interface IdentityPairScores {
+    genuine: number[]
+    impostor: number[]
+}
+
+/** Score each stored session with an email against every enrollment profile */
+export async function collectIdentityPairs(): Promise<IdentityPairScores> {
+    const profiles = await getEnrollmentProfiles()
+    const sessions = (await getAssessments())
+        .filter(a => a.candidateEmail)
+        .slice(0, MAX_CALIBRATION_SESSIONS)
+
+    const genuine: number[] = []
+    const impostor: number[] = []
+    for (const session of sessions) {
+        const sample = sessionIdentitySample(await getSessionEvents(session.id))
+        if (!sample || sample.keystrokes < MIN_CALIBRATION_KEYSTROKES) continue
+        const email = session.candidateEmail!.toLowerCase()
+        for (const p of profiles) {
+            const { score } = matchKeystrokeIdentity(sample, p.profile)
+            if (p.candidateEmail.toLowerCase() === email) genuine.push(score)
+            else impostor.push(score)
+        }
+    }
+    return { genuine, impostor }
+}
+
+// ─── Calibration ──────────────────────────────────────────────────────────────
+
+export type CalibrationResult =
+    | { ok: true; calibration: IdentityCalibration }
+    | { ok: false; errors: string[] }
+
+/** Build the DET curve from stored pairs and save the operating point for `targetFar` */
+export async function calibrateIdentityThreshold(targetFar = DEFAULT_TARGET_FAR): Promise<CalibrationResult> {
+    if (!Number.isFinite(targetFar) || targetFar <= 0 || targetFar >= 1) {
+        return { ok: false, errors: ['targetFar must be between 0 and 1 (exclusive)'] }
+    }
+
+    const { genuine, impostor } = await collectIdentityPairs()
+    const errors: string[] = []
+    if (genuine.length === 0) errors.push('no genuine pairs: no scored session shares an email with an enrollment profile')
+    if (impostor.length === 0) errors.push('no impostor pairs: needs sessions and profiles of at least two candidate emails')
+    // Below one accepted impostor in 1/targetFar pairs the rate cannot be told from zero
+    else if (impostor.length < Math.ceil(1 / targetFar)) {
+        errors.push(`${impostor.length} impostor pairs cannot measure a false-accept rate of ${targetFar}; need ${Math.ceil(1 / targetFar)}`)
+    }
+    if (errors.length) return { ok: false, errors }
+
+    const det = detCurve(genuine, impostor)
+    const point = thresholdForFar(det, targetFar)
+    const eer = equalErrorRate(det)
+    const calibration: IdentityCalibration = {
+        id:            `idc_${crypto.randomBytes(12).toString('hex')}`,
+        createdAt:     new Date().toISOString(),
+        threshold:     point.threshold,
+        targetFar,
+        far:           point.far,
+        frr:           point.frr,
+        eer:           eer.eer,
+        eerThreshold:  eer.threshold,
+        genuinePairs:  genuine.length,
+        impostorPairs: impostor.length,
+        det,
+    }
+    await saveIdentityCalibration(calibration)
+    return { ok: true, calibration }
+}
+
+// ─── Operating point ──────────────────────────────────────────────────────────
+
+/** Threshold in force and what it was measured to mean; rates are null before calibration */
+export interface IdentityOperatingPoint {
+    threshold: number
+    calibrated: boolean
+    targetFar: number | null
+    far: number | null
+    frr: number | null
+    eer: number | null
+    calibratedAt: string | null
+}
+
+export async function currentIdentityOperatingPoint(): Promise<IdentityOperatingPoint> {
+    const c = await getLatestIdentityCalibration().catch(err => {
+        console.error('[identity] loading calibration:', err)
+        return null
+    })
+    if (!c) {
+        return {
+            threshold: UNCALIBRATED_THRESHOLD, calibrated: false,
+            targetFar: null, far: null, frr: null, eer: null, calibratedAt: null,
+        }
+    }
+    return {
+        threshold: c.threshold, calibrated: true,
+        targetFar: c.targetFar, far: c.far, frr: c.frr, eer: c.eer, calibratedAt: c.createdAt,
+    }
+}
@@ -0,0 +1,471 @@
+/**
+ * Deep-Check · Keystroke identity match
+ * =====================================
+ * Compares typing with the candidate's enrolled KeystrokeProfile. /api/ml-score
+ * scores the whole session once; finalizeSession (sessions.ts) also scores
+ * sliding keystroke windows of the event log and runs a sequential test over
+ * them, so a change of typist is found where it happens instead of being
+ * averaged away.
+ *
+ * Timings are measured like /enroll measures the profile: CodeEditor's flight
+ * and hold times filtered to 10-2000 ms and 10-500 ms, n-grams through
+ * keystrokeNgrams.ts from the stroke rebuilt at key release.
+ *
+ * Enrollment cuts its timings into overlapping chunks of
+ * IDENTITY_CHUNK_KEYSTROKES and stores the mean and covariance of
+ * IDENTITY_FEATURES over them (IdentityFeatureStats). A hundred keystrokes
+ * give only a few, overlapping chunks for eight features, so two estimates
+ * are regularised: each variance is at least the one seen over chunks
+ * resampled from the timings (a bootstrap), and the correlations are shrunk
+ * towards zero by the Schäfer–Strimmer estimate of the optimal weight. A live sample
+ * is cut into chunks the same way and scored by its mean squared Mahalanobis
+ * distance per feature, which is about 1 for the enrolled typist. Profiles
+ * enrolled before featureStats existed use a diagonal covariance guessed from
+ * the profile's flight and hold spread.
+ *
+ * The sequential test is a two-sided CUSUM of window log-likelihood ratios
+ * (Page's repeated SPRT): scores are Gaussian around IDENTITY_GENUINE_MEAN for
+ * the enrolled typist and IDENTITY_IMPOSTOR_MEAN for anyone else. Crossing the
+ * threshold raises an identity_drift event dated at the first keystroke of
+ * the run that crossed it; the test then watches for the enrolled typist to
+ * come back, so each handover is reported once.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import { extractFeatureVector, FeatureName } from './biometricFeatures'
+import { mean, shannonEntropy, std } from './biometricStats'
+import type { KeystrokeProfile } from './db'
+import { compareNgrams, createNgramCapture, NgramStat, recordKeystroke, summariseNgrams } from './keystrokeNgrams'
+import type { SessionEvent } from './scoring'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/**
+ * Features that describe a typist rather than a bot: the timing distribution
+ * and its rhythm. They are computed by extractFeatureVector from a chunk's
+ * flights and holds alone.
+ */
+export const IDENTITY_FEATURES = [
+    'flight_mean', 'flight_std', 'hold_mean', 'hold_std',
+    'flight_skewness', 'flight_entropy', 'hold_entropy', 'rhythm_consistency',
+] as const satisfies readonly FeatureName[]
+
+/** Flights / holds per feature chunk, at enrollment and live */
+export const IDENTITY_CHUNK_KEYSTROKES = 40
+/** Enrollment chunks start this many keystrokes apart (live chunks do not overlap) */
+const ENROLLMENT_CHUNK_STRIDE = 10
+/** Chunks enrollment needs before it stores featureStats */
+export const MIN_ENROLLMENT_CHUNKS = 4
+/** Resampled chunks that set each feature's smallest variance */
+const BOOTSTRAP_CHUNKS = 200
+
+/** Live keystrokes at which a match is reported with confidence 0.5 */
+export const IDENTITY_HALF_CONFIDENCE_KEYSTROKES = 200
+
+/** Keystrokes per scored window */
+export const IDENTITY_WINDOW_KEYSTROKES = 150
+/** A new window is scored every this many keystrokes */
+export const IDENTITY_WINDOW_STRIDE = 50
+
+/** Expected window score of the enrolled typist, of someone else, and their spread */
+export const IDENTITY_GENUINE_MEAN = 65
+export const IDENTITY_IMPOSTOR_MEAN = 20
+const IDENTITY_SCORE_STD = 20
+/** SPRT error rates: false drift per test, missed drift */
+const ALPHA = 0.005
+const BETA = 0.05
+/** Wald's upper threshold, ln((1 − β) / α) ≈ 5.2 */
+export const IDENTITY_DRIFT_THRESHOLD = Math.log((1 - BETA) / ALPHA)
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Enrolled distribution of IDENTITY_FEATURES over timing chunks */
+export interface IdentityFeatureStats {
+    /** Feature names, in the order of `mean` and `covariance` */
+    features: string[]
+    /** Flights / holds per chunk */
+    chunkKeystrokes: number
+    /** Chunks the statistics were estimated from (they overlap) */
+    samples: number
+    /** Weight (0-1) moved from the sample correlations towards none */
+    shrinkage: number
+    mean: number[]
+    covariance: number[][]
+}
+
+/** Typing compared with the profile */
+export interface IdentitySample {
+    flightMean: number
+    flightStd: number
+    holdMean: number
+    /** Shannon entropy of the flight times (bits) */
+    entropy: number
+    /** Filtered timings in typing order — without them only the diagonal match is possible */
+    flightTimes?: number[]
+    holdTimes?: number[]
+    digrams?: Record<string, NgramStat>
+    trigrams?: Record<string, NgramStat>
+    /** Live keystrokes the sample covers */
+    keystrokes: number
+}
+
+export interface IdentityMatch {
+    /** 0-100 */
+    score: number
+    /** 0-1, from the keystrokes observed: 0.5 at IDENTITY_HALF_CONFIDENCE_KEYSTROKES */
+    confidence: number
+    /** covariance: against the enrolled featureStats; diagonal: the older four-feature estimate */
+    method: 'covariance' | 'diagonal'
+}
+
+// ─── Enrollment statistics ────────────────────────────────────────────────────
+
+const EMPTY_NGRAMS = { digrams: {}, digramDownDown: {}, digramUpUp: {}, trigrams: {} }
+
+function chunkVector(flightTimes: number[], holdTimes: number[]): number[] {
+    const { raw } = extractFeatureVector({
+        ...EMPTY_NGRAMS,
+        flightTimes,
+        holdTimes,
+        backspaceTimes:    [],
+        totalKeystrokes:   flightTimes.length + holdTimes.length,
+        totalBackspaces:   0,
+        burstCount:        0,
+        sessionDurationMs: 0,
+    })
+    return IDENTITY_FEATURES.map(f => raw[f])
+}
+
+/** IDENTITY_FEATURES of each chunk of the timings, chunks starting `stride` apart */
+function chunkVectors(flights: number[], holds: number[], stride: number): number[][] {
+    const vectors: number[][] = []
+    const n = Math.min(flights.length, holds.length)
+    for (let i = 0; i + IDENTITY_CHUNK_KEYSTROKES <= n; i += stride) {
+        vectors.push(chunkVector(flights.slice(i, i + IDENTITY_CHUNK_KEYSTROKES), holds.slice(i, i + IDENTITY_CHUNK_KEYSTROKES)))
+    }
+    return vectors
+}
+
+/**
+ * Per-feature variance over chunks drawn with replacement from the timings.
+ * Seeded, so the same enrollment always gives the same profile.
+ */
+function bootstrapVariances(flights: number[], holds: number[]): number[] {
+    let seed = 1
+    const draw = (arr: number[]) => {
+        seed = (seed * 16807) % 2147483647
+        return arr[seed % arr.length]
+    }
+    const vectors = Array.from({ length: BOOTSTRAP_CHUNKS }, () => chunkVector(
+        Array.from({ length: IDENTITY_CHUNK_KEYSTROKES }, () => draw(flights)),
+        Array.from({ length: IDENTITY_CHUNK_KEYSTROKES }, () => draw(holds)),
+    ))
+    return IDENTITY_FEATURES.map((_, j) => std(vectors.map(v => v[j])) ** 2)
+}
+
+/**
+ * Feature statistics for a profile from its filtered flight and hold times
+ * (typing order), or undefined with fewer than MIN_ENROLLMENT_CHUNKS chunks.
+ */
+export function estimateFeatureStats(flightTimes: number[], holdTimes: number[]): IdentityFeatureStats | undefined {
+    const x = chunkVectors(flightTimes, holdTimes, ENROLLMENT_CHUNK_STRIDE)
+    const n = x.length
+    if (n < MIN_ENROLLMENT_CHUNKS) return undefined
+    const p = IDENTITY_FEATURES.length
+
+    const mu = IDENTITY_FEATURES.map((_, j) => mean(x.map(v => v[j])))
+    const floor = bootstrapVariances(flightTimes, holdTimes)
+    const sd = mu.map((m, j) => Math.sqrt(Math.max(
+        x.reduce((s, v) => s + (v[j] - m) ** 2, 0) / (n - 1),
+        floor[j],
+        1e-12,
+    )))
+    const z = x.map(v => v.map((xj, j) => (xj - mu[j]) / sd[j]))
+
+    // Sample correlations, and the shrinkage weight that minimises their
+    // expected squared error: Σ Var(r_ij) / Σ r_ij² over i ≠ j
+    const r: number[][] = Array.from({ length: p }, () => new Array(p).fill(0))
+    let varSum = 0
+    let sqSum = 0
+    for (let i = 0; i < p; i++) {
+        for (let j = i + 1; j < p; j++) {
+            const w = z.map(v => v[i] * v[j])
+            const wMean = mean(w)
+            r[i][j] = r[j][i] = wMean * n / (n - 1)
+            varSum += n / (n - 1) ** 3 * w.reduce((s, wk) => s + (wk - wMean) ** 2, 0)
+            sqSum += r[i][j] ** 2
+        }
+    }
+    const shrinkage = sqSum > 0 ? Math.max(0, Math.min(1, varSum / sqSum)) : 1
+
+    const round = (v: number) => Number(v.toPrecision(6))
+    return {
+        features: [...IDENTITY_FEATURES],
+        chunkKeystrokes: IDENTITY_CHUNK_KEYSTROKES,
+        samples: n,
+        shrinkage: round(shrinkage),
+        mean: mu.map(round),
+        covariance: sd.map((si, i) => sd.map((sj, j) => round((i === j ? 1 : (1 - shrinkage) * r[i][j]) * si * sj))),
+    }
+}
+
+export type ParsedFeatureStats = { ok: true; stats?: IdentityFeatureStats } | { ok: false; errors: string[] }
+
+/** featureStats as sent with an enrollment profile; undefined means none */
+export function parseFeatureStats(input: unknown): ParsedFeatureStats {
+    if (input === undefined) return { ok: true }
+    const s = input as Partial<IdentityFeatureStats>
+    const p = IDENTITY_FEATURES.length
+    const finite = (v: unknown) => typeof v === 'number' && Number.isFinite(v)
+    const errors: string[] = []
+    if (typeof input !== 'object' || input === null) return { ok: false, errors: ['profile.featureStats must be an object'] }
+    if (!Array.isArray(s.features) || s.features.join() !== IDENTITY_FEATURES.join()) {
+        errors.push(`profile.featureStats.features must be ${IDENTITY_FEATURES.join(', ')}`)
+    }
+    if (s.chunkKeystrokes !== IDENTITY_CHUNK_KEYSTROKES) {
+        errors.push(`profile.featureStats.chunkKeystrokes must be ${IDENTITY_CHUNK_KEYSTROKES}`)
+    }
+    if (!Number.isInteger(s.samples) || (s.samples as number) < MIN_ENROLLMENT_CHUNKS) {
+        errors.push(`profile.featureStats.samples must be an integer ≥ ${MIN_ENROLLMENT_CHUNKS}`)
+    }
+    if (!finite(s.shrinkage) || (s.shrinkage as number) < 0 || (s.shrinkage as number) > 1) {
+        errors.push('profile.featureStats.shrinkage must be between 0 and 1')
+    }
+    if (!Array.isArray(s.mean) || s.mean.length !== p || !s.mean.every(finite)) {
+        errors.push(`profile.featureStats.mean must be ${p} finite numbers`)
+    }
+    if (!Array.isArray(s.covariance) || s.covariance.length !== p
+        || !s.covariance.every(row => Array.isArray(row) && row.length === p && row.every(finite))
+        || !choleskyFactor(s.covariance)) {
+        errors.push(`profile.featureStats.covariance must be a positive definite ${p}×${p} matrix`)
+    }
+    return errors.length ? { ok: false, errors } : { ok: true, stats: s as IdentityFeatureStats }
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+/** Lower-triangular L with L·Lᵀ = a, or null when `a` is not positive definite */
+function choleskyFactor(a: number[][]): number[][] | null {
+    const n = a.length
+    const l: number[][] = Array.from({ length: n }, () => new Array(n).fill(0))
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = a[i][j]
+            for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k]
+            if (i === j) {
+                if (!(sum > 0)) return null
+                l[i][i] = Math.sqrt(sum)
+            } else {
+                l[i][j] = sum / l[j][j]
+            }
+        }
+    }
+    return l
+}
+
+/** (x − μ)ᵀ Σ⁻¹ (x − μ), with Σ = L·Lᵀ */
+function squaredMahalanobis(x: number[], mu: number[], l: number[][]): number {
+    const y: number[] = []
+    let d2 = 0
+    for (let i = 0; i < x.length; i++) {
+        let sum = x[i] - mu[i]
+        for (let k = 0; k < i; k++) sum -= l[i][k] * y[k]
+        y.push(sum / l[i][i])
+        d2 += y[i] ** 2
+    }
+    return d2
+}
+
+/**
+ * 0-100 from the mean squared distance per feature: ~1 is as typical as the
+ * enrollment chunks themselves, and each unit beyond that halves the score.
+ */
+function covarianceScore(sample: IdentitySample, stats: IdentityFeatureStats): number | null {
+    if (!sample.flightTimes || !sample.holdTimes) return null
+    if (stats.features.join() !== IDENTITY_FEATURES.join() || stats.chunkKeystrokes !== IDENTITY_CHUNK_KEYSTROKES) return null
+    const chunks = chunkVectors(sample.flightTimes, sample.holdTimes, IDENTITY_CHUNK_KEYSTROKES)
+    const l = choleskyFactor(stats.covariance)
+    if (!chunks.length || !l) return null
+    const perFeature = mean(chunks.map(v => squaredMahalanobis(v, stats.mean, l))) / IDENTITY_FEATURES.length
+    return Math.round(100 * Math.pow(2, -Math.max(0, perFeature - 1)))
+}
+
+/**
+ * Mahalanobis distance over [flight mean, flight std, hold mean, entropy]
+ * for profiles without featureStats: the diagonal is guessed from the
+ * profile's own spread.
+ */
+function diagonalScore(live: IdentitySample, baseline: KeystrokeProfile): number {
+    const dims: [number, number, number][] = [
+        [live.flightMean, baseline.flightMean, Math.pow(baseline.flightStd * 0.60, 2) || 1],
+        [live.flightStd,  baseline.flightStd,  Math.pow(baseline.flightStd * 0.50, 2) || 1],
+        [live.holdMean,   baseline.holdMean,   Math.pow(baseline.holdStd   * 0.60, 2) || 1],
+        [live.entropy,    baseline.entropy,    Math.pow(0.5, 2)],  // entropy variance in bits²
+    ]
+    // D² = Σ (xi - μi)² / σi²
+    const distance = Math.sqrt(dims.reduce((d2, [x, mu, variance]) => d2 + Math.pow(x - mu, 2) / variance, 0))
+    // D=0: perfect match = 100 · D=2 ≈ 79 · D=4 ≈ 62 · D=8 ≈ 38
+    return Math.max(0, Math.round(100 * Math.exp(-0.12 * distance)))
+}
+
+/**
+ * Match `live` against the profile: the timing score (covariance when the
+ * profile has featureStats, else diagonal) weighted 70%, n-gram timing 30%
+ * when at least three digrams are shared (trigrams refine it).
+ */
+export function matchKeystrokeIdentity(live: IdentitySample, baseline: KeystrokeProfile): IdentityMatch {
+    const covariance = baseline.featureStats ? covarianceScore(live, baseline.featureStats) : null
+    const statScore = covariance ?? diagonalScore(live, baseline)
+    const digramMatch  = compareNgrams(live.digrams, baseline.digrams, 3)
+    const trigramMatch = compareNgrams(live.trigrams, baseline.trigrams, 3)
+    const ngramMatch = !digramMatch ? null : trigramMatch
+        ? 0.6 * digramMatch.score + 0.4 * trigramMatch.score
+        : digramMatch.score
+    const keystrokes = Math.max(0, live.keystrokes)
+    return {
+        score: ngramMatch === null ? statScore : Math.round(0.70 * statScore + 0.30 * ngramMatch),
+        confidence: Math.round(100 * keystrokes / (keystrokes + IDENTITY_HALF_CONFIDENCE_KEYSTROKES)) / 100,
+        method: covariance === null ? 'diagonal' : 'covariance',
+    }
+}
+
+// ─── Windows ──────────────────────────────────────────────────────────────────
+
+export interface TypedKey {
+    at: number
+    key: string
+    holdTime: number
+    flightTime: number
+    /** Press / release on the editor's clock (release is the event timestamp) */
+    down: number
+    up: number
+}
+
+/** Keystroke events in typing order; events without timing are skipped */
+export function typedKeys(events: SessionEvent[]): TypedKey[] {
+    const keys: TypedKey[] = []
+    for (const ev of events) {
+        if (ev.kind !== 'biometric' || ev.event.type !== 'keystroke') continue
+        const { key, holdTime, flightTime, timestamp } = ev.event
+        if (typeof key !== 'string' || typeof holdTime !== 'number' || typeof timestamp !== 'number') continue
+        keys.push({
+            at: ev.at,
+            key,
+            holdTime,
+            flightTime: typeof flightTime === 'number' ? flightTime : 0,
+            down: timestamp - holdTime,
+            up: timestamp,
+        })
+    }
+    return keys.sort((a, b) => a.at - b.at)
+}
+
+/** Flights and holds within the ranges /enroll keeps */
+function keyTimings(keys: TypedKey[]): { flights: number[]; holds: number[] } {
+    return {
+        flights: keys.map(k => k.flightTime).filter(t => t > 10 && t < 2000),
+        holds:   keys.map(k => k.holdTime).filter(t => t > 10 && t < 500),
+    }
+}
+
+function windowSample(keys: TypedKey[]): IdentitySample {
+    const { flights, holds } = keyTimings(keys)
+    const capture = createNgramCapture()
+    for (const k of keys) recordKeystroke(capture, k)
+    const flightMean = mean(flights)
+    return {
+        flightMean,
+        flightStd:   std(flights, flightMean),
+        holdMean:    mean(holds),
+        entropy:     shannonEntropy(flights),
+        flightTimes: flights,
+        holdTimes:   holds,
+        digrams:     summariseNgrams(capture.digrams),
+        trigrams:    summariseNgrams(capture.trigrams),
+        keystrokes:  keys.length,
+    }
+}
+
+/** Every keystroke of the session as one sample, or null when it has none */
+export function sessionIdentitySample(events: SessionEvent[]): IdentitySample | null {
+    const keys = typedKeys(events)
+    return keys.length ? windowSample(keys) : null
+}
+
+/**
+ * The session's keystrokes as an enrollment-style profile, built like
+ * /enroll's buildProfile — the input to adaptive template updates
+ * (enrollmentTemplate.ts). Null when the session has no keystrokes.
+ */
+export function sessionKeystrokeProfile(events: SessionEvent[]): KeystrokeProfile | null {
+    const keys = typedKeys(events)
+    if (!keys.length) return null
+    const { flights, holds } = keyTimings(keys)
+    const capture = createNgramCapture()
+    for (const k of keys) recordKeystroke(capture, k)
+    const flightMean = mean(flights)
+    const holdMean = mean(holds)
+    return {
+        flightMean:     Math.round(flightMean),
+        flightStd:      Math.round(std(flights, flightMean)),
+        holdMean:       Math.round(holdMean),
+        holdStd:        Math.round(std(holds, holdMean)),
+        entropy:        parseFloat(shannonEntropy(flights).toFixed(2)),
+        digrams:        summariseNgrams(capture.digrams),
+        digramDownDown: summariseNgrams(capture.digramDownDown),
+        digramUpUp:     summariseNgrams(capture.digramUpUp),
+        trigrams:       summariseNgrams(capture.trigrams),
+        featureStats:   estimateFeatureStats(flights, holds),
+        wpmMin:         0,
+        wpmMax:         0,
+        sampleSize:     keys.length,
+    }
+}
+
+/** ln p(score | impostor) − ln p(score | enrolled typist) */
+function windowLlr(score: number): number {
+    const v2 = 2 * IDENTITY_SCORE_STD ** 2
+    return ((score - IDENTITY_GENUINE_MEAN) ** 2 - (score - IDENTITY_IMPOSTOR_MEAN) ** 2) / v2
+}
+
+/**
+ * Score the session's keystrokes window by window against `profile` and
+ * return the `identity` point of every window plus an `identity_drift` for
+ * every change to a typist who does not match. Sessions shorter than one
+ * window yield nothing.
+ */
+export function identityEvents(events: SessionEvent[], profile: KeystrokeProfile): SessionEvent[] {
+    const keys = typedKeys(events)
+    const out: SessionEvent[] = []
+    // Evidence for a change away from (or, once drifted, back to) the enrolled typist
+    let cusum = 0
+    let runStart = 0
+    let matched = true
+
+    for (let end = IDENTITY_WINDOW_KEYSTROKES; end <= keys.length; end += IDENTITY_WINDOW_STRIDE) {
+        const { score } = matchKeystrokeIdentity(windowSample(keys.slice(end - IDENTITY_WINDOW_KEYSTROKES, end)), profile)
+        // Windows overlap: each one only brings IDENTITY_WINDOW_STRIDE new keystrokes of evidence
+        const llr = windowLlr(score) * IDENTITY_WINDOW_STRIDE / IDENTITY_WINDOW_KEYSTROKES
+        // The first keystrokes this window added — where a run of evidence starts
+        const fresh = end === IDENTITY_WINDOW_KEYSTROKES ? 0 : end - IDENTITY_WINDOW_STRIDE
+        if (cusum === 0) runStart = fresh
+        cusum = Math.max(0, cusum + (matched ? llr : -llr))
+
+        const at = keys[end - 1].at
+        if (cusum >= IDENTITY_DRIFT_THRESHOLD) {
+            matched = !matched
+            cusum = 0
+            if (!matched) {
+                out.push({
+                    kind: 'identity_drift',
+                    at: keys[runStart].at,
+                    detectedAt: at,
+                    keystrokes: runStart + 1,
+                })
+            }
+        }
+        out.push({ kind: 'identity', at, keystrokes: end, score, llr: Math.round(llr * 100) / 100, matched })
+    }
+    return out
+}
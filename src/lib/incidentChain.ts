@@ -0,0 +1,132 @@
+/**
+ * Deep-Check · Incident hash chain
+ * =================================
+ * Append-only log of everything that happened to a session's record:
+ * alerts raised during the session, the seal written when it was scored,
+ * and every later review note or status change.
+ *
+ *   entry.hash = SHA-256( canonicalJson({ seq, at, kind, source, data, prevHash }) )
+ *   entry[0].prevHash = SHA-256("deepcheck:incidents:" + sessionId)
+ *
+ * The last entry's hash (the root) and the entry count are signed into the
+ * session certificate, so editing, reordering or dropping any entry — or
+ * moving a chain to another session — is detectable by anyone holding the
+ * certificate. Later entries extend the chain; an older certificate's root
+ * must still appear at its recorded position.
+ *
+ * Isomorphic (WebCrypto) — depends only on canonical.ts, like
+ * verifyCertificate.ts, so third parties can check a chain offline.
+ */
+
+import { canonicalJson } from './canonical'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type IncidentEntryKind =
+    | 'alert'          // raised by the scoring engine during the session
+    | 'seal'           // session scored — everything before this is the live session
+    | 'review_note'
+    | 'status_change'
+
+export type IncidentSource = 'session' | 'server' | 'dashboard' | 'api'
+
+export interface IncidentEntry {
+    /** 1-based position in the chain */
+    seq: number
+    /** ISO timestamp */
+    at: string
+    kind: IncidentEntryKind
+    source: IncidentSource
+    data: Record<string, unknown>
+    prevHash: string
+    hash: string
+}
+
+/** What a caller supplies; seq, prevHash and hash are filled in by linking */
+export type IncidentDraft = Pick<IncidentEntry, 'at' | 'kind' | 'source' | 'data'>
+
+export interface IncidentChainCheck {
+    valid: boolean
+    count: number
+    /** Hash of the last entry, null for an empty chain */
+    root: string | null
+    /** seq of the seal entry, if the session has been scored */
+    sealedAt: number | null
+    /** First entry that fails, when invalid */
+    brokenAt?: number
+    reason?: 'bad_seq' | 'bad_link' | 'bad_hash' | 'root_mismatch' | 'count_mismatch'
+}
+
+// ─── Hashing ──────────────────────────────────────────────────────────────────
+
+async function sha256Hex(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function incidentGenesis(sessionId: string): Promise<string> {
+    return sha256Hex(`deepcheck:incidents:${sessionId}`)
+}
+
+export function hashIncidentEntry(entry: Omit<IncidentEntry, 'hash'>): Promise<string> {
+    const { seq, at, kind, source, data, prevHash } = entry
+    return sha256Hex(canonicalJson({ seq, at, kind, source, data, prevHash }))
+}
+
+/** Turn drafts into entries that extend a chain whose last entry is `head` */
+export async function linkIncidentEntries(
+    sessionId: string,
+    head: IncidentEntry | null,
+    drafts: IncidentDraft[]
+): Promise<IncidentEntry[]> {
+    const linked: IncidentEntry[] = []
+    let seq = head?.seq ?? 0
+    let prevHash = head?.hash ?? await incidentGenesis(sessionId)
+    for (const draft of drafts) {
+        const unsigned = { seq: ++seq, at: draft.at, kind: draft.kind, source: draft.source, data: draft.data, prevHash }
+        const hash = await hashIncidentEntry(unsigned)
+        linked.push({ ...unsigned, hash })
+        prevHash = hash
+    }
+    return linked
+}
+
+// ─── Verify ───────────────────────────────────────────────────────────────────
+
+/**
+ * Recompute every link. With `expected` (root and count from a certificate)
+ * the chain must also contain that root at that position — entries appended
+ * after the certificate was issued are allowed.
+ */
+export async function verifyIncidentChain(
+    sessionId: string,
+    entries: IncidentEntry[],
+    expected?: { root: string | null; count: number }
+): Promise<IncidentChainCheck> {
+    const sealed = entries.find(e => e.kind === 'seal')
+    const summary = {
+        count:    entries.length,
+        root:     entries.at(-1)?.hash ?? null,
+        sealedAt: sealed?.seq ?? null,
+    }
+
+    let prevHash = await incidentGenesis(sessionId)
+    for (let i = 0; i < entries.length; i++) {
+        const e = entries[i]
+        if (e.seq !== i + 1) return { ...summary, valid: false, brokenAt: i + 1, reason: 'bad_seq' }
+        if (e.prevHash !== prevHash) return { ...summary, valid: false, brokenAt: e.seq, reason: 'bad_link' }
+        if (await hashIncidentEntry(e) !== e.hash) return { ...summary, valid: false, brokenAt: e.seq, reason: 'bad_hash' }
+        prevHash = e.hash
+    }
+
+    if (expected) {
+        if (expected.count > entries.length) {
+            return { ...summary, valid: false, reason: 'count_mismatch' }
+        }
+        const atPosition = expected.count === 0 ? null : entries[expected.count - 1].hash
+        if (atPosition !== expected.root) {
+            return { ...summary, valid: false, brokenAt: expected.count, reason: 'root_mismatch' }
+        }
+    }
+    return { ...summary, valid: true }
+}
@@ -0,0 +1,230 @@
+/**
+ * Deep-Check · Incident model
+ * ============================
+ * Every alert raised during a session is an `Incident`: a stable code from
+ * INCIDENT_CATALOG plus severity, penalty, when it happened (ISO and
+ * session-relative), the modality that observed it and the detector reading
+ * behind it. UI and reports decide what to show from `code` — the `message`
+ * is only the human-readable detail.
+ *
+ * Rows written before this model stored alerts as plain strings
+ * ("[14:30] Tab Switch Detected") or as untyped objects; toIncident()
+ * classifies those so every reader sees the same shape.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import type { SessionEventKind } from './scoring'
+
+// ─── Codes ────────────────────────────────────────────────────────────────────
+
+export type IncidentModality =
+    | 'camera'      // face presence / head pose
+    | 'gaze'
+    | 'eyes'        // blinks and lid closure
+    | 'liveness'    // anti-deepfake challenges
+    | 'keyboard'
+    | 'clipboard'   // paste, drag & drop, injected content
+    | 'window'      // tab / focus / display
+    | 'ml'
+    | 'reviewer'    // legacy reviewer notes stored as alerts
+    | 'unknown'
+
+export type IncidentSeverity = 'low' | 'medium' | 'high'
+
+export const INCIDENT_CATALOG = {
+    HEAD_TURN:             { label: 'Head turned away',           modality: 'camera' },
+    HEAD_POSE:             { label: 'Head pose anomaly',          modality: 'camera' },
+    MULTIPLE_FACES:        { label: 'Multiple faces in frame',    modality: 'camera' },
+    FACE_LOST:             { label: 'Candidate left camera view', modality: 'camera' },
+    FACE_IDENTITY_MISMATCH: { label: 'Face does not match enrollment', modality: 'camera' },
+    GAZE_OFF_SCREEN:       { label: 'Eye gaze off screen',        modality: 'gaze' },
+    BLINK_RATE_ANOMALY:    { label: 'Blink rate anomaly',         modality: 'eyes' },
+    PROLONGED_EYE_CLOSURE: { label: 'Eyes closed',                modality: 'eyes' },
+    LIGHTING_FAIL:         { label: 'Lighting challenge failed',  modality: 'liveness' },
+    SACCADE_TOO_SMOOTH:    { label: 'No micro-saccades',          modality: 'liveness' },
+    BLINK_EDGE_ARTIFACT:   { label: 'Blink eyelid artifact',      modality: 'liveness' },
+    OCULO_MANUAL_DESYNC:   { label: 'Oculo-manual desync',        modality: 'liveness' },
+    CROSS_MODAL_TYPING:    { label: 'Typing while looking away',  modality: 'keyboard' },
+    CLIPBOARD_PASTE:       { label: 'Clipboard paste',            modality: 'clipboard' },
+    CONTENT_INJECTION:     { label: 'Programmatic content injection', modality: 'clipboard' },
+    DRAG_DROP:             { label: 'Drag & drop',                modality: 'clipboard' },
+    AI_BURST:              { label: 'Inhuman keystroke burst',    modality: 'keyboard' },
+    TYPING_INCONSISTENCY:  { label: 'Typing anomaly',             modality: 'keyboard' },
+    RHYTHM_SHIFT:          { label: 'Typing rhythm shift',        modality: 'keyboard' },
+    IDENTITY_DRIFT:        { label: 'Typist no longer matches enrollment', modality: 'keyboard' },
+    LONG_PAUSE:            { label: 'Extended pause',             modality: 'keyboard' },
+    BACKSPACE_ANOMALY:     { label: 'Backspace pattern anomaly',  modality: 'keyboard' },
+    KEYSTROKE_PERIODICITY: { label: 'Periodic keystroke rhythm',  modality: 'keyboard' },
+    NO_TYPING_FATIGUE:     { label: 'No typing fatigue',          modality: 'keyboard' },
+    AI_RISK_ELEVATED:      { label: 'AI probability elevated',    modality: 'keyboard' },
+    ML_BOT_DETECTION:      { label: 'ML bot detection',           modality: 'ml' },
+    TAB_SWITCH:            { label: 'Tab switch',                 modality: 'window' },
+    FOCUS_LOST:            { label: 'Window focus lost',          modality: 'window' },
+    EXTENDED_DISPLAY:      { label: 'Extended display',           modality: 'window' },
+    LEGACY_REVIEW_NOTE:    { label: 'Reviewer note',              modality: 'reviewer' },
+    UNCLASSIFIED:          { label: 'Unclassified alert',         modality: 'unknown' },
+} as const satisfies Record<string, { label: string; modality: IncidentModality }>
+
+export type IncidentCode = keyof typeof INCIDENT_CATALOG
+
+/** Codes a report groups under one forensic heading */
+export const INCIDENT_GROUPS = {
+    keystrokeDna: ['TYPING_INCONSISTENCY', 'RHYTHM_SHIFT', 'BACKSPACE_ANOMALY', 'KEYSTROKE_PERIODICITY', 'NO_TYPING_FATIGUE'],
+    clipboard:    ['CLIPBOARD_PASTE', 'CONTENT_INJECTION', 'DRAG_DROP'],
+    crossModal:   ['CROSS_MODAL_TYPING'],
+} as const satisfies Record<string, readonly IncidentCode[]>
+
+// ─── Incident ─────────────────────────────────────────────────────────────────
+
+export interface IncidentDetector {
+    /** Event kind that raised it, or 'legacy' for migrated rows */
+    event: SessionEventKind | 'legacy'
+    /** Sub-type of the event (e.g. 'paste', 'lighting_challenge_fail') */
+    type?: string
+    /** Raw readings behind the decision (chars pasted, z-score, direction…) */
+    values?: Record<string, string | number | boolean>
+}
+
+export interface Incident {
+    /** Sequential within the session, starting at 1 */
+    id: number
+    code: IncidentCode
+    severity: IncidentSeverity
+    penalty: number
+    /** ISO time of the observing event */
+    at: string
+    /** ms since the session's first event; null when unknown (legacy rows) */
+    offsetMs: number | null
+    modality: IncidentModality
+    /** Candidate-local clock time shown in the UI, e.g. "14:30:05" */
+    timestamp: string
+    /** Human-readable detail, e.g. "[14:30:05] Clipboard paste — 320 chars" */
+    message: string
+    detector: IncidentDetector
+    /** Evidence capture this incident asked for (label on the snapshot) */
+    captureReason?: string
+    /** Index into Assessment.evidence of the snapshot taken for it */
+    evidenceRef?: number
+}
+
+export function incidentLabel(code: IncidentCode): string {
+    return INCIDENT_CATALOG[code]?.label ?? INCIDENT_CATALOG.UNCLASSIFIED.label
+}
+
+export function hasIncident(incidents: readonly Incident[], codes: readonly IncidentCode[]): boolean {
+    return incidents.some(i => codes.includes(i.code))
+}
+
+// ─── Legacy alerts ────────────────────────────────────────────────────────────
+
+/** Object alerts persisted before incidents had codes */
+interface LegacyAlertObject {
+    id?: number
+    at?: number | string
+    timestamp?: string
+    message?: string
+    severity?: IncidentSeverity
+    penalty?: number
+    captureReason?: string
+}
+
+// First match wins — covers current messages and the older browser wording
+const LEGACY_PATTERNS: [RegExp, IncidentCode][] = [
+    [/^\[(manual review|api review)/i,                    'LEGACY_REVIEW_NOTE'],
+    [/tab switch/i,                                       'TAB_SWITCH'],
+    [/focus lost|switched application/i,                  'FOCUS_LOST'],
+    [/extended display|dual monitor/i,                    'EXTENDED_DISPLAY'],
+    [/multiple faces/i,                                   'MULTIPLE_FACES'],
+    [/left camera view|face lost|no face/i,               'FACE_LOST'],
+    [/does not match the enrolled/i,                      'FACE_IDENTITY_MISMATCH'],
+    [/typist changed/i,                                   'IDENTITY_DRIFT'],
+    [/head turned/i,                                      'HEAD_TURN'],
+    [/head pose|head tilt/i,                              'HEAD_POSE'],
+    [/cross-modal/i,                                      'CROSS_MODAL_TYPING'],
+    [/eye gaze|looking (left|right|up|down)/i,            'GAZE_OFF_SCREEN'],
+    [/blink rate/i,                                       'BLINK_RATE_ANOMALY'],
+    [/eyes closed/i,                                      'PROLONGED_EYE_CLOSURE'],
+    [/lighting challenge/i,                               'LIGHTING_FAIL'],
+    [/micro-saccade|gaze too smooth/i,                    'SACCADE_TOO_SMOOTH'],
+    [/eyelid artifact|blink edge/i,                       'BLINK_EDGE_ARTIFACT'],
+    [/oculo-manual/i,                                     'OCULO_MANUAL_DESYNC'],
+    [/drag & drop|drag and drop/i,                        'DRAG_DROP'],
+    [/content injection/i,                                'CONTENT_INJECTION'],
+    [/paste/i,                                            'CLIPBOARD_PASTE'],
+    [/ai burst|keystroke burst/i,                         'AI_BURST'],
+    [/rhythm shift/i,                                     'RHYTHM_SHIFT'],
+    [/typing anomaly|inconsistency/i,                     'TYPING_INCONSISTENCY'],
+    [/extended pause|long pause/i,                        'LONG_PAUSE'],
+    [/backspace/i,                                        'BACKSPACE_ANOMALY'],
+    [/periodic/i,                                         'KEYSTROKE_PERIODICITY'],
+    [/fatigue/i,                                          'NO_TYPING_FATIGUE'],
+    [/ml bot/i,                                           'ML_BOT_DETECTION'],
+    [/ai probability/i,                                   'AI_RISK_ELEVATED'],
+]
+
+/** Default severity / penalty for legacy strings, which carried neither */
+const LEGACY_SEVERITY: Partial<Record<IncidentCode, IncidentSeverity>> = {
+    TAB_SWITCH: 'high', MULTIPLE_FACES: 'high', LIGHTING_FAIL: 'high', AI_BURST: 'high',
+    CONTENT_INJECTION: 'high', DRAG_DROP: 'high', RHYTHM_SHIFT: 'high', SACCADE_TOO_SMOOTH: 'high',
+    LEGACY_REVIEW_NOTE: 'low', EXTENDED_DISPLAY: 'low', LONG_PAUSE: 'low', HEAD_POSE: 'low',
+}
+
+export function classifyLegacyMessage(message: string): IncidentCode {
+    return LEGACY_PATTERNS.find(([re]) => re.test(message))?.[1] ?? 'UNCLASSIFIED'
+}
+
+/** "[6:04:35 p.m.] …" / "[14:30] …" → "18:04:35" / "14:30:00" */
+function parseLegacyClock(message: string): string | null {
+    const m = message.match(/^\[(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap])?\.?\s*m?\.?\]/i)
+    if (!m) return null
+    let hours = Number(m[1])
+    const meridiem = m[4]?.toLowerCase()
+    if (meridiem === 'p' && hours < 12) hours += 12
+    if (meridiem === 'a' && hours === 12) hours = 0
+    return `${String(hours).padStart(2, '0')}:${m[2]}:${m[3] ?? '00'}`
+}
+
+export function isIncident(alert: unknown): alert is Incident {
+    const a = alert as Incident | null
+    return !!a && typeof a === 'object' && typeof a.code === 'string' && a.code in INCIDENT_CATALOG
+        && typeof a.at === 'string' && !!a.detector
+}
+
+/**
+ * Normalize one stored alert. Incidents pass through; legacy strings and
+ * objects are classified from their text. Their clock time is combined with
+ * the session date (`date`, YYYY-MM-DD) as UTC — the zone was never stored.
+ */
+export function toIncident(alert: unknown, index: number, date: string): Incident {
+    if (isIncident(alert)) return alert
+
+    const legacy: LegacyAlertObject = typeof alert === 'string' ? { message: alert } : (alert as LegacyAlertObject) ?? {}
+    const message = legacy.message ?? String(alert)
+    const code = classifyLegacyMessage(message)
+    const clock = parseLegacyClock(message) ?? (legacy.timestamp ? parseLegacyClock(`[${legacy.timestamp}]`) : null)
+    const at = typeof legacy.at === 'number'
+        ? new Date(legacy.at).toISOString()
+        : typeof legacy.at === 'string'
+            ? legacy.at
+            : `${date}T${clock ?? '00:00:00'}.000Z`
+
+    return {
+        id:          legacy.id ?? index + 1,
+        code,
+        severity:    legacy.severity ?? LEGACY_SEVERITY[code] ?? 'medium',
+        penalty:     legacy.penalty ?? 0,
+        at,
+        offsetMs:    null,
+        modality:    INCIDENT_CATALOG[code].modality,
+        timestamp:   legacy.timestamp ?? clock ?? '',
+        message,
+        detector:    { event: 'legacy' },
+        ...(legacy.captureReason ? { captureReason: legacy.captureReason } : {}),
+    }
+}
+
+/** Normalize a stored alerts array, keeping order and length */
+export function toIncidents(alerts: unknown, date: string): Incident[] {
+    return Array.isArray(alerts) ? alerts.map((a, i) => toIncident(a, alerts.length - i - 1, date)) : []
+}
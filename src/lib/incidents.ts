@@ -0,0 +1,110 @@
+/**
+ * Deep-Check · Incident log (server-side)
+ * ========================================
+ * Writes to a session's hash-chained incident log (see incidentChain.ts) and
+ * keeps `incidentRoot` / `incidentCount` on the Assessment in step, so the
+ * next issueCertificate() signs the new root.
+ *
+ *   finalizeSession   → one 'alert' entry per session alert, then a 'seal'
+ *   review (PATCH)    → 'status_change' and/or 'review_note'
+ *
+ * Entries are only ever appended; nothing here updates or deletes one.
+ */
+
+import { Assessment, appendIncidentEntries, getIncidentEntries } from './db'
+import {
+    IncidentChainCheck,
+    IncidentDraft,
+    IncidentEntry,
+    IncidentSource,
+    linkIncidentEntries,
+    verifyIncidentChain,
+} from './incidentChain'
+import type { Incident } from './incidentModel'
+
+/**
+ * Link `drafts` onto the stored chain, persist them and return the
+ * assessment with its new root. The caller re-issues the certificate and
+ * saves the assessment.
+ */
+export async function appendIncidents<T extends Pick<Assessment, 'id'>>(
+    a: T,
+    drafts: IncidentDraft[]
+): Promise<T & Pick<Assessment, 'incidentRoot' | 'incidentCount'>> {
+    const chain = await getIncidentEntries(a.id)
+    if (drafts.length === 0) {
+        return { ...a, incidentRoot: chain.at(-1)?.hash, incidentCount: chain.length }
+    }
+    const linked = await linkIncidentEntries(a.id, chain.at(-1) ?? null, drafts)
+    await appendIncidentEntries(a.id, linked)
+    return { ...a, incidentRoot: linked.at(-1)!.hash, incidentCount: chain.length + linked.length }
+}
+
+// ─── Drafts ───────────────────────────────────────────────────────────────────
+
+/** Session alerts as log entries, oldest first (state.alerts is newest first) */
+export function sessionAlertDrafts(alerts: Incident[]): IncidentDraft[] {
+    return [...alerts].reverse().map(al => ({
+        at:     al.at,
+        kind:   'alert',
+        source: 'session',
+        data:   {
+            incidentId: al.id,
+            code:       al.code,
+            severity:   al.severity,
+            penalty:    al.penalty,
+            offsetMs:   al.offsetMs,
+            message:    al.message,
+        },
+    }))
+}
+
+export function sealDraft(a: Pick<Assessment, 'score' | 'status' | 'autoFlagged'>, alertCount: number, now = new Date()): IncidentDraft {
+    return {
+        at:     now.toISOString(),
+        kind:   'seal',
+        source: 'server',
+        data:   { score: a.score, status: a.status, autoFlagged: a.autoFlagged ?? false, alertCount },
+    }
+}
+
+/** Entries for a reviewer action; empty when nothing changed */
+export function reviewDrafts(
+    change: { previousStatus: Assessment['status']; status: Assessment['status']; reviewNote?: string },
+    source: Extract<IncidentSource, 'dashboard' | 'api'>,
+    now = new Date()
+): IncidentDraft[] {
+    const drafts: IncidentDraft[] = []
+    if (change.status !== change.previousStatus) {
+        drafts.push({ at: now.toISOString(), kind: 'status_change', source, data: { from: change.previousStatus, to: change.status } })
+    }
+    if (change.reviewNote) {
+        drafts.push({ at: now.toISOString(), kind: 'review_note', source, data: { note: change.reviewNote } })
+    }
+    return drafts
+}
+
+// ─── Read ─────────────────────────────────────────────────────────────────────
+
+export interface IncidentLog {
+    entries: IncidentEntry[]
+    check: IncidentChainCheck
+    /** Root and count the check was held to — the certificate's when it has them */
+    anchor: { root: string | null; count: number; source: 'certificate' | 'record' } | null
+}
+
+/**
+ * Load and verify a session's log. The chain must contain the root signed
+ * into the certificate (or, for uncertified rows, the one on the record).
+ */
+export async function getIncidentLog(a: Assessment): Promise<IncidentLog> {
+    const entries = await getIncidentEntries(a.id)
+    const payload = a.certificate?.payload
+    const anchor: IncidentLog['anchor'] = payload?.v === 2
+        ? { root: payload.incidentRoot ?? null, count: payload.incidentCount ?? 0, source: 'certificate' }
+        : a.incidentCount !== undefined
+            ? { root: a.incidentRoot ?? null, count: a.incidentCount, source: 'record' }
+            : null
+    const check = await verifyIncidentChain(a.id, entries, anchor ?? undefined)
+    return { entries, check, anchor }
+}
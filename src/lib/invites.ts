@@ -0,0 +1,139 @@
+/**
+ * Deep-Check · Candidate invitations (server-side)
+ * ================================================
+ * An integrator pre-creates a session with POST /api/v1/sessions, then asks
+ * for an invite. The candidate opens /interview?invite=<token>; the live
+ * session takes the pre-created id, so the result lands on that record (and
+ * its externalRef) with the invite's name, email, role, policy and
+ * enrollment profile.
+ *
+ * Token: base64url(JSON { iid, sid, exp }) + '.' + base64url(HMAC-SHA256).
+ * The signature makes tokens unguessable and lets a forged or expired link
+ * be refused before touching storage; the stored Invite makes it single-use.
+ */
+
+import crypto from 'crypto'
+import { Assessment, EnrollmentContext, Invite, claimInvite, getInvite, getLiveSession, saveInvite } from './db'
+import { profileForContext } from './enrollment'
+import { getPolicy, resolvePolicy } from './policies'
+import type { ScoringPolicy } from './policy'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** Development-only default; production refuses to sign or check invites without a configured secret */
+const DEV_INVITE_SECRET = 'dev-invite-secret'
+
+export const DEFAULT_INVITE_TTL_S = 7 * 24 * 3600
+export const MAX_INVITE_TTL_S     = 30 * 24 * 3600
+
+// ─── Tokens ───────────────────────────────────────────────────────────────────
+
+interface InviteClaims {
+    /** Invite id */
+    iid: string
+    /** Session id */
+    sid: string
+    /** Expiry, epoch seconds */
+    exp: number
+}
+
+function inviteSecret(): string {
+    const secret = process.env.DEEPCHECK_INVITE_SECRET ?? process.env.DEEPCHECK_ADMIN_SECRET
+    if (secret) return secret
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('DEEPCHECK_INVITE_SECRET (or DEEPCHECK_ADMIN_SECRET) must be set in production')
+    }
+    return DEV_INVITE_SECRET
+}
+
+function sign(body: string): string {
+    return crypto.createHmac('sha256', inviteSecret()).update(`invite:${body}`).digest('base64url')
+}
+
+function encodeToken(claims: InviteClaims): string {
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url')
+    return `${body}.${sign(body)}`
+}
+
+function decodeToken(token: string): InviteClaims | null {
+    const [body, sig, ...rest] = token.split('.')
+    if (!body || !sig || rest.length) return null
+    const expected = Buffer.from(sign(body))
+    const given = Buffer.from(sig)
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null
+    try {
+        const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+        return typeof claims.iid === 'string' && typeof claims.sid === 'string' && typeof claims.exp === 'number'
+            ? claims
+            : null
+    } catch {
+        return null
+    }
+}
+
+// ─── Issue ────────────────────────────────────────────────────────────────────
+
+export interface CreateInviteInput {
+    candidateName?: string
+    candidateEmail?: string
+    role?: string
+    policyId?: string
+    enrollmentProfileId?: string
+    /** Seconds until the link expires (default 7 days, max 30) */
+    expiresIn?: number
+}
+
+/** Issue an invite for `session`; fields left out default to the session's own */
+export async function createInvite(
+    session: Assessment,
+    apiKeyId: string,
+    input: CreateInviteInput
+): Promise<{ invite: Invite; token: string }> {
+    const ttl = Math.min(MAX_INVITE_TTL_S, Math.max(60, Math.round(input.expiresIn ?? DEFAULT_INVITE_TTL_S)))
+    const now = Date.now()
+    const invite: Invite = {
+        id:                  `inv_${crypto.randomBytes(12).toString('hex')}`,
+        sessionId:           session.id,
+        apiKeyId,
+        candidateName:       input.candidateName?.trim() || session.candidateName || 'Remote Candidate',
+        candidateEmail:      input.candidateEmail?.trim().toLowerCase() || session.candidateEmail,
+        role:                input.role?.trim() || session.role || 'Software Engineer',
+        policyId:            input.policyId,
+        enrollmentProfileId: input.enrollmentProfileId ?? session.enrollmentProfileId,
+        createdAt:           new Date(now).toISOString(),
+        expiresAt:           new Date(now + ttl * 1000).toISOString(),
+    }
+    await saveInvite(invite)
+    return { invite, token: encodeToken({ iid: invite.id, sid: invite.sessionId, exp: Math.floor(now / 1000) + ttl }) }
+}
+
+// ─── Redeem ───────────────────────────────────────────────────────────────────
+
+export type RedeemResult =
+    | { ok: true; invite: Invite; policy: ScoringPolicy; enrollmentProfileId?: string }
+    | { ok: false; reason: 'invalid' | 'expired' | 'used' }
+
+/**
+ * Check and consume an invite. Succeeds once per invite; the caller opens
+ * the live session with the returned details. `context` is the live
+ * typing's (null when unknown), used to pick an email-only invite's template.
+ */
+export async function redeemInvite(token: string, context: EnrollmentContext | null): Promise<RedeemResult> {
+    const claims = decodeToken(token)
+    if (!claims) return { ok: false, reason: 'invalid' }
+    if (claims.exp * 1000 <= Date.now()) return { ok: false, reason: 'expired' }
+
+    const invite = await getInvite(claims.iid)
+    if (!invite || invite.sessionId !== claims.sid) return { ok: false, reason: 'invalid' }
+    if (invite.usedAt || await getLiveSession(invite.sessionId)) return { ok: false, reason: 'used' }
+    if (!(await claimInvite(invite.id, new Date().toISOString()))) return { ok: false, reason: 'used' }
+
+    const policy = (invite.policyId && await getPolicy(invite.policyId))
+        || await resolvePolicy({ role: invite.role })
+    // An email-only invite picks up whatever enrollment the candidate has done
+    // since: the template of the live context, else the most reliable to adjust
+    const enrollmentProfileId = invite.enrollmentProfileId
+        ?? (invite.candidateEmail ? (await profileForContext(invite.candidateEmail, context))?.enrollment.id : undefined)
+
+    return { ok: true, invite, policy, enrollmentProfileId }
+}
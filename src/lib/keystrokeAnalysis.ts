@@ -0,0 +1,580 @@
+/**
+ * Deep-Check · Keystroke analysis
+ * ===============================
+ * The live editor's biometric pipeline: calibration baseline, flight
+ * z-scores, per-key hold and per-digram flight profiles (Welford updates),
+ * rhythm, periodicity, fatigue, Backspace timing, bursts and the heuristic
+ * AI score. CodeEditor only captures key timestamps and renders metrics;
+ * the analysis runs in keystrokeAnalysis.worker.ts so none of it delays
+ * the next keystroke (or the timestamps it is measured by).
+ *
+ * The worker and the in-page fallback (browsers without Workers) share
+ * createAnalysisHost, so both speak the same message protocol.
+ * Isomorphic — no browser or Node APIs. Times are the editor's
+ * performance.now() stamps carried on each stroke.
+ */
+
+import type { BiometricEvent, FingerGroup } from '@/components/CodeEditor'
+import type { RawSessionData } from './biometricFeatures'
+import {
+    excessKurtosis, fatigueRate, mean, periodicityScore, shannonEntropy,
+    skewness, std, velocityGradient,
+} from './biometricStats'
+import { createNgramCapture, KeyStroke, ngramKey, ngramSamples, recordKeystroke } from './keystrokeNgrams'
+import type { LiveBotDetector, LiveBotHandlers } from './liveBotDetection'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AnalysisMetrics {
+    avgHold: number
+    avgFlight: number
+    entropy: number
+    rhythmStability: number
+    skewness: number
+    kurtosis: number
+    periodicity: number
+    fatigue: number
+    isCalibrating: boolean
+    calibrationCount: number
+    burstCount: number
+    longPauseCount: number
+    inconsistencyCount: number
+    aiScore: number
+    /** Last HISTORY_DOTS keystrokes, oldest first: true where the flight is a baseline anomaly */
+    history: boolean[]
+}
+
+interface BiometricBaseline {
+    mean: number
+    stdDev: number
+    digramMap: Map<string, { mean: number; stdDev: number; count: number }>
+    // Key-specific profiles
+    keyProfiles: Map<string, { holdMean: number; holdStd: number; count: number }>
+}
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+// Keys that are NOT counted in the burst character window.
+// Enter causes Monaco to auto-insert indentation (false content injection) and
+// is naturally repeated when navigating across lines — it should not count toward
+// the "inhuman burst" threshold, which is designed to detect copy-injection.
+const BURST_EXCLUDED_KEYS = new Set([
+    'Enter', 'Backspace', 'Delete', 'Tab',
+])
+
+const CALIBRATION_FLIGHTS = 30
+const RECENT_FLIGHTS      = 60
+const RECENT_KEYSTROKES   = 100
+const HISTORY_DOTS        = 30
+/** Display metrics are posted to the page at most this often */
+export const METRICS_INTERVAL_MS = 250
+
+// ─── Finger group mapping (QWERTY) ───────────────────────────────────────────
+// Maps keys to approximate finger used — different fingers have different biomechanics
+
+const FINGER_MAP: Record<string, FingerGroup> = {
+    // Left pinky
+    'q':'left_pinky','a':'left_pinky','z':'left_pinky','1':'left_pinky','`':'left_pinky',
+    // Left ring
+    'w':'left_ring','s':'left_ring','x':'left_ring','2':'left_ring',
+    // Left middle
+    'e':'left_middle','d':'left_middle','c':'left_middle','3':'left_middle',
+    // Left index
+    'r':'left_index','f':'left_index','v':'left_index','4':'left_index',
+    't':'left_index','g':'left_index','b':'left_index','5':'left_index',
+    // Thumbs (space, enter)
+    ' ':'thumbs','Enter':'thumbs',
+    // Right index
+    'y':'right_index','h':'right_index','n':'right_index','6':'right_index',
+    'u':'right_index','j':'right_index','m':'right_index','7':'right_index',
+    // Right middle
+    'i':'right_middle','k':'right_middle',',':'right_middle','8':'right_middle',
+    // Right ring
+    'o':'right_ring','l':'right_ring','.':'right_ring','9':'right_ring',
+    // Right pinky
+    'p':'right_pinky',';':'right_pinky','/':'right_pinky','0':'right_pinky',
+    '[':'right_pinky',']':'right_pinky','\\':'right_pinky','\'':'right_pinky',
+    '-':'right_pinky','=':'right_pinky','Backspace':'right_pinky',
+}
+
+function getFingerGroup(key: string): FingerGroup | undefined {
+    return FINGER_MAP[key.toLowerCase()] ?? FINGER_MAP[key]
+}
+
+// ─── Statistical helpers ──────────────────────────────────────────────────────
+// Skewness, kurtosis, entropy, periodicity, velocity gradient and fatigue come
+// from biometricStats.ts — the same definitions the ONNX model was trained on.
+
+/** Mean and population std, with std floored at 1 so it can divide z-scores */
+function computeStats(values: number[]): { mean: number; stdDev: number } {
+    if (values.length === 0) return { mean: 0, stdDev: 1 }
+    const m = mean(values)
+    return { mean: m, stdDev: std(values, m) || 1 }
+}
+
+function zScore(value: number, mean: number, stdDev: number): number {
+    return Math.abs((value - mean) / (stdDev || 1))
+}
+
+// ─── Backspace correction analysis ───────────────────────────────────────────
+// Humans make typos and correct them. After a typo they press Backspace.
+// The latency distribution of [error_key → Backspace] is characteristic.
+// Bots either never use Backspace, or use it with inhuman uniformity.
+
+interface BackspaceRecord {
+    prevKey: string
+    latency: number   // ms between prev key release and Backspace press
+}
+
+// ─── AI Score (enhanced — 9 signals) ─────────────────────────────────────────
+// Now includes skewness, kurtosis, periodicity, gradient, backspace patterns.
+// Fallback only: once the ONNX model loads (liveBotDetection.ts), the live
+// AI score comes from it, window by window.
+
+function estimateAIScore(
+    flights: number[],
+    holds: number[],
+    backspaceLatencies: number[],
+    allFlights: number[]
+): number {
+    if (flights.length < 20) return 0
+
+    const { mean: flightMean, stdDev: flightStd } = computeStats(flights)
+    const { stdDev: holdStd } = computeStats(holds)
+    const entropy     = shannonEntropy(flights)
+    const skew        = skewness(flights)
+    const kurtosis    = excessKurtosis(flights)
+    const periodicity = periodicityScore(flights)
+    const gradient    = velocityGradient(flights)
+    const fatigue     = fatigueRate(allFlights)
+
+    let score = 0
+
+    // Signal 1: Physically impossible gaps < 12ms (neuro-motor minimum ~15ms)
+    const impossiblyFast = flights.filter(f => f > 0 && f < 12).length / flights.length
+    if (impossiblyFast > 0.10) score += Math.round(impossiblyFast * 60)
+
+    // Signal 2: Robotically uniform flight time (stdDev < 8ms is inhuman)
+    if (flightStd < 8)  score += 40
+    else if (flightStd < 14) score += 18
+
+    // Signal 3: Hold time too uniform (stdDev < 5ms)
+    if (holdStd < 5)  score += 25
+    else if (holdStd < 10) score += 10
+
+    // Signal 4: LOW entropy = all keystrokes at the same pace (macro-like)
+    if (entropy < 1.5) score += 20
+    else if (entropy < 2.0) score += 8
+
+    // Signal 5: Autocomplete pattern — very slow mean with low variance
+    if (flightMean > 600 && flightStd < 25) score += 15
+
+    // Signal 6: Skewness anomaly
+    // Human right-skewed: skewness 0.5–2.5. Near-zero or negative = suspicious.
+    if (Math.abs(skew) < 0.15) score += 18         // perfectly symmetric = bot
+    else if (skew < 0) score += 10                  // left-skewed = very unusual for humans
+
+    // Signal 7: Kurtosis anomaly
+    // Bots produce leptokurtic distributions (spike at one speed).
+    // Excess kurtosis > 5 with low stdDev is a strong bot signature.
+    if (kurtosis > 5 && flightStd < 20) score += 15
+    else if (kurtosis > 3 && flightStd < 15) score += 8
+
+    // Signal 8: FFT periodicity — dominant frequency > 55% of spectral power
+    if (periodicity > 55) score += 20
+    else if (periodicity > 40) score += 10
+
+    // Signal 9: No velocity gradient (bots don't accelerate or decelerate)
+    // Humans always have |gradient| > 0.05 in natural typing (they warm up or tire)
+    if (Math.abs(gradient) < 0.03) score += 10
+
+    // Signal 10: No fatigue (bots have slope ≈ 0 over entire session)
+    if (allFlights.length >= 50 && Math.abs(fatigue) < 0.1) score += 8
+
+    // Signal 11: Backspace patterns
+    if (backspaceLatencies.length > 0) {
+        const { stdDev: bsStd } = computeStats(backspaceLatencies)
+        // Zero backspaces in long session is suspicious (unless perfect typist)
+        if (allFlights.length > 80 && backspaceLatencies.length === 0) score += 10
+        // Inhuman uniformity in Backspace corrections
+        if (backspaceLatencies.length >= 3 && bsStd < 10) score += 12
+    } else if (allFlights.length > 80) {
+        // No corrections in 80+ keystrokes — unusual for humans
+        score += 8
+    }
+
+    return Math.min(100, score)
+}
+
+// ─── Analyzer ─────────────────────────────────────────────────────────────────
+
+export interface KeystrokeAnalyzer {
+    /** Analyse one keystroke (already filtered by the editor); returns the events it raised, in order */
+    keystroke(stroke: KeyStroke): BiometricEvent[]
+    /** While the ONNX model scores windows the heuristic AI score is off; `aiScore` shows the model's */
+    setModelScoring(active: boolean): void
+    setAiScore(aiScore: number): void
+    metrics(): AnalysisMetrics
+    /** Everything captured so far, for end-of-session ML scoring */
+    sessionData(durationMs: number): RawSessionData
+}
+
+export function createKeystrokeAnalyzer(opts: { onBurst?: (at: number) => void } = {}): KeystrokeAnalyzer {
+    let lastRelease = 0
+    let lastKey = ''
+    let lastChar: { key: string; releaseTime: number } | null = null
+    let baseline: BiometricBaseline | null = null
+    let modelScoring = false
+    let lastBurst = 0
+    // Periodicity / FFT — fire at most every 5s
+    let lastPeriodicityCheck = 0
+    // Fatigue — fire at most every 10s
+    let lastFatigueCheck = 0
+    let charWindow: number[] = []
+    const calibrationPool: number[] = []
+    const recentFlights: number[] = []
+    const allFlights: number[] = []    // full session — for fatigue
+    const allHolds: number[] = []      // full session holds
+    const recent: { holdTime: number; flightTime: number }[] = []
+    const backspaceRecords: BackspaceRecord[] = []
+    // Digram / trigram timings (same capture as enrollment)
+    const ngrams = createNgramCapture()
+
+    const m: Omit<AnalysisMetrics, 'history' | 'isCalibrating'> = {
+        avgHold: 0, avgFlight: 0, entropy: 0, rhythmStability: 100,
+        skewness: 0, kurtosis: 0, periodicity: 0, fatigue: 0, calibrationCount: 0,
+        burstCount: 0, longPauseCount: 0, inconsistencyCount: 0, aiScore: 0,
+    }
+
+    function keystroke({ key, down: pressTime, up: now }: KeyStroke): BiometricEvent[] {
+        const events: BiometricEvent[] = []
+        const holdTime   = now - pressTime
+        const flightTime = lastRelease > 0 ? pressTime - lastRelease : 0
+        const digramKey  = ngramKey([lastKey, key])
+        const fingerGroup = getFingerGroup(key)
+
+        // ── Backspace correction analysis ─────────────────────────────────────
+        // When we see a Backspace, compute latency from the LAST char key release
+        if (key === 'Backspace' && lastChar) {
+            const bsLatency = pressTime - lastChar.releaseTime
+            if (bsLatency > 0 && bsLatency < 5000) {   // reasonable correction window
+                backspaceRecords.push({ prevKey: lastChar.key, latency: bsLatency })
+
+                // Check for anomalies in backspace timing
+                if (backspaceRecords.length >= 3) {
+                    const latencies = backspaceRecords.slice(-10).map(r => r.latency)
+                    const { stdDev: bsStd, mean: bsMean } = computeStats(latencies)
+                    // Inhuman uniformity: all corrections at exact same latency
+                    if (bsStd < 8 && latencies.length >= 3) {
+                        events.push({
+                            type: 'backspace_anomaly',
+                            backspaceLatency: bsMean,
+                            detail: `Backspace stdDev ${bsStd.toFixed(1)}ms (inhuman uniformity)`,
+                            timestamp: now
+                        })
+                    }
+                }
+            }
+        }
+
+        lastRelease = now
+        recordKeystroke(ngrams, { key, down: pressTime, up: now })
+
+        // Update lastChar only for non-Backspace typing
+        if (key !== 'Backspace') {
+            lastChar = { key, releaseTime: now }
+            lastKey = key
+        }
+
+        // ── Store holds ───────────────────────────────────────────────────────
+        allHolds.push(holdTime)
+        if (flightTime > 0) {
+            allFlights.push(flightTime)
+        }
+
+        // ── Burst window — printable character keys only ──────────────────────
+        // Enter, Backspace, Delete, Tab are excluded:
+        //   - Enter causes Monaco to auto-insert indentation (false +N chars)
+        //   - Backspace/Delete are editing operations, not injection bursts
+        //   - Tab in code editors jumps indent levels, not text injection
+        if (!BURST_EXCLUDED_KEYS.has(key)) {
+            charWindow.push(now)
+            charWindow = charWindow.filter(t => now - t < 300)
+        }
+
+        // ── Flight sliding window ─────────────────────────────────────────────
+        if (flightTime > 0) {
+            recentFlights.push(flightTime)
+            if (recentFlights.length > RECENT_FLIGHTS) recentFlights.shift()
+        }
+
+        // ── Calibration ───────────────────────────────────────────────────────
+        if (!baseline) {
+            if (flightTime > 10 && flightTime < 2000) {
+                calibrationPool.push(flightTime)
+            }
+            m.calibrationCount = calibrationPool.length
+
+            if (calibrationPool.length >= CALIBRATION_FLIGHTS) {
+                const stats = computeStats(calibrationPool)
+                baseline = {
+                    mean: stats.mean,
+                    stdDev: stats.stdDev,
+                    digramMap: new Map(),
+                    keyProfiles: new Map()
+                }
+            }
+        } else {
+            const bl = baseline
+
+            // ── Z-Score anomaly ───────────────────────────────────────────────
+            if (flightTime > 0) {
+                const z = zScore(flightTime, bl.mean, bl.stdDev)
+                if (z > 3.5) {
+                    events.push({ type: 'inconsistency', zScore: z, key, keyFingerGroup: fingerGroup, timestamp: now })
+                    m.inconsistencyCount += 1
+                }
+            }
+
+            // ── Key-specific hold time profiles ───────────────────────────────
+            // Each key/finger has its own hold distribution; check against it
+            const kp = bl.keyProfiles.get(key)
+            if (kp) {
+                if (kp.count >= 5) {
+                    const kz = zScore(holdTime, kp.holdMean, kp.holdStd)
+                    if (kz > 4.0) {
+                        events.push({
+                            type: 'inconsistency',
+                            zScore: kz,
+                            key,
+                            keyFingerGroup: fingerGroup,
+                            detail: `Key-specific hold anomaly (${key})`,
+                            timestamp: now
+                        })
+                    }
+                }
+                // Online update of key profile (Welford's algorithm)
+                const nc = kp.count + 1
+                const delta = holdTime - kp.holdMean
+                const nm = kp.holdMean + delta / nc
+                const nm2 = (kp.holdStd ** 2) * kp.count + delta * (holdTime - nm)
+                bl.keyProfiles.set(key, { holdMean: nm, holdStd: Math.sqrt(nm2 / nc) || 1, count: nc })
+            } else {
+                bl.keyProfiles.set(key, { holdMean: holdTime, holdStd: 1, count: 1 })
+            }
+
+            // ── Digram-pair analysis ──────────────────────────────────────────
+            if (flightTime > 0) {
+                const entry = bl.digramMap.get(digramKey)
+                if (entry && entry.count >= 5) {
+                    const dz = zScore(flightTime, entry.mean, entry.stdDev)
+                    if (dz > 4.0) {
+                        events.push({ type: 'rhythm_shift', zScore: dz, key: digramKey, timestamp: now })
+                    }
+                }
+                if (entry) {
+                    const nc    = entry.count + 1
+                    const delta = flightTime - entry.mean
+                    const nm    = entry.mean + delta / nc
+                    const nm2   = (entry.stdDev ** 2) * entry.count + delta * (flightTime - nm)
+                    bl.digramMap.set(digramKey, { mean: nm, stdDev: Math.sqrt(nm2 / nc) || 1, count: nc })
+                } else {
+                    bl.digramMap.set(digramKey, { mean: flightTime, stdDev: 1, count: 1 })
+                }
+            }
+
+            // ── Advanced analysis (every 10+ keystrokes) ──────────────────────
+            if (recentFlights.length >= 10) {
+                const recentStats = computeStats(recentFlights)
+                const rhythmDelta = Math.abs(recentStats.mean - bl.mean) / bl.mean
+                if (rhythmDelta > 1.5) {
+                    events.push({ type: 'rhythm_shift', rhythmDelta, timestamp: now })
+                }
+
+                m.avgFlight       = recentStats.mean
+                m.rhythmStability = Math.max(0, Math.round(100 - rhythmDelta * 60))
+                m.entropy         = shannonEntropy(recentFlights)
+                m.skewness        = skewness(recentFlights)
+                m.kurtosis        = excessKurtosis(recentFlights)
+
+                // ── FFT periodicity check (every 5s) ──────────────────────────
+                if (recentFlights.length >= 16 && now - lastPeriodicityCheck > 5000) {
+                    lastPeriodicityCheck = now
+                    m.periodicity = Math.round(periodicityScore(recentFlights))
+                    if (m.periodicity > 55) {
+                        events.push({
+                            type: 'fft_periodicity',
+                            periodicityScore: m.periodicity,
+                            detail: `Dominant frequency = ${m.periodicity}% spectral power (bot-like rhythm)`,
+                            timestamp: now
+                        })
+                    }
+                }
+
+                // ── Fatigue check (every 10s, after 50+ keystrokes) ───────────
+                if (allFlights.length >= 50 && now - lastFatigueCheck > 10000) {
+                    lastFatigueCheck = now
+                    m.fatigue = fatigueRate(allFlights)
+                    // If slope is extremely flat over long session → suspicious
+                    if (allFlights.length >= 80 && Math.abs(m.fatigue) < 0.05) {
+                        events.push({
+                            type: 'fatigue_detected',
+                            fatigueRate: m.fatigue,
+                            detail: `No natural fatigue slope after ${allFlights.length} keystrokes`,
+                            timestamp: now
+                        })
+                    }
+                }
+
+                if (!modelScoring) {
+                    const aiScore = estimateAIScore(
+                        recentFlights,
+                        allHolds.slice(-20),
+                        backspaceRecords.map(r => r.latency),
+                        allFlights
+                    )
+                    if (Math.abs(m.aiScore - aiScore) > 5) {
+                        events.push({ type: 'ai_score_update', aiScore, aiSource: 'heuristic', timestamp: now })
+                    }
+                    m.aiScore = aiScore
+                }
+            }
+        }
+
+        // ── Burst: > 12 CHAR keystrokes in 300ms ─────────────────────────────
+        if (charWindow.length > 12 && now - lastBurst > 2000) {
+            lastBurst = now
+            opts.onBurst?.(now)
+            events.push({ type: 'burst', timestamp: now, detail: `${charWindow.length} chars/300ms` })
+            m.burstCount += 1
+        }
+
+        // ── Physically impossible gap (< 12ms between char keys) ─────────────
+        // Only flag for printable characters — Enter/Backspace/Delete are
+        // editing actions that can legitimately follow each other very quickly
+        // (e.g. pressing Enter twice rapidly for paragraph breaks).
+        if (flightTime > 0 && flightTime < 12 && !BURST_EXCLUDED_KEYS.has(key) && now - lastBurst > 2000) {
+            lastBurst = now
+            events.push({ type: 'burst', timestamp: now, detail: `${flightTime.toFixed(1)}ms gap (inhuman)` })
+        }
+
+        // ── Long pause ────────────────────────────────────────────────────────
+        if (flightTime > 3000) {
+            events.push({ type: 'long_pause', flightTime, timestamp: now })
+            m.longPauseCount += 1
+        }
+
+        events.push({
+            type: 'keystroke',
+            holdTime,
+            flightTime,
+            key,
+            keyFingerGroup: fingerGroup,
+            timestamp: now
+        })
+
+        recent.push({ holdTime, flightTime })
+        if (recent.length > RECENT_KEYSTROKES) recent.shift()
+        m.avgHold = computeStats(recent.map(k => k.holdTime)).mean
+
+        return events
+    }
+
+    return {
+        keystroke,
+        setModelScoring(active) {
+            modelScoring = active
+        },
+        setAiScore(aiScore) {
+            m.aiScore = aiScore
+        },
+        metrics() {
+            const bl = baseline
+            return {
+                ...m,
+                isCalibrating: !bl,
+                history: recent.slice(-HISTORY_DOTS).map(k =>
+                    bl ? zScore(k.flightTime, bl.mean, bl.stdDev) > 3.5 : false),
+            }
+        },
+        sessionData(durationMs) {
+            return {
+                ...ngramSamples(ngrams),
+                flightTimes:       [...allFlights],
+                holdTimes:         [...allHolds],
+                backspaceTimes:    backspaceRecords.map(r => r.latency),
+                totalKeystrokes:   allFlights.length + allHolds.length,
+                totalBackspaces:   backspaceRecords.length,
+                burstCount:        m.burstCount,
+                sessionDurationMs: durationMs,
+            }
+        },
+    }
+}
+
+// ─── Protocol ─────────────────────────────────────────────────────────────────
+// Page → analysis: one small message per keystroke. Analysis → page: the
+// events each keystroke raised, and metrics at most every METRICS_INTERVAL_MS.
+
+export type AnalysisRequest =
+    | { type: 'stroke'; stroke: KeyStroke }
+    | { type: 'session_data'; id: number; durationMs: number }
+
+export type AnalysisResponse =
+    | { type: 'events'; events: BiometricEvent[] }
+    | { type: 'metrics'; metrics: AnalysisMetrics }
+    /** Where the live AI score comes from */
+    | { type: 'ai_source'; source: 'model' | 'heuristic' }
+    | { type: 'session_data'; id: number; data: RawSessionData }
+
+/**
+ * Message handler around a KeystrokeAnalyzer. With `botDetector` the ONNX
+ * model scores keystroke windows and replaces the heuristic AI score while
+ * it is available.
+ */
+export function createAnalysisHost(
+    reply: (msg: AnalysisResponse) => void,
+    opts: { botDetector?: (on: LiveBotHandlers) => LiveBotDetector } = {}
+): (msg: AnalysisRequest) => void {
+    let bot: LiveBotDetector | null = null
+    const analyzer = createKeystrokeAnalyzer({ onBurst: at => bot?.burst(at) })
+    let metricsTimer: ReturnType<typeof setTimeout> | null = null
+    // Page clock of the latest keystroke — the worker's own clock has another origin
+    let lastStrokeAt = 0
+
+    function scheduleMetrics() {
+        if (metricsTimer !== null) return
+        metricsTimer = setTimeout(() => {
+            metricsTimer = null
+            reply({ type: 'metrics', metrics: analyzer.metrics() })
+        }, METRICS_INTERVAL_MS)
+    }
+
+    bot = opts.botDetector?.({
+        ready() {
+            analyzer.setModelScoring(true)
+            reply({ type: 'ai_source', source: 'model' })
+        },
+        unavailable(error) {
+            console.warn('[keystrokeAnalysis] ONNX scoring unavailable, using heuristic AI score:', error)
+            analyzer.setModelScoring(false)
+            reply({ type: 'ai_source', source: 'heuristic' })
+        },
+        score(s) {
+            analyzer.setAiScore(s.aiScore)
+            reply({ type: 'events', events: [{ type: 'ai_score_update', aiSource: 'model', ...s, timestamp: lastStrokeAt }] })
+            scheduleMetrics()
+        },
+    }) ?? null
+
+    return msg => {
+        if (msg.type === 'session_data') {
+            reply({ type: 'session_data', id: msg.id, data: analyzer.sessionData(msg.durationMs) })
+            return
+        }
+        lastStrokeAt = msg.stroke.up
+        reply({ type: 'events', events: analyzer.keystroke(msg.stroke) })
+        bot?.stroke(msg.stroke)
+        scheduleMetrics()
+    }
+}
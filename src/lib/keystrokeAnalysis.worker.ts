@@ -0,0 +1,17 @@
+/**
+ * Deep-Check · Keystroke analysis (Web Worker)
+ * ============================================
+ * Hosts the editor's biometric pipeline (keystrokeAnalysis.ts) and the live
+ * ONNX bot detector (liveBotDetection.ts) off the main thread. CodeEditor
+ * posts one AnalysisRequest per keystroke and renders what comes back.
+ */
+
+import { AnalysisRequest, AnalysisResponse, createAnalysisHost } from './keystrokeAnalysis'
+import { createLiveBotDetector } from './liveBotDetection'
+
+const handle = createAnalysisHost(
+    (msg: AnalysisResponse) => postMessage(msg),
+    { botDetector: createLiveBotDetector },
+)
+
+addEventListener('message', (e: MessageEvent<AnalysisRequest>) => handle(e.data))
@@ -0,0 +1,143 @@
+/**
+ * Deep-Check · Keystroke n-grams
+ * ===============================
+ * Per-pair and per-triple timing capture shared by the live editor
+ * (CodeEditor.tsx) and enrollment (enroll/page.tsx), so both produce the same
+ * keys and the same intervals. Isomorphic — no browser or Node APIs.
+ *
+ * For consecutive keys a, b (c) with press/release times d and u:
+ *   UD (flight)  = d_b − u_a     kept only when positive, like flightTimes;
+ *                                overlapping keys (rollover) still show in DD/UU
+ *   DD           = d_b − d_a
+ *   UU           = u_b − u_a
+ *   trigram      = d_c − d_a     press of the first to press of the third key
+ *
+ * Keys are joined with '→' ("t→h", "t→h→e"); letters are lower-cased so
+ * Shift does not split a pair. A correction (Backspace/Delete), a pause over
+ * MAX_NGRAM_GAP_MS or out-of-order releases break the chain.
+ */
+
+import { mean, std } from './biometricStats'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface KeyStroke {
+    key: string
+    /** Press time (ms, any monotonic clock) */
+    down: number
+    /** Release time (ms, same clock) */
+    up: number
+}
+
+/** Raw samples per n-gram key (ms) */
+export interface NgramSamples {
+    /** Up-down (flight) per digram */
+    digrams:        Record<string, number[]>
+    digramDownDown: Record<string, number[]>
+    digramUpUp:     Record<string, number[]>
+    /** Down-down across three keys per trigram */
+    trigrams:       Record<string, number[]>
+}
+
+export interface NgramStat {
+    mean: number
+    std: number
+    count: number
+}
+
+export interface NgramCapture extends NgramSamples {
+    /** Last (up to) two strokes of the current chain */
+    chain: KeyStroke[]
+}
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+export const MAX_NGRAM_GAP_MS = 2000
+const CHAIN_BREAKERS = new Set(['Backspace', 'Delete'])
+/** Samples a key needs before it is summarised or compared */
+export const MIN_NGRAM_SAMPLES = 3
+
+// ─── Capture ──────────────────────────────────────────────────────────────────
+
+export function ngramKey(keys: string[]): string {
+    return keys.map(k => (k.length === 1 ? k.toLowerCase() : k)).join('→')
+}
+
+export function createNgramCapture(): NgramCapture {
+    return { digrams: {}, digramDownDown: {}, digramUpUp: {}, trigrams: {}, chain: [] }
+}
+
+function push(map: Record<string, number[]>, key: string, value: number) {
+    (map[key] ??= []).push(Math.round(value * 10) / 10)
+}
+
+/** Feed one completed keystroke (in release order) into the capture */
+export function recordKeystroke(capture: NgramCapture, stroke: KeyStroke): void {
+    if (CHAIN_BREAKERS.has(stroke.key)) {
+        capture.chain = []
+        return
+    }
+    const prev = capture.chain[capture.chain.length - 1]
+    if (prev && (stroke.down <= prev.down || stroke.down - prev.up > MAX_NGRAM_GAP_MS)) {
+        capture.chain = [stroke]
+        return
+    }
+
+    if (prev) {
+        const pair = ngramKey([prev.key, stroke.key])
+        const flight = stroke.down - prev.up
+        if (flight > 0) push(capture.digrams, pair, flight)
+        push(capture.digramDownDown, pair, stroke.down - prev.down)
+        push(capture.digramUpUp, pair, stroke.up - prev.up)
+
+        const first = capture.chain.length === 2 ? capture.chain[0] : undefined
+        if (first) push(capture.trigrams, ngramKey([first.key, prev.key, stroke.key]), stroke.down - first.down)
+    }
+    capture.chain = [...capture.chain.slice(-1), stroke]
+}
+
+/** Copy of the samples collected so far (without the chain state) */
+export function ngramSamples(capture: NgramCapture): NgramSamples {
+    const copy = (m: Record<string, number[]>) =>
+        Object.fromEntries(Object.entries(m).map(([k, v]) => [k, [...v]]))
+    return {
+        digrams:        copy(capture.digrams),
+        digramDownDown: copy(capture.digramDownDown),
+        digramUpUp:     copy(capture.digramUpUp),
+        trigrams:       copy(capture.trigrams),
+    }
+}
+
+// ─── Summaries & comparison ───────────────────────────────────────────────────
+
+/** mean/std/count per key, keeping keys with at least MIN_NGRAM_SAMPLES samples */
+export function summariseNgrams(samples: Record<string, number[]> = {}): Record<string, NgramStat> {
+    const out: Record<string, NgramStat> = {}
+    for (const [key, values] of Object.entries(samples)) {
+        if (values.length < MIN_NGRAM_SAMPLES) continue
+        const m = mean(values)
+        out[key] = { mean: m, std: std(values, m), count: values.length }
+    }
+    return out
+}
+
+/**
+ * 0-100 agreement of per-key means between a live session and a baseline,
+ * or null with fewer than `minCommon` shared keys. A 35% deviation scores 0.
+ */
+export function compareNgrams(
+    live: Record<string, NgramStat> | undefined,
+    baseline: Record<string, NgramStat> | undefined,
+    minCommon = 1
+): { score: number; common: number } | null {
+    if (!live || !baseline) return null
+    const common = Object.keys(baseline).filter(k => live[k])
+    if (common.length < minCommon) return null
+    const scores = common.map(k => {
+        const base = baseline[k].mean
+        if (base === 0) return 50
+        const delta = Math.abs(live[k].mean - base) / Math.abs(base)
+        return Math.max(0, 1 - delta / 0.35) * 100
+    })
+    return { score: mean(scores), common: common.length }
+}
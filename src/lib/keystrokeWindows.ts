@@ -0,0 +1,72 @@
+/**
+ * Deep-Check · Keystroke windows
+ * ==============================
+ * Rebuilds RawSessionData for a slice of the keystroke stream, so the bot
+ * detector can score a session window by window while it runs
+ * (liveBotDetection.ts) with the same extractFeatureVector it uses
+ * on the whole session.
+ *
+ * Strokes are the keys CodeEditor sends for analysis (modifiers and navigation keys
+ * are never sent) and are replayed with its rules: flight = press − previous
+ * release when positive, Backspace latency from the last character key's
+ * release (0-5000 ms), n-grams through keystrokeNgrams.ts.
+ * Isomorphic — no browser or Node APIs.
+ */
+
+import type { RawSessionData } from './biometricFeatures'
+import { createNgramCapture, KeyStroke, ngramSamples, recordKeystroke } from './keystrokeNgrams'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** Keystrokes per scored window */
+export const ML_WINDOW_KEYSTROKES = 150
+/** A new window is scored every this many keystrokes */
+export const ML_WINDOW_STRIDE = 50
+/** Keystrokes before the first window is scored */
+export const ML_MIN_KEYSTROKES = 100
+
+const MAX_BACKSPACE_LATENCY_MS = 5000
+
+// ─── Window → session data ────────────────────────────────────────────────────
+
+/**
+ * Session data for `strokes` (in typing order). `burstTimes` are the press
+ * times of detected bursts; those inside the window are counted.
+ */
+export function windowSessionData(strokes: KeyStroke[], burstTimes: number[] = []): RawSessionData {
+    const flightTimes: number[] = []
+    const holdTimes: number[] = []
+    const backspaceTimes: number[] = []
+    const capture = createNgramCapture()
+    let lastRelease = 0
+    let lastChar: KeyStroke | null = null
+
+    for (const stroke of strokes) {
+        const flight = lastRelease > 0 ? stroke.down - lastRelease : 0
+        if (flight > 0) flightTimes.push(flight)
+        holdTimes.push(stroke.up - stroke.down)
+
+        if (stroke.key === 'Backspace') {
+            const latency = lastChar ? stroke.down - lastChar.up : 0
+            if (latency > 0 && latency < MAX_BACKSPACE_LATENCY_MS) backspaceTimes.push(latency)
+        } else {
+            lastChar = stroke
+        }
+        lastRelease = stroke.up
+        recordKeystroke(capture, stroke)
+    }
+
+    const start = strokes[0]?.down ?? 0
+    const end = strokes[strokes.length - 1]?.up ?? start
+    return {
+        ...ngramSamples(capture),
+        flightTimes,
+        holdTimes,
+        backspaceTimes,
+        // Counted like the whole-session data (keystrokeAnalysis.ts), so windows and the whole session agree
+        totalKeystrokes:   flightTimes.length + holdTimes.length,
+        totalBackspaces:   backspaceTimes.length,
+        burstCount:        burstTimes.filter(t => t >= start && t <= end).length,
+        sessionDurationMs: end - start,
+    }
+}
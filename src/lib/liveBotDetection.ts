@@ -0,0 +1,102 @@
+/**
+ * Deep-Check · Live bot detection
+ * ===============================
+ * Runs the ONNX bot detector (mlInference.ts, onnxruntime-web) on sliding
+ * windows of the editor's keystroke stream. It is hosted by the keystroke
+ * analysis worker (keystrokeAnalysis.worker.ts), off the main thread: each
+ * analysed keystroke is fed in, and every ML_WINDOW_STRIDE keystrokes the
+ * last ML_WINDOW_KEYSTROKES are turned into features (keystrokeWindows.ts)
+ * and scored. Each score becomes an `ai_score_update` event, so the session
+ * keeps a bot-probability timeline.
+ *
+ * If the model cannot load, the detector reports `unavailable` and the
+ * heuristic AI score stays on.
+ */
+
+import { extractFeatureVector, FEATURE_NAMES } from './biometricFeatures'
+import type { KeyStroke } from './keystrokeNgrams'
+import { ML_MIN_KEYSTROKES, ML_WINDOW_KEYSTROKES, ML_WINDOW_STRIDE, windowSessionData } from './keystrokeWindows'
+import { isMLAvailable, runBotDetection } from './mlInference'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LiveBotScore {
+    /** 0-100 bot probability for the window */
+    aiScore: number
+    /** Keystrokes analysed so far — the window ends here */
+    keystrokes: number
+    windowKeystrokes: number
+    modelVersion?: string
+}
+
+export interface LiveBotHandlers {
+    ready(): void
+    unavailable(error: string): void
+    score(score: LiveBotScore): void
+}
+
+export interface LiveBotDetector {
+    stroke(stroke: KeyStroke): void
+    /** Press time of a counted burst */
+    burst(at: number): void
+}
+
+// ─── Detector ─────────────────────────────────────────────────────────────────
+
+/** Loads and warms the model up front so the first window is not delayed by it */
+export function createLiveBotDetector(on: LiveBotHandlers): LiveBotDetector {
+    const strokes: KeyStroke[] = []
+    const burstTimes: number[] = []
+    let total = 0
+    let ready = false
+    let running = false
+    /** A window came due while the previous one was still scoring */
+    let pending = false
+
+    async function scoreWindow() {
+        if (running) { pending = true; return }
+        running = true
+        try {
+            do {
+                pending = false
+                const window = strokes.slice(-ML_WINDOW_KEYSTROKES)
+                const keystrokes = total
+                const { raw } = extractFeatureVector(windowSessionData(window, burstTimes))
+                const result = await runBotDetection(new Float32Array(FEATURE_NAMES.map(name => raw[name])))
+                on.score({
+                    aiScore: result.aiScore,
+                    keystrokes,
+                    windowKeystrokes: window.length,
+                    modelVersion: result.modelVersion,
+                })
+            } while (pending)
+        } catch (e) {
+            ready = false
+            on.unavailable((e as Error).message)
+        } finally {
+            running = false
+        }
+    }
+
+    if (isMLAvailable()) {
+        runBotDetection(new Float32Array(FEATURE_NAMES.length)).then(
+            () => { ready = true; on.ready() },
+            err => on.unavailable((err as Error).message),
+        )
+    } else {
+        on.unavailable('WebAssembly is not available')
+    }
+
+    return {
+        stroke(stroke) {
+            strokes.push(stroke)
+            if (strokes.length > ML_WINDOW_KEYSTROKES) strokes.shift()
+            while (burstTimes.length > 0 && burstTimes[0] < strokes[0].down) burstTimes.shift()
+            total += 1
+            if (ready && total >= ML_MIN_KEYSTROKES && total % ML_WINDOW_STRIDE === 0) void scoreWindow()
+        },
+        burst(at) {
+            burstTimes.push(at)
+        },
+    }
+}
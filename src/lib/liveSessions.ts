@@ -0,0 +1,211 @@
+/**
+ * Deep-Check · Live session ingestion (server-side)
+ * ==================================================
+ * A live session is opened when the interview page loads and receives the
+ * raw event log in small numbered batches. Batches must arrive in order
+ * (seq = lastSeq + 1); re-sent batches are acknowledged and dropped, so the
+ * client can retry freely after a network error or a reload. A batch is
+ * appended only by the request that advanced lastSeq (a conditional update),
+ * so two copies arriving at once are not both kept.
+ *
+ * The scoring policy is resolved once, when the session opens, and kept on
+ * the session: the browser previews with it and finalization scores with it.
+ * Sessions opened from an invite (see invites.ts) reuse the id of the
+ * session the integrator pre-created, so the result replaces that record.
+ *
+ * Sessions that stop sending for DEEPCHECK_SESSION_IDLE_MS (default 10 min)
+ * are finalized by an opportunistic sweep, so a crashed tab still produces
+ * an Assessment.
+ */
+
+import crypto from 'crypto'
+import {
+    EnrollmentContext,
+    LiveSession,
+    advanceLiveSession,
+    appendSessionEvents,
+    getIdleLiveSessions,
+    getLiveSession,
+    saveLiveSession,
+} from './db'
+import { resolvePolicy } from './policies'
+import type { ScoringPolicy } from './policy'
+import { SessionEvent } from './scoring'
+import { ClientScoreHints, EvidenceEntry, FinalizedSession, finalizeSession, newSessionId } from './sessions'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** Development-only default; production refuses to mint or check tokens without a configured secret */
+const DEV_INGEST_SECRET = 'dev-ingest-secret'
+
+const IDLE_MS = Number(process.env.DEEPCHECK_SESSION_IDLE_MS) || 10 * 60 * 1000
+
+/** Upper bound on events per batch — keeps a single request cheap to replay */
+export const MAX_BATCH_EVENTS = 5000
+
+// ─── Ingest tokens ────────────────────────────────────────────────────────────
+// Stateless capability: HMAC(secret, sessionId). Handed to the browser that
+// opened the session and required on every batch.
+
+function ingestSecret(): string {
+    const secret = process.env.DEEPCHECK_INGEST_SECRET ?? process.env.DEEPCHECK_ADMIN_SECRET
+    if (secret) return secret
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('DEEPCHECK_INGEST_SECRET (or DEEPCHECK_ADMIN_SECRET) must be set in production')
+    }
+    return DEV_INGEST_SECRET
+}
+
+export function ingestTokenFor(sessionId: string): string {
+    return crypto.createHmac('sha256', ingestSecret()).update(`ingest:${sessionId}`).digest('hex')
+}
+
+export function verifyIngestToken(sessionId: string, token: string | null | undefined): boolean {
+    if (!token) return false
+    const expected = Buffer.from(ingestTokenFor(sessionId), 'hex')
+    const given = Buffer.from(token, 'hex')
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+export async function startLiveSession(opts: {
+    /** Pre-created session id (invites); a fresh id otherwise */
+    id?: string
+    candidateName?: string
+    candidateEmail?: string
+    role?: string
+    timeZone?: string
+    /** Defaults to the policy assigned to the role */
+    policy?: ScoringPolicy
+    enrollmentProfileId?: string
+    /** Context of the candidate's typing (enrollmentContext.ts) */
+    context?: EnrollmentContext
+    apiKeyId?: string
+    inviteId?: string
+}): Promise<{ session: LiveSession; token: string }> {
+    const now = new Date().toISOString()
+    const role = opts.role?.trim() || 'Software Engineer'
+    const session: LiveSession = {
+        id:            opts.id ?? newSessionId(),
+        status:        'live',
+        candidateName: opts.candidateName?.trim() || 'Remote Candidate',
+        candidateEmail: opts.candidateEmail,
+        role,
+        timeZone:      opts.timeZone,
+        policy:        opts.policy ?? await resolvePolicy({ role }),
+        enrollmentProfileId: opts.enrollmentProfileId,
+        context:       opts.context,
+        apiKeyId:      opts.apiKeyId,
+        inviteId:      opts.inviteId,
+        startedAt:     now,
+        lastSeenAt:    now,
+        lastSeq:       0,
+        eventCount:    0,
+    }
+    await saveLiveSession(session)
+    return { session, token: ingestTokenFor(session.id) }
+}
+
+export type IngestResult =
+    | { ok: true; duplicate: boolean; session: LiveSession }
+    | { ok: false; reason: 'finalized' | 'out_of_order'; session: LiveSession }
+
+/** Append one numbered batch to a live session's event log */
+export async function ingestBatch(
+    session: LiveSession,
+    seq: number,
+    events: SessionEvent[]
+): Promise<IngestResult> {
+    if (session.status !== 'live') return { ok: false, reason: 'finalized', session }
+    if (seq <= session.lastSeq) return { ok: true, duplicate: true, session }
+    if (seq !== session.lastSeq + 1) return { ok: false, reason: 'out_of_order', session }
+
+    const progress = { lastSeq: seq, eventCount: session.eventCount + events.length, lastSeenAt: new Date().toISOString() }
+    // Claim the seq before appending, so a batch sent twice at once (beacon
+    // and resend) is appended by one request and acknowledged by the other
+    if (!(await advanceLiveSession(session.id, session.lastSeq, progress))) {
+        const fresh = await getLiveSession(session.id) ?? session
+        if (fresh.status !== 'live') return { ok: false, reason: 'finalized', session: fresh }
+        if (seq <= fresh.lastSeq) return { ok: true, duplicate: true, session: fresh }
+        return { ok: false, reason: 'out_of_order', session: fresh }
+    }
+    try {
+        await appendSessionEvents(session.id, events)
+    } catch (err) {
+        // Give the seq back so the client's retry is appended, not acknowledged
+        const { lastSeq, eventCount, lastSeenAt } = session
+        await advanceLiveSession(session.id, seq, { lastSeq, eventCount, lastSeenAt })
+            .catch(e => console.error(`[live] ${session.id}: releasing batch ${seq} failed:`, e))
+        throw err
+    }
+    return { ok: true, duplicate: false, session: { ...session, ...progress } }
+}
+
+export async function finalizeLiveSession(
+    session: LiveSession,
+    opts: {
+        by: 'client' | 'idle_sweep'
+        evidence?: EvidenceEntry[]
+        hints?: ClientScoreHints
+    }
+): Promise<FinalizedSession> {
+    const result = await finalizeSession({
+        id:            session.id,
+        candidateName: session.candidateName,
+        candidateEmail: session.candidateEmail,
+        role:          session.role,
+        timeZone:      session.timeZone,
+        policy:        session.policy,
+        enrollmentProfileId: session.enrollmentProfileId,
+        // Only invites bind a live session to a template
+        enrollmentBound: !!session.inviteId && !!session.enrollmentProfileId,
+        context:       session.context,
+        apiKeyId:      session.apiKeyId,
+        evidence:      opts.evidence,
+        hints:         opts.hints,
+        abandoned:     opts.by === 'idle_sweep',
+    })
+    await saveLiveSession({
+        ...session,
+        status:      'finalized',
+        finalizedAt: new Date().toISOString(),
+        finalizedBy: opts.by,
+    })
+    return result
+}
+
+// ─── Idle sweep ───────────────────────────────────────────────────────────────
+
+let sweeping: Promise<number> | null = null
+
+/**
+ * Finalize every live session idle for longer than IDLE_MS. Safe to call
+ * from any request path — concurrent calls share one sweep.
+ * Returns the number of sessions finalized.
+ */
+export function sweepIdleSessions(now = Date.now()): Promise<number> {
+    if (sweeping) return sweeping
+    sweeping = (async () => {
+        const idle = await getIdleLiveSessions(new Date(now - IDLE_MS).toISOString())
+        let finalized = 0
+        for (const session of idle) {
+            // Re-read: a batch may have landed since the listing
+            const fresh = await getLiveSession(session.id)
+            if (!fresh || fresh.status !== 'live') continue
+            try {
+                if (fresh.eventCount === 0) {
+                    // Opened but never used (closed tab, dev double-mount) — drop it
+                    await saveLiveSession({ ...fresh, status: 'finalized', finalizedAt: new Date().toISOString(), finalizedBy: 'idle_sweep' })
+                    continue
+                }
+                await finalizeLiveSession(fresh, { by: 'idle_sweep' })
+                finalized++
+            } catch (err) {
+                console.error(`[live] sweep failed for ${session.id}:`, err)
+            }
+        }
+        return finalized
+    })().finally(() => { sweeping = null })
+    return sweeping
+}
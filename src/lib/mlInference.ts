@@ -5,12 +5,15 @@
  * inference to classify typing sessions as human vs bot.
  *
  * Uses lazy loading so the model is only fetched when needed.
- * Safe to call from client components — never runs server-side.
+ * Safe to call from client components and Web Workers (the live editor
+ * scores keystroke windows in keystrokeAnalysis.worker.ts) — never runs
+ * server-side.
  */
 
 'use client'
 
 import { FEATURE_NAMES, N_FEATURES, normaliseFeatures } from './biometricFeatures'
+import { explainByDeviation, FeatureContribution, importanceWeights } from './featureExplanation'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -27,16 +30,23 @@ export interface MLInferenceResult {
     confidence:      'high' | 'medium' | 'low'
     dominant:        'bot' | 'human'
     features:        Record<string, number>  // raw feature values for display
+    /** Importance-weighted deviation per feature, largest first */
+    explanation:     FeatureContribution[]
+    /** model_metadata.json version, when the metadata loaded */
+    modelVersion?:   string
 }
 
 // ─── Module-level singletons (lazily initialised) ─────────────────────────────
 
 let session: any = null
 let scalerParams: ScalerParams | null = null
+let importances: number[] = importanceWeights(undefined)
+let modelVersion: string | undefined
 let loadPromise: Promise<void> | null = null
 
 const MODEL_URL  = '/models/biometric-fraud-detector.onnx'
 const SCALER_URL = '/models/feature_scaler.json'
+const METADATA_URL = '/models/model_metadata.json'
 
 // ─── Loader ───────────────────────────────────────────────────────────────────
 
@@ -55,6 +65,11 @@ async function ensureLoaded(): Promise<void> {
         const scalerResp = await fetch(SCALER_URL)
         scalerParams = await scalerResp.json() as ScalerParams
 
+        // Feature importances weight the explanation (optional)
+        const metadata = await fetch(METADATA_URL).then(r => r.json()).catch(() => null)
+        importances = importanceWeights(metadata?.feature_importances)
+        modelVersion = typeof metadata?.version === 'string' ? metadata.version : undefined
+
         // Create inference session
         session = await ort.InferenceSession.create(MODEL_URL, {
             executionProviders: ['wasm'],
@@ -149,6 +164,8 @@ export async function runBotDetection(
         confidence,
         dominant: botProb >= 0.5 ? 'bot' : 'human',
         features: featureMap,
+        explanation: explainByDeviation(rawFeatures, scalerParams, importances),
+        modelVersion,
     }
 }
 
@@ -168,9 +185,10 @@ export async function warmupModel(): Promise<void> {
 }
 
 /**
- * Check if WebAssembly is available and the model can be loaded.
+ * Check if WebAssembly is available and the model can be loaded
+ * (in a page or a Web Worker).
  */
 export function isMLAvailable(): boolean {
-    if (typeof window === 'undefined') return false
+    if (typeof window === 'undefined' && typeof self === 'undefined') return false
     return typeof WebAssembly !== 'undefined'
 }
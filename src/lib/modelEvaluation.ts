@@ -0,0 +1,185 @@
+/**
+ * Deep-Check · Model evaluation (server-side)
+ * ===========================================
+ * Scores a feature vector with every deployed model (modelRegistry.ts),
+ * stores each model's score against the session and compares models over
+ * time. Only the serving model's score reaches the verdict; the others are
+ * evidence for deciding whether a retrained model should be promoted.
+ */
+
+import { getModelEvaluations, ModelEvaluation, saveModelEvaluations } from './db'
+import type { FeatureContribution } from './featureExplanation'
+import { explainPrediction, LoadedModel, ModelRole, predictBotProbability, routeSession } from './modelRegistry'
+
+/** Same cut as ml-score's ai_bot_detected flag and ML_BOT_DETECTION */
+export const DEFAULT_FLAG_RISK = 70
+const HISTOGRAM_BUCKETS = 10
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+export interface ServedScore {
+    risk: number
+    modelVersion: string
+    role: ModelRole
+    /** Ranked per-feature reasons for `risk` (with `explain`) */
+    explanation?: FeatureContribution[]
+}
+
+async function riskOf(model: LoadedModel, raw: number[]): Promise<number> {
+    return Math.round((await predictBotProbability(model, raw)) * 100)
+}
+
+/**
+ * Score `raw` (FEATURE_NAMES order) for a session. Returns the serving
+ * model's score, or null when no model could score it. With `explain` the
+ * serving model's score is explained per feature; with `record`, every
+ * other deployed model scores it too and all scores are stored.
+ */
+export async function scoreSession(
+    raw: number[],
+    opts: { sessionId?: string; record?: boolean; explain?: boolean } = {}
+): Promise<ServedScore | null> {
+    const { serving, compared } = await routeSession(opts.sessionId)
+
+    let served: ServedScore | null = null
+    if (serving) {
+        try {
+            served = { risk: await riskOf(serving.model, raw), modelVersion: serving.model.version, role: serving.role }
+        } catch (e) {
+            console.warn(`[models] ${serving.role} ${serving.model.version} failed:`, (e as Error).message)
+        }
+        if (served && opts.explain) {
+            served.explanation = await explainPrediction(serving.model, raw, served.risk).catch(e => {
+                console.warn(`[models] explaining ${serving.model.version} failed:`, (e as Error).message)
+                return undefined
+            })
+        }
+    }
+    if (!opts.record || !opts.sessionId) return served
+
+    const createdAt = new Date().toISOString()
+    const others = await Promise.allSettled(compared.map(async ({ model, role }) => ({
+        sessionId: opts.sessionId!, modelVersion: model.version, role, served: false,
+        risk: await riskOf(model, raw), createdAt,
+    })))
+    const rows: ModelEvaluation[] = others.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []))
+    if (served) {
+        const { risk, modelVersion, role } = served
+        rows.unshift({ sessionId: opts.sessionId, modelVersion, role, served: true, risk, createdAt })
+    }
+    await saveModelEvaluations(rows).catch(err => console.error('[models] saving evaluations:', err))
+    return served
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+export interface ModelStats {
+    modelVersion: string
+    roles: ModelRole[]
+    sessions: number
+    /** Sessions where this model's score was the verdict */
+    servedSessions: number
+    meanRisk: number
+    p50: number
+    p90: number
+    /** Share of sessions scored above the flag cut */
+    flagRate: number
+    /** Session counts per 10-point risk bucket (0-9 … 90-100) */
+    histogram: number[]
+}
+
+export interface ModelAgreement {
+    a: string
+    b: string
+    /** Sessions scored by both */
+    sessions: number
+    /** Share of those where both flag or both pass */
+    agreement: number
+    meanAbsDiff: number
+    /** Sessions only `a` flags / only `b` flags */
+    onlyA: number
+    onlyB: number
+}
+
+export interface EvaluationReport {
+    since: string | null
+    flagAt: number
+    models: ModelStats[]
+    agreement: ModelAgreement[]
+}
+
+function quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0
+    return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000
+
+/** Compare models over stored evaluations; a session counts once per model (latest score) */
+export function buildEvaluationReport(
+    rows: ModelEvaluation[],
+    opts: { flagAt?: number; since?: string } = {}
+): EvaluationReport {
+    const flagAt = opts.flagAt ?? DEFAULT_FLAG_RISK
+
+    // version → session → newest evaluation (rows arrive newest first)
+    const byModel = new Map<string, Map<string, ModelEvaluation>>()
+    for (const row of rows) {
+        const sessions = byModel.get(row.modelVersion) ?? new Map<string, ModelEvaluation>()
+        if (!sessions.has(row.sessionId)) sessions.set(row.sessionId, row)
+        byModel.set(row.modelVersion, sessions)
+    }
+
+    const models: ModelStats[] = [...byModel].map(([modelVersion, sessions]) => {
+        const evals = [...sessions.values()]
+        const risks = evals.map(e => e.risk).sort((x, y) => x - y)
+        const histogram = new Array(HISTOGRAM_BUCKETS).fill(0)
+        for (const r of risks) histogram[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(r / 10))]++
+        return {
+            modelVersion,
+            roles:          [...new Set(evals.map(e => e.role))],
+            sessions:       evals.length,
+            servedSessions: evals.filter(e => e.served).length,
+            meanRisk:       round3(risks.reduce((a, b) => a + b, 0) / risks.length),
+            p50:            quantile(risks, 0.5),
+            p90:            quantile(risks, 0.9),
+            flagRate:       round3(risks.filter(r => r > flagAt).length / risks.length),
+            histogram,
+        }
+    }).sort((x, y) => y.servedSessions - x.servedSessions || x.modelVersion.localeCompare(y.modelVersion))
+
+    const agreement: ModelAgreement[] = []
+    for (let i = 0; i < models.length; i++) {
+        for (let j = i + 1; j < models.length; j++) {
+            const a = byModel.get(models[i].modelVersion)!
+            const b = byModel.get(models[j].modelVersion)!
+            let sessions = 0, agree = 0, diff = 0, onlyA = 0, onlyB = 0
+            for (const [sessionId, ea] of a) {
+                const eb = b.get(sessionId)
+                if (!eb) continue
+                sessions++
+                const fa = ea.risk > flagAt, fb = eb.risk > flagAt
+                if (fa === fb) agree++
+                else if (fa) onlyA++
+                else onlyB++
+                diff += Math.abs(ea.risk - eb.risk)
+            }
+            if (sessions === 0) continue
+            agreement.push({
+                a: models[i].modelVersion,
+                b: models[j].modelVersion,
+                sessions,
+                agreement:   round3(agree / sessions),
+                meanAbsDiff: round3(diff / sessions),
+                onlyA,
+                onlyB,
+            })
+        }
+    }
+
+    return { since: opts.since ?? null, flagAt, models, agreement }
+}
+
+export async function evaluationReport(opts: { since?: string; flagAt?: number } = {}): Promise<EvaluationReport> {
+    return buildEvaluationReport(await getModelEvaluations({ since: opts.since }), opts)
+}
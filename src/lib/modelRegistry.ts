@@ -0,0 +1,347 @@
+/**
+ * Deep-Check · Model registry (server-side)
+ * =========================================
+ * Loads the biometric fraud detector once and keeps its onnxruntime-node
+ * session warm between /api/ml-score calls, cached per model version.
+ *
+ * A model directory holds biometric-fraud-detector.onnx, model_metadata.json
+ * and feature_scaler.json. Loading refuses a directory whose metadata or
+ * scaler feature order (or n_features) differs from FEATURE_NAMES, or whose
+ * declared feature_set is not FEATURE_SET_VERSION: a model trained on
+ * another layout would still run, just on the wrong inputs.
+ *
+ * The primary directory is DEEPCHECK_MODEL_DIR (default public/models).
+ * Retrained models can run beside it before taking over:
+ *   - shadow models score every session for comparison only
+ *     (DEEPCHECK_SHADOW_MODEL_DIRS, comma-separated)
+ *   - a candidate model serves a share of sessions
+ *     (DEEPCHECK_CANDIDATE_MODEL_DIR, DEEPCHECK_CANDIDATE_TRAFFIC percent)
+ * Every role can be changed without a restart through /api/v1/admin/models;
+ * modelEvaluation.ts records and compares what each model said.
+ */
+
+import crypto from 'crypto'
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { InferenceSession } from 'onnxruntime-node'
+import { FEATURE_NAMES, FEATURE_SET_VERSION, N_FEATURES } from './biometricFeatures'
+import { explainByDeviation, FeatureContribution, importanceWeights, rankContributions } from './featureExplanation'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+const DEFAULT_MODEL_DIR = process.env.DEEPCHECK_MODEL_DIR ?? path.join('public', 'models')
+const MODEL_FILE    = 'biometric-fraud-detector.onnx'
+const METADATA_FILE = 'model_metadata.json'
+const SCALER_FILE   = 'feature_scaler.json'
+
+const SHADOW_MODEL_DIRS = (process.env.DEEPCHECK_SHADOW_MODEL_DIRS ?? '')
+    .split(',').map(d => d.trim()).filter(Boolean)
+const CANDIDATE_MODEL_DIR = process.env.DEEPCHECK_CANDIDATE_MODEL_DIR
+const CANDIDATE_TRAFFIC   = Number(process.env.DEEPCHECK_CANDIDATE_TRAFFIC ?? 10)
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LoadedModel {
+    version: string
+    /** Absolute path of the directory it was loaded from */
+    dir: string
+    loadedAt: string
+    /** Bot-probability threshold from the metadata */
+    threshold: number
+    scaler: { mean: number[]; std: number[] }
+    /** feature_importances in FEATURE_NAMES order, summing to 1 */
+    importances: number[]
+    session: InferenceSession
+}
+
+/** What the admin endpoint and ml-score responses expose — no session handle */
+export interface ModelInfo {
+    version: string
+    dir: string
+    loadedAt: string
+    threshold: number
+    nFeatures: number
+}
+
+export type LoadModelResult =
+    | { ok: true; model: LoadedModel }
+    | { ok: false; errors: string[] }
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/** model_metadata.json / feature_scaler.json as read — checked by validate() */
+interface MetadataFile {
+    version?: unknown; n_features?: unknown; features?: unknown; feature_set?: unknown; threshold?: unknown
+    feature_importances?: Record<string, unknown>
+}
+interface ScalerFile { features?: unknown; mean?: unknown; std?: unknown }
+
+function sameFeatures(list: unknown): boolean {
+    return Array.isArray(list)
+        && list.length === N_FEATURES
+        && list.every((name, i) => name === FEATURE_NAMES[i])
+}
+
+function validate(metadata: MetadataFile, scaler: ScalerFile): string[] {
+    const errors: string[] = []
+    if (typeof metadata.version !== 'string' || !metadata.version) errors.push(`${METADATA_FILE}: version is required`)
+    if (metadata.n_features !== N_FEATURES) errors.push(`${METADATA_FILE}: n_features is ${metadata.n_features}, expected ${N_FEATURES}`)
+    if (!sameFeatures(metadata.features)) errors.push(`${METADATA_FILE}: features do not match FEATURE_NAMES order`)
+    // Metadata from before feature_set was declared is trusted on the checks above
+    if (metadata.feature_set !== undefined && metadata.feature_set !== FEATURE_SET_VERSION) {
+        errors.push(`${METADATA_FILE}: feature_set is ${metadata.feature_set}, expected ${FEATURE_SET_VERSION}`)
+    }
+    if (!sameFeatures(scaler.features)) errors.push(`${SCALER_FILE}: features do not match FEATURE_NAMES order`)
+    for (const key of ['mean', 'std'] as const) {
+        const values = scaler[key]
+        if (!Array.isArray(values) || values.length !== N_FEATURES || !values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+            errors.push(`${SCALER_FILE}: ${key} must be ${N_FEATURES} finite numbers`)
+        }
+    }
+    return errors
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/** Read, validate and open the model in `dir`. Does not change the active model */
+export async function loadModel(dir: string): Promise<LoadModelResult> {
+    const abs = path.resolve(process.cwd(), dir)
+    let metadata: MetadataFile, scaler: ScalerFile
+    try {
+        metadata = JSON.parse(await readFile(path.join(abs, METADATA_FILE), 'utf-8')) ?? {}
+        scaler   = JSON.parse(await readFile(path.join(abs, SCALER_FILE), 'utf-8')) ?? {}
+    } catch (e) {
+        return { ok: false, errors: [`Cannot read model files in ${abs}: ${(e as Error).message}`] }
+    }
+    const errors = validate(metadata, scaler)
+    if (errors.length) return { ok: false, errors }
+
+    const ort = await import('onnxruntime-node').catch(() => null)
+    if (!ort) return { ok: false, errors: ['onnxruntime-node is not available'] }
+    let session: InferenceSession
+    try {
+        session = await ort.InferenceSession.create(path.join(abs, MODEL_FILE), { executionProviders: ['cpu'] })
+    } catch (e) {
+        return { ok: false, errors: [`Cannot open ${MODEL_FILE}: ${(e as Error).message}`] }
+    }
+
+    return {
+        ok: true,
+        model: {
+            version:   metadata.version as string,
+            dir:       abs,
+            loadedAt:  new Date().toISOString(),
+            threshold: typeof metadata.threshold === 'number' ? metadata.threshold : 0.5,
+            scaler:    { mean: scaler.mean as number[], std: scaler.std as number[] },
+            importances: importanceWeights(metadata.feature_importances),
+            session,
+        },
+    }
+}
+
+// ─── Deployment ───────────────────────────────────────────────────────────────
+// primary   — scores every session not routed to the candidate
+// candidate — serves `percent`% of sessions (A/B), picked by session id
+// shadows   — score every session too, but only for the evaluation report
+// A model leaving the deployment is released 30 s later, so requests already
+// running on it can finish.
+
+export type ModelRole = 'primary' | 'candidate' | 'shadow'
+
+interface Deployment {
+    primary: LoadedModel | null
+    candidate: { model: LoadedModel; percent: number } | null
+    shadows: LoadedModel[]
+}
+
+let deployment: Promise<Deployment> | null = null
+
+function deployed(d: Deployment): LoadedModel[] {
+    return [d.primary, d.candidate?.model, ...d.shadows].filter((m): m is LoadedModel => !!m)
+}
+
+function retire(previous: LoadedModel[], d: Deployment) {
+    const live = new Set(deployed(d))
+    for (const m of previous) {
+        if (live.has(m)) continue
+        setTimeout(() => m.session.release().catch(() => {}), 30_000).unref?.()
+    }
+}
+
+async function loadOrWarn(dir: string, role: ModelRole): Promise<LoadedModel | null> {
+    const result = await loadModel(dir)
+    if (result.ok) return result.model
+    console.warn(`[models] ${role} model in ${dir} not loaded:`, result.errors.join('; '))
+    return null
+}
+
+function getDeployment(): Promise<Deployment> {
+    deployment ??= (async () => {
+        const primary = await loadOrWarn(DEFAULT_MODEL_DIR, 'primary')
+        if (!primary) console.warn('[models] no primary model — /api/ml-score uses heuristic scoring')
+        const shadows = (await Promise.all(SHADOW_MODEL_DIRS.map(dir => loadOrWarn(dir, 'shadow'))))
+            .filter((m): m is LoadedModel => !!m)
+        const candidateModel = CANDIDATE_MODEL_DIR ? await loadOrWarn(CANDIDATE_MODEL_DIR, 'candidate') : null
+        return {
+            primary,
+            shadows,
+            candidate: candidateModel ? { model: candidateModel, percent: clampPercent(CANDIDATE_TRAFFIC) } : null,
+        }
+    })()
+    return deployment
+}
+
+/** Apply `change` to the current deployment, then release whatever it dropped */
+async function update(change: (d: Deployment) => Deployment): Promise<void> {
+    const current = await getDeployment()
+    const next = change(current)
+    deployment = Promise.resolve(next)
+    retire(deployed(current), next)
+}
+
+function clampPercent(p: number): number {
+    return Number.isFinite(p) ? Math.min(100, Math.max(0, p)) : 0
+}
+
+/** The primary model, loaded on first use; null if it cannot load */
+export async function getActiveModel(): Promise<LoadedModel | null> {
+    return (await getDeployment()).primary
+}
+
+/**
+ * Load `dir` (default: DEEPCHECK_MODEL_DIR) and make it the primary model.
+ * On failure the current model stays active.
+ */
+export async function reloadModel(dir: string = DEFAULT_MODEL_DIR): Promise<LoadModelResult> {
+    const result = await loadModel(dir)
+    if (result.ok) await update(d => ({ ...d, primary: result.model }))
+    return result
+}
+
+/** Add a shadow model; one already deployed with the same version is replaced */
+export async function addShadowModel(dir: string): Promise<LoadModelResult> {
+    const result = await loadModel(dir)
+    if (result.ok) {
+        await update(d => ({
+            ...d,
+            shadows: [...d.shadows.filter(m => m.version !== result.model.version), result.model],
+        }))
+    }
+    return result
+}
+
+/** Remove the shadow model with `version`; false if there was none */
+export async function removeShadowModel(version: string): Promise<boolean> {
+    const { shadows } = await getDeployment()
+    if (!shadows.some(m => m.version === version)) return false
+    await update(d => ({ ...d, shadows: d.shadows.filter(m => m.version !== version) }))
+    return true
+}
+
+/** Route `percent`% of sessions to the model in `dir` instead of the primary */
+export async function setCandidateModel(dir: string, percent: number): Promise<LoadModelResult> {
+    const result = await loadModel(dir)
+    if (result.ok) await update(d => ({ ...d, candidate: { model: result.model, percent: clampPercent(percent) } }))
+    return result
+}
+
+export async function clearCandidateModel(): Promise<boolean> {
+    if (!(await getDeployment()).candidate) return false
+    await update(d => ({ ...d, candidate: null }))
+    return true
+}
+
+// ─── Routing ──────────────────────────────────────────────────────────────────
+
+export interface RoutedModel {
+    model: LoadedModel
+    role: ModelRole
+}
+
+export interface SessionRouting {
+    /** Model whose score is the verdict; null → heuristic */
+    serving: RoutedModel | null
+    /** Everything else deployed — scored for the evaluation report only */
+    compared: RoutedModel[]
+}
+
+/** Stable 0-99 bucket, so a session always lands on the same side of a split */
+function trafficBucket(sessionId: string): number {
+    return crypto.createHash('sha256').update(`traffic:${sessionId}`).digest().readUInt32BE(0) % 100
+}
+
+/**
+ * Which model serves `sessionId` and which are scored alongside it. Without
+ * a session id the split falls back to a random draw.
+ */
+export async function routeSession(sessionId?: string): Promise<SessionRouting> {
+    const d = await getDeployment()
+    const bucket = sessionId ? trafficBucket(sessionId) : Math.floor(Math.random() * 100)
+    const primary: RoutedModel | null = d.primary ? { model: d.primary, role: 'primary' } : null
+    const candidate: RoutedModel | null = d.candidate ? { model: d.candidate.model, role: 'candidate' } : null
+    const serving = candidate && bucket < d.candidate!.percent ? candidate : primary
+    const compared = [primary, candidate, ...d.shadows.map(model => ({ model, role: 'shadow' as const }))]
+        .filter((r): r is RoutedModel => !!r && r !== serving)
+    return { serving, compared }
+}
+
+export function modelInfo(model: LoadedModel): ModelInfo {
+    return {
+        version:   model.version,
+        dir:       model.dir,
+        loadedAt:  model.loadedAt,
+        threshold: model.threshold,
+        nFeatures: N_FEATURES,
+    }
+}
+
+/** Current deployment as shown by GET /api/v1/admin/models */
+export async function deploymentInfo() {
+    const d = await getDeployment()
+    return {
+        primary:   d.primary ? modelInfo(d.primary) : null,
+        candidate: d.candidate ? { ...modelInfo(d.candidate.model), percent: d.candidate.percent } : null,
+        shadows:   d.shadows.map(modelInfo),
+    }
+}
+
+// ─── Inference ────────────────────────────────────────────────────────────────
+
+/**
+ * Bot probability (0-1) for a raw feature vector in FEATURE_NAMES order.
+ * The scaler from the model's own directory is applied here.
+ */
+export async function predictBotProbability(model: LoadedModel, raw: number[]): Promise<number> {
+    const ort = await import('onnxruntime-node')
+    const { mean, std } = model.scaler
+    const normalised = new Float32Array(raw.map((v, i) => (v - mean[i]) / (std[i] || 1)))
+    const input = new ort.Tensor('float32', normalised, [1, N_FEATURES])
+    const results = await model.session.run({ [model.session.inputNames[0]]: input })
+
+    // Prefer the [1, 2] probability tensor; the int64 label output is only a fallback
+    const outputs = model.session.outputNames.map(name => results[name]).filter(Boolean)
+    const probs = outputs.find(o => o.dims.length === 2 && Number(o.dims[1]) === 2 && o.type === 'float32')
+    if (probs) return Math.max(0, Math.min(1, (probs.data as Float32Array)[1]))
+    const single = outputs.find(o => o.type === 'float32' && o.size === 1)
+    if (single) return Math.max(0, Math.min(1, (single.data as Float32Array)[0]))
+    const label = outputs.find(o => o.type === 'int64' && o.size === 1)
+    if (label) return Number((label.data as BigInt64Array)[0]) === 1 ? 1 : 0
+    throw new Error('Model produced no usable output')
+}
+
+/**
+ * Why `model` gave `raw` the risk it did: importance-weighted deviations
+ * (featureExplanation.ts), plus each feature's impact, measured by scoring
+ * again with just that feature at its training mean. One extra inference
+ * per feature that deviates.
+ */
+export async function explainPrediction(model: LoadedModel, raw: number[], risk: number): Promise<FeatureContribution[]> {
+    const contributions = explainByDeviation(raw, model.scaler, model.importances)
+    for (const c of contributions) {
+        if (c.z === 0) continue
+        const i = FEATURE_NAMES.indexOf(c.feature)
+        const reset = raw.map((v, j) => (j === i ? model.scaler.mean[i] : v))
+        c.impact = risk - Math.round((await predictBotProbability(model, reset)) * 100)
+    }
+    return rankContributions(contributions)
+}
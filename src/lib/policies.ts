@@ -0,0 +1,73 @@
+/**
+ * Deep-Check · Scoring policy registry (server-side)
+ * ==================================================
+ * The built-in policies from policy.ts plus every version published through
+ * /api/v1/admin/policies. Publishing never edits a version in place; it
+ * stores the next one, so snapshots already taken keep matching a record.
+ *
+ * A new session gets, in order:
+ *   1. the latest version of its API key's policyId
+ *   2. the latest policy whose `roles` include the session role
+ *   3. DEFAULT_POLICY
+ */
+
+import { ApiKey, getStoredPolicies, insertScoringPolicy } from './db'
+import { BUILTIN_POLICIES, DEFAULT_POLICY, ScoringPolicy, parsePolicy } from './policy'
+
+/** Every version of every policy, built-ins included, newest version first per id */
+export async function listPolicyVersions(): Promise<ScoringPolicy[]> {
+    const all = [...(await getStoredPolicies()), ...BUILTIN_POLICIES]
+    return all.sort((a, b) => a.id.localeCompare(b.id) || b.version - a.version)
+}
+
+/** Latest version of each policy */
+export async function listPolicies(): Promise<ScoringPolicy[]> {
+    const latest = new Map<string, ScoringPolicy>()
+    for (const p of await listPolicyVersions()) {
+        if (!latest.has(p.id)) latest.set(p.id, p)
+    }
+    return [...latest.values()]
+}
+
+/** A specific version, or the latest when `version` is omitted */
+export async function getPolicy(id: string, version?: number): Promise<ScoringPolicy | null> {
+    const versions = (await listPolicyVersions()).filter(p => p.id === id)
+    return (version === undefined ? versions[0] : versions.find(p => p.version === version)) ?? null
+}
+
+export type PublishResult =
+    | { ok: true; policy: ScoringPolicy }
+    | { ok: false; errors: string[] }
+
+/** Validate `input` and store it as the next version of its id */
+export async function publishPolicy(input: unknown): Promise<PublishResult> {
+    const parsed = parsePolicy(input)
+    if (!parsed.ok) return parsed
+    const current = await getPolicy(parsed.policy.id)
+    const policy: ScoringPolicy = {
+        ...parsed.policy,
+        version:   (current?.version ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+    }
+    await insertScoringPolicy(policy)
+    return { ok: true, policy }
+}
+
+/** The policy a new session should be scored with (see header for the order) */
+export async function resolvePolicy(opts: { apiKey?: ApiKey | null; role?: string }): Promise<ScoringPolicy> {
+    if (opts.apiKey?.policyId) {
+        const assigned = await getPolicy(opts.apiKey.policyId)
+        if (assigned) return assigned
+        console.warn(`[policies] key ${opts.apiKey.name}: unknown policy ${opts.apiKey.policyId}, falling back`)
+    }
+
+    const role = opts.role?.trim().toLowerCase()
+    if (role) {
+        const byRole = (await listPolicies())
+            .filter(p => p.roles?.some(r => r.toLowerCase() === role))
+            .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''))[0]
+        if (byRole) return byRole
+    }
+
+    return DEFAULT_POLICY
+}
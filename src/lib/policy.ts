@@ -0,0 +1,367 @@
+/**
+ * Deep-Check · Scoring policy
+ * ===========================
+ * Every tolerance the trust score depends on — per-incident penalties,
+ * escalation tiers, rate limits, caps, auto-flag rules and the pass/review
+ * thresholds — lives in a declarative, versioned ScoringPolicy document.
+ * scoring.ts evaluates a policy; it holds no numbers of its own.
+ *
+ * A policy is identified by `id` and an immutable `version`. Sessions and
+ * assessments keep a full snapshot of the document they were scored with,
+ * so a rescore months later reproduces the original verdict even after the
+ * policy has been revised.
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import { INCIDENT_CATALOG, IncidentCode, IncidentDetector, IncidentModality, IncidentSeverity } from './incidentModel'
+
+// ─── Document ─────────────────────────────────────────────────────────────────
+
+export interface PenaltyStep {
+    /** Applies when the escalation value is strictly greater than this */
+    over: number
+    penalty: number
+    severity?: IncidentSeverity
+}
+
+export interface PenaltyRule {
+    penalty: number
+    severity: IncidentSeverity
+    /** Raise penalty/severity by a numeric detector value (e.g. paste length) */
+    escalate?: { by: string; steps: PenaltyStep[] }
+    /** Most points this code may deduct over a whole session */
+    cap?: number
+    /**
+     * Repeats within `intervalMs` are not raised at all. With `per`, the
+     * window is tracked separately for each value of that detector field.
+     */
+    rateLimit?: { intervalMs: number; per?: string }
+}
+
+/** Flag the session, whatever its score, once `atLeast` matching incidents are raised */
+export type AutoFlagRule =
+    | { code: IncidentCode; atLeast: number }
+    | { modality: IncidentModality; atLeast: number }
+
+export interface ScoringPolicy {
+    /** Slug, e.g. 'university_exam' */
+    id: string
+    /** Incremented on every published change; a (id, version) pair never changes */
+    version: number
+    name: string
+    description?: string
+    /** Session roles (case-insensitive) that get this policy when no API key assigns one */
+    roles?: string[]
+    thresholds: {
+        /** score > pass → passed */
+        pass: number
+        /** score > review → review, else flagged */
+        review: number
+    }
+    /** Codes without a rule cost nothing */
+    penalties: Partial<Record<IncidentCode, PenaltyRule>>
+    autoFlag: AutoFlagRule[]
+    /** Verified low-risk sessions invited against an enrollment template update it (enrollment.ts) */
+    adaptEnrollment?: boolean
+    createdAt?: string
+}
+
+export type PolicyRef = Pick<ScoringPolicy, 'id' | 'version'>
+
+// ─── Built-in policies ────────────────────────────────────────────────────────
+// Built-ins follow the rule published policies do: changing their rules adds a
+// version, and the earlier versions stay listed, so an (id, version) pair keeps
+// naming one document. The derived built-ins share the default's version.
+
+/** The original hard-coded rules — every session scored before policies used these */
+const DEFAULT_POLICY_V1: ScoringPolicy = {
+    id: 'default',
+    version: 1,
+    name: 'Standard',
+    description: 'Balanced tolerances for remote technical interviews.',
+    thresholds: { pass: 85, review: 60 },
+    penalties: {
+        HEAD_TURN:             { penalty: 5,  severity: 'medium' },
+        HEAD_POSE:             { penalty: 2,  severity: 'low' },
+        MULTIPLE_FACES:        { penalty: 15, severity: 'high' },
+        FACE_LOST:             { penalty: 5,  severity: 'medium' },
+        GAZE_OFF_SCREEN:       { penalty: 4,  severity: 'medium', rateLimit: { intervalMs: 4000, per: 'direction' } },
+        BLINK_RATE_ANOMALY:    { penalty: 8,  severity: 'medium' },
+        PROLONGED_EYE_CLOSURE: { penalty: 3,  severity: 'low' },
+        LIGHTING_FAIL:         { penalty: 20, severity: 'high' },
+        SACCADE_TOO_SMOOTH:    { penalty: 15, severity: 'high' },
+        BLINK_EDGE_ARTIFACT:   { penalty: 10, severity: 'medium' },
+        OCULO_MANUAL_DESYNC:   { penalty: 12, severity: 'high' },
+        CROSS_MODAL_TYPING:    { penalty: 6,  severity: 'medium', rateLimit: { intervalMs: 8000 } },
+        CLIPBOARD_PASTE:       {
+            penalty: 5, severity: 'low',
+            escalate: { by: 'length', steps: [{ over: 50, penalty: 12, severity: 'medium' }, { over: 200, penalty: 20, severity: 'high' }] },
+        },
+        CONTENT_INJECTION:     { penalty: 25, severity: 'high' },
+        DRAG_DROP:             { penalty: 20, severity: 'high' },
+        AI_BURST:              { penalty: 20, severity: 'high' },
+        TYPING_INCONSISTENCY:  { penalty: 8,  severity: 'medium' },
+        RHYTHM_SHIFT:          { penalty: 12, severity: 'high' },
+        LONG_PAUSE:            { penalty: 2,  severity: 'low' },
+        BACKSPACE_ANOMALY:     { penalty: 8,  severity: 'medium' },
+        KEYSTROKE_PERIODICITY: { penalty: 15, severity: 'high' },
+        NO_TYPING_FATIGUE:     { penalty: 8,  severity: 'medium' },
+        AI_RISK_ELEVATED:      { penalty: 5,  severity: 'high' },
+        ML_BOT_DETECTION:      { penalty: 0,  severity: 'high' },
+        TAB_SWITCH:            { penalty: 10, severity: 'high', escalate: { by: 'count', steps: [{ over: 2, penalty: 15 }] } },
+        FOCUS_LOST:            { penalty: 3,  severity: 'medium' },
+        EXTENDED_DISPLAY:      { penalty: 0,  severity: 'low' },
+    },
+    autoFlag: [{ code: 'TAB_SWITCH', atLeast: 2 }],
+}
+
+/** The next version of a built-in with `penalties` added or replaced */
+function revise(base: ScoringPolicy, penalties: Partial<Record<IncidentCode, PenaltyRule>>): ScoringPolicy {
+    return { ...base, version: base.version + 1, penalties: { ...base.penalties, ...penalties } }
+}
+
+/** v2: live face checks against the enrolled descriptors (faceMatch.ts) */
+const DEFAULT_POLICY_V2 = revise(DEFAULT_POLICY_V1, {
+    FACE_IDENTITY_MISMATCH: { penalty: 20, severity: 'high', rateLimit: { intervalMs: 60000 } },
+})
+
+/** v3: typist changes found window by window (identityMatch.ts) */
+export const DEFAULT_POLICY: ScoringPolicy = revise(DEFAULT_POLICY_V2, {
+    IDENTITY_DRIFT: { penalty: 25, severity: 'high' },
+})
+
+function derive(base: ScoringPolicy, patch: Omit<Partial<ScoringPolicy>, 'penalties'> & {
+    id: string
+    name: string
+    penalties?: Partial<Record<IncidentCode, Partial<PenaltyRule>>>
+}): ScoringPolicy {
+    const penalties = { ...base.penalties }
+    for (const [code, rule] of Object.entries(patch.penalties ?? {}) as [IncidentCode, Partial<PenaltyRule>][]) {
+        penalties[code] = { ...(base.penalties[code] ?? { penalty: 0, severity: 'low' }), ...rule }
+    }
+    return { ...base, ...patch, version: base.version, penalties }
+}
+
+/** Proctored exams: no outside material, one tab switch is enough to flag */
+function universityExam(base: ScoringPolicy, autoFlag: AutoFlagRule[]): ScoringPolicy {
+    return derive(base, {
+        id: 'university_exam',
+        name: 'University exam',
+        description: 'Strict proctoring — external material and second screens are not allowed.',
+        thresholds: { pass: 90, review: 70 },
+        penalties: {
+            GAZE_OFF_SCREEN:  { penalty: 6 },
+            CLIPBOARD_PASTE:  {
+                penalty: 10,
+                escalate: { by: 'length', steps: [{ over: 50, penalty: 20, severity: 'high' }, { over: 200, penalty: 30, severity: 'high' }] },
+            },
+            FOCUS_LOST:       { penalty: 5 },
+            EXTENDED_DISPLAY: { penalty: 10, severity: 'high' },
+            LONG_PAUSE:       { penalty: 0 },
+        },
+        autoFlag: [{ code: 'TAB_SWITCH', atLeast: 1 }, { code: 'MULTIPLE_FACES', atLeast: 1 }, ...autoFlag],
+    })
+}
+
+/** Live coding: looking up docs and pasting snippets is part of the job */
+function liveCoding(base: ScoringPolicy, autoFlag: AutoFlagRule[]): ScoringPolicy {
+    return derive(base, {
+        id: 'live_coding',
+        name: 'Live coding interview',
+        description: 'Lenient on documentation lookups and short pastes; strict on proxies and bots.',
+        thresholds: { pass: 80, review: 50 },
+        penalties: {
+            HEAD_POSE:          { penalty: 0 },
+            GAZE_OFF_SCREEN:    { penalty: 2, cap: 20 },
+            CROSS_MODAL_TYPING: { penalty: 3, cap: 15 },
+            CLIPBOARD_PASTE:    {
+                penalty: 2,
+                escalate: { by: 'length', steps: [{ over: 50, penalty: 6, severity: 'medium' }, { over: 200, penalty: 12, severity: 'high' }] },
+            },
+            LONG_PAUSE:         { penalty: 0 },
+            FOCUS_LOST:         { penalty: 1, cap: 10 },
+            TAB_SWITCH:         { penalty: 5, escalate: { by: 'count', steps: [{ over: 4, penalty: 10 }] } },
+        },
+        autoFlag: [{ code: 'TAB_SWITCH', atLeast: 5 }, { modality: 'liveness', atLeast: 3 }, ...autoFlag],
+    })
+}
+
+/** Every version of every built-in, oldest first */
+export const BUILTIN_POLICIES: readonly ScoringPolicy[] = [
+    DEFAULT_POLICY_V1,
+    DEFAULT_POLICY_V2,
+    DEFAULT_POLICY,
+    universityExam(DEFAULT_POLICY_V1, []),
+    universityExam(DEFAULT_POLICY_V2, [{ code: 'FACE_IDENTITY_MISMATCH', atLeast: 1 }]),
+    universityExam(DEFAULT_POLICY, [{ code: 'FACE_IDENTITY_MISMATCH', atLeast: 1 }, { code: 'IDENTITY_DRIFT', atLeast: 1 }]),
+    liveCoding(DEFAULT_POLICY_V1, []),
+    liveCoding(DEFAULT_POLICY_V2, [{ code: 'FACE_IDENTITY_MISMATCH', atLeast: 2 }]),
+    liveCoding(DEFAULT_POLICY, [{ code: 'FACE_IDENTITY_MISMATCH', atLeast: 2 }]),
+]
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+const NO_RULE: PenaltyRule = { penalty: 0, severity: 'low' }
+
+export function policyRule(policy: ScoringPolicy, code: IncidentCode): PenaltyRule {
+    return policy.penalties[code] ?? NO_RULE
+}
+
+/** Penalty and severity for one incident, before caps */
+export function resolvePenalty(
+    rule: PenaltyRule,
+    values: IncidentDetector['values'] = {}
+): { penalty: number; severity: IncidentSeverity } {
+    let { penalty, severity } = rule
+    const value = rule.escalate ? values[rule.escalate.by] : undefined
+    if (typeof value === 'number') {
+        for (const step of rule.escalate!.steps) {
+            if (value > step.over) {
+                penalty = step.penalty
+                severity = step.severity ?? severity
+            }
+        }
+    }
+    return { penalty, severity }
+}
+
+/** Smallest incident count of `code` that auto-flags a session, if any rule does */
+export function autoFlagThreshold(policy: ScoringPolicy, code: IncidentCode): number | undefined {
+    const counts = policy.autoFlag
+        .filter(r => 'code' in r ? r.code === code : r.modality === INCIDENT_CATALOG[code].modality)
+        .map(r => r.atLeast)
+    return counts.length ? Math.min(...counts) : undefined
+}
+
+export function policyLabel(ref: PolicyRef): string {
+    return `${ref.id}@v${ref.version}`
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+// Policies arrive as JSON from the admin API. parsePolicy checks the shape
+// and returns a complete document: codes the input leaves out keep their
+// DEFAULT_POLICY rule, so the stored snapshot never depends on later defaults.
+
+const SEVERITIES: readonly IncidentSeverity[] = ['low', 'medium', 'high']
+const MODALITIES = new Set<string>(Object.values(INCIDENT_CATALOG).map(e => e.modality))
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isPoints(v: unknown): v is number {
+    return typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 100
+}
+
+function parseRule(code: string, raw: unknown, errors: string[]): PenaltyRule | null {
+    if (!isObject(raw)) { errors.push(`penalties.${code} must be an object`); return null }
+    const base = DEFAULT_POLICY.penalties[code as IncidentCode] ?? NO_RULE
+    const penalty = raw.penalty ?? base.penalty
+    const severity = raw.severity ?? base.severity
+    if (!isPoints(penalty)) errors.push(`penalties.${code}.penalty must be 0–100`)
+    if (!SEVERITIES.includes(severity as IncidentSeverity)) errors.push(`penalties.${code}.severity must be low|medium|high`)
+    const rule: PenaltyRule = { penalty: penalty as number, severity: severity as IncidentSeverity }
+
+    const escalate = 'escalate' in raw ? raw.escalate : base.escalate
+    if (isObject(escalate)) {
+        const steps = Array.isArray(escalate.steps) ? escalate.steps : []
+        const valid = typeof escalate.by === 'string' && steps.length > 0 && steps.every((s, i) =>
+            isObject(s) && typeof s.over === 'number' && isPoints(s.penalty)
+            && (s.severity === undefined || SEVERITIES.includes(s.severity as IncidentSeverity))
+            && (i === 0 || (s.over as number) > (steps[i - 1] as PenaltyStep).over))
+        if (valid) rule.escalate = { by: escalate.by as string, steps: steps as PenaltyStep[] }
+        else errors.push(`penalties.${code}.escalate needs a field name and steps in ascending 'over' order`)
+    } else if (escalate != null) {
+        errors.push(`penalties.${code}.escalate must be an object`)
+    }
+
+    const cap = 'cap' in raw ? raw.cap : base.cap
+    if (cap != null) {
+        if (isPoints(cap)) rule.cap = cap
+        else errors.push(`penalties.${code}.cap must be 0–100`)
+    }
+
+    const rateLimit = 'rateLimit' in raw ? raw.rateLimit : base.rateLimit
+    if (isObject(rateLimit)) {
+        const { intervalMs, per } = rateLimit
+        if (typeof intervalMs === 'number' && intervalMs > 0 && (per === undefined || typeof per === 'string')) {
+            rule.rateLimit = { intervalMs, ...(per ? { per: per as string } : {}) }
+        } else {
+            errors.push(`penalties.${code}.rateLimit needs a positive intervalMs`)
+        }
+    } else if (rateLimit != null) {
+        errors.push(`penalties.${code}.rateLimit must be an object`)
+    }
+    return rule
+}
+
+export type ParsedPolicy =
+    | { ok: true; policy: Omit<ScoringPolicy, 'version' | 'createdAt'> }
+    | { ok: false; errors: string[] }
+
+export function parsePolicy(input: unknown): ParsedPolicy {
+    if (!isObject(input)) return { ok: false, errors: ['Policy must be a JSON object'] }
+    const errors: string[] = []
+
+    const id = input.id
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9_-]{1,47}$/.test(id)) {
+        errors.push('id must be a lowercase slug (a-z, 0-9, _ or -)')
+    }
+    const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : null
+    if (!name) errors.push('name is required')
+
+    const thresholds = isObject(input.thresholds) ? input.thresholds : DEFAULT_POLICY.thresholds
+    const pass = thresholds.pass ?? DEFAULT_POLICY.thresholds.pass
+    const review = thresholds.review ?? DEFAULT_POLICY.thresholds.review
+    if (!isPoints(pass) || !isPoints(review) || review > pass) {
+        errors.push('thresholds.pass and thresholds.review must be 0–100 with review ≤ pass')
+    }
+
+    const penalties: Partial<Record<IncidentCode, PenaltyRule>> = { ...DEFAULT_POLICY.penalties }
+    if (input.penalties !== undefined && !isObject(input.penalties)) errors.push('penalties must be an object keyed by incident code')
+    for (const [code, raw] of Object.entries(isObject(input.penalties) ? input.penalties : {})) {
+        if (!(code in INCIDENT_CATALOG)) { errors.push(`penalties.${code}: unknown incident code`); continue }
+        const rule = parseRule(code, raw, errors)
+        if (rule) penalties[code as IncidentCode] = rule
+    }
+
+    const autoFlag: AutoFlagRule[] = []
+    const rawFlags = input.autoFlag ?? DEFAULT_POLICY.autoFlag
+    if (!Array.isArray(rawFlags)) errors.push('autoFlag must be an array')
+    for (const [i, r] of (Array.isArray(rawFlags) ? rawFlags : []).entries()) {
+        const atLeast = isObject(r) ? r.atLeast : undefined
+        if (!isObject(r) || typeof atLeast !== 'number' || !Number.isInteger(atLeast) || atLeast < 1) {
+            errors.push(`autoFlag[${i}] needs an integer atLeast ≥ 1`)
+        } else if (typeof r.code === 'string' && r.code in INCIDENT_CATALOG) {
+            autoFlag.push({ code: r.code as IncidentCode, atLeast })
+        } else if (typeof r.modality === 'string' && MODALITIES.has(r.modality)) {
+            autoFlag.push({ modality: r.modality as IncidentModality, atLeast })
+        } else {
+            errors.push(`autoFlag[${i}] needs a known incident code or modality`)
+        }
+    }
+
+    const roles = Array.isArray(input.roles)
+        ? input.roles.filter((r): r is string => typeof r === 'string' && r.trim() !== '').map(r => r.trim())
+        : undefined
+    if (input.roles !== undefined && !Array.isArray(input.roles)) errors.push('roles must be an array of strings')
+    if (input.adaptEnrollment !== undefined && typeof input.adaptEnrollment !== 'boolean') {
+        errors.push('adaptEnrollment must be a boolean')
+    }
+
+    if (errors.length) return { ok: false, errors }
+    return {
+        ok: true,
+        policy: {
+            id: id as string,
+            name: name!,
+            ...(typeof input.description === 'string' ? { description: input.description } : {}),
+            ...(roles?.length ? { roles } : {}),
+            thresholds: { pass: pass as number, review: review as number },
+            penalties,
+            autoFlag,
+            ...(input.adaptEnrollment ? { adaptEnrollment: true } : {}),
+        },
+    }
+}
@@ -0,0 +1,555 @@
+/**
+ * Deep-Check · Trust Scoring
+ * ==========================
+ * Penalty rules for a live session, expressed as a reducer over the raw
+ * event log. The same code runs in the browser (live preview in
+ * InterviewPage) and on the server, where the persisted event log is
+ * replayed to produce the authoritative score, status and alerts. Alerts
+ * are typed Incidents (see incidentModel.ts).
+ *
+ * Detectors here decide *whether* an incident happened; what it costs, how
+ * often it may repeat and when it flags the session come from the
+ * ScoringPolicy the state was created with (see policy.ts).
+ *
+ * Isomorphic — no Node or DOM APIs in this file.
+ */
+
+import type { BiometricEvent } from '@/components/CodeEditor'
+import type {
+    AntiCheatEvent,
+    BlinkEvent,
+    FaceMetrics,
+    GazeDirection,
+    VerificationFailureReason,
+} from '@/components/VerificationCamera'
+import { FACE_MATCH_DISTANCE } from './faceMatch'
+import { FeatureContribution, MlExplanation } from './featureExplanation'
+import { INCIDENT_CATALOG, Incident, IncidentCode, IncidentDetector } from './incidentModel'
+import { DEFAULT_POLICY, ScoringPolicy, autoFlagThreshold, policyRule, resolvePenalty } from './policy'
+
+// ─── Raw event log ────────────────────────────────────────────────────────────
+// `at` is the client wall-clock time (epoch ms) the event was observed.
+
+export type SessionEvent =
+    | { kind: 'biometric';    at: number; event: BiometricEvent }
+    | { kind: 'anti_cheat';   at: number; event: AntiCheatEvent }
+    | { kind: 'blink';        at: number; event: BlinkEvent }
+    | { kind: 'gaze';         at: number; direction: GazeDirection }
+    | { kind: 'verification'; at: number; reason: VerificationFailureReason }
+    | { kind: 'visibility';   at: number; hidden: boolean }
+    | { kind: 'blur';         at: number }
+    | { kind: 'display';      at: number; extended: boolean }
+    | { kind: 'face_metrics'; at: number; metrics: FaceMetrics }
+    /** Scored by the server from the session's keystrokes (sessionAiRisk.ts) — never accepted over the wire */
+    | { kind: 'ai_window';    at: number; aiRisk: number; keystrokes: number; modelVersion?: string }
+    | { kind: 'ml';           at: number; aiRisk: number; method?: string; modelVersion?: string; explanation?: FeatureContribution[] }
+    /**
+     * Live face compared with the enrolled descriptors and logged by the
+     * face-match route (faceMatch.ts) — never accepted over the wire
+     */
+    | { kind: 'face_match';   at: number; distance: number; score: number }
+    /**
+     * Derived by the server from the keystrokes and the enrollment profile
+     * (identityMatch.ts) — never accepted over the wire. `identity` scores the
+     * window ending at `keystrokes`; `identity_drift` is dated at the keystroke
+     * the typist changed, found once the test crossed its threshold at `detectedAt`.
+     */
+    | { kind: 'identity';       at: number; keystrokes: number; score: number; llr: number; matched: boolean }
+    | { kind: 'identity_drift'; at: number; detectedAt: number; keystrokes: number }
+
+export type SessionEventKind = SessionEvent['kind']
+
+/** Kinds a client may send; server-derived kinds are left out */
+export const SESSION_EVENT_KINDS: readonly SessionEventKind[] = [
+    'biometric', 'anti_cheat', 'blink', 'gaze', 'verification',
+    'visibility', 'blur', 'display', 'face_metrics',
+]
+
+// ─── Reducer state ────────────────────────────────────────────────────────────
+
+/** One model score of a keystroke window (ai_window on the server, ai_score_update in the preview) */
+export interface AiRiskPoint {
+    /** ms since the session's first event */
+    offsetMs: number
+    aiRisk: number
+    /** Keystrokes typed when the window closed */
+    keystrokes?: number
+    modelVersion?: string
+}
+
+/** Upper bound on timeline points kept — one per 50 keystrokes is hours of typing */
+export const MAX_AI_TIMELINE_POINTS = 1000
+
+/** Match of one keystroke window against the enrolled profile (identityMatch.ts) */
+export interface IdentityPoint {
+    /** ms since the session's first event */
+    offsetMs: number
+    /** Keystrokes typed when the window closed */
+    keystrokes: number
+    /** 0-100 identity match of the window */
+    score: number
+    /** Whether the sequential test still took the typist for the enrolled candidate */
+    matched: boolean
+}
+
+export interface ScoringState {
+    /** Policy every penalty, limit and threshold is read from */
+    policy: ScoringPolicy
+    score: number
+    alerts: Incident[]              // newest first
+    nextAlertId: number
+    /** `at` of the first event applied — origin for Incident.offsetMs */
+    startedAt: number | null
+    keystrokeCount: number
+    pasteCount: number
+    anomalyCount: number
+    aiRisk: number
+    tabSwitchCount: number
+    gazeEventCount: number
+    lightingChallengesPassed: number
+    lightingChallengesFailed: number
+    antiCheatFailures: number
+    faceMetrics: FaceMetrics | null
+    /** Explanation of the highest ML risk seen */
+    mlExplanation: MlExplanation | null
+    /** Windowed model scores, oldest first */
+    aiTimeline: AiRiskPoint[]
+    /** Face checks against the enrolled face and the sum of their scores */
+    faceMatchChecks: number
+    faceMatchScoreSum: number
+    /** Windowed identity matches, oldest first (server replay only) */
+    identityTimeline: IdentityPoint[]
+    // Policy bookkeeping
+    /** Points deducted so far per code — enforces PenaltyRule.cap */
+    penaltyByCode: Partial<Record<IncidentCode, number>>
+    /** `at` of the last raise per rate-limit key — enforces PenaltyRule.rateLimit */
+    lastRaisedAt: Record<string, number>
+    // Correlation state
+    currentGaze: GazeDirection
+    blinkAnomalyCount: number
+}
+
+export function createScoringState(policy: ScoringPolicy = DEFAULT_POLICY): ScoringState {
+    return {
+        policy,
+        score: 100,
+        alerts: [],
+        nextAlertId: 1,
+        startedAt: null,
+        keystrokeCount: 0,
+        pasteCount: 0,
+        anomalyCount: 0,
+        aiRisk: 0,
+        tabSwitchCount: 0,
+        gazeEventCount: 0,
+        lightingChallengesPassed: 0,
+        lightingChallengesFailed: 0,
+        antiCheatFailures: 0,
+        faceMetrics: null,
+        mlExplanation: null,
+        aiTimeline: [],
+        faceMatchChecks: 0,
+        faceMatchScoreSum: 0,
+        identityTimeline: [],
+        penaltyByCode: {},
+        lastRaisedAt: {},
+        currentGaze: 'center',
+        blinkAnomalyCount: 0,
+    }
+}
+
+export interface ScoringOptions {
+    /** IANA zone used to format alert clock times (defaults to the runtime zone) */
+    timeZone?: string
+    /**
+     * Replaying for the verdict: the browser's own AI scores (ai_score_update)
+     * are ignored, the server's ai_window and ml events stand in for them
+     */
+    server?: boolean
+}
+
+function formatClock(at: number, timeZone?: string): string {
+    try {
+        return new Date(at).toLocaleTimeString('en-GB', timeZone ? { timeZone } : undefined)
+    } catch {
+        return new Date(at).toISOString().slice(11, 19)
+    }
+}
+
+// ─── Reducer ──────────────────────────────────────────────────────────────────
+
+/**
+ * Apply one event to `state` (mutated in place) and return the alerts it
+ * raised, in the order they were raised. Incidents suppressed by a policy
+ * rate limit are not raised at all.
+ */
+export function applySessionEvent(
+    state: ScoringState,
+    ev: SessionEvent,
+    opts: ScoringOptions = {}
+): Incident[] {
+    const raised: Incident[] = []
+    const { policy } = state
+    state.startedAt ??= ev.at
+
+    /** Raise `code` as the policy prices it; false when rate-limited */
+    const alert = (
+        code: IncidentCode,
+        message: string,
+        detector: Omit<IncidentDetector, 'event'> = {},
+        captureReason?: string
+    ): boolean => {
+        const rule = policyRule(policy, code)
+        if (rule.rateLimit) {
+            const { intervalMs, per } = rule.rateLimit
+            const key = per ? `${code}:${detector.values?.[per] ?? ''}` : code
+            const last = state.lastRaisedAt[key]
+            if (last !== undefined && ev.at - last < intervalMs) return false
+            state.lastRaisedAt[key] = ev.at
+        }
+        const priced = resolvePenalty(rule, detector.values)
+        const { severity } = priced
+        const penalty = rule.cap === undefined
+            ? priced.penalty
+            : Math.max(0, Math.min(priced.penalty, rule.cap - (state.penaltyByCode[code] ?? 0)))
+        state.penaltyByCode[code] = (state.penaltyByCode[code] ?? 0) + penalty
+
+        const timestamp = formatClock(ev.at, opts.timeZone)
+        const entry: Incident = {
+            id: state.nextAlertId++,
+            code,
+            severity,
+            penalty,
+            at: new Date(ev.at).toISOString(),
+            offsetMs: ev.at - (state.startedAt ?? ev.at),
+            modality: INCIDENT_CATALOG[code].modality,
+            timestamp,
+            message: `[${timestamp}] ${message}`,
+            detector: { event: ev.kind, ...detector },
+            ...(captureReason ? { captureReason } : {}),
+        }
+        state.alerts.unshift(entry)
+        state.score = Math.max(0, state.score - penalty)
+        raised.push(entry)
+        return true
+    }
+
+    /** A keystroke window's AI score; model scores also go on the timeline */
+    const windowScore = (aiScore: number, detector: Omit<IncidentDetector, 'event'>, point?: Omit<AiRiskPoint, 'offsetMs' | 'aiRisk'>) => {
+        const previous = state.aiRisk
+        state.aiRisk = aiScore
+        if (point && state.aiTimeline.length < MAX_AI_TIMELINE_POINTS) {
+            state.aiTimeline.push({
+                offsetMs: ev.at - (state.startedAt ?? ev.at),
+                aiRisk: Math.max(0, Math.min(100, Math.round(aiScore))),
+                ...point,
+            })
+        }
+        if (aiScore > 70 && previous <= 70) {
+            alert('AI_RISK_ELEVATED', `AI probability elevated to ${aiScore}%`, { ...detector, values: { aiScore } })
+        }
+    }
+
+    switch (ev.kind) {
+        // ── Camera: head pose / verification ──────────────────────────────────
+        case 'verification':
+            if (ev.reason === 'Gaze Divergence') {
+                alert('HEAD_TURN', 'Head turned away from screen', { type: ev.reason }, 'Head Turn')
+            } else if (ev.reason === 'Head Tilted') {
+                alert('HEAD_POSE', 'Head pose anomaly detected', { type: ev.reason })
+            } else if (ev.reason === 'Multiple faces detected') {
+                alert('MULTIPLE_FACES', 'Multiple faces in frame — possible proxy attempt', { type: ev.reason }, 'Multiple Faces')
+            } else if (ev.reason === 'No face detected') {
+                alert('FACE_LOST', 'Candidate left camera view', { type: ev.reason }, 'Face Lost')
+            }
+            // 'Eye Gaze Detected' is scored through gaze events (rate-limited)
+            break
+
+        // ── Gaze — rate-limited per direction by the policy ───────────────────
+        case 'gaze': {
+            const direction = ev.direction
+            state.currentGaze = direction
+            if (direction === 'center' || direction === 'unknown') break
+            const dirLabel = direction === 'left' ? 'left (possible second screen)' : direction === 'right' ? 'right (possible second screen)' : direction
+            if (alert('GAZE_OFF_SCREEN', `Eye gaze detected — looking ${dirLabel}`, { values: { direction } }, `Eye Gaze ${direction}`)) {
+                state.gazeEventCount += 1
+            }
+            break
+        }
+
+        // ── Blinks ────────────────────────────────────────────────────────────
+        case 'blink': {
+            const event = ev.event
+            if (event.type === 'blink_rate_anomaly') {
+                state.blinkAnomalyCount += 1
+                // Only alert on repeated anomalies or very extreme values (< 2/min)
+                if (state.blinkAnomalyCount >= 2 || (event.blinkRate !== undefined && event.blinkRate < 2)) {
+                    alert('BLINK_RATE_ANOMALY', `Blink rate anomaly: ${event.blinkRate}/min — ${event.detail ?? 'unusual blink pattern'}`,
+                        { type: event.type, values: event.blinkRate !== undefined ? { blinkRate: event.blinkRate } : undefined })
+                    state.blinkAnomalyCount = 0
+                }
+            } else if (event.type === 'prolonged_closure') {
+                alert('PROLONGED_EYE_CLOSURE', `Eyes closed ${Math.round((event.blinkDurationMs ?? 0) / 1000 * 10) / 10}s — attention check`,
+                    { type: event.type, values: { blinkDurationMs: event.blinkDurationMs ?? 0 } })
+            }
+            break
+        }
+
+        // ── Anti-cheat challenges ─────────────────────────────────────────────
+        case 'anti_cheat': {
+            const event = ev.event
+            switch (event.type) {
+                case 'lighting_challenge_fail':
+                    state.lightingChallengesFailed++
+                    state.antiCheatFailures++
+                    alert(
+                        'LIGHTING_FAIL',
+                        `Lighting challenge FAILED — no pupil/lid reflex detected (ΔEAR ${event.detail?.match(/[\d.]+/)?.[0] ?? '?'}) — possible deepfake`,
+                        { type: event.type }, 'Lighting Fail'
+                    )
+                    break
+                case 'lighting_challenge_pass':
+                    // Positive liveness signal — no alert
+                    state.lightingChallengesPassed++
+                    break
+                case 'saccade_too_smooth':
+                    state.antiCheatFailures++
+                    alert('SACCADE_TOO_SMOOTH', 'Gaze too smooth — no micro-saccades detected. AI renderer signature.', { type: event.type })
+                    break
+                case 'blink_edge_artifact':
+                    state.antiCheatFailures++
+                    alert('BLINK_EDGE_ARTIFACT', `Blink eyelid artifact — snap-close or unnatural symmetry. ${event.detail ?? ''}`, { type: event.type })
+                    break
+                case 'oculo_manual_desynced':
+                    state.antiCheatFailures++
+                    alert('OCULO_MANUAL_DESYNC', 'Oculo-manual desync — cursor moving but gaze frozen. Possible virtual camera or screen-share cheat.', { type: event.type })
+                    break
+            }
+            break
+        }
+
+        // ── Keyboard biometrics ───────────────────────────────────────────────
+        case 'biometric': {
+            const event = ev.event
+            switch (event.type) {
+                case 'keystroke': {
+                    state.keystrokeCount += 1
+                    // Cross-modal: a human looks at what they type. Typing while
+                    // gaze is off-screen may indicate reading from another source.
+                    const gaze = state.currentGaze
+                    if (gaze !== 'center' && gaze !== 'unknown') {
+                        alert('CROSS_MODAL_TYPING', `Cross-modal anomaly — typing while looking ${gaze} (possible external source)`,
+                            { type: event.type, values: { gaze } })
+                    }
+                    break
+                }
+                case 'paste': {
+                    const length = event.length ?? 0
+                    alert('CLIPBOARD_PASTE', `Clipboard paste — ${event.length} chars`,
+                        { type: event.type, values: { length } }, length > 50 ? 'Large Paste' : undefined)
+                    state.pasteCount += 1
+                    break
+                }
+                case 'burst':
+                    alert('AI_BURST', 'AI-assisted input — inhuman keystroke burst', { type: event.type }, 'AI Burst')
+                    state.aiRisk = Math.min(100, state.aiRisk + 20)
+                    break
+                case 'inconsistency':
+                    alert('TYPING_INCONSISTENCY', `Typing anomaly — Z-score ${event.zScore?.toFixed(1)}σ (key: ${event.key})`,
+                        { type: event.type, values: event.zScore !== undefined ? { zScore: event.zScore } : undefined })
+                    state.anomalyCount += 1
+                    break
+                case 'rhythm_shift':
+                    alert('RHYTHM_SHIFT', 'Sustained typing rhythm shift — possible user substitution', { type: event.type }, 'Rhythm Shift')
+                    state.anomalyCount += 1
+                    break
+                case 'long_pause':
+                    alert('LONG_PAUSE', `Extended pause (${((event.flightTime || 0) / 1000).toFixed(1)}s) — attention drift`,
+                        { type: event.type, values: { flightTime: event.flightTime || 0 } })
+                    break
+                case 'ai_score_update':
+                    // Preview only: the verdict's window scores are the server's own (ai_window)
+                    if (opts.server || typeof event.aiScore !== 'number' || !Number.isFinite(event.aiScore)) break
+                    windowScore(event.aiScore, { type: event.type }, event.aiSource === 'model' ? {
+                        keystrokes: typeof event.keystrokes === 'number' ? event.keystrokes : undefined,
+                        modelVersion: typeof event.modelVersion === 'string' ? event.modelVersion : undefined,
+                    } : undefined)
+                    break
+                case 'content_injection': {
+                    const isDragDrop = event.detail?.toLowerCase().includes('drag')
+                    const label = isDragDrop
+                        ? `Drag & drop detected — ${event.length ?? 0} chars inserted`
+                        : `Programmatic content injection — ${event.detail ?? `+${event.length} chars without typing`}`
+                    alert(isDragDrop ? 'DRAG_DROP' : 'CONTENT_INJECTION', label,
+                        { type: event.type, values: { length: event.length ?? 0 } }, isDragDrop ? 'Drag & Drop' : 'Code Injection')
+                    state.pasteCount += 1
+                    break
+                }
+                case 'drag_drop':
+                    alert('DRAG_DROP', `Drag & drop detected — ${event.length ?? 0} chars inserted`,
+                        { type: event.type, values: { length: event.length ?? 0 } }, 'Drag & Drop')
+                    state.pasteCount += 1
+                    break
+                case 'backspace_anomaly':
+                    alert('BACKSPACE_ANOMALY', `Backspace pattern anomaly — ${event.detail ?? 'inhuman correction uniformity'}`, { type: event.type })
+                    break
+                case 'fft_periodicity':
+                    alert('KEYSTROKE_PERIODICITY', `Periodic keystroke rhythm detected — ${event.periodicityScore}% spectral dominance (bot signature)`,
+                        { type: event.type, values: { periodicityScore: event.periodicityScore ?? 0 } })
+                    state.aiRisk = Math.min(100, state.aiRisk + 15)
+                    break
+                case 'fatigue_detected':
+                    // No fatigue over 80+ keystrokes = suspicious (bots don't tire)
+                    alert('NO_TYPING_FATIGUE', `No typing fatigue detected after ${event.detail?.match(/\d+/)?.[0] ?? '80'}+ keystrokes — bot-like consistency`, { type: event.type })
+                    break
+            }
+            break
+        }
+
+        // ── Window / tab focus ────────────────────────────────────────────────
+        case 'visibility': {
+            if (!ev.hidden) break
+            state.tabSwitchCount += 1
+            const count = state.tabSwitchCount
+            const flagAt = autoFlagThreshold(policy, 'TAB_SWITCH')
+            const detector = { values: { count } }
+            if (count === flagAt) {
+                alert('TAB_SWITCH', `Tab switch #${count} — session will be AUTO-FLAGGED (threshold reached)`, detector, 'Tab Switch')
+            } else if (flagAt !== undefined && count > flagAt) {
+                alert('TAB_SWITCH', `Tab switch #${count} — session FLAGGED`, detector, 'Tab Switch')
+            } else {
+                alert('TAB_SWITCH', `Tab switched — candidate left assessment window (${count}${flagAt !== undefined ? `/${flagAt}` : ''})`, detector, 'Tab Switch')
+            }
+            break
+        }
+        case 'blur':
+            alert('FOCUS_LOST', 'Window focus lost — candidate switched application', {}, 'Focus Lost')
+            break
+        case 'display':
+            if (ev.extended) alert('EXTENDED_DISPLAY', 'Extended display detected — dual monitor environment')
+            break
+
+        // ── Passive signals ───────────────────────────────────────────────────
+        case 'face_metrics':
+            state.faceMetrics = ev.metrics
+            break
+        case 'ai_window':
+            windowScore(ev.aiRisk, { type: 'model' }, { keystrokes: ev.keystrokes, modelVersion: ev.modelVersion })
+            break
+        case 'ml':
+            if (ev.aiRisk > 70) {
+                alert('ML_BOT_DETECTION', `🤖 ML Bot Detection: ${ev.aiRisk}% risk (${ev.method ?? 'model'})`,
+                    { type: ev.method, values: { aiRisk: ev.aiRisk } })
+            }
+            state.aiRisk = Math.max(state.aiRisk, Math.min(100, Math.round(ev.aiRisk)))
+            if (ev.explanation && ev.aiRisk >= (state.mlExplanation?.aiRisk ?? -1)) {
+                state.mlExplanation = { aiRisk: ev.aiRisk, modelVersion: ev.modelVersion, features: ev.explanation }
+            }
+            break
+        case 'face_match':
+            state.faceMatchChecks++
+            state.faceMatchScoreSum += Math.max(0, Math.min(100, ev.score))
+            if (ev.distance > FACE_MATCH_DISTANCE) {
+                alert('FACE_IDENTITY_MISMATCH', `Face does not match the enrolled candidate (distance ${ev.distance.toFixed(2)})`,
+                    { values: { distance: ev.distance, score: ev.score } }, 'Face Identity Mismatch')
+            }
+            break
+        case 'identity':
+            if (state.identityTimeline.length < MAX_AI_TIMELINE_POINTS) {
+                state.identityTimeline.push({
+                    offsetMs: ev.at - (state.startedAt ?? ev.at),
+                    keystrokes: ev.keystrokes,
+                    score: ev.score,
+                    matched: ev.matched,
+                })
+            }
+            break
+        case 'identity_drift':
+            alert('IDENTITY_DRIFT', `Typist changed at keystroke ${ev.keystrokes} — typing no longer matches the enrolled profile`,
+                { values: { keystrokes: ev.keystrokes, detectedAfterMs: ev.detectedAt - ev.at } })
+            break
+    }
+
+    return raised
+}
+
+// ─── Session outcome ──────────────────────────────────────────────────────────
+
+export type SessionStatus = 'passed' | 'review' | 'flagged'
+
+export interface SessionOutcome {
+    score: number
+    status: SessionStatus
+    autoFlagged: boolean
+}
+
+export function deriveOutcome(state: ScoringState): SessionOutcome {
+    const { policy, alerts } = state
+    // Any matching auto-flag rule flags the session, regardless of trust score
+    const autoFlagged = policy.autoFlag.some(rule => alerts.filter(a =>
+        'code' in rule ? a.code === rule.code : a.modality === rule.modality).length >= rule.atLeast)
+    const { pass, review } = policy.thresholds
+    const status: SessionStatus = autoFlagged
+        ? 'flagged'
+        : state.score > pass ? 'passed' : state.score > review ? 'review' : 'flagged'
+    return { score: state.score, status, autoFlagged }
+}
+
+/** Mean face-match score, or undefined when the face was never checked */
+export function faceMatchScore(state: ScoringState): number | undefined {
+    return state.faceMatchChecks > 0 ? Math.round(state.faceMatchScoreSum / state.faceMatchChecks) : undefined
+}
+
+/** Replay a full event log from scratch. Events are applied in `at` order. */
+export function replaySessionEvents(
+    events: SessionEvent[],
+    opts: ScoringOptions & { policy?: ScoringPolicy } = {}
+): ScoringState {
+    const state = createScoringState(opts.policy)
+    const ordered = events
+        .map((ev, i) => ({ ev, i }))
+        .sort((a, b) => a.ev.at - b.ev.at || a.i - b.i)
+    for (const { ev } of ordered) applySessionEvent(state, ev, opts)
+    return state
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+// Server-side guard for events arriving over the wire. Malformed entries are
+// dropped rather than rejecting the whole log.
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+export function sanitizeSessionEvents(input: unknown, maxEvents = 50_000): SessionEvent[] {
+    if (!Array.isArray(input)) return []
+    const out: SessionEvent[] = []
+    for (const raw of input) {
+        if (out.length >= maxEvents) break
+        if (!isObject(raw)) continue
+        const kind = raw.kind as SessionEventKind
+        const at = raw.at
+        if (!SESSION_EVENT_KINDS.includes(kind) || typeof at !== 'number' || !Number.isFinite(at)) continue
+        switch (kind) {
+            case 'biometric':
+            case 'anti_cheat':
+            case 'blink':
+                if (!isObject(raw.event) || typeof raw.event.type !== 'string') continue
+                break
+            case 'gaze':
+                if (typeof raw.direction !== 'string') continue
+                break
+            case 'visibility':
+                if (typeof raw.hidden !== 'boolean') continue
+                break
+            case 'display':
+                if (typeof raw.extended !== 'boolean') continue
+                break
+            case 'face_metrics':
+                if (!isObject(raw.metrics)) continue
+                break
+        }
+        out.push(raw as unknown as SessionEvent)
+    }
+    return out
+}
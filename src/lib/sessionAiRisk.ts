@@ -0,0 +1,179 @@
+/**
+ * Deep-Check · Session AI risk (server-side)
+ * ==========================================
+ * The verdict's aiRisk comes from the session's own keystrokes: the event
+ * log is rebuilt into the RawSessionData CodeEditor collects, turned into
+ * the model's features (biometricFeatures.ts) and scored by the serving
+ * model, or by the heuristic when no model can score it. The result enters
+ * replay as an `ml` event — a kind the browser may no longer send, so a
+ * client cannot claim its own risk.
+ *
+ * The risk timeline is rebuilt the same way: the windows the browser's live
+ * detector scores (keystrokeWindows.ts) are scored again here as `ai_window`
+ * events, and the browser's own window scores are only a preview.
+ */
+
+import { extractFeatureVector, FEATURE_NAMES, FeatureName, RawSessionData } from './biometricFeatures'
+import { TypedKey, typedKeys } from './identityMatch'
+import { createNgramCapture, ngramSamples, recordKeystroke } from './keystrokeNgrams'
+import { ML_MIN_KEYSTROKES, ML_WINDOW_KEYSTROKES, ML_WINDOW_STRIDE, windowSessionData } from './keystrokeWindows'
+import { scoreSession } from './modelEvaluation'
+import { MAX_AI_TIMELINE_POINTS, SessionEvent } from './scoring'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** Fewer flights than this say too little to score (as the interview page required) */
+export const MIN_AI_RISK_FLIGHTS = 20
+
+/** Burst detection as in keystrokeAnalysis.ts: > 12 character keys within 300 ms */
+const BURST_EXCLUDED_KEYS = new Set(['Enter', 'Backspace', 'Delete', 'Tab'])
+const BURST_WINDOW_MS = 300
+const BURST_MIN_KEYS = 12
+const BURST_GAP_MS = 2000
+/** Backspace latencies kept, as the editor keeps them */
+const MAX_BACKSPACE_LATENCY_MS = 5000
+
+// ─── Heuristic ────────────────────────────────────────────────────────────────
+
+export function heuristicAiScore(f: Record<FeatureName, number>): number {
+    let score = 0
+
+    // Periodicity (FFT)
+    if (f.periodicity_score > 65) score += 25
+    else if (f.periodicity_score > 45) score += 12
+
+    // Velocity gradient (bots are flat)
+    if (Math.abs(f.velocity_gradient) < 0.01) score += 15
+    else if (Math.abs(f.velocity_gradient) < 0.05) score += 6
+
+    // Fatigue rate (bots show no fatigue)
+    if (Math.abs(f.fatigue_rate) < 0.02) score += 15
+    else if (Math.abs(f.fatigue_rate) < 0.08) score += 5
+
+    // Backspace uniformity (bots don't self-correct naturally)
+    if (f.backspace_latency_std < 8) score += 15
+    if (f.backspace_count_ratio < 0.01) score += 8
+
+    // Kurtosis (leptokurtic = bot)
+    if (f.flight_kurtosis > 7) score += 12
+    else if (f.flight_kurtosis > 4) score += 5
+
+    // Entropy
+    if (f.flight_entropy < 1.0) score += 15
+    else if (f.flight_entropy < 1.8) score += 7
+
+    // Skewness (symmetric = bot)
+    if (Math.abs(f.flight_skewness) < 0.1) score += 8
+
+    // Rhythm
+    if (f.rhythm_consistency < 5) score += 10
+
+    return Math.min(100, score)
+}
+
+// ─── Raw session data ─────────────────────────────────────────────────────────
+
+function lastEventAt(events: SessionEvent[]): number {
+    return events.reduce((t, ev) => Math.max(t, ev.at), -Infinity)
+}
+
+/** Release times of the keys that completed a burst */
+function burstTimes(keys: TypedKey[]): number[] {
+    const bursts: number[] = []
+    let window: number[] = []
+    let lastBurst = 0
+    for (const k of keys) {
+        if (!BURST_EXCLUDED_KEYS.has(k.key)) {
+            window.push(k.up)
+            window = window.filter(t => k.up - t < BURST_WINDOW_MS)
+        }
+        if (window.length > BURST_MIN_KEYS && k.up - lastBurst > BURST_GAP_MS) {
+            lastBurst = k.up
+            bursts.push(k.up)
+        }
+    }
+    return bursts
+}
+
+/** The session's keystrokes as CodeEditor's sessionData would report them */
+export function sessionRawData(events: SessionEvent[]): RawSessionData {
+    const keys = typedKeys(events)
+    const capture = createNgramCapture()
+    const backspaceTimes: number[] = []
+    let lastCharUp: number | null = null
+
+    for (const k of keys) {
+        if (k.key === 'Backspace' && lastCharUp !== null) {
+            const latency = k.down - lastCharUp
+            if (latency > 0 && latency < MAX_BACKSPACE_LATENCY_MS) backspaceTimes.push(latency)
+        }
+        if (k.key !== 'Backspace') lastCharUp = k.up
+        recordKeystroke(capture, k)
+    }
+
+    const flightTimes = keys.map(k => k.flightTime).filter(t => t > 0)
+    const holdTimes = keys.map(k => k.holdTime)
+    const first = events.reduce((t, ev) => Math.min(t, ev.at), Infinity)
+    return {
+        ...ngramSamples(capture),
+        flightTimes,
+        holdTimes,
+        backspaceTimes,
+        totalKeystrokes:   flightTimes.length + holdTimes.length,
+        totalBackspaces:   backspaceTimes.length,
+        burstCount:        burstTimes(keys).length,
+        sessionDurationMs: events.length ? lastEventAt(events) - first : 0,
+    }
+}
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+/**
+ * Score every window the live detector scores — the last ML_WINDOW_KEYSTROKES
+ * keys, each ML_WINDOW_STRIDE keys once ML_MIN_KEYSTROKES are typed — as
+ * `ai_window` events dated at the window's last key. Empty when no model serves.
+ */
+async function aiWindowEvents(sessionId: string, events: SessionEvent[]): Promise<SessionEvent[]> {
+    const keys = typedKeys(events)
+    const bursts = burstTimes(keys)
+    const out: SessionEvent[] = []
+    const first = Math.ceil(ML_MIN_KEYSTROKES / ML_WINDOW_STRIDE) * ML_WINDOW_STRIDE
+    for (let end = first; end <= keys.length && out.length < MAX_AI_TIMELINE_POINTS; end += ML_WINDOW_STRIDE) {
+        const window = keys.slice(Math.max(0, end - ML_WINDOW_KEYSTROKES), end)
+        const { raw } = extractFeatureVector(windowSessionData(window, bursts))
+        const served = await scoreSession(FEATURE_NAMES.map(name => raw[name]), { sessionId })
+        if (!served) return []
+        out.push({ kind: 'ai_window', at: keys[end - 1].at, aiRisk: served.risk, keystrokes: end, modelVersion: served.modelVersion })
+    }
+    return out
+}
+
+/**
+ * Score the session's keystrokes and return the events replay applies: the
+ * window scores, then the `ml` event for the whole session, dated at the
+ * session's last event. Empty when there is too little typing.
+ */
+export async function aiRiskEvents(sessionId: string, events: SessionEvent[]): Promise<SessionEvent[]> {
+    const data = sessionRawData(events)
+    if (data.flightTimes.length < MIN_AI_RISK_FLIGHTS) return []
+
+    const windows = await aiWindowEvents(sessionId, events).catch(err => {
+        console.warn(`[ai-risk] ${sessionId}: window scoring failed:`, (err as Error).message)
+        return []
+    })
+
+    const features = extractFeatureVector(data).raw
+    const served = await scoreSession(FEATURE_NAMES.map(name => features[name]), { sessionId, explain: true })
+        .catch(err => {
+            console.warn(`[ai-risk] ${sessionId}: model scoring failed, using heuristic:`, (err as Error).message)
+            return null
+        })
+    return [...windows, {
+        kind:         'ml',
+        at:           lastEventAt(events),
+        aiRisk:       served?.risk ?? heuristicAiScore(features),
+        method:       served ? 'onnx' : 'heuristic',
+        modelVersion: served?.modelVersion,
+        explanation:  served?.explanation,
+    }]
+}
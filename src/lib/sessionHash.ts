@@ -0,0 +1,182 @@
+/**
+ * Deep-Check · Session hash
+ * ==========================
+ * The single definition of `Assessment.sessionHash`. Computed on the server
+ * when a session is saved or re-certified, and by every verifier.
+ *
+ *   v2 (current)  SHA-256 of canonicalJson({ v: 2, ...fields }) — sorted keys,
+ *                 missing metrics as explicit null, autoFlagged included
+ *   v1 (legacy)   SHA-256 of JSON.stringify in db.ts insertion order
+ *   v0 (legacy)   the browser's copy in the old interview page — same as v1
+ *                 but without identityMatchScore
+ *
+ * Rows saved before versioning have no `sessionHashVersion`; the layout that
+ * reproduces their stored hash is detected, and migrateSessionHash() moves
+ * them to v2 while keeping the old hash in `legacySessionHash`.
+ */
+
+import crypto from 'crypto'
+import { canonicalJson } from './canonical'
+import type { Assessment } from './db'
+
+export type SessionHashVersion = 0 | 1 | 2
+
+export const CURRENT_SESSION_HASH_VERSION = 2 as const
+
+type Hashable = Pick<Assessment,
+    | 'id' | 'candidateName' | 'role' | 'date' | 'score' | 'status' | 'alerts'
+    | 'keystrokeCount' | 'aiRisk' | 'tabSwitchCount' | 'gazeEventCount'
+    | 'livenessScore' | 'identityMatchScore' | 'autoFlagged'>
+
+// ─── Serialization ────────────────────────────────────────────────────────────
+
+/** The exact string that gets hashed for a given layout version */
+export function sessionHashPayload(a: Hashable, version: SessionHashVersion = CURRENT_SESSION_HASH_VERSION): string {
+    const alertCount = a.alerts?.length ?? 0
+    switch (version) {
+        case 2:
+            return canonicalJson({
+                v:                  2,
+                id:                 a.id,
+                candidateName:      a.candidateName,
+                role:               a.role,
+                date:               a.date,
+                score:              a.score,
+                status:             a.status,
+                autoFlagged:        a.autoFlagged ?? false,
+                alertCount,
+                keystrokeCount:     a.keystrokeCount ?? null,
+                aiRisk:             a.aiRisk ?? null,
+                tabSwitchCount:     a.tabSwitchCount ?? null,
+                gazeEventCount:     a.gazeEventCount ?? null,
+                livenessScore:      a.livenessScore ?? null,
+                identityMatchScore: a.identityMatchScore ?? null,
+            })
+        case 1:
+            return JSON.stringify({
+                id:                 a.id,
+                candidateName:      a.candidateName,
+                role:               a.role,
+                date:               a.date,
+                score:              a.score,
+                status:             a.status,
+                alertCount,
+                keystrokeCount:     a.keystrokeCount,
+                aiRisk:             a.aiRisk,
+                tabSwitchCount:     a.tabSwitchCount,
+                gazeEventCount:     a.gazeEventCount,
+                livenessScore:      a.livenessScore,
+                identityMatchScore: a.identityMatchScore,
+            })
+        case 0:
+            return JSON.stringify({
+                id:             a.id,
+                candidateName:  a.candidateName,
+                role:           a.role,
+                date:           a.date,
+                score:          a.score,
+                status:         a.status,
+                alertCount,
+                keystrokeCount: a.keystrokeCount,
+                aiRisk:         a.aiRisk,
+                tabSwitchCount: a.tabSwitchCount,
+                gazeEventCount: a.gazeEventCount,
+                livenessScore:  a.livenessScore,
+            })
+    }
+}
+
+export function computeSessionHash(a: Hashable, version: SessionHashVersion = CURRENT_SESSION_HASH_VERSION): string {
+    return crypto.createHash('sha256').update(sessionHashPayload(a, version)).digest('hex')
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+/** Which legacy layout reproduces the stored hash, if any */
+export function detectLegacyHashVersion(a: Hashable & Pick<Assessment, 'sessionHash'>): 0 | 1 | null {
+    const stored = a.sessionHash?.toLowerCase()
+    if (!stored) return null
+    if (computeSessionHash(a, 1) === stored) return 1
+    if (computeSessionHash(a, 0) === stored) return 0
+    return null
+}
+
+/**
+ * The version the stored hash claims to use (recorded, or detected for
+ * legacy rows) and the hash that version gives for the current data.
+ */
+export function recordedSessionHash(a: Assessment): { version: SessionHashVersion | null; expected: string | null } {
+    if (a.sessionHashVersion !== undefined) {
+        return { version: a.sessionHashVersion, expected: computeSessionHash(a, a.sessionHashVersion) }
+    }
+    const legacy = detectLegacyHashVersion(a)
+    return { version: legacy, expected: legacy === null ? null : computeSessionHash(a, legacy) }
+}
+
+export interface SessionHashCheck {
+    /** Layout of the stored hash; null when no known layout reproduces it */
+    version: SessionHashVersion | null
+    /** Current-layout hash of the stored data */
+    expectedHash: string
+    /** Hashes a genuine certificate for this record may carry */
+    acceptedHashes: string[]
+    storedMatch: boolean | null
+    providedMatch: boolean | null
+}
+
+/**
+ * Compare the stored hash (and optionally one printed on a certificate)
+ * with the record. A pre-migration PDF keeps verifying through
+ * `legacySessionHash` as long as the certified fields are unchanged.
+ */
+export function verifySessionHash(a: Assessment, provided?: string | null): SessionHashCheck {
+    const expectedHash = computeSessionHash(a)
+    const recorded = recordedSessionHash(a)
+
+    const accepted = new Set<string>([expectedHash])
+    if (recorded.expected) accepted.add(recorded.expected)
+    const legacy = a.legacySessionHash
+    if (legacy?.version !== undefined && legacy.version !== null) {
+        const recomputed = computeSessionHash(a, legacy.version)
+        if (recomputed === legacy.hash.toLowerCase()) accepted.add(recomputed)
+    }
+
+    const stored = a.sessionHash?.toLowerCase()
+    return {
+        version:        recorded.version,
+        expectedHash,
+        acceptedHashes: [...accepted],
+        storedMatch:    stored ? stored === recorded.expected : null,
+        providedMatch:  provided ? accepted.has(provided.trim().toLowerCase()) : null,
+    }
+}
+
+// ─── Migration ────────────────────────────────────────────────────────────────
+
+export type SessionHashMigration =
+    | 'current'     // already v2
+    | 'migrated'    // legacy hash reproduced from the data, rehashed as v2
+    | 'unverified'  // legacy hash matches no known layout — rehashed, flagged
+    | 'unhashed'    // never had a hash — hashed as v2
+
+/** Move one record to the current hash version. Pure — the caller saves. */
+export function migrateSessionHash(a: Assessment, now = new Date()): { assessment: Assessment; outcome: SessionHashMigration } {
+    if (a.sessionHashVersion === CURRENT_SESSION_HASH_VERSION) return { assessment: a, outcome: 'current' }
+
+    const rehashed: Assessment = {
+        ...a,
+        sessionHash:        computeSessionHash(a),
+        sessionHashVersion: CURRENT_SESSION_HASH_VERSION,
+    }
+    if (!a.sessionHash) return { assessment: rehashed, outcome: 'unhashed' }
+
+    const version = a.sessionHashVersion ?? detectLegacyHashVersion(a)
+    const verified = version !== null && computeSessionHash(a, version) === a.sessionHash.toLowerCase()
+    return {
+        assessment: {
+            ...rehashed,
+            legacySessionHash: { version, hash: a.sessionHash, verified, migratedAt: now.toISOString() },
+        },
+        outcome: verified ? 'migrated' : 'unverified',
+    }
+}
@@ -0,0 +1,259 @@
+/**
+ * Deep-Check · Session finalization (server-side)
+ * ================================================
+ * Turns a persisted raw event log into an Assessment. Score, status,
+ * autoFlagged, sessionHash and the signed certificate are always recomputed
+ * here from the events — anything the browser claims about its own score is
+ * only a hint, logged when it disagrees. The session's alerts and a seal are
+ * written to its incident log, whose root the certificate signs. The policy
+ * used is stored with the assessment, so rescoring it later is reproducible.
+ * Policies with adaptEnrollment let a verified session refine the
+ * candidate's enrollment template (enrollment.ts), once per session — only
+ * a live session the integrator bound to that template (an invite).
+ */
+
+import crypto from 'crypto'
+import {
+    Assessment,
+    EnrollmentContext,
+    getAssessmentById,
+    getProfileById,
+    getSessionEvents,
+    saveAssessment,
+} from './db'
+import { issueCertificate } from './certificates'
+import { adaptEnrollment, compareInContext } from './enrollment'
+import { identityEvents, matchKeystrokeIdentity, sessionIdentitySample } from './identityMatch'
+import { Incident, INCIDENT_CATALOG, IncidentCode } from './incidentModel'
+import { appendIncidents, sealDraft, sessionAlertDrafts } from './incidents'
+import { resolvePolicy } from './policies'
+import type { ScoringPolicy } from './policy'
+import { aiRiskEvents } from './sessionAiRisk'
+import { deriveOutcome, faceMatchScore, replaySessionEvents, ScoringState } from './scoring'
+import { dispatchSessionFinalized } from './webhooks'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface EvidenceEntry {
+    timestamp: string
+    image: string
+    reason: string
+    /**
+     * Code and `at` of the incident the snapshot was taken for. Incident ids
+     * are not used: server-only events replay between the client's and shift them.
+     */
+    incidentCode?: IncidentCode
+    incidentAt?: string
+}
+
+/** Values the browser computed locally. Never trusted for the verdict. */
+export interface ClientScoreHints {
+    score?: number
+    status?: Assessment['status']
+    identityMatchScore?: number
+    mlFlags?: string[]
+}
+
+export interface FinalizeSessionInput {
+    id: string
+    candidateName?: string
+    candidateEmail?: string
+    role?: string
+    evidence?: EvidenceEntry[]
+    timeZone?: string
+    /** Scoring policy snapshot; defaults to the one the session was last scored with */
+    policy?: ScoringPolicy
+    enrollmentProfileId?: string
+    /** enrollmentProfileId was bound by the authenticated live flow (an invite); only then may the session adapt it */
+    enrollmentBound?: boolean
+    /** Context of the live typing; a template enrolled in another context is adjusted to it */
+    context?: EnrollmentContext
+    /** Fingerprint of the API key that created the session — scopes its webhooks */
+    apiKeyId?: string
+    hints?: ClientScoreHints
+    /** Finalized by the idle sweep rather than by the candidate */
+    abandoned?: boolean
+}
+
+/** Face / anti-cheat figures shown on the report but not stored as columns */
+export interface SessionBiometricSummary {
+    blinkRate: number
+    blinkCount: number
+    avgBlinkDuration: number
+    headSymmetryScore: number
+    microMovementScore: number
+    gazeStabilityScore: number
+    faceBrightnessDelta: number
+    lightingChallengesPassed: number
+    lightingChallengesFailed: number
+    saccadeScore: number
+    blinkEdgeScore: number
+    ocoloManualScore: number
+    antiCheatFailures: number
+    pasteCount: number
+    anomalyCount: number
+    mlFlags: string[]
+}
+
+export interface FinalizedSession {
+    assessment: Assessment
+    summary: SessionBiometricSummary
+}
+
+const MAX_EVIDENCE = 8
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+export function newSessionId(): string {
+    return crypto.randomBytes(8).toString('hex')
+}
+
+function sanitizeEvidence(input: unknown): EvidenceEntry[] {
+    if (!Array.isArray(input)) return []
+    return input
+        .filter((e): e is EvidenceEntry =>
+            typeof e?.timestamp === 'string' && typeof e?.image === 'string' && typeof e?.reason === 'string'
+            && e.image.startsWith('data:image/'))
+        .slice(-MAX_EVIDENCE)
+        .map(({ timestamp, image, reason, incidentCode, incidentAt }) => ({
+            timestamp, image, reason,
+            ...(typeof incidentCode === 'string' && incidentCode in INCIDENT_CATALOG && typeof incidentAt === 'string'
+                ? { incidentCode, incidentAt }
+                : {}),
+        }))
+}
+
+/**
+ * Point each incident at the snapshot the client took for it, if kept.
+ * captureReason is a live-session hint and is not persisted.
+ */
+function linkEvidence(incidents: Incident[], evidence: EvidenceEntry[]): Incident[] {
+    return incidents.map(incident => {
+        const ref = evidence.findIndex(e => e.incidentCode === incident.code && e.incidentAt === incident.at)
+        return { ...incident, captureReason: undefined, ...(ref >= 0 ? { evidenceRef: ref } : {}) }
+    })
+}
+
+function summarize(state: ScoringState, mlFlags: string[]): SessionBiometricSummary {
+    const fm = state.faceMetrics
+    return {
+        blinkRate:                fm?.blinkRate ?? 0,
+        blinkCount:               fm?.blinkCount ?? 0,
+        avgBlinkDuration:         fm?.avgBlinkDuration ?? 0,
+        headSymmetryScore:        fm?.headSymmetryScore ?? 0,
+        microMovementScore:       fm?.microMovementScore ?? 0,
+        gazeStabilityScore:       fm?.gazeStabilityScore ?? 0,
+        faceBrightnessDelta:      fm?.faceBrightnessDelta ?? 0,
+        lightingChallengesPassed: state.lightingChallengesPassed,
+        lightingChallengesFailed: state.lightingChallengesFailed,
+        saccadeScore:             fm?.saccadeScore ?? 0,
+        blinkEdgeScore:           fm?.blinkEdgeScore ?? 0,
+        ocoloManualScore:         fm?.ocoloManualScore ?? 0,
+        antiCheatFailures:        state.antiCheatFailures,
+        pasteCount:               state.pasteCount,
+        anomalyCount:             state.anomalyCount,
+        mlFlags,
+    }
+}
+
+// ─── Finalize ─────────────────────────────────────────────────────────────────
+
+/**
+ * Replay the stored event log for `input.id`, persist the resulting
+ * Assessment and return it. Re-finalizing an existing session keeps its
+ * review-time fields (externalRef, apiKeyId, webhookDelivered) and its
+ * scoring policy but rescores it, appending only a new seal to the incident
+ * log. Emits session.completed (and session.flagged) webhooks.
+ */
+export async function finalizeSession(input: FinalizeSessionInput): Promise<FinalizedSession> {
+    const existing = await getAssessmentById(input.id)
+    const role = input.role?.trim() || existing?.role || 'Software Engineer'
+    const policy = input.policy ?? existing?.scoringPolicy ?? await resolvePolicy({ role })
+
+    // Keystroke windows are matched against the enrolled profile — adjusted
+    // when it was enrolled in another context — and the AI risk is scored
+    // here, never by the client
+    const enrollmentProfileId = input.enrollmentProfileId ?? existing?.enrollmentProfileId
+    const profile = enrollmentProfileId ? await getProfileById(enrollmentProfileId) : null
+    const comparison = profile ? await compareInContext(profile, input.context ?? existing?.identityContext?.live ?? null) : null
+    const events = await getSessionEvents(input.id)
+    const derived = [
+        ...(comparison ? identityEvents(events, comparison.profile) : []),
+        ...await aiRiskEvents(input.id, events),
+    ]
+    const state = replaySessionEvents([...events, ...derived], { timeZone: input.timeZone, policy, server: true })
+    const outcome = deriveOutcome(state)
+    const hints = input.hints ?? {}
+
+    if (hints.score !== undefined && hints.score !== outcome.score) {
+        console.warn(`[sessions] ${input.id}: client score ${hints.score} ≠ server score ${outcome.score}`)
+    }
+    if (hints.status !== undefined && hints.status !== outcome.status) {
+        console.warn(`[sessions] ${input.id}: client status ${hints.status} ≠ server status ${outcome.status}`)
+    }
+
+    const evidence = input.evidence !== undefined ? sanitizeEvidence(input.evidence) : (existing?.evidence ?? [])
+    const alerts = linkEvidence(state.alerts, evidence)
+    const sample = comparison ? sessionIdentitySample(events) : null
+    const identityMatchScore = comparison && sample ? matchKeystrokeIdentity(sample, comparison.profile).score : undefined
+    if (hints.identityMatchScore !== undefined && hints.identityMatchScore !== identityMatchScore) {
+        console.warn(`[sessions] ${input.id}: client identity score ${hints.identityMatchScore} ≠ server identity score ${identityMatchScore}`)
+    }
+    // Typing from another context would pull the template away from its own
+    const adaptable = policy.adaptEnrollment && input.enrollmentBound && profile && profile.id === input.enrollmentProfileId
+        && comparison?.context.reliability === 1
+    const enrollmentUpdate = existing?.enrollmentUpdate ?? (adaptable
+        ? await adaptEnrollment(
+            { id: input.id, status: outcome.status, autoFlagged: outcome.autoFlagged, aiRisk: state.aiRisk, alerts },
+            events,
+            profile
+        ).catch(err => {
+            console.error(`[sessions] ${input.id}: enrollment update failed:`, err)
+            return undefined
+        })
+        : undefined)
+
+    const unsigned: Omit<Assessment, 'sessionHash' | 'certificateIssued' | 'certificate'> = {
+        id:                  input.id,
+        candidateName:       input.candidateName?.trim() || existing?.candidateName || 'Remote Candidate',
+        candidateEmail:      input.candidateEmail ?? existing?.candidateEmail,
+        role,
+        date:                existing?.date ?? new Date().toISOString().split('T')[0],
+        score:               outcome.score,
+        status:              outcome.status,
+        alerts,
+        evidence,
+        lastEvent:           input.abandoned
+            ? 'Session abandoned — finalized server-side after inactivity'
+            : alerts[0]?.message || 'Session ended cleanly',
+        livenessScore:       state.faceMetrics?.livenessScore ?? 0,
+        aiRisk:              state.aiRisk,
+        keystrokeCount:      state.keystrokeCount,
+        tabSwitchCount:      state.tabSwitchCount,
+        gazeEventCount:      state.gazeEventCount,
+        autoFlagged:         outcome.autoFlagged,
+        mlExplanation:       state.mlExplanation ?? undefined,
+        aiRiskTimeline:      state.aiTimeline.length ? state.aiTimeline : undefined,
+        scoringPolicy:       policy,
+        enrollmentProfileId,
+        identityMatchScore,
+        identityTimeline:    state.identityTimeline.length ? state.identityTimeline : undefined,
+        identityContext:     comparison?.context,
+        faceMatchScore:      faceMatchScore(state),
+        enrollmentUpdate,
+        externalRef:         existing?.externalRef,
+        apiKeyId:            input.apiKeyId ?? existing?.apiKeyId,
+        webhookDelivered:    existing?.webhookDelivered,
+    }
+
+    // Alerts are logged once; a re-finalization only records the new verdict
+    const drafts = existing?.incidentCount
+        ? [sealDraft(unsigned, alerts.length)]
+        : [...sessionAlertDrafts(state.alerts), sealDraft(unsigned, alerts.length)]
+    const assessment = issueCertificate(await appendIncidents(unsigned, drafts))
+    await saveAssessment(assessment)
+    await dispatchSessionFinalized(assessment)
+
+    const mlFlags = Array.isArray(hints.mlFlags) ? hints.mlFlags.filter(f => typeof f === 'string').slice(0, 20) : []
+    return { assessment, summary: summarize(state, mlFlags) }
+}
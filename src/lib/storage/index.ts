@@ -0,0 +1,31 @@
+/**
+ * Deep-Check · Storage backend selection
+ *
+ * DEEPCHECK_STORAGE = 'supabase' | 'local'
+ * When unset, Supabase is used if NEXT_PUBLIC_SUPABASE_URL is configured,
+ * otherwise the local JSON store.
+ */
+
+import { createSupabaseAdapter, isSupabaseConfigured } from './supabase'
+import { createLocalAdapter } from './local'
+import type { StorageAdapter, StorageBackend } from './types'
+
+export type { ModelEvaluationFilter, StorageAdapter, StorageBackend, WebhookDeliveryFilter } from './types'
+
+let adapter: StorageAdapter | null = null
+
+function resolveBackend(): StorageBackend {
+    const requested = process.env.DEEPCHECK_STORAGE?.trim().toLowerCase()
+    if (requested === 'supabase' || requested === 'local') return requested
+    if (requested) {
+        throw new Error(`Unknown DEEPCHECK_STORAGE "${requested}" (expected "supabase" or "local")`)
+    }
+    return isSupabaseConfigured() ? 'supabase' : 'local'
+}
+
+export function getStorage(): StorageAdapter {
+    if (!adapter) {
+        adapter = resolveBackend() === 'supabase' ? createSupabaseAdapter() : createLocalAdapter()
+    }
+    return adapter
+}
@@ -0,0 +1,329 @@
+/**
+ * Deep-Check · Local JSON storage adapter
+ * Single-file embedded store for local development, CI and on-prem installs.
+ *
+ * The store lives at DEEPCHECK_LOCAL_STORE (default: data/local-store.json).
+ * On first use it is seeded from data/assessments.json. Writes are serialised
+ * in-process and land atomically (tmp file + rename), so a crash never leaves
+ * a half-written store behind.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Assessment, EnrollmentProfile, ApiKey, IdentityCalibration, Invite, LiveSession, ModelEvaluation, WebhookDelivery } from '../db'
+import type { IncidentEntry } from '../incidentChain'
+import type { ScoringPolicy } from '../policy'
+import type { SessionEvent } from '../scoring'
+import type { StorageAdapter } from './types'
+
+// ─── Store shape ──────────────────────────────────────────────────────────────
+
+interface LocalStore {
+    version: 1
+    /** Newest first */
+    assessments: Assessment[]
+    /** Raw event log per session id */
+    sessionEvents: Record<string, SessionEvent[]>
+    /** Hash-chained incident log per session id */
+    incidents: Record<string, IncidentEntry[]>
+    liveSessions: LiveSession[]
+    invites: Invite[]
+    enrollmentProfiles: EnrollmentProfile[]
+    /** Newest first */
+    apiKeys: ApiKey[]
+    /** Published policy versions, newest first */
+    policies: ScoringPolicy[]
+    /** Newest first */
+    modelEvaluations: ModelEvaluation[]
+    /** Newest first */
+    identityCalibrations: IdentityCalibration[]
+    /** Newest first */
+    webhookDeliveries: WebhookDelivery[]
+}
+
+const STORE_PATH = path.resolve(
+    process.env.DEEPCHECK_LOCAL_STORE ?? path.join(process.cwd(), 'data', 'local-store.json')
+)
+const SEED_PATH = path.join(process.cwd(), 'data', 'assessments.json')
+
+// ─── File I/O ─────────────────────────────────────────────────────────────────
+
+async function readSeed(): Promise<Assessment[]> {
+    try {
+        const raw = JSON.parse(await fs.readFile(SEED_PATH, 'utf8'))
+        if (!Array.isArray(raw)) return []
+        return (raw as Assessment[]).map(a => ({
+            ...a,
+            alerts:   Array.isArray(a.alerts) ? a.alerts : [],
+            evidence: Array.isArray(a.evidence) ? a.evidence : [],
+        }))
+    } catch {
+        return []
+    }
+}
+
+async function loadStore(): Promise<LocalStore> {
+    try {
+        const raw = JSON.parse(await fs.readFile(STORE_PATH, 'utf8'))
+        return {
+            version:            1,
+            assessments:        raw.assessments ?? [],
+            sessionEvents:      raw.sessionEvents ?? {},
+            incidents:          raw.incidents ?? {},
+            liveSessions:       raw.liveSessions ?? [],
+            invites:            raw.invites ?? [],
+            enrollmentProfiles: raw.enrollmentProfiles ?? [],
+            apiKeys:            raw.apiKeys ?? [],
+            policies:           raw.policies ?? [],
+            modelEvaluations:   raw.modelEvaluations ?? [],
+            identityCalibrations: raw.identityCalibrations ?? [],
+            webhookDeliveries:  raw.webhookDeliveries ?? [],
+        }
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`[db] local store unreadable at ${STORE_PATH}: ${(err as Error).message}`)
+        }
+        const seeded: LocalStore = {
+            version:            1,
+            assessments:        await readSeed(),
+            sessionEvents:      {},
+            incidents:          {},
+            liveSessions:       [],
+            invites:            [],
+            enrollmentProfiles: [],
+            apiKeys:            [],
+            policies:           [],
+            modelEvaluations:   [],
+            identityCalibrations: [],
+            webhookDeliveries:  [],
+        }
+        await persist(seeded)
+        return seeded
+    }
+}
+
+async function persist(store: LocalStore): Promise<void> {
+    await fs.mkdir(path.dirname(STORE_PATH), { recursive: true })
+    const tmp = `${STORE_PATH}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(store, null, 2), 'utf8')
+    await fs.rename(tmp, STORE_PATH)
+}
+
+// ─── Serialised access ────────────────────────────────────────────────────────
+// Every read and write goes through one promise chain so concurrent route
+// handlers in the same process never interleave a read-modify-write.
+
+let queue: Promise<unknown> = Promise.resolve()
+
+function withStore<T>(fn: (store: LocalStore) => T | Promise<T>, write = false): Promise<T> {
+    const run = queue.then(async () => {
+        const store = await loadStore()
+        const result = await fn(store)
+        if (write) await persist(store)
+        return result
+    })
+    queue = run.catch(() => undefined)
+    return run
+}
+
+function upsertById<T extends { id: string }>(list: T[], item: T) {
+    const idx = list.findIndex(x => x.id === item.id)
+    if (idx >= 0) list[idx] = item
+    else list.unshift(item)
+}
+
+// ─── Adapter ──────────────────────────────────────────────────────────────────
+
+export function createLocalAdapter(): StorageAdapter {
+    return {
+        backend: 'local',
+
+        listAssessments() {
+            return withStore(s => [...s.assessments])
+        },
+
+        getAssessment(id) {
+            return withStore(s => s.assessments.find(a => a.id === id) ?? null)
+        },
+
+        upsertAssessment(assessment) {
+            return withStore(s => upsertById(s.assessments, assessment), true)
+        },
+
+        setWebhookDelivered(id, delivered) {
+            return withStore(s => {
+                const a = s.assessments.find(x => x.id === id)
+                if (a) a.webhookDelivered = delivered
+            }, true)
+        },
+
+        appendSessionEvents(sessionId, events) {
+            return withStore(s => {
+                s.sessionEvents[sessionId] = [...(s.sessionEvents[sessionId] ?? []), ...events]
+            }, true)
+        },
+
+        getSessionEvents(sessionId) {
+            return withStore(s => [...(s.sessionEvents[sessionId] ?? [])])
+        },
+
+        appendIncidents(sessionId, entries) {
+            return withStore(s => {
+                const chain = s.incidents[sessionId] ?? []
+                entries.forEach((e, i) => {
+                    if (e.seq !== chain.length + i + 1) {
+                        throw new Error(`[db] appendIncidents: seq ${e.seq} does not continue chain of ${chain.length}`)
+                    }
+                })
+                s.incidents[sessionId] = [...chain, ...entries]
+            }, true)
+        },
+
+        listIncidents(sessionId) {
+            return withStore(s => [...(s.incidents[sessionId] ?? [])])
+        },
+
+        upsertLiveSession(session) {
+            return withStore(s => upsertById(s.liveSessions, session), true)
+        },
+
+        advanceLiveSession(id, fromSeq, { lastSeq, eventCount, lastSeenAt }) {
+            return withStore(s => {
+                const session = s.liveSessions.find(l => l.id === id)
+                if (!session || session.status !== 'live' || session.lastSeq !== fromSeq) return false
+                Object.assign(session, { lastSeq, eventCount, lastSeenAt })
+                return true
+            }, true)
+        },
+
+        getLiveSession(id) {
+            return withStore(s => s.liveSessions.find(l => l.id === id) ?? null)
+        },
+
+        listIdleLiveSessions(before) {
+            return withStore(s => s.liveSessions.filter(l => l.status === 'live' && l.lastSeenAt < before))
+        },
+
+        insertInvite(invite) {
+            return withStore(s => {
+                if (s.invites.some(i => i.id === invite.id)) throw new Error('[db] saveInvite: duplicate id')
+                s.invites.unshift(invite)
+            }, true)
+        },
+
+        getInvite(id) {
+            return withStore(s => s.invites.find(i => i.id === id) ?? null)
+        },
+
+        claimInvite(id, usedAt) {
+            return withStore(s => {
+                const invite = s.invites.find(i => i.id === id)
+                if (!invite || invite.usedAt) return false
+                invite.usedAt = usedAt
+                return true
+            }, true)
+        },
+
+        upsertEnrollmentProfile(ep) {
+            return withStore(s => upsertById(s.enrollmentProfiles, ep), true)
+        },
+
+        getEnrollmentProfile(id) {
+            return withStore(s => s.enrollmentProfiles.find(p => p.id === id) ?? null)
+        },
+
+        getLatestProfileByEmail(email, now) {
+            return withStore(s => s.enrollmentProfiles
+                .filter(p => p.candidateEmail === email && p.expiresAt > now)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null)
+        },
+
+        listProfilesByEmail(email) {
+            return withStore(s => s.enrollmentProfiles
+                .filter(p => p.candidateEmail === email)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+        },
+
+        listEnrollmentProfiles() {
+            return withStore(s => [...s.enrollmentProfiles].sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+        },
+
+        getActiveApiKey(key) {
+            return withStore(s => s.apiKeys.find(k => k.key === key && k.active) ?? null)
+        },
+
+        touchApiKey(key, usedAt) {
+            return withStore(s => {
+                const k = s.apiKeys.find(x => x.key === key)
+                if (k) k.lastUsed = usedAt
+            }, true)
+        },
+
+        insertApiKey(apiKey) {
+            return withStore(s => {
+                if (s.apiKeys.some(k => k.key === apiKey.key)) {
+                    throw new Error('[db] createApiKey: duplicate key')
+                }
+                s.apiKeys.unshift(apiKey)
+            }, true)
+        },
+
+        listApiKeys() {
+            return withStore(s => [...s.apiKeys])
+        },
+
+        insertPolicy(policy) {
+            return withStore(s => {
+                if (s.policies.some(p => p.id === policy.id && p.version === policy.version)) {
+                    throw new Error(`[db] insertPolicy: ${policy.id} v${policy.version} already exists`)
+                }
+                s.policies.unshift(policy)
+            }, true)
+        },
+
+        listPolicies() {
+            return withStore(s => [...s.policies])
+        },
+
+        insertModelEvaluations(rows) {
+            return withStore(s => { s.modelEvaluations.unshift(...[...rows].reverse()) }, true)
+        },
+
+        listModelEvaluations(filter) {
+            return withStore(s => s.modelEvaluations
+                .filter(e => !filter.sessionId || e.sessionId === filter.sessionId)
+                .filter(e => !filter.since || e.createdAt >= filter.since)
+                .slice(0, filter.limit ?? 5000))
+        },
+
+        insertIdentityCalibration(calibration) {
+            return withStore(s => { s.identityCalibrations.unshift(calibration) }, true)
+        },
+
+        getLatestIdentityCalibration() {
+            return withStore(s => s.identityCalibrations[0] ?? null)
+        },
+
+        upsertWebhookDelivery(delivery) {
+            return withStore(s => upsertById(s.webhookDeliveries, delivery), true)
+        },
+
+        getWebhookDelivery(id) {
+            return withStore(s => s.webhookDeliveries.find(d => d.id === id) ?? null)
+        },
+
+        listWebhookDeliveries(filter) {
+            return withStore(s => s.webhookDeliveries
+                .filter(d => (!filter.apiKeyId || d.apiKeyId === filter.apiKeyId)
+                    && (!filter.sessionId || d.sessionId === filter.sessionId)
+                    && (!filter.status || d.status === filter.status))
+                .slice(0, filter.limit ?? 50))
+        },
+
+        listDueWebhookDeliveries(now) {
+            return withStore(s => s.webhookDeliveries
+                .filter(d => d.status === 'pending' && (d.nextAttemptAt ?? d.createdAt) <= now)
+                .reverse())
+        },
+    }
+}
@@ -0,0 +1,743 @@
+/**
+ * Deep-Check · Supabase storage adapter
+ * Backed by Supabase (schema: deepcheck)
+ *
+ * Tables: dc_assessments, dc_session_events, dc_incidents, dc_live_sessions,
+ *         dc_invites, dc_enrollment_profiles, dc_api_keys, dc_scoring_policies,
+ *         dc_model_evaluations, dc_identity_calibrations, dc_webhook_deliveries
+ *   dc_session_events(id bigserial, session_id text, at bigint, kind text, event jsonb)
+ *   dc_incidents(session_id text, seq int, at text, kind text, source text,
+ *                data jsonb, prev_hash text, hash text, primary key (session_id, seq))
+ *     — insert-only; revoke update/delete from the service role
+ *   dc_scoring_policies(id text, version int, name text, document jsonb,
+ *                       created_at timestamptz, primary key (id, version))
+ *     — insert-only, like dc_incidents
+ *   dc_model_evaluations(id bigserial, session_id text, model_version text,
+ *                        role text, served boolean, risk int, created_at timestamptz)
+ *     — insert-only
+ *   dc_identity_calibrations(id text primary key, threshold int, target_far real,
+ *                            document jsonb, created_at timestamptz)
+ *     — insert-only
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Assessment, EnrollmentContext, EnrollmentProfile, KeystrokeProfile, ApiKey, IdentityCalibration, Invite, LiveSession, ModelEvaluation, WebhookDelivery } from '../db'
+import type { IncidentEntry } from '../incidentChain'
+import type { ScoringPolicy } from '../policy'
+import type { SessionEvent } from '../scoring'
+import type { StorageAdapter } from './types'
+
+// ─── Supabase client (server-side only) ───────────────────────────────────────
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+    ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+let client: SupabaseClient | null = null
+
+function getClient(): SupabaseClient {
+    if (!SUPABASE_URL || !SUPABASE_KEY) {
+        throw new Error('Missing Supabase env vars: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+    }
+    if (!client) {
+        client = createClient(SUPABASE_URL, SUPABASE_KEY, {
+            auth: { persistSession: false },
+        })
+    }
+    return client
+}
+
+export function isSupabaseConfigured(): boolean {
+    return Boolean(SUPABASE_URL && SUPABASE_KEY)
+}
+
+// ─── Paging ───────────────────────────────────────────────────────────────────
+// PostgREST returns at most max-rows (1000 by default) per request and drops
+// the rest silently, so unbounded reads page with .range() until a short page.
+
+const PAGE_SIZE = 1000
+
+type PageResult<T> = { data: T[] | null; error: { message: string } | null }
+
+/** Every row of an ordered query; `page` builds the query for rows from..to (inclusive) */
+async function selectAll<T>(page: (from: number, to: number) => PromiseLike<PageResult<T>>): Promise<PageResult<T>> {
+    const rows: T[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await page(from, from + PAGE_SIZE - 1)
+        if (error) return { data: null, error }
+        rows.push(...(data ?? []))
+        if (!data || data.length < PAGE_SIZE) return { data: rows, error: null }
+    }
+}
+
+// ─── Row ↔ Type mappers ───────────────────────────────────────────────────────
+
+function rowToAssessment(row: any): Assessment {
+    return {
+        id:                   row.id,
+        candidateName:        row.candidate_name,
+        candidateEmail:       row.candidate_email ?? undefined,
+        role:                 row.role,
+        date:                 typeof row.date === 'string' ? row.date : new Date(row.date).toISOString().split('T')[0],
+        score:                row.score,
+        status:               row.status,
+        alerts:               Array.isArray(row.alerts) ? row.alerts : (row.alerts ?? []),
+        evidence:             Array.isArray(row.evidence) ? row.evidence : (row.evidence ?? []),
+        lastEvent:            row.last_event,
+        livenessScore:        row.liveness_score ?? undefined,
+        aiRisk:               row.ai_risk ?? undefined,
+        keystrokeCount:       row.keystroke_count ?? undefined,
+        tabSwitchCount:       row.tab_switch_count ?? undefined,
+        gazeEventCount:       row.gaze_event_count ?? undefined,
+        autoFlagged:          row.auto_flagged ?? undefined,
+        mlExplanation:        row.ml_explanation ?? undefined,
+        aiRiskTimeline:       row.ai_risk_timeline ?? undefined,
+        enrollmentProfileId:  row.enrollment_profile_id ?? undefined,
+        identityMatchScore:   row.identity_match_score ?? undefined,
+        identityTimeline:     row.identity_timeline ?? undefined,
+        identityContext:      row.identity_context ?? undefined,
+        faceMatchScore:       row.face_match_score ?? undefined,
+        enrollmentUpdate:     row.enrollment_update ?? undefined,
+        sessionHash:          row.session_hash ?? undefined,
+        sessionHashVersion:   row.session_hash_version ?? undefined,
+        legacySessionHash:    row.legacy_session_hash ?? undefined,
+        incidentRoot:         row.incident_root ?? undefined,
+        incidentCount:        row.incident_count ?? undefined,
+        scoringPolicy:        row.scoring_policy ?? undefined,
+        certificateIssued:    row.certificate_issued ?? undefined,
+        certificate:          row.certificate ?? undefined,
+        externalRef:          row.external_ref ?? undefined,
+        apiKeyId:             row.api_key_id ?? undefined,
+        webhookDelivered:     row.webhook_delivered ?? undefined,
+    }
+}
+
+function assessmentToRow(a: Assessment) {
+    return {
+        id:                     a.id,
+        candidate_name:         a.candidateName,
+        candidate_email:        a.candidateEmail ?? null,
+        role:                   a.role,
+        date:                   a.date,
+        score:                  a.score,
+        status:                 a.status,
+        alerts:                 a.alerts,
+        evidence:               a.evidence,
+        last_event:             a.lastEvent,
+        liveness_score:         a.livenessScore ?? null,
+        ai_risk:                a.aiRisk ?? null,
+        keystroke_count:        a.keystrokeCount ?? null,
+        tab_switch_count:       a.tabSwitchCount ?? null,
+        gaze_event_count:       a.gazeEventCount ?? null,
+        auto_flagged:           a.autoFlagged ?? null,
+        ml_explanation:         a.mlExplanation ?? null,
+        ai_risk_timeline:       a.aiRiskTimeline ?? null,
+        enrollment_profile_id:  a.enrollmentProfileId ?? null,
+        identity_match_score:   a.identityMatchScore ?? null,
+        identity_timeline:      a.identityTimeline ?? null,
+        identity_context:       a.identityContext ?? null,
+        face_match_score:       a.faceMatchScore ?? null,
+        enrollment_update:      a.enrollmentUpdate ?? null,
+        session_hash:           a.sessionHash ?? null,
+        session_hash_version:   a.sessionHashVersion ?? null,
+        legacy_session_hash:    a.legacySessionHash ?? null,
+        incident_root:          a.incidentRoot ?? null,
+        incident_count:         a.incidentCount ?? null,
+        scoring_policy:         a.scoringPolicy ?? null,
+        certificate_issued:     a.certificateIssued ?? null,
+        certificate:            a.certificate ?? null,
+        external_ref:           a.externalRef ?? null,
+        api_key_id:             a.apiKeyId ?? null,
+        webhook_delivered:      a.webhookDelivered ?? null,
+    }
+}
+
+function incidentToRow(sessionId: string, e: IncidentEntry) {
+    return {
+        session_id: sessionId,
+        seq:        e.seq,
+        at:         e.at,
+        kind:       e.kind,
+        source:     e.source,
+        data:       e.data,
+        prev_hash:  e.prevHash,
+        hash:       e.hash,
+    }
+}
+
+function rowToIncident(row: ReturnType<typeof incidentToRow>): IncidentEntry {
+    return {
+        seq:      row.seq,
+        at:       row.at,
+        kind:     row.kind,
+        source:   row.source,
+        data:     row.data ?? {},
+        prevHash: row.prev_hash,
+        hash:     row.hash,
+    }
+}
+
+type LiveSessionRow = ReturnType<typeof liveSessionToRow>
+
+function rowToLiveSession(row: LiveSessionRow): LiveSession {
+    return {
+        id:            row.id,
+        status:        row.status,
+        candidateName: row.candidate_name,
+        candidateEmail: row.candidate_email ?? undefined,
+        role:          row.role,
+        timeZone:      row.time_zone ?? undefined,
+        policy:        row.scoring_policy ?? undefined,
+        enrollmentProfileId: row.enrollment_profile_id ?? undefined,
+        context:       row.context ?? undefined,
+        apiKeyId:      row.api_key_id ?? undefined,
+        inviteId:      row.invite_id ?? undefined,
+        startedAt:     row.started_at,
+        lastSeenAt:    row.last_seen_at,
+        lastSeq:       row.last_seq,
+        eventCount:    row.event_count,
+        finalizedAt:   row.finalized_at ?? undefined,
+        finalizedBy:   row.finalized_by ?? undefined,
+    }
+}
+
+function liveSessionToRow(l: LiveSession) {
+    return {
+        id:             l.id,
+        status:         l.status,
+        candidate_name: l.candidateName,
+        candidate_email: l.candidateEmail ?? null,
+        role:           l.role,
+        time_zone:      l.timeZone ?? null,
+        scoring_policy: l.policy ?? null,
+        enrollment_profile_id: l.enrollmentProfileId ?? null,
+        context:        l.context ?? null,
+        api_key_id:     l.apiKeyId ?? null,
+        invite_id:      l.inviteId ?? null,
+        started_at:     l.startedAt,
+        last_seen_at:   l.lastSeenAt,
+        last_seq:       l.lastSeq,
+        event_count:    l.eventCount,
+        finalized_at:   l.finalizedAt ?? null,
+        finalized_by:   l.finalizedBy ?? null,
+    }
+}
+
+function inviteToRow(i: Invite) {
+    return {
+        id:                    i.id,
+        session_id:            i.sessionId,
+        api_key_id:            i.apiKeyId,
+        candidate_name:        i.candidateName,
+        candidate_email:       i.candidateEmail ?? null,
+        role:                  i.role,
+        policy_id:             i.policyId ?? null,
+        enrollment_profile_id: i.enrollmentProfileId ?? null,
+        created_at:            i.createdAt,
+        expires_at:            i.expiresAt,
+        used_at:               i.usedAt ?? null,
+    }
+}
+
+function rowToInvite(row: ReturnType<typeof inviteToRow>): Invite {
+    return {
+        id:                  row.id,
+        sessionId:           row.session_id,
+        apiKeyId:            row.api_key_id,
+        candidateName:       row.candidate_name,
+        candidateEmail:      row.candidate_email ?? undefined,
+        role:                row.role,
+        policyId:            row.policy_id ?? undefined,
+        enrollmentProfileId: row.enrollment_profile_id ?? undefined,
+        createdAt:           row.created_at,
+        expiresAt:           row.expires_at,
+        usedAt:              row.used_at ?? undefined,
+    }
+}
+
+function rowToProfile(row: any): EnrollmentProfile {
+    return {
+        id:               row.id,
+        candidateName:    row.candidate_name,
+        candidateEmail:   row.candidate_email,
+        context:          row.context as EnrollmentContext,
+        createdAt:        row.created_at,
+        expiresAt:        row.expires_at,
+        profile:          row.profile as KeystrokeProfile,
+        enrollmentHash:   row.enrollment_hash,
+        faceDescriptors:  row.face_descriptors ?? undefined,
+        version:            row.version ?? undefined,
+        previousProfileId:  row.previous_profile_id ?? undefined,
+        enrollmentSessions: row.enrollment_sessions ?? undefined,
+        update:             row.template_update ?? undefined,
+    }
+}
+
+function profileToRow(ep: EnrollmentProfile) {
+    return {
+        id:               ep.id,
+        candidate_name:   ep.candidateName,
+        candidate_email:  ep.candidateEmail,
+        context:          ep.context,
+        created_at:       ep.createdAt,
+        expires_at:       ep.expiresAt,
+        profile:          ep.profile,
+        enrollment_hash:  ep.enrollmentHash,
+        face_descriptors: ep.faceDescriptors ?? null,
+        version:             ep.version ?? null,
+        previous_profile_id: ep.previousProfileId ?? null,
+        enrollment_sessions: ep.enrollmentSessions ?? null,
+        template_update:     ep.update ?? null,
+    }
+}
+
+function rowToApiKey(row: any): ApiKey {
+    return {
+        key:         row.key,
+        name:        row.name,
+        createdAt:   row.created_at,
+        lastUsed:    row.last_used ?? undefined,
+        active:      row.active,
+        permissions: row.permissions ?? [],
+        webhookUrl:  row.webhook_url ?? undefined,
+        webhookSecret: row.webhook_secret ?? undefined,
+        policyId:    row.policy_id ?? undefined,
+    }
+}
+
+function apiKeyToRow(k: ApiKey) {
+    return {
+        key:         k.key,
+        name:        k.name,
+        created_at:  k.createdAt,
+        last_used:   k.lastUsed ?? null,
+        active:      k.active,
+        permissions: k.permissions,
+        webhook_url: k.webhookUrl ?? null,
+        webhook_secret: k.webhookSecret ?? null,
+        policy_id:   k.policyId ?? null,
+    }
+}
+
+function policyToRow(p: ScoringPolicy) {
+    return {
+        id:         p.id,
+        version:    p.version,
+        name:       p.name,
+        document:   p,
+        created_at: p.createdAt ?? new Date().toISOString(),
+    }
+}
+
+function calibrationToRow(c: IdentityCalibration) {
+    return {
+        id:         c.id,
+        threshold:  c.threshold,
+        target_far: c.targetFar,
+        document:   c,
+        created_at: c.createdAt,
+    }
+}
+
+function deliveryToRow(d: WebhookDelivery) {
+    return {
+        id:              d.id,
+        event_id:        d.eventId,
+        event_type:      d.eventType,
+        api_key_id:      d.apiKeyId,
+        url:             d.url,
+        payload:         d.payload,
+        status:          d.status,
+        attempts:        d.attempts,
+        next_attempt_at: d.nextAttemptAt ?? null,
+        created_at:      d.createdAt,
+        session_id:      d.sessionId ?? null,
+        redelivery_of:   d.redeliveryOf ?? null,
+    }
+}
+
+function rowToDelivery(row: ReturnType<typeof deliveryToRow>): WebhookDelivery {
+    return {
+        id:            row.id,
+        eventId:       row.event_id,
+        eventType:     row.event_type,
+        apiKeyId:      row.api_key_id,
+        url:           row.url,
+        payload:       row.payload,
+        status:        row.status,
+        attempts:      row.attempts ?? [],
+        nextAttemptAt: row.next_attempt_at ?? undefined,
+        createdAt:     row.created_at,
+        sessionId:     row.session_id ?? undefined,
+        redeliveryOf:  row.redelivery_of ?? undefined,
+    }
+}
+
+function evaluationToRow(e: ModelEvaluation) {
+    return {
+        session_id:    e.sessionId,
+        model_version: e.modelVersion,
+        role:          e.role,
+        served:        e.served,
+        risk:          e.risk,
+        created_at:    e.createdAt,
+    }
+}
+
+function rowToEvaluation(row: ReturnType<typeof evaluationToRow>): ModelEvaluation {
+    return {
+        sessionId:    row.session_id,
+        modelVersion: row.model_version,
+        role:         row.role,
+        served:       row.served,
+        risk:         row.risk,
+        createdAt:    row.created_at,
+    }
+}
+
+// ─── Adapter ──────────────────────────────────────────────────────────────────
+
+export function createSupabaseAdapter(): StorageAdapter {
+    return {
+        backend: 'supabase',
+
+        async listAssessments() {
+            const { data, error } = await selectAll((from, to) => getClient()
+                .from('dc_assessments')
+                .select('*')
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: true })
+                .range(from, to))
+            if (error) { console.error('[db] getAssessments:', error.message); return [] }
+            return (data ?? []).map(rowToAssessment)
+        },
+
+        async getAssessment(id) {
+            const { data, error } = await getClient()
+                .from('dc_assessments')
+                .select('*')
+                .eq('id', id)
+                .single()
+            if (error) return null
+            return data ? rowToAssessment(data) : null
+        },
+
+        async upsertAssessment(assessment) {
+            const { error } = await getClient()
+                .from('dc_assessments')
+                .upsert(assessmentToRow(assessment), { onConflict: 'id' })
+            if (error) throw new Error(`[db] saveAssessment: ${error.message}`)
+        },
+
+        async setWebhookDelivered(id, delivered) {
+            const { error } = await getClient()
+                .from('dc_assessments')
+                .update({ webhook_delivered: delivered })
+                .eq('id', id)
+            if (error) throw new Error(`[db] setWebhookDelivered: ${error.message}`)
+        },
+
+        async appendSessionEvents(sessionId, events) {
+            if (events.length === 0) return
+            const rows = events.map((ev: SessionEvent) => ({
+                session_id: sessionId,
+                at:         ev.at,
+                kind:       ev.kind,
+                event:      ev,
+            }))
+            const { error } = await getClient().from('dc_session_events').insert(rows)
+            if (error) throw new Error(`[db] appendSessionEvents: ${error.message}`)
+        },
+
+        async getSessionEvents(sessionId) {
+            const { data, error } = await selectAll((from, to) => getClient()
+                .from('dc_session_events')
+                .select('event')
+                .eq('session_id', sessionId)
+                .order('id', { ascending: true })
+                .range(from, to))
+            if (error) { console.error('[db] getSessionEvents:', error.message); return [] }
+            return (data ?? []).map(row => row.event as SessionEvent)
+        },
+
+        async appendIncidents(sessionId, entries) {
+            if (entries.length === 0) return
+            const { data: last } = await getClient()
+                .from('dc_incidents')
+                .select('seq')
+                .eq('session_id', sessionId)
+                .order('seq', { ascending: false })
+                .limit(1)
+            const head = last?.[0]?.seq ?? 0
+            if (entries[0].seq !== head + 1) {
+                throw new Error(`[db] appendIncidents: seq ${entries[0].seq} does not continue chain of ${head}`)
+            }
+            // (session_id, seq) is the primary key, so a concurrent append loses here
+            const { error } = await getClient()
+                .from('dc_incidents')
+                .insert(entries.map(e => incidentToRow(sessionId, e)))
+            if (error) throw new Error(`[db] appendIncidents: ${error.message}`)
+        },
+
+        async listIncidents(sessionId) {
+            const { data, error } = await selectAll((from, to) => getClient()
+                .from('dc_incidents')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('seq', { ascending: true })
+                .range(from, to))
+            if (error) { console.error('[db] listIncidents:', error.message); return [] }
+            return (data ?? []).map(rowToIncident)
+        },
+
+        async upsertLiveSession(session) {
+            const { error } = await getClient()
+                .from('dc_live_sessions')
+                .upsert(liveSessionToRow(session), { onConflict: 'id' })
+            if (error) throw new Error(`[db] saveLiveSession: ${error.message}`)
+        },
+
+        async advanceLiveSession(id, fromSeq, { lastSeq, eventCount, lastSeenAt }) {
+            // Conditional update: of two concurrent sends of one batch only one matches last_seq
+            const { data, error } = await getClient()
+                .from('dc_live_sessions')
+                .update({ last_seq: lastSeq, event_count: eventCount, last_seen_at: lastSeenAt })
+                .eq('id', id)
+                .eq('status', 'live')
+                .eq('last_seq', fromSeq)
+                .select('id')
+            if (error) throw new Error(`[db] advanceLiveSession: ${error.message}`)
+            return (data ?? []).length === 1
+        },
+
+        async getLiveSession(id) {
+            const { data, error } = await getClient()
+                .from('dc_live_sessions')
+                .select('*')
+                .eq('id', id)
+                .single()
+            if (error) return null
+            return data ? rowToLiveSession(data) : null
+        },
+
+        async listIdleLiveSessions(before) {
+            const { data, error } = await getClient()
+                .from('dc_live_sessions')
+                .select('*')
+                .eq('status', 'live')
+                .lt('last_seen_at', before)
+            if (error) { console.error('[db] listIdleLiveSessions:', error.message); return [] }
+            return (data ?? []).map(rowToLiveSession)
+        },
+
+        async insertInvite(invite) {
+            const { error } = await getClient()
+                .from('dc_invites')
+                .insert(inviteToRow(invite))
+            if (error) throw new Error(`[db] saveInvite: ${error.message}`)
+        },
+
+        async getInvite(id) {
+            const { data, error } = await getClient()
+                .from('dc_invites')
+                .select('*')
+                .eq('id', id)
+                .single()
+            if (error || !data) return null
+            return rowToInvite(data)
+        },
+
+        async claimInvite(id, usedAt) {
+            // Conditional update: of two concurrent redemptions only one matches used_at is null
+            const { data, error } = await getClient()
+                .from('dc_invites')
+                .update({ used_at: usedAt })
+                .eq('id', id)
+                .is('used_at', null)
+                .select('id')
+            if (error) throw new Error(`[db] claimInvite: ${error.message}`)
+            return (data ?? []).length === 1
+        },
+
+        async upsertEnrollmentProfile(ep) {
+            const { error } = await getClient()
+                .from('dc_enrollment_profiles')
+                .upsert(profileToRow(ep), { onConflict: 'id' })
+            if (error) throw new Error(`[db] saveEnrollmentProfile: ${error.message}`)
+        },
+
+        async getEnrollmentProfile(id) {
+            const { data, error } = await getClient()
+                .from('dc_enrollment_profiles')
+                .select('*')
+                .eq('id', id)
+                .single()
+            if (error) return null
+            return data ? rowToProfile(data) : null
+        },
+
+        async getLatestProfileByEmail(email, now) {
+            const { data, error } = await getClient()
+                .from('dc_enrollment_profiles')
+                .select('*')
+                .eq('candidate_email', email)
+                .gt('expires_at', now)
+                .order('created_at', { ascending: false })
+                .limit(1)
+            if (error) return null
+            return data && data.length > 0 ? rowToProfile(data[0]) : null
+        },
+
+        async listProfilesByEmail(email) {
+            const { data, error } = await getClient()
+                .from('dc_enrollment_profiles')
+                .select('*')
+                .eq('candidate_email', email)
+                .order('created_at', { ascending: false })
+            if (error) { console.error('[db] listProfilesByEmail:', error.message); return [] }
+            return (data ?? []).map(rowToProfile)
+        },
+
+        async listEnrollmentProfiles() {
+            const { data, error } = await selectAll((from, to) => getClient()
+                .from('dc_enrollment_profiles')
+                .select('*')
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: true })
+                .range(from, to))
+            if (error) { console.error('[db] listEnrollmentProfiles:', error.message); return [] }
+            return (data ?? []).map(rowToProfile)
+        },
+
+        async getActiveApiKey(key) {
+            const { data, error } = await getClient()
+                .from('dc_api_keys')
+                .select('*')
+                .eq('key', key)
+                .eq('active', true)
+                .single()
+            if (error || !data) return null
+            return rowToApiKey(data)
+        },
+
+        async touchApiKey(key, usedAt) {
+            const { error } = await getClient()
+                .from('dc_api_keys')
+                .update({ last_used: usedAt })
+                .eq('key', key)
+            if (error) console.error('[db] touchApiKey:', error.message)
+        },
+
+        async insertApiKey(apiKey) {
+            const { error } = await getClient()
+                .from('dc_api_keys')
+                .insert(apiKeyToRow(apiKey))
+            if (error) throw new Error(`[db] createApiKey: ${error.message}`)
+        },
+
+        async listApiKeys() {
+            const { data, error } = await getClient()
+                .from('dc_api_keys')
+                .select('*')
+                .order('created_at', { ascending: false })
+            if (error) return []
+            return (data ?? []).map(rowToApiKey)
+        },
+
+        async insertPolicy(policy) {
+            // (id, version) is the primary key, so a concurrent publish loses here
+            const { error } = await getClient()
+                .from('dc_scoring_policies')
+                .insert(policyToRow(policy))
+            if (error) throw new Error(`[db] insertPolicy: ${error.message}`)
+        },
+
+        async listPolicies() {
+            const { data, error } = await getClient()
+                .from('dc_scoring_policies')
+                .select('document')
+                .order('created_at', { ascending: false })
+            if (error) { console.error('[db] listPolicies:', error.message); return [] }
+            return (data ?? []).map(row => row.document as ScoringPolicy)
+        },
+
+        async insertModelEvaluations(rows) {
+            const { error } = await getClient()
+                .from('dc_model_evaluations')
+                .insert(rows.map(evaluationToRow))
+            if (error) throw new Error(`[db] saveModelEvaluations: ${error.message}`)
+        },
+
+        async listModelEvaluations(filter) {
+            let query = getClient()
+                .from('dc_model_evaluations')
+                .select('session_id, model_version, role, served, risk, created_at')
+                .order('created_at', { ascending: false })
+                .limit(filter.limit ?? 5000)
+            if (filter.sessionId) query = query.eq('session_id', filter.sessionId)
+            if (filter.since)     query = query.gte('created_at', filter.since)
+            const { data, error } = await query
+            if (error) { console.error('[db] listModelEvaluations:', error.message); return [] }
+            return (data ?? []).map(rowToEvaluation)
+        },
+
+        async insertIdentityCalibration(calibration) {
+            const { error } = await getClient()
+                .from('dc_identity_calibrations')
+                .insert(calibrationToRow(calibration))
+            if (error) throw new Error(`[db] insertIdentityCalibration: ${error.message}`)
+        },
+
+        async getLatestIdentityCalibration() {
+            const { data, error } = await getClient()
+                .from('dc_identity_calibrations')
+                .select('document')
+                .order('created_at', { ascending: false })
+                .limit(1)
+            if (error) { console.error('[db] getLatestIdentityCalibration:', error.message); return null }
+            return (data?.[0]?.document as IdentityCalibration | undefined) ?? null
+        },
+
+        async upsertWebhookDelivery(delivery) {
+            const { error } = await getClient()
+                .from('dc_webhook_deliveries')
+                .upsert(deliveryToRow(delivery), { onConflict: 'id' })
+            if (error) throw new Error(`[db] saveWebhookDelivery: ${error.message}`)
+        },
+
+        async getWebhookDelivery(id) {
+            const { data, error } = await getClient()
+                .from('dc_webhook_deliveries')
+                .select('*')
+                .eq('id', id)
+                .single()
+            if (error) return null
+            return data ? rowToDelivery(data) : null
+        },
+
+        async listWebhookDeliveries(filter) {
+            let query = getClient()
+                .from('dc_webhook_deliveries')
+                .select('*')
+                .order('created_at', { ascending: false })
+                .limit(filter.limit ?? 50)
+            if (filter.apiKeyId)  query = query.eq('api_key_id', filter.apiKeyId)
+            if (filter.sessionId) query = query.eq('session_id', filter.sessionId)
+            if (filter.status)    query = query.eq('status', filter.status)
+            const { data, error } = await query
+            if (error) { console.error('[db] listWebhookDeliveries:', error.message); return [] }
+            return (data ?? []).map(rowToDelivery)
+        },
+
+        async listDueWebhookDeliveries(now) {
+            const { data, error } = await getClient()
+                .from('dc_webhook_deliveries')
+                .select('*')
+                .eq('status', 'pending')
+                .lte('next_attempt_at', now)
+                .order('next_attempt_at', { ascending: true })
+            if (error) { console.error('[db] listDueWebhookDeliveries:', error.message); return [] }
+            return (data ?? []).map(rowToDelivery)
+        },
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Deep-Check · Storage adapter contract
+ *
+ * Every persistence backend (Supabase, local JSON store, …) implements this
+ * interface. `src/lib/db.ts` is the only module that talks to an adapter —
+ * routes and pages keep importing from '@/lib/db'.
+ */
+
+import type { Assessment, EnrollmentProfile, ApiKey, IdentityCalibration, Invite, LiveSession, LiveSessionProgress, ModelEvaluation, WebhookDelivery } from '../db'
+import type { IncidentEntry } from '../incidentChain'
+import type { ScoringPolicy } from '../policy'
+import type { SessionEvent } from '../scoring'
+
+export type StorageBackend = 'supabase' | 'local'
+
+export interface WebhookDeliveryFilter {
+    apiKeyId?: string
+    sessionId?: string
+    status?: WebhookDelivery['status']
+    /** Max rows, newest first (default 50) */
+    limit?: number
+}
+
+export interface ModelEvaluationFilter {
+    sessionId?: string
+    /** Only rows created at or after this ISO time */
+    since?: string
+    /** Max rows, newest first (default 5000) */
+    limit?: number
+}
+
+export interface StorageAdapter {
+    readonly backend: StorageBackend
+
+    // ── Assessments ──────────────────────────────────────────────────────────
+    /** All assessments, newest first */
+    listAssessments(): Promise<Assessment[]>
+    getAssessment(id: string): Promise<Assessment | null>
+    /** Insert or replace by id */
+    upsertAssessment(assessment: Assessment): Promise<void>
+    /** Set webhookDelivered alone, leaving the rest of the row as stored; no-op when absent */
+    setWebhookDelivered(id: string, delivered: boolean): Promise<void>
+
+    // ── Session event log ────────────────────────────────────────────────────
+    /** Append raw events to a session's log (order preserved) */
+    appendSessionEvents(sessionId: string, events: SessionEvent[]): Promise<void>
+    /** Full event log for a session, in append order */
+    getSessionEvents(sessionId: string): Promise<SessionEvent[]>
+
+    // ── Incident log ─────────────────────────────────────────────────────────
+    /**
+     * Append linked entries to a session's incident chain. Never updates or
+     * deletes; rejects entries whose seq does not continue the stored chain.
+     */
+    appendIncidents(sessionId: string, entries: IncidentEntry[]): Promise<void>
+    /** Whole chain for a session, ordered by seq */
+    listIncidents(sessionId: string): Promise<IncidentEntry[]>
+
+    // ── Live sessions ────────────────────────────────────────────────────────
+    upsertLiveSession(session: LiveSession): Promise<void>
+    /** Apply `patch` if the session is live and still at lastSeq `fromSeq`; true only for the call that applied it */
+    advanceLiveSession(id: string, fromSeq: number, patch: LiveSessionProgress): Promise<boolean>
+    getLiveSession(id: string): Promise<LiveSession | null>
+    /** Live (not finalized) sessions with lastSeenAt before `before` (ISO) */
+    listIdleLiveSessions(before: string): Promise<LiveSession[]>
+
+    // ── Invites ──────────────────────────────────────────────────────────────
+    insertInvite(invite: Invite): Promise<void>
+    getInvite(id: string): Promise<Invite | null>
+    /** Set usedAt if still unset; true only for the call that set it */
+    claimInvite(id: string, usedAt: string): Promise<boolean>
+
+    // ── Enrollment profiles ──────────────────────────────────────────────────
+    upsertEnrollmentProfile(profile: EnrollmentProfile): Promise<void>
+    getEnrollmentProfile(id: string): Promise<EnrollmentProfile | null>
+    /** Newest profile for `email` whose expiresAt is after `now` (ISO) */
+    getLatestProfileByEmail(email: string, now: string): Promise<EnrollmentProfile | null>
+    /** Profiles for `email`, expired ones included, newest first */
+    listProfilesByEmail(email: string): Promise<EnrollmentProfile[]>
+    /** All profiles, expired ones included, newest first */
+    listEnrollmentProfiles(): Promise<EnrollmentProfile[]>
+
+    // ── API keys ─────────────────────────────────────────────────────────────
+    /** Active key record, or null if unknown / revoked */
+    getActiveApiKey(key: string): Promise<ApiKey | null>
+    touchApiKey(key: string, usedAt: string): Promise<void>
+    insertApiKey(apiKey: ApiKey): Promise<void>
+    /** All keys, newest first */
+    listApiKeys(): Promise<ApiKey[]>
+
+    // ── Scoring policies ─────────────────────────────────────────────────────
+    /** Store a published version. Rejects an (id, version) pair that already exists */
+    insertPolicy(policy: ScoringPolicy): Promise<void>
+    /** Every stored version of every policy, newest first */
+    listPolicies(): Promise<ScoringPolicy[]>
+
+    // ── Model evaluations ────────────────────────────────────────────────────
+    /** Append per-model scores; rows are never updated */
+    insertModelEvaluations(rows: ModelEvaluation[]): Promise<void>
+    /** Newest first */
+    listModelEvaluations(filter: ModelEvaluationFilter): Promise<ModelEvaluation[]>
+
+    // ── Identity calibrations ────────────────────────────────────────────────
+    /** Append a calibration; rows are never updated */
+    insertIdentityCalibration(calibration: IdentityCalibration): Promise<void>
+    /** Newest calibration, or null before the first one */
+    getLatestIdentityCalibration(): Promise<IdentityCalibration | null>
+
+    // ── Webhook deliveries ───────────────────────────────────────────────────
+    upsertWebhookDelivery(delivery: WebhookDelivery): Promise<void>
+    getWebhookDelivery(id: string): Promise<WebhookDelivery | null>
+    /** Newest first */
+    listWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]>
+    /** Pending deliveries with nextAttemptAt <= `now` (ISO), oldest first */
+    listDueWebhookDeliveries(now: string): Promise<WebhookDelivery[]>
+}
@@ -0,0 +1,124 @@
+/**
+ * Deep-Check · Offline certificate verification
+ * ==============================================
+ * Depends only on canonical.ts and runs anywhere with WebCrypto Ed25519
+ * (Node ≥ 20, current browsers, Deno, Workers). Third parties can copy both
+ * files, pin our JWKS (GET /.well-known/jwks.json) and verify a certificate
+ * without calling the Deep-Check API.
+ *
+ *   const result = await verifyCertificate(certificate, jwks)
+ *   if (result.valid) console.log(result.payload.score, result.payload.status)
+ *
+ * The signature is Ed25519 over the UTF-8 bytes of canonicalJson(payload).
+ */
+
+import { canonicalJson } from './canonical'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CertificatePayload {
+    /** Payload format version — v2 adds the incident log root */
+    v: 1 | 2
+    issuer: string
+    sessionId: string
+    issuedAt: string
+    candidateName: string
+    role: string
+    date: string
+    score: number
+    status: 'passed' | 'review' | 'flagged'
+    autoFlagged: boolean
+    alertCount: number
+    livenessScore: number | null
+    aiRisk: number | null
+    keystrokeCount: number | null
+    tabSwitchCount: number | null
+    gazeEventCount: number | null
+    identityMatchScore: number | null
+    /** SHA-256 session hash, as printed on the PDF */
+    sessionHash: string
+    /** v2: hash of the last incident log entry when issued (see incidentChain.ts) */
+    incidentRoot?: string | null
+    /** v2: number of incident log entries when issued */
+    incidentCount?: number
+}
+
+export interface SignedCertificate {
+    alg: 'EdDSA'
+    /** JWK thumbprint of the signing key */
+    kid: string
+    payload: CertificatePayload
+    /** base64url Ed25519 signature over canonicalJson(payload) */
+    signature: string
+}
+
+export interface CertificatePublicJwk {
+    kty: 'OKP'
+    crv: 'Ed25519'
+    x: string
+    kid?: string
+    alg?: string
+    use?: string
+}
+
+export type CertificateVerification =
+    | { valid: true; kid: string; payload: CertificatePayload }
+    | { valid: false; reason: 'malformed' | 'unsupported_alg' | 'unknown_key' | 'bad_signature'; kid?: string }
+
+// ─── Encoding ─────────────────────────────────────────────────────────────────
+
+export function base64UrlToBytes(input: string): Uint8Array<ArrayBuffer> {
+    const b64 = input.replace(/-/g, '+').replace(/_/g, '/')
+    const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4))
+    const out = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+    return out
+}
+
+// ─── Verify ───────────────────────────────────────────────────────────────────
+
+function isCertificate(input: unknown): input is SignedCertificate {
+    const c = input as SignedCertificate | null
+    return !!c && typeof c === 'object'
+        && typeof c.alg === 'string'
+        && typeof c.kid === 'string'
+        && typeof c.signature === 'string'
+        && !!c.payload && typeof c.payload === 'object'
+        && typeof c.payload.sessionId === 'string'
+}
+
+/**
+ * Check a certificate against a JWKS (or a bare list of JWKs).
+ * Never throws — every failure comes back as `{ valid: false, reason }`.
+ */
+export async function verifyCertificate(
+    certificate: unknown,
+    jwks: { keys: CertificatePublicJwk[] } | CertificatePublicJwk[]
+): Promise<CertificateVerification> {
+    if (!isCertificate(certificate)) return { valid: false, reason: 'malformed' }
+    const { alg, kid, payload, signature } = certificate
+    if (alg !== 'EdDSA') return { valid: false, reason: 'unsupported_alg', kid }
+
+    const keys = Array.isArray(jwks) ? jwks : jwks.keys
+    const jwk = keys.find(k => k.kid === kid && k.kty === 'OKP' && k.crv === 'Ed25519')
+    if (!jwk) return { valid: false, reason: 'unknown_key', kid }
+
+    try {
+        const key = await crypto.subtle.importKey(
+            'jwk',
+            { kty: 'OKP', crv: 'Ed25519', x: jwk.x },
+            { name: 'Ed25519' },
+            false,
+            ['verify']
+        )
+        const ok = await crypto.subtle.verify(
+            { name: 'Ed25519' },
+            key,
+            base64UrlToBytes(signature),
+            new TextEncoder().encode(canonicalJson(payload))
+        )
+        return ok ? { valid: true, kid, payload } : { valid: false, reason: 'bad_signature', kid }
+    } catch {
+        return { valid: false, reason: 'malformed', kid }
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * Deep-Check · Webhook delivery (server-side)
+ * ============================================
+ * Every event is fanned out to the API keys that should hear about it and
+ * logged as one WebhookDelivery per key. Each request carries:
+ *
+ *   X-DeepCheck-Event:      session.completed | session.flagged | session.reviewed | enrollment.created
+ *   X-DeepCheck-Delivery:   whd_…  (unique per delivery, reused across retries)
+ *   X-DeepCheck-Timestamp:  unix seconds of this attempt
+ *   X-DeepCheck-Signature:  sha256=HMAC_SHA256(webhookSecret, `${timestamp}.${raw JSON body}`)
+ *
+ * The timestamp is signed with the body, so a receiver that also rejects
+ * timestamps older than WEBHOOK_TOLERANCE_S refuses replayed requests.
+ *
+ * Non-2xx responses and network errors are retried with exponential backoff
+ * (base DEEPCHECK_WEBHOOK_RETRY_BASE_MS, default 30s, doubling) up to
+ * DEEPCHECK_WEBHOOK_MAX_ATTEMPTS (default 6). Retries run on an in-process
+ * timer and are also picked up opportunistically by processDueDeliveries().
+ */
+
+import crypto from 'crypto'
+import {
+    ApiKey,
+    Assessment,
+    EnrollmentProfile,
+    WebhookDelivery,
+    WebhookEventType,
+    apiKeyId,
+    getApiKeysList,
+    getAssessmentById,
+    getDueWebhookDeliveries,
+    getWebhookDeliveries,
+    getWebhookDelivery,
+    saveWebhookDelivery,
+    setWebhookDelivered,
+} from './db'
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+const RETRY_BASE_MS   = Number(process.env.DEEPCHECK_WEBHOOK_RETRY_BASE_MS) || 30_000
+const MAX_ATTEMPTS    = Number(process.env.DEEPCHECK_WEBHOOK_MAX_ATTEMPTS) || 6
+const TIMEOUT_MS      = 10_000
+const USER_AGENT      = 'DeepCheck-Webhooks/1.0'
+/** Largest clock difference verifyWebhookSignature accepts, in seconds */
+export const WEBHOOK_TOLERANCE_S = 5 * 60
+
+// ─── Event payloads ───────────────────────────────────────────────────────────
+
+export interface WebhookEvent<T = unknown> {
+    id: string
+    type: WebhookEventType
+    createdAt: string
+    data: T
+}
+
+/** Session as sent to receivers — evidence images stripped */
+export function sessionPayload(a: Assessment) {
+    const { evidence, ...rest } = a
+    return { ...rest, evidenceCount: evidence?.length ?? 0 }
+}
+
+/** Enrollment as sent to receivers — raw biometric template stripped */
+export function enrollmentPayload(ep: EnrollmentProfile) {
+    const { profile, faceDescriptors, ...rest } = ep
+    return { ...rest, sampleSize: profile.sampleSize, faceSamples: faceDescriptors?.length ?? 0 }
+}
+
+// ─── Signing ──────────────────────────────────────────────────────────────────
+
+/** `timestamp` is the X-DeepCheck-Timestamp value, unix seconds */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Constant-time check of the X-DeepCheck-Signature and X-DeepCheck-Timestamp
+ * headers — for receivers. Timestamps further than WEBHOOK_TOLERANCE_S from
+ * `now` are refused, so a captured request cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    body: string,
+    signature: string | null,
+    timestamp: string | null,
+    now = Date.now()
+): boolean {
+    if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false
+    if (Math.abs(now / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_S) return false
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+    const given = Buffer.from(signature)
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+// ─── Dispatch ─────────────────────────────────────────────────────────────────
+
+function recipients(keys: ApiKey[], ownerKeyId?: string): ApiKey[] {
+    return keys.filter(k =>
+        k.active
+        && !!k.webhookUrl
+        && k.permissions.includes('webhook')
+        // Sessions created through a key only go to that key; untagged
+        // sessions (e.g. from /interview) go to every subscribed key.
+        && (!ownerKeyId || apiKeyId(k.key) === ownerKeyId))
+}
+
+/**
+ * Record one delivery per subscribed key and fire the first attempt.
+ * Never throws — webhook problems must not fail the request that caused them.
+ */
+export async function dispatchWebhookEvent(
+    type: WebhookEventType,
+    data: unknown,
+    opts: { ownerKeyId?: string; sessionId?: string } = {}
+): Promise<WebhookDelivery[]> {
+    try {
+        const targets = recipients(await getApiKeysList(), opts.ownerKeyId)
+        if (targets.length === 0) return []
+
+        const event: WebhookEvent = {
+            id:        `evt_${crypto.randomBytes(12).toString('hex')}`,
+            type,
+            createdAt: new Date().toISOString(),
+            data,
+        }
+        const payload = JSON.stringify(event)
+        const deliveries: WebhookDelivery[] = []
+
+        for (const key of targets) {
+            const delivery: WebhookDelivery = {
+                id:            `whd_${crypto.randomBytes(12).toString('hex')}`,
+                eventId:       event.id,
+                eventType:     type,
+                apiKeyId:      apiKeyId(key.key),
+                url:           key.webhookUrl!,
+                payload,
+                status:        'pending',
+                attempts:      [],
+                nextAttemptAt: event.createdAt,
+                createdAt:     event.createdAt,
+                sessionId:     opts.sessionId,
+            }
+            await saveWebhookDelivery(delivery)
+            deliveries.push(delivery)
+        }
+
+        if (opts.sessionId) await refreshWebhookDelivered(opts.sessionId)
+        for (const d of deliveries) void attemptDelivery(d.id)
+        return deliveries
+    } catch (err) {
+        console.error(`[webhooks] dispatch ${type} failed:`, err)
+        return []
+    }
+}
+
+/** Session lifecycle events emitted when a session is scored */
+export async function dispatchSessionFinalized(a: Assessment): Promise<void> {
+    const opts = { ownerKeyId: a.apiKeyId, sessionId: a.id }
+    await dispatchWebhookEvent('session.completed', sessionPayload(a), opts)
+    if (a.status === 'flagged') {
+        await dispatchWebhookEvent('session.flagged', sessionPayload(a), opts)
+    }
+}
+
+export async function dispatchSessionReviewed(
+    a: Assessment,
+    review: { previousStatus: Assessment['status']; reviewNote?: string; source: 'dashboard' | 'api' }
+): Promise<void> {
+    const opts = { ownerKeyId: a.apiKeyId, sessionId: a.id }
+    await dispatchWebhookEvent('session.reviewed', { ...sessionPayload(a), review }, opts)
+    if (a.status === 'flagged' && review.previousStatus !== 'flagged') {
+        await dispatchWebhookEvent('session.flagged', sessionPayload(a), opts)
+    }
+}
+
+// ─── Attempts ─────────────────────────────────────────────────────────────────
+
+const inFlight = new Set<string>()
+
+function backoffMs(attemptsMade: number): number {
+    return RETRY_BASE_MS * 2 ** (attemptsMade - 1)
+}
+
+/** Make one attempt for a pending delivery and schedule the next if it fails */
+export async function attemptDelivery(id: string): Promise<WebhookDelivery | null> {
+    if (inFlight.has(id)) return null
+    inFlight.add(id)
+    try {
+        const delivery = await getWebhookDelivery(id)
+        if (!delivery || delivery.status !== 'pending') return delivery
+
+        const key = (await getApiKeysList()).find(k => apiKeyId(k.key) === delivery.apiKeyId)
+        const started = Date.now()
+        let statusCode: number | undefined
+        let error: string | undefined
+
+        if (!key?.active) {
+            error = 'API key revoked or deleted'
+        } else if (!key.webhookSecret) {
+            error = 'API key has no webhook signing secret — create a new key'
+        } else {
+            const timestamp = String(Math.floor(started / 1000))
+            try {
+                const res = await fetch(delivery.url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type':          'application/json',
+                        'User-Agent':            USER_AGENT,
+                        'X-DeepCheck-Event':     delivery.eventType,
+                        'X-DeepCheck-Delivery':  delivery.id,
+                        'X-DeepCheck-Timestamp': timestamp,
+                        'X-DeepCheck-Signature': signWebhookPayload(key.webhookSecret, timestamp, delivery.payload),
+                    },
+                    body: delivery.payload,
+                    redirect: 'manual',
+                    signal: AbortSignal.timeout(TIMEOUT_MS),
+                })
+                statusCode = res.status
+                if (!res.ok) error = `HTTP ${res.status}`
+            } catch (err) {
+                error = (err as Error).name === 'TimeoutError' ? `Timed out after ${TIMEOUT_MS}ms` : (err as Error).message
+            }
+        }
+
+        const attempts = [...delivery.attempts, {
+            at: new Date(started).toISOString(),
+            ...(statusCode !== undefined ? { statusCode } : {}),
+            ...(error ? { error } : {}),
+            durationMs: Date.now() - started,
+        }]
+        const terminal = !key?.active || !key.webhookSecret
+        const succeeded = !error
+        const exhausted = attempts.length >= MAX_ATTEMPTS
+
+        const updated: WebhookDelivery = {
+            ...delivery,
+            attempts,
+            status:        succeeded ? 'succeeded' : (terminal || exhausted) ? 'failed' : 'pending',
+            nextAttemptAt: succeeded || terminal || exhausted
+                ? undefined
+                : new Date(Date.now() + backoffMs(attempts.length)).toISOString(),
+        }
+        await saveWebhookDelivery(updated)
+        if (updated.sessionId) await refreshWebhookDelivered(updated.sessionId)
+
+        if (updated.status === 'pending') {
+            const timer = setTimeout(() => { void attemptDelivery(id) }, backoffMs(attempts.length))
+            timer.unref?.()
+        }
+        return updated
+    } catch (err) {
+        console.error(`[webhooks] attempt ${id} failed:`, err)
+        return null
+    } finally {
+        inFlight.delete(id)
+    }
+}
+
+/** Retry every delivery whose backoff has elapsed. Returns how many were attempted. */
+export async function processDueDeliveries(now = new Date()): Promise<number> {
+    const due = await getDueWebhookDeliveries(now.toISOString())
+    for (const d of due) await attemptDelivery(d.id)
+    return due.length
+}
+
+/**
+ * Send an existing delivery's event again as a new delivery (same event id,
+ * fresh attempt log). Returns the new delivery after its first attempt.
+ */
+export async function redeliver(original: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const now = new Date().toISOString()
+    const copy: WebhookDelivery = {
+        ...original,
+        id:            `whd_${crypto.randomBytes(12).toString('hex')}`,
+        status:        'pending',
+        attempts:      [],
+        nextAttemptAt: now,
+        createdAt:     now,
+        redeliveryOf:  original.id,
+    }
+    await saveWebhookDelivery(copy)
+    return attemptDelivery(copy.id)
+}
+
+// ─── Assessment.webhookDelivered ──────────────────────────────────────────────
+
+/** true once every delivery for the session has succeeded */
+async function refreshWebhookDelivered(sessionId: string): Promise<void> {
+    const deliveries = await getWebhookDeliveries({ sessionId, limit: 500 })
+    // A successful redelivery supersedes the failed original
+    const superseded = new Set(deliveries.filter(d => d.status === 'succeeded' && d.redeliveryOf).map(d => d.redeliveryOf!))
+    const delivered = deliveries.length > 0
+        && deliveries.every(d => d.status === 'succeeded' || superseded.has(d.id))
+    // Only this field: a full-row save could undo a concurrent review or finalization
+    const assessment = await getAssessmentById(sessionId)
+    if (assessment && assessment.webhookDelivered !== delivered) {
+        await setWebhookDelivered(sessionId, delivered)
+    }
+}